@@ -0,0 +1,71 @@
+import React from 'react';
+import { FileText, FileSpreadsheet, File as FileIcon, X } from 'lucide-react';
+import { MessageAttachment } from '../types';
+import { formatFileSize, getAttachmentUrl } from '../lib/attachments';
+
+interface AttachmentChipProps {
+  attachment: MessageAttachment;
+  // Shown in the input before sending; sent attachments open the file instead
+  onRemove?: () => void;
+}
+
+const KIND_ICONS = {
+  pdf: FileText,
+  csv: FileSpreadsheet,
+  xlsx: FileSpreadsheet,
+  text: FileIcon
+};
+
+export const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment, onRemove }) => {
+  const Icon = KIND_ICONS[attachment.kind] || FileIcon;
+  const details = `${attachment.kind.toUpperCase()} · ${formatFileSize(attachment.size)}${attachment.truncated ? ' · partially read' : ''}`;
+
+  const content = (
+    <>
+      <Icon className="w-4 h-4 flex-shrink-0 text-blue-300" />
+      <span className="min-w-0">
+        <span className="block truncate font-medium">{attachment.name}</span>
+        <span className="block text-[10px] opacity-70">{details}</span>
+      </span>
+    </>
+  );
+
+  if (onRemove) {
+    return (
+      <div className="flex items-center space-x-2 rounded-lg border border-gray-600 bg-gray-800 text-gray-200 px-3 py-1.5 text-xs max-w-xs">
+        {content}
+        <button
+          onClick={onRemove}
+          className="p-0.5 hover:bg-gray-700 rounded transition-colors flex-shrink-0"
+          title="Remove attachment"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  }
+
+  // The bucket is private, so each click gets a fresh signed link. The tab is opened
+  // before the link is ready so popup blockers still treat it as a click.
+  const handleOpen = async () => {
+    const newTab = window.open('', '_blank');
+    const url = await getAttachmentUrl(attachment);
+    if (!newTab) return;
+    if (url) {
+      newTab.opener = null;
+      newTab.location.href = url;
+    } else {
+      newTab.close();
+    }
+  };
+
+  return (
+    <button
+      onClick={handleOpen}
+      className="flex items-center space-x-2 rounded-lg border border-white/20 bg-black/20 hover:bg-black/30 text-white px-3 py-1.5 text-xs text-left max-w-xs transition-colors"
+      title={attachment.textPreview ? `Open ${attachment.name}\n\n${attachment.textPreview}` : `Open ${attachment.name}`}
+    >
+      {content}
+    </button>
+  );
+};
@@ -1,11 +1,17 @@
-import React, { useEffect, useRef, useCallback, useState } from 'react';
+import React, { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { MessageBubble } from './MessageBubble';
 import { LoadingIndicator } from './LoadingIndicator';
 import { ChatInput } from './ChatInput';
+import { FollowUpSuggestions } from './FollowUpSuggestions';
 import { VisualizationView } from './VisualizationView';
 import { useChat } from '../hooks/useChat';
 import { useFavorites } from '../hooks/useFavorites';
 import { useVisualization } from '../hooks/useVisualization';
+import { useReportsContext } from '../contexts/ReportsContext';
+import { SlashCommand, createFavoriteCommand, createReportCommand } from '../lib/slashCommands';
+import { ReportDraft, createReportDraft } from '../lib/reportDrafts';
+import { getMessageFollowUps } from '../lib/astraProvider';
+import { Message } from '../types';
 
 interface ChatContainerProps {
   sidebarOpen: boolean;
@@ -15,6 +21,13 @@ interface ChatContainerProps {
   onConversationLoaded: () => void;
   onNewChatStarted: () => void;
   onConversationChange: (conversationId: string | null) => void;
+  messageToJumpTo?: string | null;
+  onJumpedToMessage?: () => void;
+  onExportConversation?: (conversationId: string) => void;
+  // A prompt picked elsewhere (e.g. the command palette) to put in the input
+  promptToInsert?: string | null;
+  onPromptInserted?: () => void;
+  onScheduleReport?: (draft: ReportDraft) => void;
 }
 
 export const ChatContainer: React.FC<ChatContainerProps> = ({
@@ -24,7 +37,13 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
   shouldStartNewChat,
   onConversationLoaded,
   onNewChatStarted,
-  onConversationChange
+  onConversationChange,
+  messageToJumpTo,
+  onJumpedToMessage,
+  onExportConversation,
+  promptToInsert,
+  onPromptInserted,
+  onScheduleReport
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [isCreatingVisualization, setIsCreatingVisualization] = useState(false);
@@ -32,9 +51,13 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
   const {
     messages,
     isLoading,
+    isStreaming,
+    retryAttempt,
     inputValue,
     setInputValue,
     sendMessage,
+    stopResponse,
+    retryMessage,
     toggleMessageExpansion,
     loadConversation,
     startNewConversation,
@@ -45,7 +68,10 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
     updateVisualizationData,
     replyState,
     startReply,
-    cancelReply
+    cancelReply,
+    regenerateResponse,
+    editMessage,
+    switchBranch
   } = useChat();
 
   // Notify parent component when conversation changes
@@ -58,7 +84,11 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
     favorites,
     toggleFavorite,
     isFavorited,
-    removeFromFavorites
+    addToFavorites,
+    removeFromFavorites,
+    updateFavorite,
+    recordFavoriteUse,
+    reloadFavorites
   } = useFavorites();
 
   const {
@@ -147,6 +177,45 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
     }
   }, [shouldStartNewChat, startNewConversation, onNewChatStarted]);
 
+  useEffect(() => {
+    if (promptToInsert === null || promptToInsert === undefined) return;
+    setInputValue(promptToInsert);
+    onPromptInserted?.();
+    setTimeout(() => document.querySelector<HTMLTextAreaElement>('[data-chat-input]')?.focus(), 0);
+  }, [promptToInsert, setInputValue, onPromptInserted]);
+
+  // Scroll to and highlight the message a reply quotes (parent ids are database ids)
+  const scrollToMessage = useCallback((parentMessageId: string) => {
+    const target = messages.find(msg => msg.chatId === parentMessageId || msg.id === `${parentMessageId}-user`);
+    const messageElement = target ? document.getElementById(`message-${target.id}`) : null;
+    if (messageElement) {
+      messageElement.scrollIntoView({
+        behavior: 'smooth',
+        block: 'center'
+      });
+
+      messageElement.classList.add('message-highlight');
+      setTimeout(() => {
+        messageElement.classList.remove('message-highlight');
+      }, 3000);
+    }
+  }, [messages]);
+
+  // Jump to a message opened from search once its conversation has rendered
+  useEffect(() => {
+    if (!messageToJumpTo || isLoading) return;
+
+    const isRendered = messages.some(msg => msg.chatId === messageToJumpTo || msg.id === `${messageToJumpTo}-user`);
+    if (!isRendered) return;
+
+    // Wait for the scroll-to-bottom that follows a conversation load
+    const timeout = setTimeout(() => {
+      scrollToMessage(messageToJumpTo);
+      onJumpedToMessage?.();
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [messageToJumpTo, messages, isLoading, scrollToMessage, onJumpedToMessage]);
+
   // Handle visualization creation for private chat
   const handleCreateVisualization = useCallback(async (messageId: string, messageContent: string) => {
     console.log('🎯 Private chat: Starting visualization generation for chatId:', messageId);
@@ -199,6 +268,60 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
     }
   }, [generateVisualization, updateVisualizationState]);
 
+  const { userReports, runReportNow } = useReportsContext();
+
+  // `/commands` typed into the private chat input
+  const slashCommands = useMemo<SlashCommand[]>(() => [
+    createReportCommand(userReports, runReportNow),
+    {
+      name: 'visualize',
+      description: 'Create a visualization of the latest Astra answer',
+      run: () => {
+        const latestAnswer = [...messages].reverse().find(msg => !msg.isUser && msg.chatId && !msg.isStreaming);
+        if (!latestAnswer?.chatId) throw new Error('There is no Astra answer to visualize yet');
+        handleCreateVisualization(latestAnswer.chatId, latestAnswer.text);
+        return 'Creating a visualization of the latest answer...';
+      }
+    },
+    {
+      name: 'export',
+      description: 'Export this conversation',
+      run: () => {
+        if (!currentConversationId || !onExportConversation) throw new Error('Start a conversation before exporting it');
+        onExportConversation(currentConversationId);
+      }
+    },
+    createFavoriteCommand(
+      () => [...messages].reverse().find(msg => msg.isUser)?.text,
+      isFavorited,
+      (text) => addToFavorites(`slash-${Date.now()}`, text)
+    ),
+    {
+      name: 'new',
+      description: 'Start a new conversation',
+      run: () => {
+        startNewConversation();
+      }
+    }
+  ], [userReports, runReportNow, messages, handleCreateVisualization, currentConversationId, onExportConversation, isFavorited, addToFavorites, startNewConversation]);
+
+  // The question an Astra answer responds to is the closest user message before it
+  const handleScheduleReport = useCallback((message: Message) => {
+    if (!onScheduleReport) return;
+
+    const index = messages.findIndex(m => m.id === message.id);
+    const question = messages.slice(0, index).reverse().find(m => m.isUser);
+    if (!question) return;
+
+    onScheduleReport(createReportDraft(question.text, message.chatId || null));
+  }, [messages, onScheduleReport]);
+
+  // Follow-up chips only belong to the answer that ends the conversation
+  const latestAnswer = messages[messages.length - 1];
+  const followUps = latestAnswer && !latestAnswer.isUser && !latestAnswer.isCentered && !latestAnswer.isStreaming
+    ? getMessageFollowUps(latestAnswer.metadata)
+    : [];
+
   // Handle viewing visualization for private chat
   const handleViewVisualization = useCallback((messageId: string) => {
     console.log('👁️ Private chat: handleViewVisualization called for messageId:', messageId);
@@ -314,11 +437,24 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
                 isFavorited={isFavorited(message.id)}
                 visualizationState={getLocalVisualizationState(message.chatId || message.id)}
                 onReply={startReply}
+                onJumpToMessage={scrollToMessage}
+                onRegenerate={regenerateResponse}
+                onEdit={editMessage}
+                onSwitchBranch={switchBranch}
+                onRetry={retryMessage}
+                onScheduleReport={onScheduleReport ? handleScheduleReport : undefined}
+                isBusy={isLoading}
               />
+              {message.id === latestAnswer?.id && !isLoading && (
+                <FollowUpSuggestions
+                  suggestions={followUps}
+                  onSelect={(text) => sendMessage(text)}
+                />
+              )}
             </div>
           ))}
         
-          {isLoading && <LoadingIndicator />}
+          {isLoading && !isStreaming && <LoadingIndicator retryAttempt={retryAttempt} />}
         
           <div ref={messagesEndRef} />
         </div>
@@ -328,12 +464,18 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({
         <ChatInput
           value={inputValue}
           onChange={setInputValue}
-          onSend={sendMessage}
+          onSend={(text, attachments) => sendMessage(text, { attachments })}
           disabled={isLoading}
           favorites={favorites}
           onRemoveFavorite={removeFromFavorites}
+          onUpdateFavorite={updateFavorite}
+          onUseFavorite={recordFavoriteUse}
+          onFavoritesChanged={reloadFavorites}
          replyState={replyState}
          onCancelReply={cancelReply}
+          onStop={stopResponse}
+          isGenerating={isLoading}
+          slashCommands={slashCommands}
         />
       </div>
     </div>
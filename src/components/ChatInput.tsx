@@ -1,17 +1,44 @@
-import React, { KeyboardEvent } from 'react';
-import { Send, Bookmark, X, Reply } from 'lucide-react';
+import React, { KeyboardEvent, useRef, useState } from 'react';
+import { Send, X, Reply, Square, Paperclip, Loader2, AlertCircle } from 'lucide-react';
 import { FavoritesDropdown } from './FavoritesDropdown';
-import { FavoriteMessage, ReplyState } from '../types';
+import { SharedPromptLibraryModal } from './SharedPromptLibraryModal';
+import { SlashCommandMenu, SlashCommandStatus } from './SlashCommandMenu';
+import { useSlashCommands } from '../hooks/useSlashCommands';
+import { AttachmentChip } from './AttachmentChip';
+import { useAuth } from '../contexts/AuthContext';
+import { FavoriteMessage, FavoriteUpdate, MessageAttachment, ReplyState, SharedPromptDraft } from '../types';
+import { ATTACHMENT_ACCEPT, deleteAttachment, prepareAttachment, validateAttachment } from '../lib/attachments';
+import { SlashCommand } from '../lib/slashCommands';
+
+// A file being uploaded and read, or ready to go out with the next message
+interface PendingAttachment {
+  localId: string;
+  name: string;
+  status: 'processing' | 'ready' | 'error';
+  attachment?: MessageAttachment;
+  error?: string;
+}
+
+const NO_COMMANDS: SlashCommand[] = [];
 
 interface ChatInputProps {
   value: string;
   onChange: (value: string) => void;
-  onSend: (message: string) => void;
+  onSend: (message: string, attachments: MessageAttachment[]) => void;
   disabled: boolean;
   favorites?: FavoriteMessage[];
   onRemoveFavorite?: (messageId: string) => void;
+  onUpdateFavorite?: (favoriteId: string, updates: FavoriteUpdate) => void;
+  onUseFavorite?: (favoriteId: string) => void;
+  // Called after a team library prompt is copied into the saved prompts
+  onFavoritesChanged?: () => void;
   replyState?: ReplyState;
   onCancelReply?: () => void;
+  // While Astra is answering the send button becomes a stop button
+  onStop?: () => void;
+  isGenerating?: boolean;
+  // `/commands` offered with autocomplete while typing
+  slashCommands?: SlashCommand[];
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({
@@ -21,19 +48,81 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   disabled,
   favorites = [],
   onRemoveFavorite,
+  onUpdateFavorite,
+  onUseFavorite,
+  onFavoritesChanged,
   replyState,
-  onCancelReply
+  onCancelReply,
+  onStop,
+  isGenerating = false,
+  slashCommands = NO_COMMANDS
 }) => {
-  const handleKeyPress = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [libraryDraft, setLibraryDraft] = useState<SharedPromptDraft | null>(null);
+  const slash = useSlashCommands(value, onChange, slashCommands);
+
+  const readyAttachments = pendingAttachments
+    .filter(pending => pending.status === 'ready' && pending.attachment)
+    .map(pending => pending.attachment as MessageAttachment);
+  const isProcessingAttachments = pendingAttachments.some(pending => pending.status === 'processing');
+  const canSend = !disabled && !isProcessingAttachments && (!!value.trim() || readyAttachments.length > 0);
+
+  const handleSubmit = async () => {
+    if (!canSend) return;
+    if (readyAttachments.length === 0 && await slash.runCommand(value)) return;
+    onSend(value, readyAttachments);
+    setPendingAttachments([]);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slash.handleKeyDown(e)) return;
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      onSend(value);
+      handleSubmit();
     }
   };
 
-  const handleSubmit = () => {
-    if (value.trim() && !disabled) {
-      onSend(value);
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Clear the input so the same file can be picked again
+    event.target.value = '';
+    if (!user || files.length === 0) return;
+
+    let attachedCount = pendingAttachments.filter(pending => pending.status !== 'error').length;
+    files.forEach(file => {
+      const localId = `${Date.now()}-${Math.random().toString(36).substring(2)}`;
+      const validationError = validateAttachment(file, attachedCount);
+      if (validationError) {
+        setPendingAttachments(prev => [...prev, { localId, name: file.name, status: 'error', error: validationError }]);
+        return;
+      }
+
+      attachedCount++;
+      setPendingAttachments(prev => [...prev, { localId, name: file.name, status: 'processing' }]);
+      prepareAttachment(file, user.id)
+        .then(attachment => {
+          setPendingAttachments(prev => prev.map(pending =>
+            pending.localId === localId ? { ...pending, status: 'ready', attachment } : pending
+          ));
+        })
+        .catch(err => {
+          console.error('Error preparing attachment:', err);
+          setPendingAttachments(prev => prev.map(pending =>
+            pending.localId === localId
+              ? { ...pending, status: 'error', error: err instanceof Error ? err.message : `Failed to read ${file.name}` }
+              : pending
+          ));
+        });
+    });
+  };
+
+  const handleRemoveAttachment = (pending: PendingAttachment) => {
+    setPendingAttachments(prev => prev.filter(item => item.localId !== pending.localId));
+    if (pending.attachment) {
+      deleteAttachment(pending.attachment);
     }
   };
 
@@ -41,6 +130,21 @@ export const ChatInput: React.FC<ChatInputProps> = ({
     onChange(text);
   };
 
+  // A filled-in prompt goes out with any attachments; while Astra is busy it is inserted instead
+  const handleSendFavorite = (text: string) => {
+    if (disabled || isProcessingAttachments) {
+      onChange(text);
+      return;
+    }
+    onSend(text, readyAttachments);
+    setPendingAttachments([]);
+  };
+
+  const handleOpenLibrary = (draft?: SharedPromptDraft) => {
+    setLibraryDraft(draft || null);
+    setIsLibraryOpen(true);
+  };
+
   return (
     <div className="bg-gray-900 border-t border-gray-700 p-3 md:p-4 safe-area-padding-bottom">
       {/* Reply Preview */}
@@ -67,6 +171,54 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         </div>
       )}
       
+      {/* Attachments waiting to be sent */}
+      {pendingAttachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3 max-w-4xl mx-auto">
+          {pendingAttachments.map(pending => pending.status === 'ready' && pending.attachment ? (
+            <AttachmentChip
+              key={pending.localId}
+              attachment={pending.attachment}
+              onRemove={() => handleRemoveAttachment(pending)}
+            />
+          ) : (
+            <div
+              key={pending.localId}
+              className={`flex items-center space-x-2 rounded-lg border px-3 py-1.5 text-xs max-w-xs ${
+                pending.status === 'error'
+                  ? 'border-red-500/50 bg-red-900/20 text-red-300'
+                  : 'border-gray-600 bg-gray-800 text-gray-300'
+              }`}
+              title={pending.error}
+            >
+              {pending.status === 'error'
+                ? <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                : <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />}
+              <span className="truncate">{pending.status === 'error' ? pending.error : `Reading ${pending.name}...`}</span>
+              <button
+                onClick={() => handleRemoveAttachment(pending)}
+                className="p-0.5 hover:bg-gray-700 rounded transition-colors flex-shrink-0"
+                title="Remove"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="max-w-4xl mx-auto">
+        <SlashCommandStatus feedback={slash.feedback} running={slash.running} />
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+
       <div className="flex items-end space-x-2 md:space-x-3 max-w-4xl mx-auto">
         {/* Bookmark button outside input */}
         {onRemoveFavorite && (
@@ -75,16 +227,40 @@ export const ChatInput: React.FC<ChatInputProps> = ({
               favorites={favorites}
               onSelectFavorite={handleSelectFavorite}
               onRemoveFavorite={onRemoveFavorite}
+              onUpdateFavorite={onUpdateFavorite}
+              onUseFavorite={onUseFavorite}
+              onSendFavorite={handleSendFavorite}
+              onOpenLibrary={handleOpenLibrary}
             />
           </div>
         )}
         
+        <div className="flex-shrink-0 mb-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="p-2 text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Attach a PDF, CSV, Excel or text file"
+          >
+            <Paperclip className="w-5 h-5" />
+          </button>
+        </div>
+
         <div className="flex-1 relative">
+          {slash.isMenuOpen && (
+            <SlashCommandMenu
+              suggestions={slash.suggestions}
+              selectedIndex={slash.selectedIndex}
+              onSelect={slash.selectSuggestion}
+              onHover={slash.setSelectedIndex}
+            />
+          )}
           <textarea
             value={value}
             onChange={(e) => onChange(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Send a message to Astra....."
+            onKeyDown={handleKeyDown}
+            data-chat-input
+            placeholder={slashCommands.length > 0 ? 'Send a message to Astra, or type / for commands' : 'Send a message to Astra.....'}
             disabled={disabled}
             className="w-full resize-none rounded-2xl border border-gray-600 bg-gray-800 text-white px-3 py-2 md:px-4 md:py-3 pr-12 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 focus:outline-none disabled:bg-gray-700 disabled:cursor-not-allowed max-h-32 min-h-[72px] md:min-h-[72px] text-sm md:text-base leading-relaxed placeholder-gray-400"
             rows={3}
@@ -94,18 +270,36 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             }}
           />
           
-          {/* Send button inside input */}
+          {/* Send (or stop) button inside input */}
           <div className="absolute right-3 bottom-3">
-            <button
-              onClick={handleSubmit}
-              disabled={disabled || !value.trim()}
-              className="text-blue-500 hover:text-blue-400 disabled:text-gray-500 transition-colors disabled:cursor-not-allowed p-1"
-            >
-              <Send className="w-5 h-5" />
-            </button>
+            {isGenerating && onStop ? (
+              <button
+                onClick={onStop}
+                className="text-red-400 hover:text-red-300 transition-colors p-1"
+                title="Stop response"
+              >
+                <Square className="w-5 h-5 fill-current" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSubmit}
+                disabled={!canSend}
+                className="text-blue-500 hover:text-blue-400 disabled:text-gray-500 transition-colors disabled:cursor-not-allowed p-1"
+              >
+                <Send className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </div>
+
+      <SharedPromptLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        onUsePrompt={onChange}
+        onCopiedToFavorites={onFavoritesChanged}
+        initialDraft={libraryDraft}
+      />
     </div>
   );
 };
\ No newline at end of file
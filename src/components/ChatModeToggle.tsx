@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { MessageSquare, Users, FileText } from 'lucide-react';
 import { ChatMode } from '../types';
 import { useNotifications } from '../hooks/useNotifications';
@@ -9,10 +9,21 @@ interface ChatModeToggleProps {
 }
 
 export const ChatModeToggle: React.FC<ChatModeToggleProps> = ({ mode, onModeChange }) => {
-  const { notifications } = useNotifications();
-  const hasUnread = notifications.unreadCount > 0;
+  const { notifications, refreshUnreadCount, clearThreadReplies } = useNotifications();
+  const unreadCount = notifications.unreadCount + notifications.threadReplies.length;
+  const hasUnread = unreadCount > 0;
   const hasMentions = notifications.mentions.length > 0;
 
+  // Channels read while in team chat no longer count once the user leaves it;
+  // thread replies are shown in team chat itself
+  useEffect(() => {
+    if (mode !== 'team') {
+      refreshUnreadCount();
+    } else {
+      clearThreadReplies();
+    }
+  }, [mode, refreshUnreadCount, clearThreadReplies]);
+
   return (
     <div className="flex bg-gray-800 rounded-lg p-1 mx-4 my-2">
       <button
@@ -59,7 +70,7 @@ export const ChatModeToggle: React.FC<ChatModeToggleProps> = ({ mode, onModeChan
               </div>
             ) : (
               <div className="bg-blue-500 text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1 border-2 border-gray-800">
-                {notifications.unreadCount > 99 ? '99+' : notifications.unreadCount}
+                {unreadCount > 99 ? '99+' : unreadCount}
               </div>
             )}
           </div>
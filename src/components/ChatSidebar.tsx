@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import { MessageSquare, Trash2, Plus, Search, X, LogOut, User } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, Trash2, Plus, Search, X, LogOut, User, MoreVertical, Pencil, Pin, PinOff, Archive, ArchiveRestore, Folder, Tag, Check, Download, Upload, Share2 } from 'lucide-react';
 import { useChats, Conversation } from '../hooks/useChats';
 import { useAuth } from '../contexts/AuthContext';
+import { useMessageSearch, splitSnippet, MessageSearchResult } from '../hooks/useMessageSearch';
+import { useConversationExport } from '../hooks/useConversationExport';
 import { supabase } from '../lib/supabase';
 
 interface ChatSidebarProps {
@@ -9,6 +11,9 @@ interface ChatSidebarProps {
   onClose: () => void;
   onLoadConversation: (conversationId: string) => void;
   onStartNewConversation: () => void;
+  onJumpToMessage?: (conversationId: string, messageId: string) => void;
+  onExportConversation?: (conversationId: string) => void;
+  onShareConversation?: (conversationId: string) => void;
   activeConversationId: string | null;
 }
 
@@ -17,6 +22,9 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
   onClose,
   onLoadConversation,
   onStartNewConversation,
+  onJumpToMessage,
+  onExportConversation,
+  onShareConversation,
   activeConversationId
 }) => {
   const { user, signOut } = useAuth();
@@ -24,11 +32,37 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     conversations,
     deleteConversation,
     loading,
-    fetchConversations
+    fetchConversations,
+    fetchMoreConversations,
+    hasMoreConversations,
+    loadingMoreConversations,
+    conversationFilters,
+    updateConversationFilters,
+    folders,
+    updateConversationSettings
   } = useChats();
+  const {
+    results: messageResults,
+    searching: searchingMessages,
+    searchMessages,
+    clearResults
+  } = useMessageSearch();
+  const {
+    importConversation,
+    importing,
+    error: importError,
+    setError: setImportError
+  } = useConversationExport();
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const [searchTerm, setSearchTerm] = useState('');
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [menuConversationId, setMenuConversationId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
+  const [folderValue, setFolderValue] = useState('');
+  const [tagsValue, setTagsValue] = useState('');
 
   // Refresh conversations when activeConversationId changes
   useEffect(() => {
@@ -72,13 +106,35 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     isOpen,
     activeConversationId,
     conversationsCount: conversations.length,
-    conversationIds: conversations.map(c => c.id)
+    hasMoreConversations
   });
 
-  const filteredConversations = conversations.filter(conv =>
-    conv.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    conv.lastMessage.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Search runs server-side; wait for typing to settle before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchTerm !== conversationFilters.search) {
+        updateConversationFilters({ search: searchTerm });
+      }
+      if (searchTerm.trim()) {
+        searchMessages(searchTerm);
+      } else {
+        clearResults();
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, conversationFilters.search, updateConversationFilters, searchMessages, clearResults]);
+
+  const showArchived = conversationFilters.archived;
+  const pinnedConversations = conversations.filter(conv => conv.isPinned);
+  const otherConversations = conversations.filter(conv => !conv.isPinned);
+
+  // Infinite scroll: load the next page when the list is scrolled near the bottom
+  const handleListScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < 200) {
+      fetchMoreConversations();
+    }
+  };
 
   const handleNewChat = () => {
     onStartNewConversation();
@@ -91,6 +147,28 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     onClose();
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const conversationId = await importConversation(file);
+    if (conversationId) {
+      await fetchConversations();
+      handleLoadConversation(conversationId);
+    }
+  };
+
+  const handleOpenSearchResult = (result: MessageSearchResult) => {
+    console.log('ChatSidebar: Opening search result', result.conversationId, result.messageId);
+    if (onJumpToMessage) {
+      onJumpToMessage(result.conversationId, result.messageId);
+    } else {
+      onLoadConversation(result.conversationId);
+    }
+    onClose();
+  };
+
   const handleDeleteConversation = async (e: React.MouseEvent, conversationId: string) => {
     e.stopPropagation();
     if (window.confirm('Are you sure you want to delete this conversation?')) {
@@ -98,6 +176,49 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     }
   };
 
+  const openMenu = (e: React.MouseEvent, conversationId: string) => {
+    e.stopPropagation();
+    setMenuConversationId(prev => prev === conversationId ? null : conversationId);
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setMenuConversationId(null);
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title);
+  };
+
+  const submitRename = async (conversationId: string) => {
+    setRenamingId(null);
+    if (renameValue.trim()) {
+      await updateConversationSettings(conversationId, { title: renameValue });
+    }
+  };
+
+  const startOrganize = (conversation: Conversation) => {
+    setMenuConversationId(null);
+    setOrganizingId(conversation.id);
+    setFolderValue(conversation.folder || '');
+    setTagsValue(conversation.tags.join(', '));
+  };
+
+  const submitOrganize = async (conversationId: string) => {
+    setOrganizingId(null);
+    await updateConversationSettings(conversationId, {
+      folder: folderValue,
+      tags: tagsValue.split(',')
+    });
+  };
+
+  const handleTogglePin = async (conversation: Conversation) => {
+    setMenuConversationId(null);
+    await updateConversationSettings(conversation.id, { isPinned: !conversation.isPinned });
+  };
+
+  const handleToggleArchive = async (conversation: Conversation) => {
+    setMenuConversationId(null);
+    await updateConversationSettings(conversation.id, { isArchived: !conversation.isArchived });
+  };
+
   const handleSignOut = async () => {
     await signOut();
     setShowUserMenu(false);
@@ -117,6 +238,196 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     }
   };
 
+  const renderConversation = (conversation: Conversation) => {
+    const isActive = conversation.id === activeConversationId;
+    const isRenaming = renamingId === conversation.id;
+    const isOrganizing = organizingId === conversation.id;
+
+    return (
+      <div
+        key={conversation.id}
+        onClick={() => !isRenaming && !isOrganizing && handleLoadConversation(conversation.id)}
+        className={`group relative p-3 rounded-lg cursor-pointer transition-all duration-200 mb-2 ${
+          isActive
+            ? 'bg-gray-700 border-l-4 border-blue-500'
+            : 'bg-gray-800 border-l-4 border-transparent hover:bg-gray-700'
+        }`}
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            {isRenaming ? (
+              <input
+                type="text"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitRename(conversation.id);
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                onBlur={() => submitRename(conversation.id)}
+                className="w-full mb-1 px-2 py-1 bg-gray-900 border border-blue-500 rounded text-sm text-white focus:outline-none"
+                autoFocus
+              />
+            ) : (
+              <h3 className={`flex items-center text-sm truncate mb-1 ${
+                isActive ? 'text-blue-300 font-semibold' : 'text-white font-medium'
+              }`}>
+                {conversation.isPinned && <Pin className="w-3 h-3 mr-1 flex-shrink-0 text-blue-400" />}
+                <span className="truncate">{conversation.title}</span>
+              </h3>
+            )}
+            <p className={`text-xs line-clamp-2 mb-2 ${
+              isActive ? 'text-gray-300' : 'text-gray-400'
+            }`}>
+              {conversation.lastMessage}
+            </p>
+            {(conversation.folder || conversation.tags.length > 0) && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {conversation.folder && (
+                  <span className="flex items-center px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300 text-[10px]">
+                    <Folder className="w-2.5 h-2.5 mr-1" />
+                    {conversation.folder}
+                  </span>
+                )}
+                {conversation.tags.map(tag => (
+                  <span key={tag} className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300 text-[10px]">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className={`flex items-center justify-between text-xs ${
+              isActive ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              <span>{formatDate(conversation.createdAt)}</span>
+              <span>{conversation.messageCount} messages</span>
+            </div>
+          </div>
+
+          <button
+            onClick={(e) => openMenu(e, conversation.id)}
+            className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-600 rounded transition-all duration-200 ml-2"
+            title="Conversation options"
+          >
+            <MoreVertical className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Folder and tags editor */}
+        {isOrganizing && (
+          <div className="mt-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+            <input
+              type="text"
+              value={folderValue}
+              onChange={(e) => setFolderValue(e.target.value)}
+              list="conversation-folders"
+              placeholder="Folder"
+              className="w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded text-xs text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+            />
+            <input
+              type="text"
+              value={tagsValue}
+              onChange={(e) => setTagsValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitOrganize(conversation.id);
+                if (e.key === 'Escape') setOrganizingId(null);
+              }}
+              placeholder="Tags, separated by commas"
+              className="w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded text-xs text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setOrganizingId(null)}
+                className="px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => submitOrganize(conversation.id)}
+                className="flex items-center space-x-1 px-2 py-1 rounded text-xs bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+              >
+                <Check className="w-3 h-3" />
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Options menu */}
+        {menuConversationId === conversation.id && (
+          <div
+            className="absolute right-2 top-9 w-44 bg-gray-700 rounded-lg shadow-lg border border-gray-600 overflow-hidden z-10"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => startRename(conversation)}
+              className="w-full flex items-center space-x-2 px-3 py-2 hover:bg-gray-600 transition-colors text-gray-200 text-sm"
+            >
+              <Pencil className="w-4 h-4" />
+              <span>Rename</span>
+            </button>
+            <button
+              onClick={() => handleTogglePin(conversation)}
+              className="w-full flex items-center space-x-2 px-3 py-2 hover:bg-gray-600 transition-colors text-gray-200 text-sm"
+            >
+              {conversation.isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+              <span>{conversation.isPinned ? 'Unpin' : 'Pin'}</span>
+            </button>
+            <button
+              onClick={() => startOrganize(conversation)}
+              className="w-full flex items-center space-x-2 px-3 py-2 hover:bg-gray-600 transition-colors text-gray-200 text-sm"
+            >
+              <Tag className="w-4 h-4" />
+              <span>Folder & tags</span>
+            </button>
+            {onShareConversation && (
+              <button
+                onClick={() => {
+                  setMenuConversationId(null);
+                  onShareConversation(conversation.id);
+                }}
+                className="w-full flex items-center space-x-2 px-3 py-2 hover:bg-gray-600 transition-colors text-gray-200 text-sm"
+              >
+                <Share2 className="w-4 h-4" />
+                <span>Share</span>
+              </button>
+            )}
+            {onExportConversation && (
+              <button
+                onClick={() => {
+                  setMenuConversationId(null);
+                  onExportConversation(conversation.id);
+                }}
+                className="w-full flex items-center space-x-2 px-3 py-2 hover:bg-gray-600 transition-colors text-gray-200 text-sm"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export</span>
+              </button>
+            )}
+            <button
+              onClick={() => handleToggleArchive(conversation)}
+              className="w-full flex items-center space-x-2 px-3 py-2 hover:bg-gray-600 transition-colors text-gray-200 text-sm"
+            >
+              {conversation.isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+              <span>{conversation.isArchived ? 'Unarchive' : 'Archive'}</span>
+            </button>
+            <button
+              onClick={(e) => {
+                setMenuConversationId(null);
+                handleDeleteConversation(e, conversation.id);
+              }}
+              className="w-full flex items-center space-x-2 px-3 py-2 hover:bg-gray-600 transition-colors text-red-400 text-sm"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Delete</span>
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <>
       {/* Overlay */}
@@ -127,6 +438,10 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
         />
       )}
 
+      <datalist id="conversation-folders">
+        {folders.map(folder => <option key={folder} value={folder} />)}
+      </datalist>
+
       {/* Sidebar */}
       <div
         className={`fixed top-0 left-0 h-full w-80 bg-gray-800 border-r border-gray-700 z-50 transform transition-transform duration-300 ease-in-out pt-16 ${
@@ -158,6 +473,29 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
               <span>New Chat</span>
             </button>
 
+            {/* Import a JSON export as a new conversation */}
+            <button
+              onClick={() => {
+                setImportError(null);
+                importInputRef.current?.click();
+              }}
+              disabled={importing}
+              className="w-full mt-2 flex items-center justify-center space-x-2 py-1.5 px-4 rounded-lg text-xs text-gray-300 border border-gray-600 hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              <Upload className="w-3 h-3" />
+              <span>{importing ? 'Importing...' : 'Import conversation (JSON)'}</span>
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+            {importError && (
+              <p className="mt-2 text-xs text-red-400">{importError}</p>
+            )}
+
             {/* Search */}
             <div className="relative mt-4">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
@@ -169,78 +507,112 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
                 className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 focus:outline-none transition-colors text-sm"
               />
             </div>
+
+            {/* Folder and archive filters */}
+            <div className="flex items-center space-x-2 mt-3">
+              <div className="relative flex-1">
+                <Folder className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400 w-3 h-3" />
+                <select
+                  value={conversationFilters.folder || 'all'}
+                  onChange={(e) => updateConversationFilters({ folder: e.target.value === 'all' ? null : e.target.value })}
+                  className="w-full pl-7 pr-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-white text-xs focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="all">All folders</option>
+                  {folders.map(folder => (
+                    <option key={folder} value={folder}>{folder}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={() => updateConversationFilters({ archived: !showArchived })}
+                className={`flex items-center space-x-1 px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                  showArchived
+                    ? 'bg-blue-500/20 text-blue-300 border border-blue-500/30'
+                    : 'bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600'
+                }`}
+                title={showArchived ? 'Show active conversations' : 'Show archived conversations'}
+              >
+                <Archive className="w-3 h-3" />
+                <span>Archived</span>
+              </button>
+            </div>
           </div>
 
           {/* Conversations List */}
-          <div className="flex-1 overflow-y-auto">
-            {loading ? (
+          <div className="flex-1 overflow-y-auto" onScroll={handleListScroll}>
+            {/* Full-text matches across every message */}
+            {searchTerm.trim() && (searchingMessages || messageResults.length > 0) && (
+              <div className="p-2 border-b border-gray-700">
+                <p className="px-2 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500">Messages</p>
+                {searchingMessages && messageResults.length === 0 ? (
+                  <p className="px-2 py-2 text-xs text-gray-400">Searching messages...</p>
+                ) : (
+                  messageResults.map(result => (
+                    <button
+                      key={result.messageId}
+                      onClick={() => handleOpenSearchResult(result)}
+                      className="w-full text-left p-2 rounded-lg hover:bg-gray-700 transition-colors mb-1"
+                    >
+                      <div className="flex items-center justify-between text-xs mb-1">
+                        <span className="text-white font-medium truncate">{result.conversationTitle}</span>
+                        <span className="text-gray-500 ml-2 flex-shrink-0">{formatDate(result.createdAt)}</span>
+                      </div>
+                      <p className="text-xs text-gray-400 line-clamp-3">
+                        <span className="text-gray-500">{result.isUser ? 'You: ' : 'Astra: '}</span>
+                        {splitSnippet(result.snippet).map((part, index) => part.isMatch ? (
+                          <mark key={index} className="bg-yellow-400/30 text-yellow-200 rounded px-0.5">{part.text}</mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        ))}
+                      </p>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+
+            {loading && conversations.length === 0 ? (
               <div className="p-4 text-center">
                 <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mx-auto" />
                 <p className="text-gray-400 text-sm mt-2">Loading conversations...</p>
               </div>
-            ) : filteredConversations.length === 0 ? (
+            ) : conversations.length === 0 ? (
               <div className="p-4 text-center">
                 <MessageSquare className="w-12 h-12 text-gray-600 mx-auto mb-2" />
                 <p className="text-gray-400 text-sm">
-                  {searchTerm ? 'No conversations found' : 'No conversations yet'}
+                  {searchTerm ? 'No conversations found' : showArchived ? 'No archived conversations' : 'No conversations yet'}
                 </p>
                 <p className="text-gray-500 text-xs mt-1">
-                  {searchTerm ? 'Try a different search term' : 'Start a new chat to begin'}
+                  {searchTerm ? 'Try a different search term' : showArchived ? 'Archived chats will appear here' : 'Start a new chat to begin'}
                 </p>
               </div>
             ) : (
               <div className="p-2">
-                {filteredConversations.map((conversation) => {
-                  const isActive = conversation.id === activeConversationId;
-                  console.log('🎯 Chat item render:', {
-                    conversationId: conversation.id,
-                    activeConversationId: activeConversationId,
-                    isActive: isActive,
-                    idsMatch: conversation.id === activeConversationId,
-                    title: conversation.title.substring(0, 30)
-                  });
-
-                  return (
-                    <div
-                      key={conversation.id}
-                      onClick={() => handleLoadConversation(conversation.id)}
-                      className={`group relative p-3 rounded-lg cursor-pointer transition-all duration-200 mb-2 ${
-                        isActive
-                          ? 'bg-gray-700 border-l-4 border-blue-500'
-                          : 'bg-gray-800 border-l-4 border-transparent hover:bg-gray-700'
-                      }`}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1 min-w-0">
-                          <h3 className={`text-sm truncate mb-1 ${
-                            isActive ? 'text-blue-300 font-semibold' : 'text-white font-medium'
-                          }`}>
-                            {conversation.title}
-                          </h3>
-                          <p className={`text-xs line-clamp-2 mb-2 ${
-                            isActive ? 'text-gray-300' : 'text-gray-400'
-                          }`}>
-                            {conversation.lastMessage}
-                          </p>
-                          <div className={`flex items-center justify-between text-xs ${
-                            isActive ? 'text-gray-400' : 'text-gray-500'
-                          }`}>
-                            <span>{formatDate(conversation.createdAt)}</span>
-                            <span>{conversation.messageCount} messages</span>
-                          </div>
-                        </div>
-
-                        <button
-                          onClick={(e) => handleDeleteConversation(e, conversation.id)}
-                          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-red-500/20 rounded transition-all duration-200 ml-2"
-                          title="Delete conversation"
-                        >
-                          <Trash2 className="w-4 h-4 text-red-400" />
-                        </button>
-                      </div>
-                    </div>
-                  );
-                })}
+                {pinnedConversations.length > 0 && (
+                  <>
+                    <p className="px-2 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500">Pinned</p>
+                    {pinnedConversations.map(renderConversation)}
+                    {otherConversations.length > 0 && (
+                      <p className="px-2 py-1 mt-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                        {showArchived ? 'Archived' : 'Recent'}
+                      </p>
+                    )}
+                  </>
+                )}
+                {otherConversations.map(renderConversation)}
+                {loadingMoreConversations && (
+                  <div className="py-3 text-center">
+                    <div className="w-5 h-5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mx-auto" />
+                  </div>
+                )}
+                {hasMoreConversations && !loadingMoreConversations && (
+                  <button
+                    onClick={fetchMoreConversations}
+                    className="w-full py-2 text-xs text-gray-400 hover:text-white transition-colors"
+                  >
+                    Load more
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, MessageSquare, FileText, Bookmark, Zap } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useReportsContext } from '../contexts/ReportsContext';
+import { useFavorites } from '../hooks/useFavorites';
+import { getFavoriteTitle } from '../lib/promptTemplates';
+import { PaletteGroup, PaletteItem, searchPaletteItems } from '../lib/commandPalette';
+import { formatShortcut, getShortcut } from '../lib/keyboardShortcuts';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // App actions (new chat, switch mode, ...) built by MainContainer
+  actions: PaletteItem[];
+  onOpenConversation: (conversationId: string) => void;
+  onRunReport: (reportId: string) => void;
+  onUsePrompt: (text: string) => void;
+}
+
+interface ConversationResult {
+  id: string;
+  title: string;
+  lastMessage: string;
+}
+
+const CONVERSATION_LIMIT = 100;
+
+const GROUP_ICONS: Record<PaletteGroup, React.ElementType> = {
+  Actions: Zap,
+  Conversations: MessageSquare,
+  Reports: FileText,
+  'Saved prompts': Bookmark
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = (props) => {
+  if (!props.isOpen) return null;
+  // Mounted only while open so conversations and prompts are fresh each time
+  return <CommandPaletteDialog {...props} />;
+};
+
+const CommandPaletteDialog: React.FC<CommandPaletteProps> = ({
+  onClose,
+  actions,
+  onOpenConversation,
+  onRunReport,
+  onUsePrompt
+}) => {
+  const { user } = useAuth();
+  const { userReports } = useReportsContext();
+  const { favorites, recordFavoriteUse } = useFavorites();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [conversations, setConversations] = useState<ConversationResult[]>([]);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .rpc('get_astra_conversations', { p_limit: CONVERSATION_LIMIT })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading conversations for command palette:', error);
+          return;
+        }
+        setConversations((data || []).map((row: { conversation_id: string; title: string; last_message: string }) => ({
+          id: row.conversation_id,
+          title: row.title,
+          lastMessage: row.last_message
+        })));
+      });
+  }, [user]);
+
+  const items = useMemo<PaletteItem[]>(() => [
+    ...actions,
+    ...conversations.map(conversation => ({
+      id: `conversation-${conversation.id}`,
+      group: 'Conversations' as const,
+      title: conversation.title,
+      subtitle: conversation.lastMessage,
+      perform: () => onOpenConversation(conversation.id)
+    })),
+    ...userReports.map(report => ({
+      id: `report-${report.id}`,
+      group: 'Reports' as const,
+      title: `Run ${report.title}`,
+      subtitle: report.schedule_type === 'scheduled' ? `Scheduled ${report.schedule_frequency}` : 'Manual report',
+      keywords: report.prompt,
+      perform: () => onRunReport(report.id)
+    })),
+    ...favorites.map(favorite => ({
+      id: `prompt-${favorite.id}`,
+      group: 'Saved prompts' as const,
+      title: getFavoriteTitle(favorite),
+      subtitle: favorite.title ? favorite.text : undefined,
+      keywords: [favorite.folder, ...favorite.tags].filter(Boolean).join(' '),
+      perform: () => {
+        recordFavoriteUse(favorite.id);
+        onUsePrompt(favorite.text);
+      }
+    }))
+  ], [actions, conversations, userReports, favorites, onOpenConversation, onRunReport, onUsePrompt, recordFavoriteUse]);
+
+  const results = useMemo(() => searchPaletteItems(items, query), [items, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  // Keep the highlighted row visible while arrowing through the list
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-palette-index="${selectedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const runItem = (item: PaletteItem) => {
+    onClose();
+    item.perform();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(prev => prev < results.length - 1 ? prev + 1 : 0);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(prev => prev > 0 ? prev - 1 : results.length - 1);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[selectedIndex]) runItem(results[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center p-4 pt-[15vh]"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-xl overflow-hidden">
+        <div className="flex items-center px-4 border-b border-gray-700">
+          <Search className="w-5 h-5 text-gray-400 flex-shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search conversations, reports, prompts and actions"
+            className="flex-1 bg-transparent px-3 py-4 text-white placeholder-gray-400 focus:outline-none"
+            autoFocus
+          />
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-2">
+          {results.length === 0 && (
+            <p className="px-4 py-6 text-center text-gray-500 text-sm">No matches</p>
+          )}
+          {results.map((item, index) => {
+            const Icon = GROUP_ICONS[item.group];
+            const showGroup = index === 0 || results[index - 1].group !== item.group;
+            return (
+              <React.Fragment key={item.id}>
+                {showGroup && (
+                  <p className="px-4 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500">
+                    {item.group}
+                  </p>
+                )}
+                <button
+                  data-palette-index={index}
+                  onClick={() => runItem(item)}
+                  onMouseMove={() => setSelectedIndex(index)}
+                  className={`w-full text-left px-4 py-2 flex items-center space-x-3 transition-colors ${
+                    index === selectedIndex ? 'bg-gray-700' : ''
+                  }`}
+                >
+                  <Icon className="w-4 h-4 text-blue-300 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm truncate">{item.title}</p>
+                    {item.subtitle && (
+                      <p className="text-gray-400 text-xs truncate">{item.subtitle}</p>
+                    )}
+                  </div>
+                  {item.shortcut && (
+                    <span className="flex items-center space-x-1 flex-shrink-0">
+                      {formatShortcut(getShortcut(item.shortcut)).map(key => (
+                        <kbd key={key} className="px-1.5 py-0.5 rounded bg-gray-900 border border-gray-600 text-gray-400 text-[10px]">
+                          {key}
+                        </kbd>
+                      ))}
+                    </span>
+                  )}
+                </button>
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-2 border-t border-gray-700 text-[10px] text-gray-500">
+          <span>↑↓ to navigate · Enter to select · Esc to close</span>
+          <span>{formatShortcut(getShortcut('showShortcuts')).join(' ')} for all shortcuts</span>
+        </div>
+      </div>
+    </div>
+  );
+};
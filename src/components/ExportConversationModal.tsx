@@ -0,0 +1,94 @@
+import React from 'react';
+import { X, Download, FileText, FileJson, Printer } from 'lucide-react';
+import { useConversationExport } from '../hooks/useConversationExport';
+import { ExportFormat } from '../lib/conversationExport';
+
+interface ExportConversationModalProps {
+  isOpen: boolean;
+  conversationId: string | null;
+  onClose: () => void;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string; icon: React.ElementType }[] = [
+  {
+    format: 'markdown',
+    label: 'Markdown',
+    description: 'Readable text for documents and wikis, including reply quotes',
+    icon: FileText
+  },
+  {
+    format: 'json',
+    label: 'JSON',
+    description: 'Complete data with metadata, token usage and visualizations. Can be imported again',
+    icon: FileJson
+  },
+  {
+    format: 'print',
+    label: 'Print / PDF',
+    description: 'Print-optimized page. Choose "Save as PDF" in the print dialog',
+    icon: Printer
+  }
+];
+
+export const ExportConversationModal: React.FC<ExportConversationModalProps> = ({
+  isOpen,
+  conversationId,
+  onClose
+}) => {
+  const { exportConversation, exporting, error, setError } = useConversationExport();
+
+  if (!isOpen || !conversationId) return null;
+
+  const handleExport = async (format: ExportFormat) => {
+    await exportConversation(conversationId, format);
+  };
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Download className="w-6 h-6 text-blue-500" />
+            <h2 className="text-xl font-bold text-white">Export Conversation</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting}
+              className="w-full flex items-start space-x-3 p-4 bg-gray-700/50 hover:bg-gray-700 border border-gray-600 hover:border-blue-500 rounded-lg text-left transition-colors disabled:opacity-50"
+            >
+              <Icon className="w-5 h-5 text-blue-400 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="text-white font-medium">{label}</p>
+                <p className="text-gray-400 text-sm">{description}</p>
+              </div>
+            </button>
+          ))}
+
+          {exporting && (
+            <p className="text-gray-400 text-sm text-center">Preparing export...</p>
+          )}
+          {error && (
+            <p className="text-red-400 text-sm text-center">{error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
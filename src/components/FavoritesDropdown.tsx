@@ -1,26 +1,61 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Bookmark, X } from 'lucide-react';
-import { FavoriteMessage } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Bookmark, X, Search, Folder, Pencil, Braces, BookOpen, Share2 } from 'lucide-react';
+import { FavoriteMessage, FavoriteUpdate, SharedPromptDraft } from '../types';
+import { PromptVariablesForm } from './PromptVariablesForm';
+import { SavedPromptEditor } from './SavedPromptEditor';
+import { extractPromptVariables, getFavoriteTitle, matchesPromptSearch, sortPromptsByUsage } from '../lib/promptTemplates';
 
 interface FavoritesDropdownProps {
   favorites: FavoriteMessage[];
   onSelectFavorite: (text: string) => void;
   onRemoveFavorite: (messageId: string) => void;
+  onUpdateFavorite?: (favoriteId: string, updates: FavoriteUpdate) => void;
+  // Counts a use; called whenever a prompt is inserted or sent
+  onUseFavorite?: (favoriteId: string) => void;
+  // Sends a filled-in prompt straight away instead of putting it in the input
+  onSendFavorite?: (text: string) => void;
+  // Opens the team library, optionally with a saved prompt ready to share
+  onOpenLibrary?: (draft?: SharedPromptDraft) => void;
 }
 
 export const FavoritesDropdown: React.FC<FavoritesDropdownProps> = ({
   favorites,
   onSelectFavorite,
-  onRemoveFavorite
+  onRemoveFavorite,
+  onUpdateFavorite,
+  onUseFavorite,
+  onSendFavorite,
+  onOpenLibrary
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [fillingFavorite, setFillingFavorite] = useState<FavoriteMessage | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  const folders = useMemo(() =>
+    Array.from(new Set(favorites.map(fav => fav.folder).filter((folder): folder is string => !!folder))).sort(),
+    [favorites]
+  );
+
+  const visibleFavorites = useMemo(() =>
+    sortPromptsByUsage(favorites).filter(fav =>
+      (!folderFilter || fav.folder === folderFilter) &&
+      (!tagFilter || fav.tags.includes(tagFilter)) &&
+      matchesPromptSearch(fav, searchQuery)
+    ),
+    [favorites, folderFilter, tagFilter, searchQuery]
+  );
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
         setIsOpen(false);
+        setFillingFavorite(null);
+        setEditingId(null);
       }
     };
 
@@ -28,9 +63,60 @@ export const FavoritesDropdown: React.FC<FavoritesDropdownProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleSelectFavorite = (text: string) => {
-    onSelectFavorite(text);
+  const closeDropdown = () => {
     setIsOpen(false);
+    setFillingFavorite(null);
+    setEditingId(null);
+  };
+
+  const applyFavorite = (favorite: FavoriteMessage, text: string, send: boolean) => {
+    onUseFavorite?.(favorite.id);
+    if (send && onSendFavorite) {
+      onSendFavorite(text);
+    } else {
+      onSelectFavorite(text);
+    }
+    closeDropdown();
+  };
+
+  // Prompts with {{variables}} open the fill-in form first
+  const handleSelectFavorite = (favorite: FavoriteMessage) => {
+    if (extractPromptVariables(favorite.text).length > 0) {
+      setFillingFavorite(favorite);
+      return;
+    }
+    applyFavorite(favorite, favorite.text, false);
+  };
+
+  const handleEditFavorite = (e: React.MouseEvent, favoriteId: string) => {
+    e.stopPropagation();
+    setEditingId(favoriteId);
+  };
+
+  const handleSaveFavorite = (favoriteId: string, updates: FavoriteUpdate) => {
+    onUpdateFavorite?.(favoriteId, updates);
+    setEditingId(null);
+  };
+
+  const toggleTagFilter = (e: React.MouseEvent, tag: string) => {
+    e.stopPropagation();
+    setTagFilter(current => current === tag ? null : tag);
+  };
+
+  const handleOpenLibrary = (favorite?: FavoriteMessage) => {
+    if (!onOpenLibrary) return;
+    onOpenLibrary(favorite ? {
+      title: favorite.title || '',
+      description: '',
+      text: favorite.text,
+      tags: favorite.tags
+    } : undefined);
+    closeDropdown();
+  };
+
+  const handleShareFavorite = (e: React.MouseEvent, favorite: FavoriteMessage) => {
+    e.stopPropagation();
+    handleOpenLibrary(favorite);
   };
 
   const handleRemoveFavorite = (e: React.MouseEvent, messageId: string) => {
@@ -54,58 +140,199 @@ export const FavoritesDropdown: React.FC<FavoritesDropdownProps> = ({
     }
   };
 
+  // With the team library available the dropdown is useful even before anything is saved
+  const isEmpty = favorites.length === 0 && !onOpenLibrary;
+
   return (
     <div className="relative" ref={dropdownRef}>
       <button
-        onClick={() => setIsOpen(!isOpen)}
-        disabled={favorites.length === 0}
+        onClick={() => isOpen ? closeDropdown() : setIsOpen(true)}
+        disabled={isEmpty}
         className={`p-3 rounded-lg transition-colors min-h-[48px] min-w-[48px] flex items-center justify-center touch-manipulation ${
-          favorites.length === 0
+          isEmpty
             ? 'text-gray-600 cursor-not-allowed bg-gray-800'
             : isOpen
             ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
             : 'hover:bg-gray-700 text-gray-400 bg-gray-800 border border-gray-600'
         }`}
-        title={favorites.length === 0 ? 'No saved prompts yet' : 'Saved prompts'}
+        title={isEmpty ? 'No saved prompts yet' : 'Saved prompts'}
       >
-        <Bookmark className={`w-5 h-5 ${favorites.length > 0 && isOpen ? 'fill-current' : ''}`} />
+        <Bookmark className={`w-5 h-5 ${!isEmpty && isOpen ? 'fill-current' : ''}`} />
       </button>
 
-      {isOpen && favorites.length > 0 && (
-        <div className="absolute bottom-full left-0 mb-2 w-80 bg-gray-800 border border-gray-600 rounded-lg shadow-lg max-h-64 overflow-y-auto z-50">
-          <div className="p-3 border-b border-gray-700">
-            <h3 className="text-white font-medium text-sm">Saved Prompts</h3>
-            <p className="text-gray-400 text-xs">Click to reuse a question</p>
-          </div>
-          
-          <div className="max-h-48 overflow-y-auto">
-            {favorites.map((favorite) => (
-              <div
-                key={favorite.id}
-                onClick={() => handleSelectFavorite(favorite.text)}
-                className="p-3 hover:bg-gray-700 cursor-pointer border-b border-gray-700/50 last:border-b-0 group"
-              >
+      {isOpen && !isEmpty && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 md:w-96 bg-gray-800 border border-gray-600 rounded-lg shadow-lg z-50">
+          {fillingFavorite ? (
+            <PromptVariablesForm
+              title={getFavoriteTitle(fillingFavorite)}
+              text={fillingFavorite.text}
+              onInsert={(text) => applyFavorite(fillingFavorite, text, false)}
+              onSend={onSendFavorite ? (text) => applyFavorite(fillingFavorite, text, true) : undefined}
+              onBack={() => setFillingFavorite(null)}
+            />
+          ) : (
+            <>
+              <div className="p-3 border-b border-gray-700 space-y-2">
                 <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0 mr-2">
-                    <p className="text-white text-sm line-clamp-5 mb-1">
-                      {favorite.text}
-                    </p>
-                    <p className="text-gray-500 text-xs">
-                      {formatTime(favorite.createdAt)}
-                    </p>
+                  <div>
+                    <h3 className="text-white font-medium text-sm">Saved Prompts</h3>
+                    <p className="text-gray-400 text-xs">Click to reuse a question</p>
                   </div>
-                  
-                  <button
-                    onClick={(e) => handleRemoveFavorite(e, favorite.id)}
-                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-red-500/20 rounded transition-all duration-200"
-                    title="Remove from saved prompts"
-                  >
-                    <X className="w-4 h-4 text-red-400" />
-                  </button>
+                  {onOpenLibrary && (
+                    <button
+                      onClick={() => handleOpenLibrary()}
+                      className="flex items-center space-x-1 px-2 py-1 rounded text-xs text-blue-300 bg-blue-500/10 hover:bg-blue-500/20 transition-colors"
+                      title="Browse prompts shared by your team"
+                    >
+                      <BookOpen className="w-3.5 h-3.5" />
+                      <span>Team library</span>
+                    </button>
+                  )}
                 </div>
+                <div className="relative">
+                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500" />
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search prompts, folders and tags"
+                    className="w-full pl-7 pr-2 py-1.5 bg-gray-900 border border-gray-600 rounded text-xs text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+                    autoFocus
+                  />
+                </div>
+                {(folders.length > 0 || tagFilter) && (
+                  <div className="flex flex-wrap gap-1">
+                    <button
+                      onClick={() => setFolderFilter(null)}
+                      className={`px-2 py-0.5 rounded text-[10px] transition-colors ${
+                        !folderFilter ? 'bg-purple-500/30 text-purple-200' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                      }`}
+                    >
+                      All
+                    </button>
+                    {folders.map(folder => (
+                      <button
+                        key={folder}
+                        onClick={() => setFolderFilter(current => current === folder ? null : folder)}
+                        className={`flex items-center px-2 py-0.5 rounded text-[10px] transition-colors ${
+                          folderFilter === folder ? 'bg-purple-500/30 text-purple-200' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                        }`}
+                      >
+                        <Folder className="w-2.5 h-2.5 mr-1" />
+                        {folder}
+                      </button>
+                    ))}
+                    {tagFilter && (
+                      <button
+                        onClick={() => setTagFilter(null)}
+                        className="flex items-center px-2 py-0.5 rounded text-[10px] bg-blue-500/30 text-blue-200"
+                        title="Clear tag filter"
+                      >
+                        #{tagFilter}
+                        <X className="w-2.5 h-2.5 ml-1" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="max-h-72 overflow-y-auto">
+                {visibleFavorites.length === 0 && (
+                  <p className="p-4 text-center text-gray-500 text-xs">
+                    {favorites.length === 0 ? 'No saved prompts yet' : 'No saved prompts match'}
+                  </p>
+                )}
+                {visibleFavorites.map((favorite) => {
+                  const variableCount = extractPromptVariables(favorite.text).length;
+                  return (
+                    <div
+                      key={favorite.id}
+                      onClick={() => editingId !== favorite.id && handleSelectFavorite(favorite)}
+                      className="p-3 hover:bg-gray-700 cursor-pointer border-b border-gray-700/50 last:border-b-0 group"
+                    >
+                      {editingId === favorite.id ? (
+                        <SavedPromptEditor
+                          favorite={favorite}
+                          folders={folders}
+                          onSave={(updates) => handleSaveFavorite(favorite.id, updates)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      ) : (
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0 mr-2">
+                            {favorite.title && (
+                              <p className="text-white text-sm font-medium truncate">{favorite.title}</p>
+                            )}
+                            <p className={`text-sm mb-1 ${favorite.title ? 'text-gray-400 line-clamp-2' : 'text-white line-clamp-5'}`}>
+                              {favorite.title ? favorite.text : getFavoriteTitle(favorite)}
+                            </p>
+                            {(favorite.folder || favorite.tags.length > 0 || variableCount > 0) && (
+                              <div className="flex flex-wrap gap-1 mb-1">
+                                {favorite.folder && (
+                                  <span className="flex items-center px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300 text-[10px]">
+                                    <Folder className="w-2.5 h-2.5 mr-1" />
+                                    {favorite.folder}
+                                  </span>
+                                )}
+                                {favorite.tags.map(tag => (
+                                  <button
+                                    key={tag}
+                                    onClick={(e) => toggleTagFilter(e, tag)}
+                                    className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300 text-[10px] hover:bg-blue-500/30"
+                                    title={`Show prompts tagged #${tag}`}
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                                {variableCount > 0 && (
+                                  <span className="flex items-center px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 text-[10px]">
+                                    <Braces className="w-2.5 h-2.5 mr-1" />
+                                    {variableCount} {variableCount === 1 ? 'field' : 'fields'}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                            <p className="text-gray-500 text-xs">
+                              {formatTime(favorite.createdAt)}
+                              {favorite.usageCount > 0 && ` · Used ${favorite.usageCount}×`}
+                            </p>
+                          </div>
+
+                          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-all duration-200">
+                            {onOpenLibrary && (
+                              <button
+                                onClick={(e) => handleShareFavorite(e, favorite)}
+                                className="p-1 hover:bg-gray-600 rounded"
+                                title="Share with team"
+                              >
+                                <Share2 className="w-4 h-4 text-gray-300" />
+                              </button>
+                            )}
+                            {onUpdateFavorite && (
+                              <button
+                                onClick={(e) => handleEditFavorite(e, favorite.id)}
+                                className="p-1 hover:bg-gray-600 rounded"
+                                title="Edit saved prompt"
+                              >
+                                <Pencil className="w-4 h-4 text-gray-300" />
+                              </button>
+                            )}
+                            <button
+                              onClick={(e) => handleRemoveFavorite(e, favorite.id)}
+                              className="p-1 hover:bg-red-500/20 rounded"
+                              title="Remove from saved prompts"
+                            >
+                              <X className="w-4 h-4 text-red-400" />
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-            ))}
-          </div>
+            </>
+          )}
         </div>
       )}
     </div>
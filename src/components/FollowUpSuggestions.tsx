@@ -0,0 +1,27 @@
+import React from 'react';
+import { CornerDownRight } from 'lucide-react';
+
+interface FollowUpSuggestionsProps {
+  suggestions: string[];
+  onSelect: (text: string) => void;
+}
+
+// Clickable next questions shown under the latest Astra answer
+export const FollowUpSuggestions: React.FC<FollowUpSuggestionsProps> = ({ suggestions, onSelect }) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2 ml-8 md:ml-11">
+      {suggestions.map(suggestion => (
+        <button
+          key={suggestion}
+          onClick={() => onSelect(suggestion)}
+          className="flex items-center space-x-1.5 max-w-full px-3 py-1.5 rounded-full bg-gray-700/60 border border-gray-600 text-sm text-gray-200 hover:bg-blue-600/30 hover:border-blue-400 hover:text-white transition-colors touch-manipulation"
+        >
+          <CornerDownRight className="w-3.5 h-3.5 flex-shrink-0 text-blue-300" />
+          <span className="truncate">{suggestion}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,18 +1,40 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Search, Users, X, ArrowLeft, Menu } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Search, Users, X, ArrowLeft, Menu, ShieldCheck } from 'lucide-react';
 import { GroupMessage } from './GroupMessage';
 import { MentionInput } from './MentionInput';
 import { LoadingIndicator } from './LoadingIndicator';
 import { VisualizationView } from './VisualizationView';
 import { VisualizationLoadingView } from './VisualizationLoadingView';
 import { useGroupChat } from '../hooks/useGroupChat';
+import { useTeamChannels } from '../hooks/useTeamChannels';
+import { useTeamThread } from '../hooks/useTeamThread';
+import { useMessageReactions } from '../hooks/useMessageReactions';
+import { useTeamMessageModeration } from '../hooks/useTeamMessageModeration';
+import { useTeamPresence } from '../hooks/useTeamPresence';
 import { useVisualization } from '../hooks/useVisualization';
 import { useAuth } from '../contexts/AuthContext';
 import { useChats } from '../hooks/useChats';
 import { supabase } from '../lib/supabase';
-import { GroupMessage as GroupMessageType } from '../types';
+import { GroupMessage as GroupMessageType, TeamChannel, TeamChannelDraft } from '../types';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { useNotifications } from '../hooks/useNotifications';
+import { useFavorites } from '../hooks/useFavorites';
+import { useReportsContext } from '../contexts/ReportsContext';
+import {
+  SUMMARY_PERIOD_OPTIONS,
+  SlashCommand,
+  createFavoriteCommand,
+  createReportCommand,
+  parseSummaryPeriod
+} from '../lib/slashCommands';
+import { ReportDraft, createReportDraft } from '../lib/reportDrafts';
+import { formatAstraActivity, formatTypingIndicator } from '../lib/teamPresence';
+import { TeamChannelSwitcher } from './TeamChannelSwitcher';
+import { TeamChannelModal } from './TeamChannelModal';
+import { MessageHistoryModal } from './MessageHistoryModal';
+import { ModerationLogModal } from './ModerationLogModal';
+import { ThreadPanel } from './ThreadPanel';
+import { TeamPresenceList } from './TeamPresenceList';
 
 interface User {
   id: string;
@@ -27,13 +49,32 @@ interface UserWithCurrentFlag extends User {
 interface GroupChatProps {
   showTeamMenu?: boolean;
   onCloseTeamMenu?: () => void;
+  onOpenTeamMenu?: () => void;
   onSwitchToPrivateChat?: (conversationId: string) => void;
+  onOpenSharedConversation?: (shareId: string) => void;
+  onScheduleReport?: (draft: ReportDraft) => void;
 }
 
-export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCloseTeamMenu, onSwitchToPrivateChat }) => {
+export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCloseTeamMenu, onOpenTeamMenu, onSwitchToPrivateChat, onOpenSharedConversation, onScheduleReport }) => {
   const { user } = useAuth();
   const { logChatMessage } = useChats();
-  const { notifications, markAsSeen, clearMentions, requestNotificationPermission, isTabActive } = useNotifications();
+  const { notifications, refreshUnreadCount, clearMentions, clearThreadReplies, requestNotificationPermission, isTabActive } = useNotifications();
+  const {
+    channels,
+    activeChannel,
+    error: channelError,
+    setError: setChannelError,
+    selectChannel,
+    createChannel,
+    updateChannel,
+    deleteChannel,
+    leaveChannel,
+    getChannelMemberIds,
+    setChannelMembers,
+    markChannelRead
+  } = useTeamChannels();
+  // Snapshot of the channel being edited (null channel = creating a new one)
+  const [channelModal, setChannelModal] = useState<{ channel: TeamChannel | null } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [inputValue, setInputValue] = useState('');
   const [users, setUsers] = useState<UserWithCurrentFlag[]>([]);
@@ -51,18 +92,8 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
   const [shouldAutoScroll, setShouldAutoScroll] = useState(true);
   const [lastMessageCount, setLastMessageCount] = useState(0);
   const [showMentionAlert, setShowMentionAlert] = useState(false);
-  const [replyState, setReplyState] = useState<{
-    isReplying: boolean;
-    originalMessage: {
-      id: string;
-      content: string;
-      userName: string;
-      timestamp: string;
-    } | null;
-  }>({
-    isReplying: false,
-    originalMessage: null
-  });
+  // Parent message of the thread open in the side panel
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
 
   // Get user's display name
   const getUserName = useCallback(async (): Promise<string> => {
@@ -90,6 +121,7 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
     hasMoreMessages,
     loading,
     isAstraThinking,
+    astraThinkingThreadId,
     sendMessage,
     updateVisualizationData,
     searchMessages,
@@ -97,7 +129,39 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
     loadMoreMessages,
     loadingMore,
     totalMessageCount
-  } = useGroupChat();
+  } = useGroupChat(activeChannel?.id || null, activeChannel?.name);
+
+  const {
+    rootMessage: threadRootMessage,
+    replies: threadReplies,
+    loading: threadLoading,
+    error: threadError,
+    isSubscribed: isThreadSubscribed,
+    updatingSubscription: updatingThreadSubscription,
+    fetchThread,
+    toggleSubscription: toggleThreadSubscription,
+    markThreadRead
+  } = useTeamThread(openThreadId);
+
+  // Reactions for every message on screen, in the channel and the open thread
+  const reactionMessageIds = useMemo(() => [
+    ...messages.map(msg => msg.id),
+    ...(threadRootMessage ? [threadRootMessage.id] : []),
+    ...threadReplies.map(msg => msg.id)
+  ], [messages, threadRootMessage, threadReplies]);
+  const { getReactions, toggleReaction } = useMessageReactions(reactionMessageIds);
+  const { editMessage, deleteOwnMessage, adminDeleteMessage } = useTeamMessageModeration();
+  const [historyMessage, setHistoryMessage] = useState<GroupMessageType | null>(null);
+  const [showModerationLog, setShowModerationLog] = useState(false);
+
+  // Lets teammates see that Astra is answering this user
+  const activeChannelId = activeChannel?.id || null;
+  const astraRequest = useMemo(() => (isAstraThinking && activeChannelId
+    ? { channelId: activeChannelId, threadRootId: astraThinkingThreadId }
+    : null), [isAstraThinking, activeChannelId, astraThinkingThreadId]);
+  const { onlineMembers, notifyTyping, getTypingNames, getAstraRequesters } = useTeamPresence(activeChannelId, astraRequest);
+  const channelTypingIndicator = formatTypingIndicator(getTypingNames(null));
+  const channelAstraActivity = formatAstraActivity(isAstraThinking && !astraThinkingThreadId, getAstraRequesters(null));
 
   const {
     generateVisualization,
@@ -149,13 +213,25 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
     setLastMessageCount(messages.length);
   }, [messages.length, lastMessageCount, shouldAutoScroll]);
 
-  // Mark messages as seen when user is in team chat and tab is active
+  // Mark the open channel as read when user is in team chat and tab is active
   useEffect(() => {
-    if (isTabActive && messages.length > 0) {
-      const latestMessage = messages[messages.length - 1];
-      markAsSeen(latestMessage.id);
+    if (isTabActive && activeChannelId && messages.length > 0) {
+      markChannelRead(activeChannelId).then(refreshUnreadCount);
     }
-  }, [isTabActive, messages, markAsSeen]);
+  }, [isTabActive, activeChannelId, messages, markChannelRead, refreshUnreadCount]);
+
+  // Threads belong to a channel, so close the panel when switching channels
+  useEffect(() => {
+    setOpenThreadId(null);
+  }, [activeChannelId]);
+
+  // Mark the open thread as read as replies come in
+  useEffect(() => {
+    if (isTabActive && openThreadId) {
+      markThreadRead();
+      clearThreadReplies(openThreadId);
+    }
+  }, [isTabActive, openThreadId, threadReplies.length, markThreadRead, clearThreadReplies]);
 
   // Show mention alert when there are new mentions
   useEffect(() => {
@@ -189,7 +265,7 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
 
   // Handle chat summary request
   const handleSummaryRequest = useCallback(async (period: '24 Hours' | '7 Days' | '30 Days') => {
-    if (!user) return;
+    if (!user || !activeChannel) return;
     
     setIsSummarizing(true);
     setShowSummaryOptions(false);
@@ -197,6 +273,7 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
     
     try {
       const userName = await getUserName();
+      const channelName = activeChannel.name;
       
      console.log('🔍 Starting summary generation for period:', period);
      console.log('🔍 User:', userName);
@@ -225,6 +302,7 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
           astra_prompt
         `)
         .eq('mode', 'team')
+        .eq('channel_id', activeChannel.id)
         .gte('created_at', startDate.toISOString())
         .order('created_at', { ascending: true });
 
@@ -237,7 +315,7 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
       
       if (!chatMessages || chatMessages.length === 0) {
        console.log('⚠️ No messages found for the specified period');
-        setSummaryResult(`No team chat messages found in the last ${period.toLowerCase()}.`);
+        setSummaryResult(`No messages found in #${channelName} in the last ${period.toLowerCase()}.`);
         return;
       }
 
@@ -277,7 +355,7 @@ export const GroupChat: React.FC<GroupChatProps> = ({ showTeamMenu = false, onCl
         }
       });
 
-      const summaryPrompt = `Please provide a brief summary of the team chat activity from the last ${period.toLowerCase()}.
+      const summaryPrompt = `Please provide a brief summary of the team chat activity in the #${channelName} channel from the last ${period.toLowerCase()}.
 
 Please organize your response into exactly 3 sections with a target of ${
   period === '24 Hours' ? '200 words' : 
@@ -380,16 +458,16 @@ ${formattedMessages}`;
       if (onSwitchToPrivateChat) {
         try {
           // Create the summary message with proper formatting
-          const summaryMessage = `# Team Chat Summary - Last ${period}
+          const summaryMessage = `# Team Chat Summary - #${channelName} - Last ${period}
 
 ${finalSummary}
 
 ---
-*This summary was generated from ${chatMessages.length} team chat messages between ${startDate.toLocaleDateString()} and ${now.toLocaleDateString()}.*`;
+*This summary was generated from ${chatMessages.length} messages in #${channelName} between ${startDate.toLocaleDateString()} and ${now.toLocaleDateString()}.*`;
 
           // Log the summary as a private chat message
           const conversationId = await logChatMessage(
-            `Please provide a summary of our team chat activity from the last ${period.toLowerCase()}.`,
+            `Please provide a summary of our #${channelName} team chat activity from the last ${period.toLowerCase()}.`,
             true, // isUser
             undefined, // Let it create a new conversation
             0, // No response time for user messages
@@ -398,7 +476,8 @@ ${finalSummary}
             { 
               summary_request: true,
               period: period,
-              message_count: chatMessages.length
+              message_count: chatMessages.length,
+              channel_id: activeChannel.id
             },
             false, // visualization
             'private', // mode
@@ -419,12 +498,13 @@ ${finalSummary}
               summary_response: true,
               period: period,
               message_count: chatMessages.length,
-              generated_from: 'team_chat'
+              generated_from: 'team_chat',
+              channel_id: activeChannel.id
             },
             false, // visualization
             'private', // mode
             [], // mentions
-            `Please provide a summary of our team chat activity from the last ${period.toLowerCase()}.`, // astraPrompt
+            `Please provide a summary of our #${channelName} team chat activity from the last ${period.toLowerCase()}.`, // astraPrompt
             undefined // visualizationData
           );
 
@@ -451,7 +531,7 @@ ${finalSummary}
     } finally {
       setIsSummarizing(false);
     }
-  }, [user, getUserName, logChatMessage, onSwitchToPrivateChat]);
+  }, [user, activeChannel, getUserName, logChatMessage, onSwitchToPrivateChat]);
 
   // Fetch users for mentions
   useEffect(() => {
@@ -518,16 +598,20 @@ ${finalSummary}
     
     console.log('🚀 GroupChat: handleSendMessage called with message:', message);
     
-    // If replying, include reply metadata
-    if (replyState.isReplying && replyState.originalMessage) {
-      await sendMessage(message, imageData, replyState.originalMessage);
-      setReplyState({ isReplying: false, originalMessage: null });
-    } else {
-      await sendMessage(message, imageData);
-    }
+    await sendMessage(message, imageData);
     setInputValue('');
   };
 
+  // Replies from the thread panel; Astra answers questions asked there in the thread
+  const handleSendThreadReply = async (
+    message: string,
+    imageData: { url: string; filename: string; size: number } | undefined,
+    alsoSendToChannel: boolean
+  ) => {
+    if (!openThreadId) return;
+    await sendMessage(message, imageData, { rootId: openThreadId, alsoSendToChannel });
+  };
+
   // Handle visualization creation
   const handleCreateVisualization = useCallback(async (messageId: string, messageContent: string) => {
     console.log('🎯 Starting visualization generation for message:', messageId);
@@ -573,6 +657,43 @@ ${finalSummary}
     }
   }, [generateVisualization, getVisualization, updateVisualizationData]);
 
+  const { userReports, runReportNow } = useReportsContext();
+  const { addToFavorites, isFavorited } = useFavorites();
+
+  // `/commands` typed into the team chat input
+  const slashCommands = useMemo<SlashCommand[]>(() => [
+    {
+      name: 'summarize',
+      description: 'Summarize recent team chat',
+      argsHint: '<24h|7d|30d>',
+      getOptions: () => SUMMARY_PERIOD_OPTIONS,
+      run: (args) => {
+        const period = parseSummaryPeriod(args);
+        if (!period) throw new Error('Usage: /summarize <24h|7d|30d>');
+        // The summary is shown in the team chat tools panel
+        handleSummaryRequest(period);
+        onOpenTeamMenu?.();
+        return `Summarizing the last ${period.toLowerCase()}...`;
+      }
+    },
+    createReportCommand(userReports, runReportNow),
+    {
+      name: 'visualize',
+      description: 'Create a visualization of the latest Astra answer',
+      run: () => {
+        const latestAnswer = [...messages].reverse().find(msg => msg.message_type === 'astra');
+        if (!latestAnswer) throw new Error('There is no Astra answer to visualize yet');
+        handleCreateVisualization(latestAnswer.id, latestAnswer.message_content);
+        return 'Creating a visualization of the latest answer...';
+      }
+    },
+    createFavoriteCommand(
+      () => [...messages].reverse().find(msg => msg.message_type === 'user' && msg.user_id === user?.id)?.message_content,
+      isFavorited,
+      (text) => addToFavorites(`slash-${Date.now()}`, text)
+    )
+  ], [handleSummaryRequest, onOpenTeamMenu, userReports, runReportNow, messages, handleCreateVisualization, user, isFavorited, addToFavorites]);
+
   // Handle viewing visualization
   const handleViewVisualization = useCallback((messageId: string, visualizationData?: string) => {
     console.log('👁️ Viewing visualization for message:', messageId);
@@ -604,154 +725,87 @@ ${finalSummary}
     console.log('❌ No visualization data found for message:', messageId);
   }, [showVisualization, getVisualization]);
 
-  // Handle message deletion (admin only)
+  // Handle message deletion (admin only); removals are recorded in the moderation log
   const handleDeleteMessage = useCallback(async (messageId: string) => {
     if (!isCurrentUserAdmin) {
       console.error('Unauthorized: Only admins can delete messages');
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('astra_chats')
-        .delete()
-        .eq('id', messageId)
-        .eq('mode', 'team');
-
-      if (error) {
-        console.error('Error deleting message:', error);
-        alert('Failed to delete message. Please try again.');
-        return;
-      }
+    const reason = window.prompt('Delete this message for everyone? This cannot be undone.\n\nReason (optional, saved in the moderation log):');
+    if (reason === null) return;
 
-      console.log('✅ Message deleted successfully:', messageId);
-      
-      // Refresh messages to reflect the deletion
-      await fetchMessages();
-    } catch (err) {
-      console.error('Error in handleDeleteMessage:', err);
+    const deleted = await adminDeleteMessage(messageId, reason);
+    if (!deleted) {
       alert('Failed to delete message. Please try again.');
+      return;
     }
-  }, [isCurrentUserAdmin, fetchMessages]);
-
-  // Handle reply to message
-  const handleReply = useCallback((messageId: string, messageContent: string, userName: string, timestamp: string) => {
-    setReplyState({
-      isReplying: true,
-      originalMessage: {
-        id: messageId,
-        content: messageContent,
-        userName: userName,
-        timestamp: timestamp
-      }
-    });
-    
-    // Focus the input (scroll to bottom)
-    setTimeout(() => {
-      const inputElement = document.querySelector('textarea');
-      if (inputElement) {
-        inputElement.focus();
-      }
-    }, 100);
-  }, []);
 
-  // Cancel reply
-  const handleCancelReply = useCallback(() => {
-    setReplyState({ isReplying: false, originalMessage: null });
-  }, []);
-
-  // Handle message reactions
-  const handleReact = useCallback(async (messageId: string, emoji: string) => {
-    if (!user) return;
-
-    try {
-      // Get current message to update reactions
-      const { data: currentMessage, error: fetchError } = await supabase
-        .from('astra_chats')
-        .select('metadata')
-        .eq('id', messageId)
-        .single();
+    // Refresh messages to reflect the deletion
+    await fetchMessages();
+    if (openThreadId) {
+      await fetchThread();
+    }
+  }, [isCurrentUserAdmin, adminDeleteMessage, fetchMessages, openThreadId, fetchThread]);
 
-      if (fetchError) {
-        console.error('Error fetching message for reaction:', fetchError);
-        return;
-      }
+  const handleEditMessage = useCallback(async (messageId: string, content: string): Promise<boolean> => {
+    const saved = await editMessage(messageId, content);
+    if (!saved) {
+      alert('Failed to edit message. Please try again.');
+    }
+    return saved;
+  }, [editMessage]);
 
-      const currentMetadata = currentMessage?.metadata || {};
-      const currentReactions = currentMetadata.reactions || [];
-      const userName = await getUserName();
+  const handleDeleteOwnMessage = useCallback(async (messageId: string) => {
+    const deleted = await deleteOwnMessage(messageId);
+    if (!deleted) {
+      alert('Failed to delete message. Messages can only be deleted shortly after posting.');
+    }
+  }, [deleteOwnMessage]);
+
+  const handleOpenThread = useCallback((rootMessageId: string) => {
+    setOpenThreadId(rootMessageId);
+    clearThreadReplies(rootMessageId);
+  }, [clearThreadReplies]);
+
+  // Team Astra answers keep the question they answered in astra_prompt
+  const handleScheduleReport = useCallback((message: GroupMessageType) => {
+    if (!message.astra_prompt || !onScheduleReport) return;
+    onScheduleReport(createReportDraft(message.astra_prompt, message.id));
+  }, [onScheduleReport]);
+
+  const openChannelModal = useCallback((channel: TeamChannel | null) => {
+    setChannelError(null);
+    setChannelModal({ channel });
+  }, [setChannelError]);
+
+  // Create a channel, or save name/description (and members for private channels) of an existing one
+  const handleSaveChannel = useCallback(async (draft: TeamChannelDraft): Promise<boolean> => {
+    const editing = channelModal?.channel;
+    if (!editing) {
+      return !!(await createChannel(draft));
+    }
 
-      // Find existing reaction with same emoji
-      const existingReactionIndex = currentReactions.findIndex((r: any) => r.emoji === emoji);
-      
-      let updatedReactions;
-      if (existingReactionIndex >= 0) {
-        // Reaction exists, toggle user's participation
-        const existingReaction = currentReactions[existingReactionIndex];
-        const userIndex = existingReaction.users.indexOf(userName);
-        
-        if (userIndex >= 0) {
-          // User already reacted, remove their reaction
-          existingReaction.users.splice(userIndex, 1);
-          existingReaction.count = existingReaction.users.length;
-          
-          // Remove reaction if no users left
-          if (existingReaction.count === 0) {
-            currentReactions.splice(existingReactionIndex, 1);
-          }
-        } else {
-          // User hasn't reacted, add their reaction
-          existingReaction.users.push(userName);
-          existingReaction.count = existingReaction.users.length;
-        }
-        updatedReactions = currentReactions;
-      } else {
-        // New reaction, add it
-        const newReaction = {
-          emoji,
-          label: getEmojiLabel(emoji),
-          count: 1,
-          users: [userName]
-        };
-        updatedReactions = [...currentReactions, newReaction];
-      }
+    const updated = await updateChannel(editing.id, { name: draft.name, description: draft.description });
+    if (!updated) return false;
+    return editing.isPrivate ? setChannelMembers(editing.id, draft.memberIds) : true;
+  }, [channelModal, createChannel, updateChannel, setChannelMembers]);
 
-      // Update message metadata with new reactions
-      const { error: updateError } = await supabase
-        .from('astra_chats')
-        .update({
-          metadata: {
-            ...currentMetadata,
-            reactions: updatedReactions
-          }
-        })
-        .eq('id', messageId);
+  const handleLeaveChannel = useCallback(async (channel: TeamChannel) => {
+    const warning = channel.isPrivate
+      ? `Leave #${channel.name}? You'll need to be re-added by a member to see it again.`
+      : `Leave #${channel.name}? You'll stop getting unread counts for it.`;
+    if (!window.confirm(warning)) return;
+    await leaveChannel(channel.id);
+    refreshUnreadCount();
+  }, [leaveChannel, refreshUnreadCount]);
 
-      if (updateError) {
-        console.error('Error updating message reactions:', updateError);
-        return;
-      }
+  const handleDeleteChannel = useCallback(async (channel: TeamChannel) => {
+    if (!window.confirm(`Delete #${channel.name} and all of its messages? This cannot be undone.`)) return;
+    await deleteChannel(channel.id);
+    refreshUnreadCount();
+  }, [deleteChannel, refreshUnreadCount]);
 
-      console.log('✅ Message reaction updated successfully:', messageId, emoji);
-      
-      // Refresh messages to show updated reactions
-      await fetchMessages();
-    } catch (err) {
-      console.error('Error in handleReact:', err);
-    }
-  }, [user, getUserName, fetchMessages]);
-
-  // Helper function to get emoji label
-  const getEmojiLabel = (emoji: string): string => {
-    const emojiLabels: Record<string, string> = {
-      '🚀': 'Rocket',
-      '😂': 'Laughing',
-      '🙏': 'Thank You',
-      '🤷': "I don't know",
-      '😢': 'Crying'
-    };
-    return emojiLabels[emoji] || 'Reaction';
-  };
 
   // Scroll to a specific message
   const scrollToMessage = useCallback((messageId: string) => {
@@ -883,6 +937,115 @@ ${finalSummary}
     </div>
   );
 
+  const channelHeader = (
+    <TeamChannelSwitcher
+      channels={channels}
+      activeChannel={activeChannel}
+      canManageAll={isCurrentUserAdmin}
+      onSelect={selectChannel}
+      onCreate={() => openChannelModal(null)}
+      onEdit={openChannelModal}
+      onLeave={handleLeaveChannel}
+      onDelete={handleDeleteChannel}
+      presence={<TeamPresenceList members={onlineMembers} currentUserId={user?.id} />}
+    />
+  );
+
+  const channelModalView = (
+    <TeamChannelModal
+      isOpen={!!channelModal}
+      channel={channelModal?.channel || null}
+      users={users}
+      error={channelError}
+      onClose={() => setChannelModal(null)}
+      onSave={handleSaveChannel}
+      loadMemberIds={getChannelMemberIds}
+    />
+  );
+
+  // Follow edits made while the history is open
+  const historyModalView = (
+    <MessageHistoryModal
+      message={historyMessage && (
+        [...messages, ...threadReplies, threadRootMessage].find(message => message?.id === historyMessage.id) || historyMessage
+      )}
+      onClose={() => setHistoryMessage(null)}
+    />
+  );
+
+  const moderationLogModalView = isCurrentUserAdmin && (
+    <ModerationLogModal
+      isOpen={showModerationLog}
+      channels={channels}
+      onClose={() => setShowModerationLog(false)}
+    />
+  );
+
+  const threadPanel = openThreadId && activeChannel && (
+    <ThreadPanel
+      channelName={activeChannel.name}
+      rootMessage={threadRootMessage}
+      replies={threadReplies}
+      loading={threadLoading}
+      error={threadError}
+      isSubscribed={isThreadSubscribed}
+      updatingSubscription={updatingThreadSubscription}
+      astraActivity={formatAstraActivity(isAstraThinking && astraThinkingThreadId === openThreadId, getAstraRequesters(openThreadId))}
+      typingIndicator={formatTypingIndicator(getTypingNames(openThreadId))}
+      users={users}
+      renderMessage={(message) => (
+        <GroupMessage
+          message={message}
+          currentUserId={user?.id || ''}
+          currentUserEmail={user?.email || ''}
+          isCurrentUserAdmin={isCurrentUserAdmin}
+          onViewVisualization={handleViewVisualization}
+          onCreateVisualization={handleCreateVisualization}
+          onDeleteMessage={handleDeleteMessage}
+          onEditMessage={handleEditMessage}
+          onDeleteOwnMessage={handleDeleteOwnMessage}
+          onViewHistory={setHistoryMessage}
+          onReact={toggleReaction}
+          reactions={getReactions(message.id)}
+          onOpenSharedConversation={onOpenSharedConversation}
+          onScheduleReport={onScheduleReport ? handleScheduleReport : undefined}
+          visualizationState={getVisualizationState(message.id)}
+        />
+      )}
+      onToggleSubscription={toggleThreadSubscription}
+      onSend={handleSendThreadReply}
+      onTyping={(isTyping) => notifyTyping(isTyping, openThreadId)}
+      onClose={() => setOpenThreadId(null)}
+    />
+  );
+
+  // Newest reply in a followed thread that isn't already open
+  const latestThreadReply = notifications.threadReplies.find(reply => reply.threadRootId !== openThreadId);
+  const threadReplyAlert = latestThreadReply && (
+    <div className="fixed bottom-24 right-4 z-50 bg-gray-800 border border-blue-500/40 text-white rounded-lg shadow-lg p-4 max-w-sm animate-slide-in">
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          <div className="text-sm">
+            <strong>{latestThreadReply.userName}</strong> replied in a thread you follow
+          </div>
+          <div className="text-sm text-gray-300 mt-1 line-clamp-2">"{latestThreadReply.message}"</div>
+          <button
+            onClick={() => handleOpenThread(latestThreadReply.threadRootId)}
+            className="mt-2 text-xs font-medium text-blue-300 hover:text-blue-200"
+          >
+            Open thread
+          </button>
+        </div>
+        <button
+          onClick={() => clearThreadReplies()}
+          className="p-1 hover:bg-gray-700 rounded transition-colors ml-2"
+        >
+          <X className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+    </div>
+  );
+
   // Show search sidebar
   if (showTeamMenu) {
     return (
@@ -914,6 +1077,19 @@ ${finalSummary}
               </button>
             </div>
 
+            {/* Moderation Log Button (admin only) */}
+            {isCurrentUserAdmin && (
+              <div className="mb-4">
+                <button
+                  onClick={() => setShowModerationLog(true)}
+                  className="w-full bg-gray-700 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span>Moderation Log</span>
+                </button>
+              </div>
+            )}
+
             {/* Summarize Chat Button */}
             <div className="mb-4">
               <div className="relative">
@@ -1030,7 +1206,9 @@ ${finalSummary}
                 {searchResults.map((message) => (
                   <div
                     key={message.id}
-                    onClick={() => scrollToMessage(message.id)}
+                    onClick={() => message.thread_root_id && !message.also_sent_to_channel
+                      ? handleOpenThread(message.thread_root_id)
+                      : scrollToMessage(message.id)}
                     className="p-3 rounded-lg cursor-pointer transition-all duration-200 mb-2 hover:bg-gray-700/50 hover:border hover:border-blue-500/30"
                   >
                     <div className="flex items-start space-x-3">
@@ -1068,6 +1246,8 @@ ${finalSummary}
         )}
 
         {/* Main Chat Area */}
+      {threadReplyAlert}
+
       {/* Mention Alert */}
       {showMentionAlert && notifications.mentions.length > 0 && (
         <div className="fixed top-20 right-4 z-50 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-lg shadow-lg p-4 max-w-sm animate-slide-in">
@@ -1103,6 +1283,8 @@ ${finalSummary}
       )}
 
         <div className="flex-1 flex flex-col lg:ml-0">
+          {channelHeader}
+
           {/* Messages */}
           <div className="flex-1 overflow-y-auto p-4 space-y-1 chat-messages-container">
             {loading ? (
@@ -1132,14 +1314,20 @@ ${finalSummary}
                       onViewVisualization={handleViewVisualization}
                       onCreateVisualization={handleCreateVisualization}
                       onDeleteMessage={handleDeleteMessage}
-                      onReact={handleReact}
-                      onReply={handleReply}
+                      onEditMessage={handleEditMessage}
+                      onDeleteOwnMessage={handleDeleteOwnMessage}
+                      onViewHistory={setHistoryMessage}
+                      onReact={toggleReaction}
+                      reactions={getReactions(message.id)}
+                      onOpenThread={handleOpenThread}
+                      onOpenSharedConversation={onOpenSharedConversation}
+                      onScheduleReport={onScheduleReport ? handleScheduleReport : undefined}
                       visualizationState={getVisualizationState(message.id)}
                     />
                   </div>
                 ))}
 
-                {isAstraThinking && (
+                {channelAstraActivity && (
                   <div className="flex justify-start mb-4">
                     <div className="flex-shrink-0 mr-3">
                       <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-600 to-purple-600 flex items-center justify-center text-sm">
@@ -1148,7 +1336,7 @@ ${finalSummary}
                     </div>
                     <div className="bg-gradient-to-br from-gray-700 to-gray-800 text-white rounded-2xl px-4 py-3 border border-blue-500/20">
                       <div className="flex items-center space-x-2">
-                        <span className="text-sm">Astra is thinking</span>
+                        <span className="text-sm">{channelAstraActivity}</span>
                         <div className="flex space-x-1">
                           <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
                           <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
@@ -1166,20 +1354,28 @@ ${finalSummary}
 
           {/* Input */}
           <div className="bg-gray-900 border-t border-gray-700 p-2 lg:p-4">
+            {channelTypingIndicator && (
+              <div className="text-xs text-gray-400 italic px-2 pb-1">{channelTypingIndicator}</div>
+            )}
             <MentionInput
               value={inputValue}
               onChange={setInputValue}
               onSend={handleSendMessage}
-              disabled={loading}
-              placeholder="Type a message... Use @astra for AI Intelligence"
+              disabled={loading || !activeChannel}
+              placeholder={`Message #${activeChannel?.name || 'general'}... Use @astra for AI Intelligence`}
               users={users}
-              replyState={replyState}
-              onCancelReply={handleCancelReply}
+              slashCommands={slashCommands}
+              onTyping={notifyTyping}
             />
           </div>
         </div>
+        {threadPanel}
+
         {/* Team Members Modal */}
         {membersModal}
+        {channelModalView}
+        {historyModalView}
+        {moderationLogModalView}
       </div>
     );
   }
@@ -1188,8 +1384,15 @@ ${finalSummary}
     <>
       {/* Team Members Modal */}
       {membersModal}
+      {channelModalView}
+      {historyModalView}
+      {moderationLogModalView}
+      {threadReplyAlert}
       
-      <div className="flex flex-col h-full">
+      <div className="flex h-full">
+      <div className="flex-1 flex flex-col min-w-0">
+        {channelHeader}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-1 chat-messages-container">
           {loading ? (
@@ -1243,14 +1446,20 @@ ${finalSummary}
                     onViewVisualization={handleViewVisualization}
                     onCreateVisualization={handleCreateVisualization}
                     onDeleteMessage={handleDeleteMessage}
-                    onReact={handleReact}
-                    onReply={handleReply}
+                    onEditMessage={handleEditMessage}
+                    onDeleteOwnMessage={handleDeleteOwnMessage}
+                    onViewHistory={setHistoryMessage}
+                    onReact={toggleReaction}
+                    reactions={getReactions(message.id)}
+                    onOpenThread={handleOpenThread}
+                    onOpenSharedConversation={onOpenSharedConversation}
+                    onScheduleReport={onScheduleReport ? handleScheduleReport : undefined}
                     visualizationState={getVisualizationState(message.id)}
                   />
                 </div>
               ))}
 
-              {isAstraThinking && (
+              {channelAstraActivity && (
                 <div className="flex justify-start mb-4">
                   <div className="flex-shrink-0 mr-3">
                     <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-600 to-purple-600 flex items-center justify-center text-sm">
@@ -1259,7 +1468,7 @@ ${finalSummary}
                   </div>
                   <div className="bg-gradient-to-br from-gray-700 to-gray-800 text-white rounded-2xl px-4 py-3 border border-blue-500/20">
                     <div className="flex items-center space-x-2">
-                      <span className="text-sm">Astra is thinking</span>
+                      <span className="text-sm">{channelAstraActivity}</span>
                       <div className="flex space-x-1">
                         <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
                         <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
@@ -1279,20 +1488,26 @@ ${finalSummary}
         <div className="bg-gray-900 border-t border-gray-700 p-4">
           <div className="flex items-end space-x-3 max-w-4xl mx-auto">
             <div className="flex-1">
+              {channelTypingIndicator && (
+                <div className="text-xs text-gray-400 italic px-2 pb-1">{channelTypingIndicator}</div>
+              )}
               <MentionInput
                 value={inputValue}
                 onChange={setInputValue}
                 onSend={handleSendMessage}
-                disabled={loading}
-                placeholder="Type a message... Use @astra for AI Intelligence"
+                disabled={loading || !activeChannel}
+                placeholder={`Message #${activeChannel?.name || 'general'}... Use @astra for AI Intelligence`}
                 users={users}
-                replyState={replyState}
-                onCancelReply={handleCancelReply}
+                slashCommands={slashCommands}
+                onTyping={notifyTyping}
               />
             </div>
           </div>
         </div>
       </div>
+
+      {threadPanel}
+      </div>
     </>
   );
 };
\ No newline at end of file
@@ -1,45 +1,60 @@
 import React from 'react';
-import { BarChart3, Check, RefreshCw, Trash2, Plus, Reply } from 'lucide-react';
-import { GroupMessage as GroupMessageType } from '../types';
-
-interface Reaction {
-  emoji: string;
-  label: string;
-  count: number;
-  users: string[];
-}
+import { BarChart3, Check, RefreshCw, Trash2, Plus, Reply, MessageSquare, MessagesSquare, ArrowRight, CalendarClock, Pencil } from 'lucide-react';
+import { GroupMessage as GroupMessageType, ReactionSummary } from '../types';
+import { MarkdownMessage } from './MarkdownMessage';
+import { QUICK_REACTIONS, isEmoji } from '../lib/reactions';
+import { canEditMessage, canSelfDeleteMessage } from '../lib/messageEditing';
 
 interface ReactionPickerProps {
   onReact: (emoji: string) => void;
   onClose: () => void;
 }
 
+// Quick reactions plus a box for any other emoji (typed, pasted or from the OS emoji picker)
 const ReactionPicker: React.FC<ReactionPickerProps> = ({ onReact, onClose }) => {
-  const reactions = [
-    { emoji: '🚀', label: 'Rocket' },
-    { emoji: '😂', label: 'Laughing' },
-    { emoji: '🙏', label: 'Thank You' },
-    { emoji: '🤷', label: "I don't know" },
-    { emoji: '😢', label: 'Crying' }
-  ];
+  const [customEmoji, setCustomEmoji] = React.useState('');
+  const isValidCustomEmoji = isEmoji(customEmoji);
+
+  const react = (emoji: string) => {
+    onReact(emoji);
+    onClose();
+  };
 
   return (
-    <div className="absolute bottom-full right-0 mb-2 bg-gray-700 rounded-lg shadow-lg border border-gray-600 p-2 z-50">
-      <div className="flex space-x-2">
-        {reactions.map((reaction) => (
+    <div className="absolute bottom-full right-0 mb-2 bg-gray-700 rounded-lg shadow-lg border border-gray-600 p-2 z-50 w-64">
+      <div className="grid grid-cols-5 gap-1">
+        {QUICK_REACTIONS.map((emoji) => (
           <button
-            key={reaction.emoji}
-            onClick={() => {
-              onReact(reaction.emoji);
-              onClose();
-            }}
-            className="p-2 hover:bg-gray-600 rounded-lg transition-colors text-xl"
-            title={reaction.label}
+            key={emoji}
+            onClick={() => react(emoji)}
+            className="p-1.5 hover:bg-gray-600 rounded-lg transition-colors text-xl"
           >
-            {reaction.emoji}
+            {emoji}
           </button>
         ))}
       </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isValidCustomEmoji) react(customEmoji.trim());
+        }}
+        className="flex items-center space-x-1 mt-2 pt-2 border-t border-gray-600"
+      >
+        <input
+          type="text"
+          value={customEmoji}
+          onChange={(e) => setCustomEmoji(e.target.value)}
+          placeholder="Any emoji..."
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!isValidCustomEmoji}
+          className="px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+        >
+          Add
+        </button>
+      </form>
     </div>
   );
 };
@@ -52,79 +67,21 @@ interface GroupMessageProps {
   onViewVisualization?: (messageId: string, visualizationData: string) => void;
   onCreateVisualization?: (messageId: string, messageContent: string) => void;
   onDeleteMessage?: (messageId: string) => void;
+  // Author-only actions; edits resolve to whether they were saved
+  onEditMessage?: (messageId: string, content: string) => Promise<boolean>;
+  onDeleteOwnMessage?: (messageId: string) => void;
+  onViewHistory?: (message: GroupMessageType) => void;
   onReact?: (messageId: string, emoji: string) => void;
-  onReply?: (messageId: string, messageContent: string, userName: string, timestamp: string) => void;
+  reactions?: ReactionSummary[];
+  // Opens the thread started by (or containing) a message; not passed inside the thread panel
+  onOpenThread?: (rootMessageId: string) => void;
+  onOpenSharedConversation?: (shareId: string) => void;
+  onScheduleReport?: (message: GroupMessageType) => void;
   visualizationState?: any;
 }
 
-const formatMessageContent = (content: string, mentions: string[], isAstraMessage: boolean = false): JSX.Element => {
-  if (isAstraMessage) {
-    // Use the same formatting logic as private chat for Astra messages
-    const lines = content.split('\n');
-    const elements: JSX.Element[] = [];
-    
-    lines.forEach((line, index) => {
-      const trimmedLine = line.trim();
-      
-      // Skip empty lines but add spacing
-      if (!trimmedLine) {
-        elements.push(<br key={`br-${index}`} />);
-        return;
-      }
-      
-      // Handle numbered lists (1. 2. 3. etc.)
-      const numberedListMatch = trimmedLine.match(/^(\d+)\.\s*\*\*(.*?)\*\*:\s*(.*)$/);
-      if (numberedListMatch) {
-        const [, number, title, content] = numberedListMatch;
-        elements.push(
-          <div key={index} className="mb-4">
-            <div className="flex items-start space-x-2">
-              <span className="flex-shrink-0 w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-sm font-bold">
-                {number}
-              </span>
-              <div className="flex-1">
-                <div className="font-bold text-blue-300 mb-1">{title}</div>
-                <div className="text-gray-300 leading-relaxed">{content}</div>
-              </div>
-            </div>
-          </div>
-        );
-        return;
-      }
-      
-      // Handle regular bold text
-      const boldRegex = /\*\*(.*?)\*\*/g;
-      if (boldRegex.test(trimmedLine)) {
-        const parts = trimmedLine.split(boldRegex);
-        const formattedParts = parts.map((part, partIndex) => {
-          if (partIndex % 2 === 1) {
-            return <strong key={partIndex} className="font-bold text-blue-300">{part}</strong>;
-          }
-          return part;
-        });
-        elements.push(<div key={index} className="mb-2">{formattedParts}</div>);
-        return;
-      }
-      
-      // Handle bullet points
-      if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-')) {
-        elements.push(
-          <div key={index} className="flex items-start space-x-2 mb-2 ml-4">
-            <span className="text-blue-400 mt-1">•</span>
-            <span className="text-gray-300">{trimmedLine.substring(1).trim()}</span>
-          </div>
-        );
-        return;
-      }
-      
-      // Regular text
-      elements.push(<div key={index} className="mb-2 text-gray-300">{trimmedLine}</div>);
-    });
-    
-    return <div>{elements}</div>;
-  }
-
-  // Format user messages with bold @mentions - handle both manual typing and dropdown selections
+// Format user messages with bold @mentions - handle both manual typing and dropdown selections
+const formatMessageContent = (content: string): JSX.Element => {
   const mentionRegex = /@([A-Za-z]+(?:\s+[A-Za-z]+)*?)(?=\s|$)/g;
   const parts = content.split(mentionRegex);
   
@@ -184,17 +141,30 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
   onViewVisualization,
   onCreateVisualization,
   onDeleteMessage,
+  onEditMessage,
+  onDeleteOwnMessage,
+  onViewHistory,
   onReact,
-  onReply,
+  reactions = [],
+  onOpenThread,
+  onOpenSharedConversation,
+  onScheduleReport,
   visualizationState
 }) => {
   const isOwnMessage = message.user_id === currentUserId;
   const isAstraMessage = message.message_type === 'astra';
   const isReplyMessage = message.metadata?.reply_to_message_id;
+  const image = message.metadata?.image;
+  const sharedConversation = message.metadata?.shared_conversation;
   const hasVisualization = message.visualization_data || visualizationState?.hasVisualization;
   const isGeneratingVisualization = visualizationState?.isGenerating || false;
   const [showReactionPicker, setShowReactionPicker] = React.useState(false);
-  const [reactions, setReactions] = React.useState<Reaction[]>([]);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [editValue, setEditValue] = React.useState('');
+  const [savingEdit, setSavingEdit] = React.useState(false);
+  const isDeleted = !!message.deleted_at;
+  const canEdit = !!onEditMessage && canEditMessage(message, currentUserId);
+  const canDeleteOwn = !!onDeleteOwnMessage && canSelfDeleteMessage(message, currentUserId);
   
   // Allow visualization creation if:
   // 1. It's an Astra message AND
@@ -245,9 +215,27 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
     }
   };
 
-  const handleDeleteMessage = () => {
-    if (window.confirm('Are you sure you want to delete this message? This action cannot be undone.')) {
-      onDeleteMessage?.(message.id);
+  const handleStartEdit = () => {
+    setEditValue(message.message_content);
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!onEditMessage || !editValue.trim()) return;
+    if (editValue.trim() === message.message_content) {
+      setIsEditing(false);
+      return;
+    }
+
+    setSavingEdit(true);
+    const saved = await onEditMessage(message.id, editValue);
+    setSavingEdit(false);
+    if (saved) setIsEditing(false);
+  };
+
+  const handleDeleteOwnMessage = () => {
+    if (window.confirm('Delete this message? It will be replaced with "This message was deleted".')) {
+      onDeleteOwnMessage?.(message.id);
     }
   };
 
@@ -257,19 +245,13 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
     }
   };
 
-  const handleReply = () => {
-    if (onReply) {
-      onReply(message.id, message.message_content, message.user_name, message.created_at);
-    }
+  const handleReplyInThread = () => {
+    onOpenThread?.(message.thread_root_id || message.id);
   };
 
-  // Mock reactions data - in a real app, this would come from the database
-  React.useEffect(() => {
-    // Initialize with any existing reactions from message metadata
-    if (message.metadata?.reactions) {
-      setReactions(message.metadata.reactions);
-    }
-  }, [message.metadata?.reactions]);
+  const threadReplyCount = message.thread_reply_count || 0;
+  const threadParticipants = message.thread_participants || [];
+  const isChannelThreadReply = !!message.thread_root_id && message.also_sent_to_channel;
 
   return (
     <div className={`flex mb-4 ${isOwnMessage && !isAstraMessage ? 'justify-end' : 'justify-start'}`}>
@@ -299,9 +281,30 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
             <span className="text-xs text-gray-500">
               {formatTime(message.created_at)}
             </span>
+            {message.edited_at && !isDeleted && (
+              <button
+                onClick={() => onViewHistory?.(message)}
+                disabled={!onViewHistory}
+                className="text-xs text-gray-500 hover:text-gray-300 disabled:hover:text-gray-500 transition-colors"
+                title="View edit history"
+              >
+                (edited)
+              </button>
+            )}
           </div>
         )}
 
+        {/* Thread reply that was also sent to the channel */}
+        {isChannelThreadReply && onOpenThread && (
+          <button
+            onClick={handleReplyInThread}
+            className="flex items-center space-x-1 mb-1 text-xs text-gray-400 hover:text-blue-300 transition-colors"
+          >
+            <MessagesSquare className="w-3 h-3" />
+            <span>Replied to a thread · View thread</span>
+          </button>
+        )}
+
         {/* Message bubble container */}
         <div className="relative group">
           {/* Message bubble */}
@@ -315,7 +318,7 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
             {/* Admin Delete Button */}
             {isCurrentUserAdmin && onDeleteMessage && (
               <button
-                onClick={handleDeleteMessage}
+                onClick={() => onDeleteMessage(message.id)}
                 className="absolute top-2 right-8 opacity-0 group-hover:opacity-100 p-1 hover:bg-red-500/20 rounded transition-all duration-200"
                 title="Delete message (Admin only)"
               >
@@ -347,18 +350,30 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
             {/* Show original prompt for Astra messages */}
             {isAstraMessage && message.astra_prompt && (
               <div className="mb-3 pb-3 border-b border-gray-600/50">
-                <div className="text-xs text-gray-400 mb-1">Responding to:</div>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="text-xs text-gray-400">Responding to:</div>
+                  {onScheduleReport && (
+                    <button
+                      onClick={() => onScheduleReport(message)}
+                      className="flex items-center space-x-1 text-xs text-blue-300 hover:text-blue-200 transition-colors"
+                      title="Turn this into a scheduled report"
+                    >
+                      <CalendarClock className="w-3 h-3" />
+                      <span>Schedule</span>
+                    </button>
+                  )}
+                </div>
                 <div className="text-sm text-gray-300 italic">"{message.astra_prompt}"</div>
                 <div className="text-xs text-blue-300 mt-1">Asked by {message.metadata?.asked_by_user_name || 'Unknown User'}</div>
               </div>
             )}
 
             {/* Image Display */}
-            {message.metadata?.image && (
+            {image && (
               <div className="mt-3 mb-3">
                 <img
-                  src={message.metadata.image.url}
-                  alt={message.metadata.image.filename}
+                  src={image.url}
+                  alt={image.filename}
                   className="max-w-full max-h-64 rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
                   onClick={() => {
                     // Open image in modal - we'll implement this next
@@ -367,7 +382,7 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
                     modal.onclick = () => modal.remove();
                     
                     const img = document.createElement('img');
-                    img.src = message.metadata.image.url;
+                    img.src = image.url;
                     img.className = 'max-w-full max-h-full object-contain';
                     img.onclick = (e) => e.stopPropagation();
                     
@@ -382,21 +397,61 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
                   }}
                 />
                 <div className="text-xs text-gray-400 mt-1">
-                  {message.metadata.image.filename} • {(message.metadata.image.size / 1024 / 1024).toFixed(2)} MB
+                  {image.filename} • {(image.size / 1024 / 1024).toFixed(2)} MB
                 </div>
               </div>
             )}
 
-            <div className="break-words text-sm leading-relaxed">
-              {isOwnMessage && !isAstraMessage ? (
-                <div className="whitespace-pre-wrap">{formatMessageContent(finalText, message.mentions, false)}</div>
-              ) : (
-                formatMessageContent(finalText, message.mentions, isAstraMessage)
-              )}
-            </div>
+            {isEditing ? (
+              <div>
+                <textarea
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSaveEdit();
+                    } else if (e.key === 'Escape') {
+                      setIsEditing(false);
+                    }
+                  }}
+                  autoFocus
+                  rows={Math.min(Math.max(editValue.split('\n').length, 2), 8)}
+                  className="w-full min-w-[16rem] bg-gray-900/60 border border-white/20 rounded-lg px-3 py-2 text-white text-sm resize-none focus:outline-none focus:ring-2 focus:ring-white/40"
+                />
+                <div className="flex items-center justify-end space-x-2 mt-2 text-xs">
+                  <span className="opacity-70 mr-auto">Enter to save · Esc to cancel</span>
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    className="px-2 py-1 rounded-lg hover:bg-white/10 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveEdit}
+                    disabled={savingEdit || !editValue.trim()}
+                    className="px-2 py-1 rounded-lg bg-white/20 hover:bg-white/30 disabled:opacity-50 transition-colors"
+                  >
+                    {savingEdit ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            ) : isDeleted ? (
+              <div className="text-sm italic opacity-70">This message was deleted</div>
+            ) : (
+              <div className="break-words text-sm leading-relaxed">
+                {isAstraMessage ? (
+                  <MarkdownMessage content={finalText} />
+                ) : isOwnMessage ? (
+                  <div className="whitespace-pre-wrap">{formatMessageContent(finalText)}</div>
+                ) : (
+                  formatMessageContent(finalText)
+                )}
+              </div>
+            )}
             
             {/* Show More/Less button */}
-            {(isLongMessage || shouldShowMore) && (
+            {(isLongMessage || shouldShowMore) && !isEditing && !isDeleted && (
               <button
                 onClick={() => setIsExpanded(!isExpanded)}
                 className="text-xs underline mt-2 opacity-90 hover:opacity-100 transition-opacity"
@@ -405,6 +460,26 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
               </button>
             )}
 
+            {/* Card linking back to a shared private conversation */}
+            {sharedConversation && (
+              <button
+                onClick={() => onOpenSharedConversation?.(sharedConversation.share_id)}
+                disabled={!onOpenSharedConversation}
+                className="mt-3 w-full flex items-center space-x-3 bg-gray-800/60 hover:bg-gray-800 border border-gray-500/50 hover:border-blue-400 rounded-lg px-3 py-2 text-left transition-colors disabled:cursor-default"
+              >
+                <MessageSquare className="w-4 h-4 text-blue-300 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-white truncate">
+                    {sharedConversation.title}
+                  </div>
+                  <div className="text-xs text-gray-300">
+                    Shared conversation · {sharedConversation.message_count} messages
+                  </div>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-300 flex-shrink-0" />
+              </button>
+            )}
+
             {/* Visualization button for Astra messages */}
             {isAstraMessage && (onViewVisualization || (onCreateVisualization && canCreateVisualization)) && (
               <div className="mt-3">
@@ -452,21 +527,64 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
 
             {/* Timestamp for own messages */}
             {isOwnMessage && !isAstraMessage && (
-              <div className="text-xs opacity-70 mt-2">
-                {formatTime(message.created_at)}
+              <div className="text-xs opacity-70 mt-2 flex items-center space-x-2">
+                <span>{formatTime(message.created_at)}</span>
+                {message.edited_at && !isDeleted && (
+                  <button
+                    onClick={() => onViewHistory?.(message)}
+                    disabled={!onViewHistory}
+                    className="hover:underline disabled:no-underline"
+                    title="View edit history"
+                  >
+                    (edited)
+                  </button>
+                )}
               </div>
             )}
           </div>
 
+          {/* Reply, edit and delete buttons for own messages */}
+          {isOwnMessage && !isAstraMessage && !isEditing && !isDeleted && (onOpenThread || canEdit || canDeleteOwn) && (
+            <div className="absolute top-2 right-full mr-2 flex space-x-1">
+              {canDeleteOwn && (
+                <button
+                  onClick={handleDeleteOwnMessage}
+                  className="opacity-0 group-hover:opacity-100 bg-gray-600 hover:bg-red-600 text-white p-2 rounded-full transition-all duration-200 shadow-lg"
+                  title="Delete message"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={handleStartEdit}
+                  className="opacity-0 group-hover:opacity-100 bg-gray-600 hover:bg-blue-600 text-white p-2 rounded-full transition-all duration-200 shadow-lg"
+                  title="Edit message"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              {onOpenThread && (
+                <button
+                  onClick={handleReplyInThread}
+                  className="opacity-0 group-hover:opacity-100 bg-gray-600 hover:bg-blue-600 text-white p-2 rounded-full transition-all duration-200 shadow-lg"
+                  title="Reply in thread"
+                >
+                  <Reply className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+
           {/* React button - only show for messages from other users */}
-          {!isOwnMessage && (onReact || onReply) && (
+          {!isOwnMessage && !isDeleted && (onReact || onOpenThread) && (
             <div className="absolute top-2 -right-16 flex space-x-1">
-              {/* Reply button */}
-              {onReply && (
+              {/* Reply in thread button */}
+              {onOpenThread && (
                 <button
-                  onClick={handleReply}
+                  onClick={handleReplyInThread}
                   className="opacity-0 group-hover:opacity-100 bg-gray-600 hover:bg-blue-600 text-white p-2 rounded-full transition-all duration-200 shadow-lg"
-                  title="Reply to message"
+                  title="Reply in thread"
                 >
                   <Reply className="w-4 h-4" />
                 </button>
@@ -498,12 +616,17 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
         {/* Display existing reactions */}
         {reactions.length > 0 && (
           <div className="flex flex-wrap gap-2 mt-2">
-            {reactions.map((reaction, index) => (
+            {reactions.map((reaction) => (
               <button
-                key={index}
+                key={reaction.emoji}
                 onClick={() => handleReact(reaction.emoji)}
-                className="flex items-center space-x-1 bg-gray-600/50 hover:bg-gray-600 rounded-full px-2 py-1 text-xs transition-colors"
-                title={`${reaction.users.join(', ')} reacted with ${reaction.label}`}
+                disabled={!onReact}
+                className={`flex items-center space-x-1 rounded-full px-2 py-1 text-xs border transition-colors ${
+                  reaction.reactedByMe
+                    ? 'bg-blue-600/30 border-blue-400/60 hover:bg-blue-600/40'
+                    : 'bg-gray-600/50 border-transparent hover:bg-gray-600'
+                }`}
+                title={`${reaction.userNames.join(', ')} reacted with ${reaction.emoji}`}
               >
                 <span>{reaction.emoji}</span>
                 <span className="text-gray-300">{reaction.count}</span>
@@ -511,6 +634,34 @@ export const GroupMessage: React.FC<GroupMessageProps> = ({
             ))}
           </div>
         )}
+
+        {/* Thread summary: reply count and who took part */}
+        {threadReplyCount > 0 && !message.thread_root_id && onOpenThread && (
+          <button
+            onClick={handleReplyInThread}
+            className="flex items-center space-x-2 mt-2 px-2 py-1 rounded-lg hover:bg-gray-700/60 transition-colors"
+          >
+            <div className="flex -space-x-1.5">
+              {threadParticipants.slice(0, 3).map(participant => (
+                <div
+                  key={participant}
+                  className={`w-5 h-5 rounded-full border border-gray-900 flex items-center justify-center text-[10px] font-bold text-white ${
+                    participant === 'Astra' ? 'bg-gradient-to-br from-blue-600 to-purple-600' : 'bg-gray-600'
+                  }`}
+                  title={participant}
+                >
+                  {participant === 'Astra' ? '🚀' : participant.charAt(0).toUpperCase()}
+                </div>
+              ))}
+            </div>
+            <span className="text-xs font-medium text-blue-300">
+              {threadReplyCount} {threadReplyCount === 1 ? 'reply' : 'replies'}
+            </span>
+            {message.thread_last_reply_at && (
+              <span className="text-xs text-gray-500">{formatTime(message.thread_last_reply_at)}</span>
+            )}
+          </button>
+        )}
       </div>
     </div>
   );
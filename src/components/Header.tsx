@@ -1,21 +1,30 @@
 import React from 'react';
-import { Menu, User, MessageSquare, Users, Search } from 'lucide-react';
+import { Menu, User, MessageSquare, Users, Search, Download, Share2, Command, Keyboard } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { ChatMode } from '../types';
 import { NotificationBell } from './NotificationBell';
+import { formatShortcutLabel } from '../lib/keyboardShortcuts';
 
 interface HeaderProps {
   onToggleSidebar: () => void;
   showSidebarToggle?: boolean;
   chatMode?: ChatMode;
   onToggleTeamMenu?: () => void;
+  onExportConversation?: () => void;
+  onShareConversation?: () => void;
+  onOpenCommandPalette?: () => void;
+  onShowShortcuts?: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({ 
   onToggleSidebar, 
   showSidebarToggle = true,
   chatMode = 'private',
-  onToggleTeamMenu
+  onToggleTeamMenu,
+  onExportConversation,
+  onShareConversation,
+  onOpenCommandPalette,
+  onShowShortcuts
 }) => {
   const { user } = useAuth();
 
@@ -64,6 +73,42 @@ export const Header: React.FC<HeaderProps> = ({
 
         {/* Right side - User info */}
         <div className="flex items-center space-x-2">
+          {chatMode === 'private' && onShareConversation && (
+            <button
+              onClick={onShareConversation}
+              className="p-2 hover:bg-blue-700 rounded-lg transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center touch-manipulation"
+              title="Share conversation"
+            >
+              <Share2 className="w-5 h-5 text-white" />
+            </button>
+          )}
+          {chatMode === 'private' && onExportConversation && (
+            <button
+              onClick={onExportConversation}
+              className="p-2 hover:bg-blue-700 rounded-lg transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center touch-manipulation"
+              title="Export conversation"
+            >
+              <Download className="w-5 h-5 text-white" />
+            </button>
+          )}
+          {onOpenCommandPalette && (
+            <button
+              onClick={onOpenCommandPalette}
+              className="p-2 hover:bg-blue-700 rounded-lg transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center touch-manipulation"
+              title={`Command palette (${formatShortcutLabel('commandPalette')})`}
+            >
+              <Command className="w-5 h-5 text-white" />
+            </button>
+          )}
+          {onShowShortcuts && (
+            <button
+              onClick={onShowShortcuts}
+              className="hidden md:flex p-2 hover:bg-blue-700 rounded-lg transition-colors min-h-[44px] min-w-[44px] items-center justify-center"
+              title={`Keyboard shortcuts (${formatShortcutLabel('showShortcuts')})`}
+            >
+              <Keyboard className="w-5 h-5 text-white" />
+            </button>
+          )}
           <NotificationBell />
           <div className="hidden sm:block text-right">
             <p className="text-white text-sm font-medium">
@@ -0,0 +1,86 @@
+import React, { useEffect } from 'react';
+import { X, Keyboard } from 'lucide-react';
+import { KEYBOARD_SHORTCUTS, formatShortcut } from '../lib/keyboardShortcuts';
+
+interface KeyboardShortcutsHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Keys that work inside the chat inputs rather than app-wide
+const INPUT_KEYS: { keys: string[]; description: string }[] = [
+  { keys: ['Enter'], description: 'Send message' },
+  { keys: ['Shift', 'Enter'], description: 'New line' },
+  { keys: ['/'], description: 'Slash commands, e.g. /new or /report run' },
+  { keys: ['@'], description: 'Mention a teammate or Astra in team chat' }
+];
+
+const Keys: React.FC<{ keys: string[] }> = ({ keys }) => (
+  <span className="flex items-center space-x-1">
+    {keys.map(key => (
+      <kbd key={key} className="px-2 py-0.5 rounded bg-gray-900 border border-gray-600 text-gray-300 text-xs">
+        {key}
+      </kbd>
+    ))}
+  </span>
+);
+
+export const KeyboardShortcutsHelp: React.FC<KeyboardShortcutsHelpProps> = ({ isOpen, onClose }) => {
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Keyboard className="w-6 h-6 text-blue-500" />
+            <h2 className="text-xl font-bold text-white">Keyboard Shortcuts</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-3">
+            {KEYBOARD_SHORTCUTS.map(shortcut => (
+              <div key={shortcut.id} className="flex items-center justify-between">
+                <span className="text-gray-300 text-sm">{shortcut.description}</span>
+                <Keys keys={formatShortcut(shortcut)} />
+              </div>
+            ))}
+          </div>
+
+          <div className="pt-6 border-t border-gray-700 space-y-3">
+            <h3 className="text-white font-medium text-sm">In the message input</h3>
+            {INPUT_KEYS.map(entry => (
+              <div key={entry.description} className="flex items-center justify-between">
+                <span className="text-gray-300 text-sm">{entry.description}</span>
+                <Keys keys={entry.keys} />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
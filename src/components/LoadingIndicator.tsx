@@ -1,6 +1,10 @@
 import React from 'react';
 
-export const LoadingIndicator: React.FC = () => {
+interface LoadingIndicatorProps {
+  retryAttempt?: number;
+}
+
+export const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ retryAttempt = 0 }) => {
   return (
     <div className="flex justify-start mb-3 md:mb-4">
       <div className="flex-shrink-0 mr-2 md:mr-3 mt-1">
@@ -11,7 +15,9 @@ export const LoadingIndicator: React.FC = () => {
       
       <div className="bg-gradient-to-br from-gray-700 to-gray-800 text-white rounded-2xl px-3 py-2 md:px-4 md:py-3 shadow-sm max-w-xs">
         <div className="flex items-center space-x-2">
-          <span className="text-sm">Astra is thinking</span>
+          <span className="text-sm">
+            {retryAttempt > 0 ? `Connection issue, retrying (attempt ${retryAttempt + 1})` : 'Astra is thinking'}
+          </span>
           <div className="flex space-x-1">
             <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
             <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
@@ -1,10 +1,21 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef, useCallback } from 'react';
 import { Header } from './Header';
 import { ChatSidebar } from './ChatSidebar';
 import { ChatContainer } from './ChatContainer';
 import { GroupChat } from './GroupChat';
 import { ReportsView } from './Reports/ReportsView';
+import { CreateReportModal } from './Reports/CreateReportModal';
 import { ChatModeToggle } from './ChatModeToggle';
+import { ExportConversationModal } from './ExportConversationModal';
+import { ShareConversationModal } from './ShareConversationModal';
+import { SharedConversationView } from './SharedConversationView';
+import { CommandPalette } from './CommandPalette';
+import { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useReportsContext } from '../contexts/ReportsContext';
+import { PaletteItem } from '../lib/commandPalette';
+import { ReportDraft } from '../lib/reportDrafts';
+import { getShareIdFromUrl, clearShareIdFromUrl } from '../lib/conversationShare';
 import { ChatMode } from '../types';
 
 export const MainContainer: React.FC = () => {
@@ -14,11 +25,26 @@ export const MainContainer: React.FC = () => {
   const [shouldStartNewChat, setShouldStartNewChat] = useState(false);
   const [showTeamMenu, setShowTeamMenu] = useState(false);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [messageToJumpTo, setMessageToJumpTo] = useState<string | null>(null);
+  const [conversationToExport, setConversationToExport] = useState<string | null>(null);
+  const [conversationToShare, setConversationToShare] = useState<string | null>(null);
+  // Opened from a share link (?share=...) or a shared conversation card in team chat
+  const [sharedConversationId, setSharedConversationId] = useState<string | null>(() => getShareIdFromUrl());
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [isShortcutsHelpOpen, setIsShortcutsHelpOpen] = useState(false);
+  const [promptToInsert, setPromptToInsert] = useState<string | null>(null);
+  const [focusLatestReport, setFocusLatestReport] = useState(false);
+  // An Astra answer being turned into a scheduled report
+  const [reportDraft, setReportDraft] = useState<ReportDraft | null>(null);
+  // Set by the sidebar shortcut so switching to private chat opens the sidebar instead of closing it
+  const openSidebarOnSwitchRef = useRef(false);
+  const { runReportNow } = useReportsContext();
 
   // Close sidebar when switching away from private chat mode
   React.useEffect(() => {
     if (chatMode === 'private') {
-      setSidebarOpen(false);
+      setSidebarOpen(openSidebarOnSwitchRef.current);
+      openSidebarOnSwitchRef.current = false;
     }
   }, [chatMode]);
 
@@ -38,6 +64,16 @@ export const MainContainer: React.FC = () => {
     setSidebarOpen(false);
   };
 
+  // Open a search result: load its conversation, then scroll to the matched message
+  const handleJumpToMessage = (conversationId: string, messageId: string) => {
+    console.log('MainContainer: handleJumpToMessage called with:', conversationId, messageId);
+    if (conversationId !== activeConversationId) {
+      setConversationToLoad(conversationId);
+    }
+    setMessageToJumpTo(messageId);
+    setSidebarOpen(false);
+  };
+
   const handleStartNewConversation = () => {
     setShouldStartNewChat(true);
     setSidebarOpen(false);
@@ -58,10 +94,90 @@ export const MainContainer: React.FC = () => {
     }
   };
 
+  const handleCloseSharedConversation = () => {
+    setSharedConversationId(null);
+    clearShareIdFromUrl();
+  };
+
   const handleToggleTeamMenu = () => {
     setShowTeamMenu(!showTeamMenu);
   };
 
+  const handleNewChat = useCallback(() => {
+    setChatMode('private');
+    setShouldStartNewChat(true);
+    setSidebarOpen(false);
+  }, []);
+
+  const handleToggleSidebar = useCallback(() => {
+    if (chatMode === 'private') {
+      setSidebarOpen(open => !open);
+    } else {
+      openSidebarOnSwitchRef.current = true;
+      setChatMode('private');
+    }
+  }, [chatMode]);
+
+  // Both chat inputs mark their textarea; reports has none, so go to private chat first
+  const handleFocusInput = useCallback(() => {
+    if (chatMode === 'reports') setChatMode('private');
+    setTimeout(() => document.querySelector<HTMLTextAreaElement>('[data-chat-input]')?.focus(), 0);
+  }, [chatMode]);
+
+  const handleOpenLatestReport = useCallback(() => {
+    setChatMode('reports');
+    setFocusLatestReport(true);
+  }, []);
+
+  const handleOpenConversationFromPalette = useCallback((conversationId: string) => {
+    setChatMode('private');
+    setConversationToLoad(conversationId);
+  }, []);
+
+  const handleRunReportFromPalette = useCallback((reportId: string) => {
+    setChatMode('reports');
+    runReportNow(reportId);
+  }, [runReportNow]);
+
+  const handleUsePromptFromPalette = useCallback((text: string) => {
+    setChatMode('private');
+    setPromptToInsert(text);
+  }, []);
+
+  const handleInsertedPrompt = useCallback(() => setPromptToInsert(null), []);
+  const handleFocusedLatestReport = useCallback(() => setFocusLatestReport(false), []);
+
+  useKeyboardShortcuts({
+    commandPalette: () => setIsCommandPaletteOpen(open => !open),
+    newChat: handleNewChat,
+    focusInput: handleFocusInput,
+    toggleSidebar: handleToggleSidebar,
+    teamChat: () => setChatMode('team'),
+    latestReport: handleOpenLatestReport,
+    showShortcuts: () => setIsShortcutsHelpOpen(open => !open)
+  });
+
+  const paletteActions = useMemo<PaletteItem[]>(() => {
+    const actions: PaletteItem[] = [
+      { id: 'new-chat', group: 'Actions', title: 'New chat', keywords: 'private conversation start', shortcut: 'newChat', perform: handleNewChat },
+      { id: 'private-chat', group: 'Actions', title: 'Go to private chat', keywords: 'astra mode', perform: () => setChatMode('private') },
+      { id: 'team-chat', group: 'Actions', title: 'Go to team chat', keywords: 'group mode', shortcut: 'teamChat', perform: () => setChatMode('team') },
+      { id: 'reports', group: 'Actions', title: 'Go to reports', keywords: 'mode', perform: () => setChatMode('reports') },
+      { id: 'latest-report', group: 'Actions', title: 'Open latest report', shortcut: 'latestReport', perform: handleOpenLatestReport },
+      { id: 'toggle-sidebar', group: 'Actions', title: 'Toggle sidebar', keywords: 'conversations history', shortcut: 'toggleSidebar', perform: handleToggleSidebar },
+      { id: 'focus-input', group: 'Actions', title: 'Focus message input', keywords: 'type compose', shortcut: 'focusInput', perform: handleFocusInput },
+      { id: 'shortcuts', group: 'Actions', title: 'Keyboard shortcuts', keywords: 'help keys', shortcut: 'showShortcuts', perform: () => setIsShortcutsHelpOpen(true) }
+    ];
+
+    if (chatMode === 'private' && activeConversationId) {
+      actions.push(
+        { id: 'export', group: 'Actions', title: 'Export conversation', keywords: 'download markdown pdf json', perform: () => setConversationToExport(activeConversationId) },
+        { id: 'share', group: 'Actions', title: 'Share conversation', keywords: 'link team', perform: () => setConversationToShare(activeConversationId) }
+      );
+    }
+    return actions;
+  }, [chatMode, activeConversationId, handleNewChat, handleOpenLatestReport, handleToggleSidebar, handleFocusInput]);
+
   return (
     <div className="flex flex-col h-screen bg-gray-900">
       {/* Sidebar - only show for private chat mode */}
@@ -71,6 +187,9 @@ export const MainContainer: React.FC = () => {
           onClose={() => setSidebarOpen(false)}
           onLoadConversation={handleLoadConversation}
           onStartNewConversation={handleStartNewConversation}
+          onJumpToMessage={handleJumpToMessage}
+          onExportConversation={setConversationToExport}
+          onShareConversation={setConversationToShare}
           activeConversationId={activeConversationId}
         />
       )}
@@ -81,6 +200,10 @@ export const MainContainer: React.FC = () => {
           showSidebarToggle={chatMode === 'private'}
           chatMode={chatMode}
           onToggleTeamMenu={handleToggleTeamMenu}
+          onExportConversation={activeConversationId ? () => setConversationToExport(activeConversationId) : undefined}
+          onShareConversation={activeConversationId ? () => setConversationToShare(activeConversationId) : undefined}
+          onOpenCommandPalette={() => setIsCommandPaletteOpen(true)}
+          onShowShortcuts={() => setIsShortcutsHelpOpen(true)}
         />
         
         {/* Chat Mode Toggle */}
@@ -91,7 +214,10 @@ export const MainContainer: React.FC = () => {
         {/* Chat Content */}
         <div className="flex-1 overflow-hidden">
           {chatMode === 'reports' ? (
-            <ReportsView />
+            <ReportsView
+              focusLatestReport={focusLatestReport}
+              onLatestReportFocused={handleFocusedLatestReport}
+            />
           ) : chatMode === 'private' ? (
             <ChatContainer
               sidebarOpen={sidebarOpen}
@@ -101,16 +227,64 @@ export const MainContainer: React.FC = () => {
               onConversationLoaded={() => setConversationToLoad(null)}
               onNewChatStarted={() => setShouldStartNewChat(false)}
               onConversationChange={setActiveConversationId}
+              messageToJumpTo={messageToJumpTo}
+              onJumpedToMessage={() => setMessageToJumpTo(null)}
+              onExportConversation={setConversationToExport}
+              promptToInsert={promptToInsert}
+              onPromptInserted={handleInsertedPrompt}
+              onScheduleReport={setReportDraft}
             />
           ) : (
             <GroupChat 
               showTeamMenu={showTeamMenu}
               onCloseTeamMenu={() => setShowTeamMenu(false)}
+              onOpenTeamMenu={() => setShowTeamMenu(true)}
               onSwitchToPrivateChat={handleSwitchToPrivateChat}
+              onOpenSharedConversation={setSharedConversationId}
+              onScheduleReport={setReportDraft}
             />
           )}
         </div>
       </div>
+
+      <ExportConversationModal
+        isOpen={!!conversationToExport}
+        conversationId={conversationToExport}
+        onClose={() => setConversationToExport(null)}
+      />
+
+      <ShareConversationModal
+        isOpen={!!conversationToShare}
+        conversationId={conversationToShare}
+        onClose={() => setConversationToShare(null)}
+      />
+
+      <CreateReportModal
+        isOpen={!!reportDraft}
+        initialDraft={reportDraft}
+        onClose={() => setReportDraft(null)}
+      />
+
+      <CommandPalette
+        isOpen={isCommandPaletteOpen}
+        onClose={() => setIsCommandPaletteOpen(false)}
+        actions={paletteActions}
+        onOpenConversation={handleOpenConversationFromPalette}
+        onRunReport={handleRunReportFromPalette}
+        onUsePrompt={handleUsePromptFromPalette}
+      />
+
+      <KeyboardShortcutsHelp
+        isOpen={isShortcutsHelpOpen}
+        onClose={() => setIsShortcutsHelpOpen(false)}
+      />
+
+      {sharedConversationId && (
+        <SharedConversationView
+          shareId={sharedConversationId}
+          onClose={handleCloseSharedConversation}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
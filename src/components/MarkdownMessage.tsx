@@ -0,0 +1,227 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { ArrowDown, ArrowUp, ArrowUpDown, Check, Copy } from 'lucide-react';
+import 'highlight.js/styles/github-dark.css';
+
+// Shared Markdown renderer for Astra's answers in private chat, team chat and reports.
+// Raw HTML in the source is never rendered and unsafe link protocols are stripped by
+// react-markdown, so message text cannot inject markup or scripts.
+
+type HastNode = NonNullable<ExtraProps['node']>;
+type HastChild = HastNode['children'][number];
+
+interface MarkdownMessageProps {
+  content: string;
+  className?: string;
+}
+
+// Plain text of a hast subtree (used for copy buttons and table sorting)
+const getNodeText = (node: HastNode | HastChild): string => {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(getNodeText).join('');
+  return '';
+};
+
+const getChildElements = (node: HastNode, tagName?: string): HastNode[] =>
+  node.children.filter((child): child is HastNode =>
+    child.type === 'element' && (!tagName || child.tagName === tagName)
+  );
+
+const CodeBlock: React.FC<React.ComponentPropsWithoutRef<'pre'> & ExtraProps> = ({ node, children }) => {
+  const [copied, setCopied] = useState(false);
+  const codeElement = node ? getChildElements(node, 'code')[0] : undefined;
+  const classNames = codeElement?.properties?.className;
+  const language = Array.isArray(classNames)
+    ? classNames.map(String).find(name => name.startsWith('language-'))?.replace('language-', '')
+    : undefined;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codeElement ? getNodeText(codeElement).replace(/\n$/, '') : '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying code:', err);
+    }
+  };
+
+  return (
+    <div className="my-3 rounded-lg border border-gray-600 bg-gray-900 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-800 border-b border-gray-600 text-xs text-gray-400">
+        <span>{language || 'code'}</span>
+        <button
+          onClick={handleCopy}
+          className="flex items-center space-x-1 hover:text-white transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-xs leading-relaxed">{children}</pre>
+    </div>
+  );
+};
+
+type SortDirection = 'asc' | 'desc';
+
+interface TableSortState {
+  headerCells: HastNode[];
+  sortColumn: number | null;
+  sortDirection: SortDirection;
+  onSort: (column: number) => void;
+}
+
+const TableSortContext = createContext<TableSortState | null>(null);
+
+// "$1,234.50", "12%" and "-3" sort as numbers; everything else alphabetically
+const parseSortNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[$€£,%\s]/g, '');
+  if (!cleaned || !/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+const compareCells = (a: string, b: string): number => {
+  const numberA = parseSortNumber(a);
+  const numberB = parseSortNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const SortableTable: React.FC<React.ComponentPropsWithoutRef<'table'> & ExtraProps> = ({ node, children }) => {
+  const [sortColumn, setSortColumn] = useState<number | null>(null);
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+
+  const thead = node ? getChildElements(node, 'thead')[0] : undefined;
+  const tbody = node ? getChildElements(node, 'tbody')[0] : undefined;
+  const headerRow = thead ? getChildElements(thead, 'tr')[0] : undefined;
+  const headerCells = headerRow ? getChildElements(headerRow) : [];
+  const bodyRows = tbody ? getChildElements(tbody, 'tr') : [];
+
+  const handleSort = (column: number) => {
+    if (sortColumn === column) {
+      setSortDirection(direction => direction === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(column);
+      setSortDirection('asc');
+    }
+  };
+
+  // Reorder the rendered body rows to match the sorted hast rows
+  const renderedChildren = React.Children.map(children, child => {
+    if (sortColumn === null || !React.isValidElement<{ children?: React.ReactNode }>(child) || child.type !== 'tbody') {
+      return child;
+    }
+
+    const rows = React.Children.toArray(child.props.children);
+    if (rows.length !== bodyRows.length) return child;
+
+    const cellText = (rowIndex: number) => {
+      const cells = getChildElements(bodyRows[rowIndex]);
+      return cells[sortColumn] ? getNodeText(cells[sortColumn]).trim() : '';
+    };
+    const order = rows.map((_, index) => index).sort((a, b) => {
+      const result = compareCells(cellText(a), cellText(b));
+      return sortDirection === 'asc' ? result : -result;
+    });
+
+    return React.cloneElement(child, {}, order.map(index => rows[index]));
+  });
+
+  return (
+    <TableSortContext.Provider value={{ headerCells, sortColumn, sortDirection, onSort: handleSort }}>
+      <div className="my-3 overflow-x-auto rounded-lg border border-gray-600">
+        <table className="min-w-full text-xs md:text-sm border-collapse">
+          {renderedChildren}
+        </table>
+      </div>
+    </TableSortContext.Provider>
+  );
+};
+
+const SortableHeaderCell: React.FC<React.ComponentPropsWithoutRef<'th'> & ExtraProps> = ({ node, children, style }) => {
+  const sortState = useContext(TableSortContext);
+  const column = sortState && node ? sortState.headerCells.indexOf(node) : -1;
+
+  if (!sortState || column === -1) {
+    return <th className="px-3 py-2 text-left font-semibold text-blue-300 bg-gray-800" style={style}>{children}</th>;
+  }
+
+  const isSorted = sortState.sortColumn === column;
+  const SortIcon = !isSorted ? ArrowUpDown : sortState.sortDirection === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <th
+      className="px-3 py-2 text-left font-semibold text-blue-300 bg-gray-800 cursor-pointer select-none hover:bg-gray-700 transition-colors"
+      style={style}
+      onClick={() => sortState.onSort(column)}
+      aria-sort={isSorted ? (sortState.sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+      title="Sort by this column"
+    >
+      <span className="inline-flex items-center space-x-1">
+        <span>{children}</span>
+        <SortIcon className={`w-3 h-3 flex-shrink-0 ${isSorted ? 'text-blue-300' : 'text-gray-500'}`} />
+      </span>
+    </th>
+  );
+};
+
+const markdownComponents: Components = {
+  h1: ({ children }) => <h1 className="text-lg font-bold text-white mt-4 mb-2 first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-base font-bold text-white mt-4 mb-2 first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-bold text-blue-300 mt-3 mb-2 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-sm font-semibold text-blue-300 mt-3 mb-1 first:mt-0">{children}</h4>,
+  p: ({ children }) => <p className="mb-2 last:mb-0 text-gray-300">{children}</p>,
+  strong: ({ children }) => <strong className="font-bold text-blue-300">{children}</strong>,
+  em: ({ children }) => <em className="italic">{children}</em>,
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-400 underline hover:text-blue-300 break-all"
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc ml-5 mb-2 space-y-1 text-gray-300 marker:text-blue-400">{children}</ul>,
+  ol: ({ children, start }) => (
+    <ol start={start} className="list-decimal ml-5 mb-2 space-y-1 text-gray-300 marker:text-blue-400 marker:font-bold">{children}</ol>
+  ),
+  li: ({ children }) => <li className="pl-1">{children}</li>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-blue-500 pl-3 my-2 text-gray-400 italic">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-3 border-gray-600" />,
+  pre: CodeBlock,
+  code: ({ className, children }) => (
+    <code className={className || 'px-1 py-0.5 rounded bg-gray-900/70 text-pink-300 text-[0.85em] font-mono'}>
+      {children}
+    </code>
+  ),
+  table: SortableTable,
+  thead: ({ children }) => <thead className="border-b border-gray-600">{children}</thead>,
+  tr: ({ children }) => <tr className="border-b border-gray-700 last:border-b-0 even:bg-gray-800/40">{children}</tr>,
+  th: SortableHeaderCell,
+  td: ({ children, style }) => <td className="px-3 py-2 text-gray-300 align-top" style={style}>{children}</td>
+};
+
+const remarkPlugins = [remarkGfm];
+const rehypePlugins = [rehypeHighlight];
+
+export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content, className = '' }) => {
+  // Re-parsing is the expensive part; skip it when unrelated state re-renders the bubble
+  const rendered = useMemo(() => (
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={rehypePlugins}
+      components={markdownComponents}
+    >
+      {content}
+    </ReactMarkdown>
+  ), [content]);
+
+  return <div className={`markdown-message break-words ${className}`}>{rendered}</div>;
+};
@@ -1,6 +1,11 @@
 import React, { useState, useRef, useEffect, KeyboardEvent } from 'react';
-import { Send, Smile, X, Reply, Image, Upload } from 'lucide-react';
+import { Send, Smile, X, Reply, Image, Upload, BookOpen } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { SharedPromptLibraryModal } from './SharedPromptLibraryModal';
+import { SlashCommandMenu, SlashCommandStatus } from './SlashCommandMenu';
+import { useSlashCommands } from '../hooks/useSlashCommands';
+import { SlashCommand } from '../lib/slashCommands';
+import { TYPING_THROTTLE_MS } from '../lib/teamPresence';
 
 interface User {
   id: string;
@@ -27,8 +32,14 @@ interface MentionInputProps {
   users?: User[];
   replyState?: ReplyState;
   onCancelReply?: () => void;
+  // `/commands` offered with autocomplete while typing
+  slashCommands?: SlashCommand[];
+  // Throttled "is typing" updates for teammates; false once the text is cleared or sent
+  onTyping?: (isTyping: boolean) => void;
 }
 
+const NO_COMMANDS: SlashCommand[] = [];
+
 export const MentionInput: React.FC<MentionInputProps> = ({
   value,
   onChange,
@@ -37,7 +48,9 @@ export const MentionInput: React.FC<MentionInputProps> = ({
   placeholder = "Type a message... Use @astra for AI Intelligence",
   users = [],
   replyState,
-  onCancelReply
+  onCancelReply,
+  slashCommands = NO_COMMANDS,
+  onTyping
 }) => {
   const [showMentions, setShowMentions] = useState(false);
   const [mentionQuery, setMentionQuery] = useState('');
@@ -50,6 +63,30 @@ export const MentionInput: React.FC<MentionInputProps> = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [selectedImage, setSelectedImage] = useState<{ file: File; preview: string } | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const slash = useSlashCommands(value, onChange, slashCommands);
+  // When the last typing event went out, or 0 when teammates think we've stopped
+  const lastTypingSentRef = useRef(0);
+
+  const stopTyping = () => {
+    if (!lastTypingSentRef.current) return;
+    lastTypingSentRef.current = 0;
+    onTyping?.(false);
+  };
+
+  const reportTyping = (text: string) => {
+    if (!onTyping) return;
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastTypingSentRef.current >= TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      onTyping(true);
+    }
+  };
 
   // Debug: Check if onSend prop is received
   useEffect(() => {
@@ -77,6 +114,7 @@ export const MentionInput: React.FC<MentionInputProps> = ({
     const cursorPos = e.target.selectionStart || 0;
     
     onChange(newValue);
+    reportTyping(newValue);
     setCursorPosition(cursorPos);
 
     // Check for @ mentions
@@ -96,7 +134,9 @@ export const MentionInput: React.FC<MentionInputProps> = ({
   // Handle key presses
   const handleKeyPress = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     console.log('🚀 MentionInput: Key pressed:', e.key, 'showMentions:', showMentions, 'value:', value);
-    
+
+    if (!showMentions && slash.handleKeyDown(e)) return;
+
     if (showMentions) {
       if (e.key === 'ArrowDown') {
         e.preventDefault();
@@ -160,6 +200,8 @@ export const MentionInput: React.FC<MentionInputProps> = ({
     console.log('🚀 MentionInput: onSend type:', typeof onSend);
     console.log('🚀 MentionInput: onSend function:', onSend);
     
+    if (!selectedImage && !disabled && await slash.runCommand(value)) return;
+
     if ((value.trim() || selectedImage) && !disabled && !uploadingImage) {
       console.log('🚀 MentionInput: Conditions met, calling onSend with value:', value);
       
@@ -203,6 +245,7 @@ export const MentionInput: React.FC<MentionInputProps> = ({
       }
       
       onSend(value || '', imageData);
+      stopTyping();
       setShowEmojiPicker(false);
       setSelectedImage(null);
     } else {
@@ -360,6 +403,13 @@ export const MentionInput: React.FC<MentionInputProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Team library prompts are questions for Astra, so make sure she is mentioned
+  const handleUseSharedPrompt = (text: string) => {
+    const prompt = /@astra\b/i.test(text) ? text : `@astra ${text}`;
+    onChange(prompt);
+    setTimeout(() => textareaRef.current?.focus(), 0);
+  };
+
   return (
     <div className="relative">
       {/* Hidden file input */}
@@ -458,6 +508,18 @@ export const MentionInput: React.FC<MentionInputProps> = ({
         </div>
       )}
 
+      {/* Slash command menu */}
+      {slash.isMenuOpen && !showMentions && (
+        <SlashCommandMenu
+          suggestions={slash.suggestions}
+          selectedIndex={slash.selectedIndex}
+          onSelect={slash.selectSuggestion}
+          onHover={slash.setSelectedIndex}
+        />
+      )}
+
+      <SlashCommandStatus feedback={slash.feedback} running={slash.running} />
+
       {/* Emoji Picker */}
       {showEmojiPicker && !hasAstraMention && (
         <div
@@ -486,10 +548,11 @@ export const MentionInput: React.FC<MentionInputProps> = ({
             value={value}
             onChange={handleInputChange}
             onKeyDown={handleKeyPress}
+            data-chat-input
             placeholder={placeholder}
             disabled={disabled}
             className={`w-full resize-none rounded-2xl border border-gray-600 bg-gray-800 text-white px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 focus:outline-none disabled:bg-gray-700 disabled:cursor-not-allowed max-h-32 min-h-[72px] text-sm leading-relaxed placeholder-gray-400 ${
-              hasAstraMention ? 'pr-12' : 'pr-20'
+              hasAstraMention ? 'pr-20' : 'pr-28'
             }`}
             rows={3}
             style={{ 
@@ -500,6 +563,15 @@ export const MentionInput: React.FC<MentionInputProps> = ({
           
           {/* Buttons inside input */}
           <div className="absolute right-3 bottom-3 flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsLibraryOpen(true)}
+              className="text-gray-400 hover:text-gray-300 transition-colors p-1"
+              title="Team prompt library"
+            >
+              <BookOpen className="w-4 h-4" />
+            </button>
+
             {/* Image upload button */}
             {!hasAstraMention && (
               <button
@@ -541,6 +613,12 @@ export const MentionInput: React.FC<MentionInputProps> = ({
           </div>
         </div>
       </div>
+
+      <SharedPromptLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        onUsePrompt={handleUseSharedPrompt}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
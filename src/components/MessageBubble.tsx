@@ -1,74 +1,13 @@
-import React from 'react';
-import { Bookmark, Reply } from 'lucide-react';
+import React, { useState } from 'react';
+import { AlertCircle, Bookmark, CalendarClock, ChevronLeft, ChevronRight, Pencil, RefreshCw, Reply } from 'lucide-react';
 import { VisualizationButton } from './VisualizationButton';
+import { MarkdownMessage } from './MarkdownMessage';
+import { SourceCitations } from './SourceCitations';
+import { ToolRunsPanel } from './ToolRunsPanel';
+import { AttachmentChip } from './AttachmentChip';
+import { getMessageSources, getMessageToolRuns } from '../lib/astraProvider';
 import { Message } from '../types';
 
-const formatMessageText = (text: string): JSX.Element => {
-  // Split text into lines and process each line
-  const lines = text.split('\n');
-  const elements: JSX.Element[] = [];
-  
-  lines.forEach((line, index) => {
-    const trimmedLine = line.trim();
-    
-    // Skip empty lines but add spacing
-    if (!trimmedLine) {
-      elements.push(<br key={`br-${index}`} />);
-      return;
-    }
-    
-    // Handle numbered lists (1. 2. 3. etc.)
-    const numberedListMatch = trimmedLine.match(/^(\d+)\.\s*\*\*(.*?)\*\*:\s*(.*)$/);
-    if (numberedListMatch) {
-      const [, number, title, content] = numberedListMatch;
-      elements.push(
-        <div key={index} className="mb-4">
-          <div className="flex items-start space-x-2">
-            <span className="flex-shrink-0 w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-sm font-bold">
-              {number}
-            </span>
-            <div className="flex-1">
-              <div className="font-bold text-blue-300 mb-1">{title}</div>
-              <div className="text-gray-300 leading-relaxed">{content}</div>
-            </div>
-          </div>
-        </div>
-      );
-      return;
-    }
-    
-    // Handle regular bold text
-    const boldRegex = /\*\*(.*?)\*\*/g;
-    if (boldRegex.test(trimmedLine)) {
-      const parts = trimmedLine.split(boldRegex);
-      const formattedParts = parts.map((part, partIndex) => {
-        if (partIndex % 2 === 1) {
-          return <strong key={partIndex} className="font-bold text-blue-300">{part}</strong>;
-        }
-        return part;
-      });
-      elements.push(<div key={index} className="mb-2">{formattedParts}</div>);
-      return;
-    }
-    
-    // Handle bullet points
-    if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-')) {
-      elements.push(
-        <div key={index} className="flex items-start space-x-2 mb-2 ml-4">
-          <span className="text-blue-400 mt-1">•</span>
-          <span className="text-gray-300">{trimmedLine.substring(1).trim()}</span>
-        </div>
-      );
-      return;
-    }
-    
-    // Regular text
-    elements.push(<div key={index} className="mb-2 text-gray-300">{trimmedLine}</div>);
-  });
-  
-  return <div>{elements}</div>;
-};
-
 interface MessageBubbleProps {
   message: Message;
   onToggleExpansion: (messageId: string) => void;
@@ -78,6 +17,13 @@ interface MessageBubbleProps {
   onViewVisualization?: (messageId: string) => void;
   visualizationState?: any;
   onReply?: (messageId: string, messageText: string) => void;
+  onJumpToMessage?: (messageId: string) => void;
+  onRegenerate?: (chatId: string) => void;
+  onEdit?: (chatId: string, newText: string) => void;
+  onSwitchBranch?: (chatId: string, direction: -1 | 1) => void;
+  onRetry?: (messageId: string) => void;
+  onScheduleReport?: (message: Message) => void;
+  isBusy?: boolean;
 }
 
 export const MessageBubble: React.FC<MessageBubbleProps> = ({
@@ -88,9 +34,20 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   onCreateVisualization,
   onViewVisualization,
  visualizationState,
- onReply
+ onReply,
+ onJumpToMessage,
+ onRegenerate,
+ onEdit,
+ onSwitchBranch,
+ onRetry,
+ onScheduleReport,
+ isBusy = false
 }) => {
-  const isLongMessage = message.text.length > 300;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(message.text);
+
+  // Streaming answers are shown in full until they complete
+  const isLongMessage = !message.isStreaming && message.text.length > 300;
   const shouldTruncate = isLongMessage && !message.isExpanded;
 
   // Check if message has visualization data stored in database
@@ -100,31 +57,48 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   // Check if this is an Astra message (can be replied to)
   const isAstraMessage = message.messageType === 'astra' || (!message.isUser && !message.isCentered);
   
-  // Check if this is a reply message
-  const isReplyMessage = message.isReply || message.text.startsWith('@reply ');
-  
-  // Extract reply content if this is a reply message
-  const getReplyContent = () => {
-    if (isReplyMessage && message.text.startsWith('@reply ')) {
-      const parts = message.text.split(' ');
-      if (parts.length >= 3) {
-        return parts.slice(2).join(' '); // Remove "@reply" and messageId
-      }
+  const hasBranches = (message.branchCount || 0) > 1 && message.branchIndex !== undefined;
+
+  const sources = getMessageSources(message.metadata);
+  const toolRuns = getMessageToolRuns(message.metadata);
+
+  const startEditing = () => {
+    setEditText(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!message.chatId || !onEdit || !editText.trim()) return;
+    setIsEditing(false);
+    if (editText.trim() !== message.text.trim()) {
+      onEdit(message.chatId, editText);
     }
-    return message.text;
   };
-  
-  // Get the base text content (handle reply messages)
-  const baseText = isReplyMessage ? getReplyContent() : message.text;
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  // Short preview of the message this one replies to
+  const replySnippet = message.replyTo
+    ? message.replyTo.text.length > 120
+      ? message.replyTo.text.substring(0, 120) + '...'
+      : message.replyTo.text
+    : '';
   
   // Apply truncation if needed
   const truncatedText = shouldTruncate 
-    ? baseText.substring(0, 300) + '...'
-    : baseText;
+    ? message.text.substring(0, 300) + '...'
+    : message.text;
 
   // Check for line-based truncation
   const lines = truncatedText.split('\n');
-  const shouldShowMore = lines.length > 5 && !message.isExpanded;
+  const shouldShowMore = !message.isStreaming && lines.length > 5 && !message.isExpanded;
   const finalText = shouldShowMore 
     ? lines.slice(0, 5).join('\n') + '...'
     : truncatedText;
@@ -175,15 +149,65 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
         <div className="break-words text-sm md:text-sm leading-relaxed">
           {message.isUser ? (
             <>
-              {isReplyMessage && (
-                <div className="text-xs text-blue-300 mb-2 opacity-80">
-                  💬 Reply
+              {message.replyTo && (
+                <button
+                  onClick={() => message.replyTo && onJumpToMessage?.(message.replyTo.messageId)}
+                  className="block w-full text-left mb-2 px-2 py-1 rounded bg-black/20 border-l-2 border-blue-300 text-xs hover:bg-black/30 transition-colors"
+                  title="Jump to original message"
+                >
+                  <div className="flex items-center space-x-1 text-blue-200 mb-0.5">
+                    <Reply className="w-3 h-3" />
+                    <span>{message.replyTo.isUser ? 'You' : 'Astra'}</span>
+                  </div>
+                  <div className="opacity-80 whitespace-pre-wrap">
+                    {replySnippet || 'Original message unavailable'}
+                  </div>
+                </button>
+              )}
+              {isEditing ? (
+                <div>
+                  <textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    rows={Math.min(8, Math.max(2, editText.split('\n').length))}
+                    className="w-full bg-black/20 text-white rounded-lg px-2 py-1 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-300"
+                    autoFocus
+                  />
+                  <div className="flex justify-end space-x-2 mt-2">
+                    <button
+                      onClick={() => setIsEditing(false)}
+                      className="px-3 py-1 rounded-lg text-xs bg-gray-700/50 text-gray-200 hover:bg-gray-600/50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={submitEdit}
+                      disabled={!editText.trim() || isBusy}
+                      className="px-3 py-1 rounded-lg text-xs bg-white/20 text-white hover:bg-white/30 disabled:opacity-50 transition-colors"
+                    >
+                      Save & Send
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="whitespace-pre-wrap">{finalText}</div>
+              )}
+              {message.attachments && message.attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {message.attachments.map(attachment => (
+                    <AttachmentChip key={attachment.id} attachment={attachment} />
+                  ))}
                 </div>
               )}
-              <div className="whitespace-pre-wrap">{finalText}</div>
             </>
           ) : (
-            formatMessageText(finalText)
+            <>
+              <MarkdownMessage content={finalText} />
+              {message.isStreaming && (
+                <span className="inline-block w-2 h-4 bg-blue-400 animate-pulse align-middle" />
+              )}
+            </>
           )}
         </div>
         
@@ -196,16 +220,75 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
           </button>
         )}
 
-        <div className="text-xs opacity-70 mt-1 md:mt-2">
-          {message.timestamp.toLocaleTimeString([], { 
-            hour: '2-digit', 
-            minute: '2-digit' 
-          })}
+        {isAstraMessage && !message.isStreaming && (
+          <>
+            <SourceCitations sources={sources} />
+            <ToolRunsPanel
+              toolRuns={toolRuns}
+              modelUsed={message.metadata?.model_used}
+              totalTimeMs={message.metadata?.total_processing_time}
+            />
+          </>
+        )}
+
+        <div className="flex items-center justify-between text-xs mt-1 md:mt-2">
+          <span className="opacity-70">
+            {message.timestamp.toLocaleTimeString([], { 
+              hour: '2-digit', 
+              minute: '2-digit' 
+            })}
+          </span>
+
+          {/* Switch between sibling branches created by edits/regenerations */}
+          {hasBranches && message.chatId && onSwitchBranch && (
+            <div className="flex items-center space-x-1 ml-3">
+              <button
+                onClick={() => onSwitchBranch(message.chatId!, -1)}
+                disabled={isBusy || message.branchIndex === 0}
+                className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30 transition-colors"
+                title="Previous version"
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </button>
+              <span className="opacity-80">
+                {(message.branchIndex || 0) + 1}/{message.branchCount}
+              </span>
+              <button
+                onClick={() => onSwitchBranch(message.chatId!, 1)}
+                disabled={isBusy || (message.branchIndex || 0) >= (message.branchCount || 0) - 1}
+                className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30 transition-colors"
+                title="Next version"
+              >
+                <ChevronRight className="w-3 h-3" />
+              </button>
+            </div>
+          )}
         </div>
         
-        {/* Favorite button for user messages */}
-        {message.isUser && onToggleFavorite && (
-          <div className="mt-2 md:mt-3">
+        {/* The request for this prompt failed or was stopped */}
+        {message.isUser && message.sendError && (
+          <div className="mt-2 flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg bg-black/20 border border-red-400/40 text-xs">
+            <div className="flex items-center space-x-1.5 text-red-200">
+              <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+              <span>{message.sendError}</span>
+            </div>
+            {onRetry && (
+              <button
+                onClick={() => onRetry(message.id)}
+                disabled={isBusy}
+                className="flex items-center space-x-1 px-2 py-1 rounded bg-white/20 hover:bg-white/30 text-white disabled:opacity-50 transition-colors flex-shrink-0"
+                title="Send this message again"
+              >
+                <RefreshCw className="w-3 h-3" />
+                <span>Retry</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Favorite and edit buttons for user messages */}
+        {message.isUser && onToggleFavorite && !isEditing && (
+          <div className="mt-2 md:mt-3 flex flex-wrap gap-2">
             <button
               onClick={() => onToggleFavorite(message.id, message.text)}
               className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 transform hover:scale-105 min-h-[44px] touch-manipulation ${
@@ -218,20 +301,54 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
               <Bookmark className={`w-4 h-4 ${isFavorited ? 'fill-current' : ''}`} />
               <span>{isFavorited ? 'Saved' : 'Save Prompt'}</span>
             </button>
+            {onEdit && message.chatId && (
+              <button
+                onClick={startEditing}
+                disabled={isBusy}
+                className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 transform hover:scale-105 min-h-[44px] touch-manipulation bg-gray-700/50 text-gray-300 hover:bg-gray-600/50 disabled:opacity-50 disabled:hover:scale-100"
+                title="Edit and resend this prompt"
+              >
+                <Pencil className="w-4 h-4" />
+                <span>Edit</span>
+              </button>
+            )}
           </div>
         )}
         
-        {/* Reply button for Astra messages */}
-        {isAstraMessage && !message.isCentered && onReply && message.chatId && (
-          <div className="mt-2 md:mt-3">
-            <button
-              onClick={() => onReply(message.chatId || message.id, message.text)}
-              className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 transform hover:scale-105 min-h-[44px] touch-manipulation bg-gray-600/50 text-gray-300 hover:bg-blue-600/50 hover:text-blue-300"
-              title="Reply to this message"
-            >
-              <Reply className="w-4 h-4" />
-              <span>Reply</span>
-            </button>
+        {/* Reply, regenerate and schedule buttons for Astra messages */}
+        {isAstraMessage && !message.isCentered && message.chatId && (onReply || onRegenerate || onScheduleReport) && (
+          <div className="mt-2 md:mt-3 flex flex-wrap gap-2">
+            {onReply && (
+              <button
+                onClick={() => onReply(message.chatId || message.id, message.text)}
+                className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 transform hover:scale-105 min-h-[44px] touch-manipulation bg-gray-600/50 text-gray-300 hover:bg-blue-600/50 hover:text-blue-300"
+                title="Reply to this message"
+              >
+                <Reply className="w-4 h-4" />
+                <span>Reply</span>
+              </button>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={() => onRegenerate(message.chatId!)}
+                disabled={isBusy}
+                className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 transform hover:scale-105 min-h-[44px] touch-manipulation bg-gray-600/50 text-gray-300 hover:bg-blue-600/50 hover:text-blue-300 disabled:opacity-50 disabled:hover:scale-100"
+                title="Generate a new answer"
+              >
+                <RefreshCw className="w-4 h-4" />
+                <span>Regenerate</span>
+              </button>
+            )}
+            {onScheduleReport && (
+              <button
+                onClick={() => onScheduleReport(message)}
+                className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 transform hover:scale-105 min-h-[44px] touch-manipulation bg-gray-600/50 text-gray-300 hover:bg-blue-600/50 hover:text-blue-300"
+                title="Turn this into a scheduled report"
+              >
+                <CalendarClock className="w-4 h-4" />
+                <span>Schedule</span>
+              </button>
+            )}
           </div>
         )}
         
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { X, History } from 'lucide-react';
+import { useTeamMessageModeration } from '../hooks/useTeamMessageModeration';
+import { GroupMessage as GroupMessageType, MessageRevision } from '../types';
+
+interface MessageHistoryModalProps {
+  message: GroupMessageType | null;
+  onClose: () => void;
+}
+
+const formatDateTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Every version of an edited team message, current text first
+export const MessageHistoryModal: React.FC<MessageHistoryModalProps> = ({ message, onClose }) => {
+  const { getRevisions, error, setError } = useTeamMessageModeration();
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const messageId = message?.id;
+  const editedAt = message?.edited_at;
+
+  // Reload when the message is edited again while the modal is open
+  useEffect(() => {
+    if (!messageId) return;
+
+    setLoading(true);
+    getRevisions(messageId).then(result => {
+      setRevisions(result);
+      setLoading(false);
+    });
+  }, [messageId, editedAt, getRevisions]);
+
+  if (!message) return null;
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  // Each revision holds the text that was replaced; the edit after it says when
+  const versions = [
+    { id: 'current', text: message.message_content, label: message.edited_at ? `Edited ${formatDateTime(message.edited_at)}` : 'Current' },
+    ...revisions.map((revision, index) => ({
+      id: revision.id,
+      text: revision.previous_message,
+      label: index === revisions.length - 1
+        ? `Original · ${formatDateTime(message.created_at)}`
+        : `Edited ${formatDateTime(revisions[index + 1].created_at)}`
+    }))
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-2">
+            <History className="w-6 h-6 text-blue-500" />
+            <h2 className="text-xl font-bold text-white">Edit History</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+            </div>
+          ) : (
+            versions.map((version, index) => (
+              <div key={version.id}>
+                <div className="text-xs text-gray-400 mb-1">{version.label}</div>
+                <div className={`rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words ${
+                  index === 0 ? 'bg-gray-700 text-white' : 'bg-gray-900/60 text-gray-300'
+                }`}>
+                  {version.text}
+                </div>
+              </div>
+            ))
+          )}
+
+          {error && (
+            <p className="text-red-400 text-sm text-center">{error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { useTeamMessageModeration } from '../hooks/useTeamMessageModeration';
+import { ModerationLogEntry, TeamChannel } from '../types';
+
+interface ModerationLogModalProps {
+  isOpen: boolean;
+  channels: TeamChannel[];
+  onClose: () => void;
+}
+
+// Admin-only list of team messages that admins have removed
+export const ModerationLogModal: React.FC<ModerationLogModalProps> = ({ isOpen, channels, onClose }) => {
+  const { fetchModerationLog, error, setError } = useTeamMessageModeration();
+  const [entries, setEntries] = useState<ModerationLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setLoading(true);
+    fetchModerationLog().then(result => {
+      setEntries(result);
+      setLoading(false);
+    });
+  }, [isOpen, fetchModerationLog]);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const getChannelName = (channelId: string | null) =>
+    channels.find(channel => channel.id === channelId)?.name || 'unknown channel';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck className="w-6 h-6 text-blue-500" />
+            <h2 className="text-xl font-bold text-white">Moderation Log</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-gray-400 text-sm text-center">No messages have been removed.</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="bg-gray-700/50 border border-gray-600 rounded-lg p-3">
+                <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+                  <span>
+                    <span className="text-white font-medium">{entry.moderator_name || 'An admin'}</span>
+                    {' removed a message by '}
+                    <span className="text-white font-medium">{entry.message_author_name || 'Unknown User'}</span>
+                    {` in #${getChannelName(entry.channel_id)}`}
+                  </span>
+                  <span className="flex-shrink-0 ml-2">
+                    {new Date(entry.created_at).toLocaleString([], {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </span>
+                </div>
+                <div className="bg-gray-900/60 rounded-lg px-3 py-2 text-sm text-gray-300 whitespace-pre-wrap break-words line-clamp-4">
+                  {entry.message_content || <span className="italic text-gray-500">No text</span>}
+                </div>
+                {entry.reason && (
+                  <p className="text-xs text-gray-400 mt-2">Reason: {entry.reason}</p>
+                )}
+              </div>
+            ))
+          )}
+
+          {error && (
+            <p className="text-red-400 text-sm text-center">{error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Send, CornerDownLeft } from 'lucide-react';
+import { extractPromptVariables, fillPromptTemplate, formatVariableLabel } from '../lib/promptTemplates';
+
+interface PromptVariablesFormProps {
+  title: string;
+  text: string;
+  onInsert: (text: string) => void;
+  onSend?: (text: string) => void;
+  onBack: () => void;
+}
+
+// Fill in a prompt's {{variables}} before it is used
+export const PromptVariablesForm: React.FC<PromptVariablesFormProps> = ({
+  title,
+  text,
+  onInsert,
+  onSend,
+  onBack
+}) => {
+  const variables = extractPromptVariables(text);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const filledText = fillPromptTemplate(text, values);
+  const allFilled = variables.every(name => values[name]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!allFilled) return;
+    if (onSend) {
+      onSend(filledText);
+    } else {
+      onInsert(filledText);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 space-y-3">
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={onBack}
+          className="p-1 hover:bg-gray-700 rounded transition-colors"
+          title="Back"
+        >
+          <ArrowLeft className="w-4 h-4 text-gray-400" />
+        </button>
+        <h3 className="text-white font-medium text-sm truncate">{title}</h3>
+      </div>
+
+      {variables.map((name, index) => (
+        <label key={name} className="block">
+          <span className="block text-gray-400 text-xs mb-1">{formatVariableLabel(name)}</span>
+          <input
+            type="text"
+            value={values[name] || ''}
+            onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+            autoFocus={index === 0}
+            className="w-full px-2 py-1.5 bg-gray-900 border border-gray-600 rounded text-sm text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+          />
+        </label>
+      ))}
+
+      <div className="bg-gray-900/60 border border-gray-700 rounded p-2 text-xs text-gray-300 whitespace-pre-wrap max-h-24 overflow-y-auto">
+        {filledText}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => onInsert(filledText)}
+          className="flex items-center space-x-1 px-3 py-1.5 rounded text-xs text-gray-200 bg-gray-700 hover:bg-gray-600 transition-colors"
+          title="Put the prompt in the message box to edit it first"
+        >
+          <CornerDownLeft className="w-3 h-3" />
+          <span>Insert</span>
+        </button>
+        {onSend && (
+          <button
+            type="submit"
+            disabled={!allFilled}
+            className="flex items-center space-x-1 px-3 py-1.5 rounded text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Send className="w-3 h-3" />
+            <span>Send</span>
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
@@ -1,24 +1,29 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { X, Zap, CheckCircle } from 'lucide-react';
 import { useReportsContext, ReportTemplate } from '../../contexts/ReportsContext';
 import { HourOnlyTimePicker } from '../HourOnlyTimePicker';
+import { ReportDraft } from '../../lib/reportDrafts';
 
 interface CreateReportModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Skips template selection and prefills the form from an Astra answer
+  initialDraft?: ReportDraft | null;
 }
 
 type CreateStep = 'template' | 'configure' | 'success';
 
 export const CreateReportModal: React.FC<CreateReportModalProps> = ({
   isOpen,
-  onClose
+  onClose,
+  initialDraft
 }) => {
   const { templates, createReport, loading } = useReportsContext();
   const [currentStep, setCurrentStep] = useState<CreateStep>('template');
   const [selectedTemplate, setSelectedTemplate] = useState<ReportTemplate | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [createdReportTitle, setCreatedReportTitle] = useState('');
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     title: '',
     prompt: '',
@@ -34,6 +39,7 @@ export const CreateReportModal: React.FC<CreateReportModalProps> = ({
     setSelectedTemplate(null);
     setIsCreating(false);
     setCreatedReportTitle('');
+    setSubmitError(null);
     setFormData({
       title: '',
       prompt: '',
@@ -44,6 +50,22 @@ export const CreateReportModal: React.FC<CreateReportModalProps> = ({
     });
   };
 
+  // Answers turned into reports default to every Monday morning
+  useEffect(() => {
+    if (!isOpen || !initialDraft) return;
+
+    setSelectedTemplate(null);
+    setFormData({
+      title: initialDraft.title,
+      prompt: initialDraft.prompt,
+      schedule_type: 'scheduled',
+      schedule_frequency: 'weekly',
+      schedule_time: '07:00',
+      schedule_day: 1
+    });
+    setCurrentStep('configure');
+  }, [isOpen, initialDraft]);
+
   // Handle modal close
   const handleClose = () => {
     resetForm();
@@ -86,6 +108,7 @@ export const CreateReportModal: React.FC<CreateReportModalProps> = ({
     }
 
     setIsCreating(true);
+    setSubmitError(null);
     setCreatedReportTitle(formData.title);
 
     const reportData = {
@@ -96,10 +119,17 @@ export const CreateReportModal: React.FC<CreateReportModalProps> = ({
       schedule_time: formData.schedule_time,
       schedule_day: formData.schedule_day,
       report_template_id: selectedTemplate?.id || null,
+      source_message_id: initialDraft?.sourceMessageId || null,
       is_active: true
     };
 
-    await createReport(reportData);
+    try {
+      await createReport(reportData);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to create report');
+      setIsCreating(false);
+      return;
+    }
 
     // Show success screen
     setIsCreating(false);
@@ -120,7 +150,9 @@ export const CreateReportModal: React.FC<CreateReportModalProps> = ({
         <div className="flex items-center justify-between p-6 border-b border-gray-700">
           <div className="flex items-center space-x-2">
             <Zap className="w-6 h-6 text-blue-500" />
-            <h2 className="text-xl font-bold text-white">Create New Report</h2>
+            <h2 className="text-xl font-bold text-white">
+              {initialDraft ? 'Schedule This Answer' : 'Create New Report'}
+            </h2>
           </div>
           <button
             onClick={handleClose}
@@ -192,12 +224,14 @@ export const CreateReportModal: React.FC<CreateReportModalProps> = ({
             <div className="space-y-6">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-medium text-white">Configure Report</h3>
-                <button
-                  onClick={() => setCurrentStep('template')}
-                  className="text-blue-400 hover:text-blue-300 text-sm"
-                >
-                  ← Back to Templates
-                </button>
+                {!initialDraft && (
+                  <button
+                    onClick={() => setCurrentStep('template')}
+                    className="text-blue-400 hover:text-blue-300 text-sm"
+                  >
+                    ← Back to Templates
+                  </button>
+                )}
               </div>
 
               <div className="space-y-4">
@@ -333,6 +367,10 @@ export const CreateReportModal: React.FC<CreateReportModalProps> = ({
                 )}
               </div>
 
+              {submitError && (
+                <p className="text-sm text-red-400">{submitError}</p>
+              )}
+
               {/* Action Buttons */}
               <div className="flex justify-end space-x-3 pt-4">
                 <button
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Calendar, Clock, Play, Trash2, ChevronDown, ChevronUp, FileText, BarChart3 } from 'lucide-react';
 import { ReportMessage } from '../../types';
+import { MarkdownMessage } from '../MarkdownMessage';
 
 interface ReportCardProps {
   message: ReportMessage;
@@ -12,69 +13,6 @@ interface ReportCardProps {
   isReportRunning?: boolean;
 }
 
-const formatMessageText = (text: string): JSX.Element => {
-  const lines = text.split('\n');
-  const elements: JSX.Element[] = [];
-
-  lines.forEach((line, index) => {
-    const trimmedLine = line.trim();
-
-    if (!trimmedLine) {
-      elements.push(<br key={`br-${index}`} />);
-      return;
-    }
-
-    // Handle numbered lists
-    const numberedListMatch = trimmedLine.match(/^(\d+)\.\s*\*\*(.*?)\*\*:\s*(.*)$/);
-    if (numberedListMatch) {
-      const [, number, title, content] = numberedListMatch;
-      elements.push(
-        <div key={index} className="mb-4">
-          <div className="flex items-start space-x-2">
-            <span className="flex-shrink-0 w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-sm font-bold">
-              {number}
-            </span>
-            <div className="flex-1">
-              <div className="font-bold text-blue-300 mb-1">{title}</div>
-              <div className="text-gray-300 leading-relaxed">{content}</div>
-            </div>
-          </div>
-        </div>
-      );
-      return;
-    }
-
-    // Handle bold text
-    const boldRegex = /\*\*(.*?)\*\*/g;
-    if (boldRegex.test(trimmedLine)) {
-      const parts = trimmedLine.split(boldRegex);
-      const formattedParts = parts.map((part, partIndex) => {
-        if (partIndex % 2 === 1) {
-          return <strong key={partIndex} className="font-bold text-blue-300">{part}</strong>;
-        }
-        return part;
-      });
-      elements.push(<div key={index} className="mb-2">{formattedParts}</div>);
-      return;
-    }
-
-    // Handle bullet points
-    if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-')) {
-      elements.push(
-        <div key={index} className="flex items-start space-x-2 mb-2 ml-4">
-          <span className="text-blue-400 mt-1">•</span>
-          <span className="text-gray-300">{trimmedLine.substring(1).trim()}</span>
-        </div>
-      );
-      return;
-    }
-
-    elements.push(<div key={index} className="mb-2 text-gray-300">{trimmedLine}</div>);
-  });
-
-  return <div>{elements}</div>;
-};
-
 const formatTime = (timestamp: Date): string => {
   return timestamp.toLocaleDateString([], {
     month: 'short',
@@ -216,9 +154,7 @@ export const ReportCard: React.FC<ReportCardProps> = ({
         {/* Show Text Summary View */}
         {showTextSummary && !isGenerating && (
           <div className="space-y-4">
-            <div className="prose prose-invert max-w-none">
-              {formatMessageText(message.text)}
-            </div>
+            <MarkdownMessage content={message.text} />
 
             {/* Show Less Button */}
             <div className="flex justify-center pt-4">
@@ -8,7 +8,13 @@ import { VisualizationView } from '../VisualizationView';
 import { ManageReportsModal } from '../ManageReportsModal';
 import { supabase } from '../../lib/supabase';
 
-export const ReportsView: React.FC = () => {
+interface ReportsViewProps {
+  // Scroll to and highlight the newest report once reports have loaded
+  focusLatestReport?: boolean;
+  onLatestReportFocused?: () => void;
+}
+
+export const ReportsView: React.FC<ReportsViewProps> = ({ focusLatestReport = false, onLatestReportFocused }) => {
   const {
     reportMessages,
     userReports,
@@ -63,6 +69,19 @@ export const ReportsView: React.FC = () => {
     }
   }, [reportMessages]);
 
+  useEffect(() => {
+    if (!focusLatestReport || reportMessages.length === 0) return;
+
+    // Reports are listed newest first
+    const reportElement = document.getElementById(`report-${reportMessages[0].id}`);
+    if (reportElement) {
+      reportElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      reportElement.classList.add('message-highlight');
+      setTimeout(() => reportElement.classList.remove('message-highlight'), 3000);
+    }
+    onLatestReportFocused?.();
+  }, [focusLatestReport, reportMessages, onLatestReportFocused]);
+
   // Auto-generate visualizations for all reports
   useEffect(() => {
     reportMessages.forEach(message => {
@@ -383,18 +402,19 @@ export const ReportsView: React.FC = () => {
                 }
 
                 return (
-                  <ReportCard
-                    key={message.id}
-                    message={message}
-                    onCreateVisualization={handleCreateVisualization}
-                    onViewVisualization={handleViewVisualization}
-                    onRunReport={handleRunReport}
-                    onDeleteMessage={handleDeleteReportMessage}
-                    visualizationState={visualizationState}
-                    isReportRunning={message.reportMetadata?.report_title ? runningReports.has(
-                      userReports.find(c => c.title === message.reportMetadata?.report_title)?.id || ''
-                    ) : false}
-                  />
+                  <div key={message.id} id={`report-${message.id}`}>
+                    <ReportCard
+                      message={message}
+                      onCreateVisualization={handleCreateVisualization}
+                      onViewVisualization={handleViewVisualization}
+                      onRunReport={handleRunReport}
+                      onDeleteMessage={handleDeleteReportMessage}
+                      visualizationState={visualizationState}
+                      isReportRunning={message.reportMetadata?.report_title ? runningReports.has(
+                        userReports.find(c => c.title === message.reportMetadata?.report_title)?.id || ''
+                      ) : false}
+                    />
+                  </div>
                 );
               })}
             </div>
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { FavoriteMessage, FavoriteUpdate } from '../types';
+
+interface SavedPromptEditorProps {
+  favorite: FavoriteMessage;
+  folders: string[];
+  onSave: (updates: FavoriteUpdate) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded text-xs text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none';
+
+export const SavedPromptEditor: React.FC<SavedPromptEditorProps> = ({
+  favorite,
+  folders,
+  onSave,
+  onCancel
+}) => {
+  const [title, setTitle] = useState(favorite.title || '');
+  const [folder, setFolder] = useState(favorite.folder || '');
+  const [tags, setTags] = useState(favorite.tags.join(', '));
+  const [text, setText] = useState(favorite.text);
+
+  const handleSave = () => {
+    if (!text.trim()) return;
+    onSave({ title, folder, tags: tags.split(','), text });
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Title (optional)"
+        className={inputClassName}
+        autoFocus
+      />
+      <input
+        type="text"
+        value={folder}
+        onChange={(e) => setFolder(e.target.value)}
+        list="saved-prompt-folders"
+        placeholder="Folder"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, separated by commas"
+        className={inputClassName}
+      />
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onCancel();
+        }}
+        rows={4}
+        className={`${inputClassName} resize-none`}
+      />
+      <p className="text-gray-500 text-[10px]">
+        Use {'{{name}}'} for values you fill in each time, e.g. {'{{client}}'} or {'{{date_range}}'}.
+      </p>
+      <datalist id="saved-prompt-folders">
+        {folders.map(name => <option key={name} value={name} />)}
+      </datalist>
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!text.trim()}
+          className="px-2 py-1 rounded text-xs bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
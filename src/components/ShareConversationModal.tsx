@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { X, Share2, Link, Copy, Check, Users, Send } from 'lucide-react';
+import { useConversationSharing } from '../hooks/useConversationSharing';
+import { getShareUrl } from '../lib/conversationShare';
+
+interface ShareConversationModalProps {
+  isOpen: boolean;
+  conversationId: string | null;
+  onClose: () => void;
+}
+
+export const ShareConversationModal: React.FC<ShareConversationModalProps> = ({
+  isOpen,
+  conversationId,
+  onClose
+}) => {
+  const {
+    sharing,
+    posting,
+    error,
+    setError,
+    getShare,
+    shareConversation,
+    stopSharing,
+    postToTeamChat
+  } = useConversationSharing();
+  const [shareId, setShareId] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [note, setNote] = useState('');
+  const [posted, setPosted] = useState(false);
+
+  // Pick up an existing link when the modal opens
+  useEffect(() => {
+    if (!isOpen || !conversationId) return;
+
+    setShareId(null);
+    setCopied(false);
+    setNote('');
+    setPosted(false);
+    getShare(conversationId).then(share => {
+      setShareId(share?.is_active ? share.id : null);
+    });
+  }, [isOpen, conversationId, getShare]);
+
+  if (!isOpen || !conversationId) return null;
+
+  const shareUrl = shareId ? getShareUrl(shareId) : null;
+
+  const handleCreateLink = async () => {
+    const share = await shareConversation(conversationId);
+    if (share) setShareId(share.id);
+  };
+
+  const handleCopyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+      setError('Failed to copy link');
+    }
+  };
+
+  const handleStopSharing = async () => {
+    if (!window.confirm('Stop sharing? Anyone with the link will no longer be able to view this conversation.')) return;
+    const stopped = await stopSharing(conversationId);
+    if (stopped) setShareId(null);
+  };
+
+  const handlePostToTeam = async () => {
+    const success = await postToTeamChat(conversationId, note);
+    if (success) {
+      setPosted(true);
+      setNote('');
+      // Posting creates the link if there was none
+      const share = await getShare(conversationId);
+      setShareId(share?.is_active ? share.id : null);
+    }
+  };
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Share2 className="w-6 h-6 text-blue-500" />
+            <h2 className="text-xl font-bold text-white">Share Conversation</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Read-only link */}
+          <div>
+            <div className="flex items-center space-x-2 mb-2">
+              <Link className="w-4 h-4 text-blue-400" />
+              <h3 className="text-white font-medium">Read-only link</h3>
+            </div>
+            <p className="text-gray-400 text-sm mb-3">
+              Teammates signed in to Astra can view this conversation. They cannot reply or see your other chats.
+            </p>
+
+            {shareUrl ? (
+              <>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={shareUrl}
+                    readOnly
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={handleCopyLink}
+                    className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+                  >
+                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    <span>{copied ? 'Copied' : 'Copy'}</span>
+                  </button>
+                </div>
+                <button
+                  onClick={handleStopSharing}
+                  disabled={sharing}
+                  className="mt-2 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Stop sharing
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleCreateLink}
+                disabled={sharing}
+                className="w-full flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                <Link className="w-4 h-4" />
+                <span>{sharing ? 'Creating link...' : 'Create link'}</span>
+              </button>
+            )}
+          </div>
+
+          {/* Post to team chat */}
+          <div className="pt-6 border-t border-gray-700">
+            <div className="flex items-center space-x-2 mb-2">
+              <Users className="w-4 h-4 text-purple-400" />
+              <h3 className="text-white font-medium">Post to team chat</h3>
+            </div>
+            <p className="text-gray-400 text-sm mb-3">
+              Posts a short summary that links back to the full conversation.
+            </p>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note for your team (optional)"
+              rows={2}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              onClick={handlePostToTeam}
+              disabled={posting || sharing}
+              className="mt-2 w-full flex items-center justify-center space-x-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              <span>{posting ? 'Summarizing and posting...' : 'Post summary to team chat'}</span>
+            </button>
+            {posted && (
+              <p className="mt-2 text-green-400 text-sm text-center">Posted to team chat</p>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-red-400 text-sm text-center">{error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Eye, Reply, BarChart3 } from 'lucide-react';
+import { useConversationSharing, SharedConversation } from '../hooks/useConversationSharing';
+import { VisualizationView } from './VisualizationView';
+
+interface SharedConversationViewProps {
+  shareId: string;
+  onClose: () => void;
+}
+
+const formatTime = (date: Date): string =>
+  date.toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Read-only view of a conversation a teammate shared by link or in team chat
+export const SharedConversationView: React.FC<SharedConversationViewProps> = ({ shareId, onClose }) => {
+  const { loadSharedConversation, error } = useConversationSharing();
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [visualizationContent, setVisualizationContent] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    loadSharedConversation(shareId).then(result => {
+      setConversation(result);
+      setLoading(false);
+    });
+  }, [shareId, loadSharedConversation]);
+
+  if (visualizationContent) {
+    return (
+      <VisualizationView
+        content={visualizationContent}
+        onBack={() => setVisualizationContent(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 z-50 flex flex-col">
+      <header className="bg-gradient-to-r from-blue-600 to-purple-700 shadow-lg">
+        <div className="flex items-center py-4 px-6">
+          <button
+            onClick={onClose}
+            className="mr-4 p-2 hover:bg-blue-700 rounded-full transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center touch-manipulation"
+          >
+            <ArrowLeft className="w-6 h-6 text-white" />
+          </button>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-white truncate">
+              {conversation?.title || 'Shared Conversation'}
+            </h1>
+            {conversation && (
+              <p className="text-blue-100 text-xs">
+                Shared by {conversation.ownerName} · {formatTime(new Date(conversation.sharedAt))}
+              </p>
+            )}
+          </div>
+          <div className="ml-auto flex items-center space-x-1 text-blue-100 text-xs bg-blue-800/50 px-2 py-1 rounded-full flex-shrink-0">
+            <Eye className="w-3 h-3" />
+            <span>Read-only</span>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6">
+        <div className="max-w-4xl mx-auto space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="w-8 h-8 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+            </div>
+          ) : !conversation ? (
+            <div className="text-center py-12">
+              <p className="text-gray-300">{error || 'This conversation could not be loaded'}</p>
+              <p className="text-gray-500 text-sm mt-1">Ask the person who shared it for a new link.</p>
+            </div>
+          ) : (
+            conversation.messages.map(message => (
+              <div key={message.id} className={`flex ${message.isUser ? 'justify-end' : 'justify-start'}`}>
+                {!message.isUser && (
+                  <div className="flex-shrink-0 mr-3 mt-1">
+                    <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-600 to-purple-600 flex items-center justify-center text-sm">
+                      🚀
+                    </div>
+                  </div>
+                )}
+                <div className={`max-w-[85%] rounded-2xl px-4 py-3 ${
+                  message.isUser
+                    ? 'bg-gradient-to-br from-blue-600 to-purple-600 text-white'
+                    : 'bg-gradient-to-br from-gray-700 to-gray-800 text-white border border-blue-500/20'
+                }`}>
+                  {message.replyTo && (
+                    <div className="mb-2 pl-3 border-l-4 border-blue-400 text-xs text-gray-300">
+                      <div className="flex items-center space-x-1 mb-1 text-blue-300">
+                        <Reply className="w-3 h-3" />
+                        <span>Replying to {message.replyTo.isUser ? 'user' : 'Astra'}</span>
+                      </div>
+                      <p className="italic line-clamp-2">{message.replyTo.text}</p>
+                    </div>
+                  )}
+                  <div className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+                    {message.text}
+                  </div>
+                  {message.visualization_data && (
+                    <button
+                      onClick={() => setVisualizationContent(message.visualization_data || null)}
+                      className="mt-3 flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white px-3 py-2 rounded-lg text-xs font-medium transition-colors"
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                      <span>View Visualization</span>
+                    </button>
+                  )}
+                  <div className="text-xs opacity-70 mt-2">{formatTime(message.timestamp)}</div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
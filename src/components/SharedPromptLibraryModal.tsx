@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, BookOpen, Search, ThumbsUp, Star, BookmarkPlus, Check, Plus, Trash2, Braces } from 'lucide-react';
+import { useSharedPrompts } from '../hooks/useSharedPrompts';
+import { useAuth } from '../contexts/AuthContext';
+import { PromptVariablesForm } from './PromptVariablesForm';
+import { SharedPrompt, SharedPromptDraft } from '../types';
+import {
+  SharedPromptView,
+  extractPromptVariables,
+  matchesSharedPromptSearch,
+  sortSharedPrompts
+} from '../lib/promptTemplates';
+
+interface SharedPromptLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Puts a (filled-in) prompt into the composer that opened the library
+  onUsePrompt: (text: string) => void;
+  // Lets the caller refresh its saved prompts after a copy
+  onCopiedToFavorites?: () => void;
+  // Opens straight into the share form, e.g. from a saved prompt
+  initialDraft?: SharedPromptDraft | null;
+}
+
+const VIEWS: { id: SharedPromptView; label: string }[] = [
+  { id: 'featured', label: 'Featured' },
+  { id: 'top', label: 'Top' },
+  { id: 'newest', label: 'Newest' }
+];
+
+const EMPTY_DRAFT: SharedPromptDraft = { title: '', description: '', text: '', tags: [] };
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const SharedPromptLibraryModal: React.FC<SharedPromptLibraryModalProps> = ({
+  isOpen,
+  onClose,
+  onUsePrompt,
+  onCopiedToFavorites,
+  initialDraft
+}) => {
+  const { user } = useAuth();
+  const {
+    sharedPrompts,
+    loading,
+    error,
+    setError,
+    isAdmin,
+    fetchSharedPrompts,
+    publishPrompt,
+    deleteSharedPrompt,
+    toggleUpvote,
+    setFeatured,
+    copyToFavorites
+  } = useSharedPrompts();
+  const [view, setView] = useState<SharedPromptView>('featured');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [fillingPrompt, setFillingPrompt] = useState<SharedPrompt | null>(null);
+  const [draft, setDraft] = useState<SharedPromptDraft | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [publishing, setPublishing] = useState(false);
+  const [copiedIds, setCopiedIds] = useState<Set<string>>(new Set());
+
+  // Reload the library every time it opens so new shares and votes show up
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setSearchQuery('');
+    setFillingPrompt(null);
+    setCopiedIds(new Set());
+    setDraft(initialDraft || null);
+    setTagsInput(initialDraft ? initialDraft.tags.join(', ') : '');
+    if (initialDraft) setView('newest');
+    fetchSharedPrompts();
+  }, [isOpen, initialDraft, fetchSharedPrompts]);
+
+  const visiblePrompts = useMemo(() =>
+    sortSharedPrompts(sharedPrompts, view).filter(prompt => matchesSharedPromptSearch(prompt, searchQuery)),
+    [sharedPrompts, view, searchQuery]
+  );
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const insertPromptText = (text: string) => {
+    onUsePrompt(text);
+    handleClose();
+  };
+
+  // Prompts with {{variables}} open the fill-in form first
+  const handleUsePrompt = (prompt: SharedPrompt) => {
+    if (extractPromptVariables(prompt.text).length > 0) {
+      setFillingPrompt(prompt);
+      return;
+    }
+    insertPromptText(prompt.text);
+  };
+
+  const handleCopy = async (prompt: SharedPrompt) => {
+    const copied = await copyToFavorites(prompt.id);
+    if (copied) {
+      setCopiedIds(prev => new Set(prev).add(prompt.id));
+      onCopiedToFavorites?.();
+    }
+  };
+
+  const handleDelete = async (prompt: SharedPrompt) => {
+    if (!window.confirm(`Remove "${prompt.title}" from the team library?`)) return;
+    await deleteSharedPrompt(prompt.id);
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+    setPublishing(true);
+    const shared = await publishPrompt({ ...draft, tags: tagsInput.split(',') });
+    setPublishing(false);
+    if (shared) {
+      setDraft(null);
+      setTagsInput('');
+      setView('newest');
+    }
+  };
+
+  const renderPrompt = (prompt: SharedPrompt) => {
+    const variableCount = extractPromptVariables(prompt.text).length;
+    const canDelete = prompt.authorId === user?.id || isAdmin;
+
+    return (
+      <div key={prompt.id} className="p-4 border-b border-gray-700/50 last:border-b-0 group">
+        <div className="flex items-start space-x-3">
+          <button
+            onClick={() => toggleUpvote(prompt)}
+            className={`flex flex-col items-center px-2 py-1 rounded-lg transition-colors ${
+              prompt.hasUpvoted ? 'bg-blue-500/20 text-blue-300' : 'text-gray-400 hover:bg-gray-700'
+            }`}
+            title={prompt.hasUpvoted ? 'Remove upvote' : 'Upvote'}
+          >
+            <ThumbsUp className={`w-4 h-4 ${prompt.hasUpvoted ? 'fill-current' : ''}`} />
+            <span className="text-xs mt-0.5">{prompt.upvoteCount}</span>
+          </button>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center space-x-2">
+              {prompt.isFeatured && <Star className="w-3.5 h-3.5 text-yellow-400 fill-current flex-shrink-0" />}
+              <h4 className="text-white text-sm font-medium truncate">{prompt.title}</h4>
+            </div>
+            {prompt.description && (
+              <p className="text-gray-400 text-xs mt-0.5">{prompt.description}</p>
+            )}
+            <p className="text-gray-300 text-xs mt-2 bg-gray-900/60 border border-gray-700 rounded p-2 whitespace-pre-wrap line-clamp-4">
+              {prompt.text}
+            </p>
+            {(prompt.tags.length > 0 || variableCount > 0) && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {prompt.tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setSearchQuery(`#${tag}`)}
+                    className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300 text-[10px] hover:bg-blue-500/30"
+                    title={`Show prompts tagged #${tag}`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+                {variableCount > 0 && (
+                  <span className="flex items-center px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 text-[10px]">
+                    <Braces className="w-2.5 h-2.5 mr-1" />
+                    {variableCount} {variableCount === 1 ? 'field' : 'fields'}
+                  </span>
+                )}
+              </div>
+            )}
+            <p className="text-gray-500 text-xs mt-2">
+              by {prompt.authorName} · {prompt.createdAt.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+              {prompt.copyCount > 0 && ` · Saved ${prompt.copyCount}×`}
+            </p>
+
+            <div className="flex items-center space-x-2 mt-2">
+              <button
+                onClick={() => handleUsePrompt(prompt)}
+                className="px-3 py-1 rounded text-xs text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+              >
+                Use
+              </button>
+              <button
+                onClick={() => handleCopy(prompt)}
+                disabled={copiedIds.has(prompt.id)}
+                className="flex items-center space-x-1 px-3 py-1 rounded text-xs text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-60 transition-colors"
+                title="Copy to my saved prompts"
+              >
+                {copiedIds.has(prompt.id) ? <Check className="w-3 h-3" /> : <BookmarkPlus className="w-3 h-3" />}
+                <span>{copiedIds.has(prompt.id) ? 'Saved' : 'Save to my prompts'}</span>
+              </button>
+              <div className="flex-1" />
+              {isAdmin && (
+                <button
+                  onClick={() => setFeatured(prompt.id, !prompt.isFeatured)}
+                  className="p-1 hover:bg-gray-700 rounded transition-colors"
+                  title={prompt.isFeatured ? 'Remove from featured' : 'Feature for the team'}
+                >
+                  <Star className={`w-4 h-4 ${prompt.isFeatured ? 'text-yellow-400 fill-current' : 'text-gray-400'}`} />
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  onClick={() => handleDelete(prompt)}
+                  className="p-1 hover:bg-red-500/20 rounded opacity-0 group-hover:opacity-100 transition-all"
+                  title="Remove from the team library"
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-2">
+            <BookOpen className="w-6 h-6 text-blue-500" />
+            <h2 className="text-xl font-bold text-white">Team Prompt Library</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            {!draft && !fillingPrompt && (
+              <button
+                onClick={() => setDraft(EMPTY_DRAFT)}
+                className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Share a prompt</span>
+              </button>
+            )}
+            <button
+              onClick={handleClose}
+              className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
+        </div>
+
+        {fillingPrompt ? (
+          <PromptVariablesForm
+            title={fillingPrompt.title}
+            text={fillingPrompt.text}
+            onInsert={insertPromptText}
+            onBack={() => setFillingPrompt(null)}
+          />
+        ) : draft ? (
+          <div className="p-6 space-y-3 overflow-y-auto">
+            <p className="text-gray-400 text-sm">
+              Everyone in the workspace can see, use and save prompts in the team library.
+            </p>
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="Title"
+              className={inputClassName}
+              autoFocus
+            />
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="What is it for? (optional)"
+              className={inputClassName}
+            />
+            <textarea
+              value={draft.text}
+              onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+              placeholder="The prompt"
+              rows={5}
+              className={`${inputClassName} resize-none`}
+            />
+            <input
+              type="text"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              placeholder="Tags, separated by commas"
+              className={inputClassName}
+            />
+            <p className="text-gray-500 text-xs">
+              Use {'{{name}}'} for values teammates fill in each time, e.g. {'{{client}}'}.
+            </p>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 rounded-lg text-sm text-gray-300 hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handlePublish}
+                disabled={publishing || !draft.title.trim() || !draft.text.trim()}
+                className="px-4 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {publishing ? 'Sharing...' : 'Share with team'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="p-4 border-b border-gray-700 space-y-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search titles, descriptions, authors and tags"
+                  className={`${inputClassName} pl-9`}
+                  autoFocus
+                />
+              </div>
+              <div className="flex space-x-1">
+                {VIEWS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setView(option.id)}
+                    className={`px-3 py-1 rounded-lg text-xs transition-colors ${
+                      view === option.id ? 'bg-blue-500/20 text-blue-300' : 'text-gray-400 hover:bg-gray-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {loading && sharedPrompts.length === 0 ? (
+                <p className="p-6 text-center text-gray-400 text-sm">Loading team library...</p>
+              ) : visiblePrompts.length === 0 ? (
+                <p className="p-6 text-center text-gray-500 text-sm">
+                  {searchQuery
+                    ? 'No shared prompts match'
+                    : view === 'featured'
+                    ? 'Nothing featured yet. Check Top or Newest.'
+                    : 'No shared prompts yet. Be the first to share one.'}
+                </p>
+              ) : (
+                visiblePrompts.map(renderPrompt)
+              )}
+            </div>
+          </>
+        )}
+
+        {error && (
+          <p className="px-6 pb-4 text-red-400 text-sm text-center">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+};
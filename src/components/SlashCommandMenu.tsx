@@ -0,0 +1,60 @@
+import React from 'react';
+import { Terminal, CornerDownLeft } from 'lucide-react';
+import { SlashCommandSuggestion } from '../lib/slashCommands';
+import { SlashCommandFeedback } from '../hooks/useSlashCommands';
+
+interface SlashCommandMenuProps {
+  suggestions: SlashCommandSuggestion[];
+  selectedIndex: number;
+  onSelect: (suggestion: SlashCommandSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+// Same look and placement as the @mention dropdown in MentionInput
+export const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
+  suggestions,
+  selectedIndex,
+  onSelect,
+  onHover
+}) => (
+  <div className="absolute bottom-full left-0 right-0 mb-2 bg-gray-800 border border-gray-600 rounded-lg shadow-lg max-h-64 overflow-y-auto z-50">
+    {suggestions.map((suggestion, index) => (
+      <button
+        key={suggestion.key}
+        // Keep focus in the textarea
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onSelect(suggestion)}
+        onMouseEnter={() => onHover(index)}
+        className={`w-full text-left px-4 py-2.5 hover:bg-gray-700 transition-colors flex items-center space-x-3 ${
+          index === selectedIndex ? 'bg-gray-700' : ''
+        }`}
+      >
+        <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center flex-shrink-0">
+          <Terminal className="w-4 h-4 text-blue-300" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="text-white text-sm font-mono truncate">{suggestion.label}</div>
+          <div className="text-gray-400 text-xs truncate">{suggestion.description}</div>
+        </div>
+        {index === selectedIndex && suggestion.runnable && (
+          <CornerDownLeft className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+        )}
+      </button>
+    ))}
+  </div>
+);
+
+export const SlashCommandStatus: React.FC<{ feedback: SlashCommandFeedback | null; running: boolean }> = ({
+  feedback,
+  running
+}) => {
+  if (running) {
+    return <p className="text-xs text-gray-400 mb-2">Running command...</p>;
+  }
+  if (!feedback) return null;
+  return (
+    <p className={`text-xs mb-2 ${feedback.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>
+      {feedback.text}
+    </p>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ExternalLink, FileText } from 'lucide-react';
+import { AstraSource } from '../lib/astraProvider';
+
+interface SourceCitationsProps {
+  sources: AstraSource[];
+}
+
+// Numbered chips for the sources an answer cites; [1] in the text is the first chip
+export const SourceCitations: React.FC<SourceCitationsProps> = ({ sources }) => {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-600/50">
+      <div className="text-xs text-gray-400 mb-1.5">Sources</div>
+      <div className="flex flex-wrap gap-1.5">
+        {sources.map((source, index) => {
+          const chipContent = (
+            <>
+              <span className="flex-shrink-0 w-4 h-4 rounded-full bg-blue-500/30 text-blue-200 flex items-center justify-center text-[10px] font-bold">
+                {index + 1}
+              </span>
+              <span className="truncate">{source.title}</span>
+              {source.url
+                ? <ExternalLink className="w-3 h-3 flex-shrink-0 opacity-70" />
+                : <FileText className="w-3 h-3 flex-shrink-0 opacity-70" />}
+            </>
+          );
+          const tooltip = [source.snippet, source.url].filter(Boolean).join('\n\n') || source.title;
+          const chipClassName = 'flex items-center space-x-1.5 max-w-[220px] px-2 py-1 rounded-full bg-gray-600/50 border border-gray-500/50 text-xs text-gray-200';
+
+          return source.url ? (
+            <a
+              key={index}
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={tooltip}
+              className={`${chipClassName} hover:bg-blue-600/40 hover:border-blue-400 transition-colors`}
+            >
+              {chipContent}
+            </a>
+          ) : (
+            <span key={index} title={tooltip} className={chipClassName}>
+              {chipContent}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
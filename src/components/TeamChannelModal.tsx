@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { X, Hash, Lock, Check } from 'lucide-react';
+import { TeamChannel, TeamChannelDraft } from '../types';
+import { CHANNEL_NAME_MAX_LENGTH, normalizeChannelName } from '../lib/teamChannels';
+
+interface ChannelMemberOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface TeamChannelModalProps {
+  isOpen: boolean;
+  channel: TeamChannel | null;
+  users: ChannelMemberOption[];
+  error: string | null;
+  onClose: () => void;
+  onSave: (draft: TeamChannelDraft) => Promise<boolean>;
+  loadMemberIds: (channelId: string) => Promise<string[]>;
+}
+
+// Create a team channel, or rename / re-describe / manage members of an existing one
+export const TeamChannelModal: React.FC<TeamChannelModalProps> = ({
+  isOpen,
+  channel,
+  users,
+  error,
+  onClose,
+  onSave,
+  loadMemberIds
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form (and load current members when editing) each time it opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(channel?.name || '');
+    setDescription(channel?.description || '');
+    setIsPrivate(channel?.isPrivate || false);
+    setMemberIds([]);
+
+    if (channel?.isPrivate) {
+      loadMemberIds(channel.id).then(setMemberIds);
+    }
+  }, [isOpen, channel, loadMemberIds]);
+
+  if (!isOpen) return null;
+
+  const normalizedName = normalizeChannelName(name);
+  const isEditing = !!channel;
+
+  const toggleMember = (userId: string) => {
+    setMemberIds(prev => prev.includes(userId)
+      ? prev.filter(memberId => memberId !== userId)
+      : [...prev, userId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!normalizedName) return;
+
+    setSaving(true);
+    try {
+      const saved = await onSave({
+        name: normalizedName,
+        description,
+        isPrivate,
+        memberIds: isPrivate ? memberIds : []
+      });
+      if (saved) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Hash className="w-6 h-6 text-blue-500" />
+            <h2 className="text-xl font-bold text-white">{isEditing ? 'Edit Channel' : 'Create Channel'}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. marketing"
+              maxLength={CHANNEL_NAME_MAX_LENGTH + 10}
+              autoFocus
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {name && normalizedName !== name && (
+              <p className="mt-1 text-xs text-gray-400">
+                {isEditing ? 'Will be saved as' : 'Will be created as'} <span className="text-blue-300">#{normalizedName || '...'}</span>
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this channel about? (optional)"
+              rows={2}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-400 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <label className={`flex items-start space-x-3 ${isEditing ? 'opacity-60' : 'cursor-pointer'}`}>
+            <input
+              type="checkbox"
+              checked={isPrivate}
+              onChange={(e) => setIsPrivate(e.target.checked)}
+              disabled={isEditing}
+              className="mt-1 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            <div>
+              <div className="flex items-center space-x-1 text-white text-sm font-medium">
+                <Lock className="w-3.5 h-3.5" />
+                <span>Private channel</span>
+              </div>
+              <p className="text-gray-400 text-xs mt-0.5">
+                {isEditing
+                  ? 'Privacy cannot be changed after a channel is created.'
+                  : 'Only invited members can see and post. Public channels are open to the whole team.'}
+              </p>
+            </div>
+          </label>
+
+          {isPrivate && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Members <span className="text-gray-500">({memberIds.length} selected)</span>
+              </label>
+              <div className="max-h-48 overflow-y-auto space-y-1 bg-gray-700/40 rounded-lg p-2">
+                {users.length === 0 ? (
+                  <p className="text-gray-400 text-sm p-2">No other team members yet</p>
+                ) : users.map(member => {
+                  const selected = memberIds.includes(member.id);
+                  return (
+                    <button
+                      key={member.id}
+                      type="button"
+                      onClick={() => toggleMember(member.id)}
+                      className={`w-full flex items-center space-x-3 px-2 py-1.5 rounded-lg text-left transition-colors ${
+                        selected ? 'bg-blue-600/20' : 'hover:bg-gray-700'
+                      }`}
+                    >
+                      <div className="w-7 h-7 bg-gray-600 rounded-full flex items-center justify-center text-white text-xs font-bold flex-shrink-0">
+                        {member.name?.charAt(0) || member.email.charAt(0)}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-white text-sm truncate">{member.name || member.email.split('@')[0]}</div>
+                        <div className="text-gray-400 text-xs truncate">{member.email}</div>
+                      </div>
+                      {selected && <Check className="w-4 h-4 text-blue-400 flex-shrink-0" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-red-400 text-sm text-center">{error}</p>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-white py-2 px-4 rounded-lg text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !normalizedName}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Channel'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
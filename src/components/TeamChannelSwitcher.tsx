@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Hash, Lock, ChevronDown, Plus, Pencil, LogOut, Trash2 } from 'lucide-react';
+import { TeamChannel } from '../types';
+
+interface TeamChannelSwitcherProps {
+  channels: TeamChannel[];
+  activeChannel: TeamChannel | null;
+  canManageAll: boolean;
+  onSelect: (channelId: string) => void;
+  onCreate: () => void;
+  onEdit: (channel: TeamChannel) => void;
+  onLeave: (channel: TeamChannel) => void;
+  onDelete: (channel: TeamChannel) => void;
+  // Shown next to the member count, e.g. who is online
+  presence?: React.ReactNode;
+}
+
+// Channel header for team chat: current channel, dropdown of channels with unread badges and channel actions
+export const TeamChannelSwitcher: React.FC<TeamChannelSwitcherProps> = ({
+  channels,
+  activeChannel,
+  canManageAll,
+  onSelect,
+  onCreate,
+  onEdit,
+  onLeave,
+  onDelete,
+  presence
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const otherUnread = channels
+    .filter(channel => channel.id !== activeChannel?.id)
+    .reduce((total, channel) => total + channel.unreadCount, 0);
+  const canManage = !!activeChannel && (activeChannel.isOwner || canManageAll);
+  const ChannelIcon = activeChannel?.isPrivate ? Lock : Hash;
+
+  return (
+    <div className="bg-gray-900 border-b border-gray-700 px-4 py-2 flex items-center justify-between">
+      <div className="relative min-w-0" ref={dropdownRef}>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center space-x-1.5 px-2 py-1 rounded-lg hover:bg-gray-800 transition-colors min-w-0"
+        >
+          <ChannelIcon className="w-4 h-4 text-blue-400 flex-shrink-0" />
+          <span className="text-white font-semibold truncate">{activeChannel?.name || 'Loading...'}</span>
+          <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          {otherUnread > 0 && (
+            <span className="bg-blue-500 text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1">
+              {otherUnread > 99 ? '99+' : otherUnread}
+            </span>
+          )}
+        </button>
+
+        {isOpen && (
+          <div className="absolute top-full left-0 mt-2 w-72 bg-gray-800 rounded-lg shadow-xl border border-gray-700 overflow-hidden z-30">
+            <div className="max-h-72 overflow-y-auto py-1">
+              {channels.map(channel => {
+                const Icon = channel.isPrivate ? Lock : Hash;
+                const isActive = channel.id === activeChannel?.id;
+                return (
+                  <button
+                    key={channel.id}
+                    onClick={() => {
+                      onSelect(channel.id);
+                      setIsOpen(false);
+                    }}
+                    className={`w-full flex items-center space-x-2 px-3 py-2 text-left text-sm transition-colors ${
+                      isActive ? 'bg-blue-600/20 text-white' : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    <span className={`flex-1 truncate ${channel.unreadCount > 0 && !isActive ? 'font-semibold text-white' : ''}`}>
+                      {channel.name}
+                    </span>
+                    {!channel.isMember && (
+                      <span className="text-xs text-gray-500">Join</span>
+                    )}
+                    {channel.unreadCount > 0 && !isActive && (
+                      <span className="bg-blue-500 text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1">
+                        {channel.unreadCount > 99 ? '99+' : channel.unreadCount}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => {
+                onCreate();
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-blue-300 hover:bg-gray-700 border-t border-gray-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Create channel</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {activeChannel && (
+        <div className="flex items-center space-x-3 min-w-0 ml-3">
+          {activeChannel.description && (
+            <span className="hidden md:block text-gray-400 text-sm truncate">{activeChannel.description}</span>
+          )}
+          {presence}
+          <span className="text-gray-500 text-xs whitespace-nowrap">
+            {activeChannel.memberCount} member{activeChannel.memberCount === 1 ? '' : 's'}
+          </span>
+          {canManage && (
+            <button
+              onClick={() => onEdit(activeChannel)}
+              className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors"
+              title="Edit channel"
+            >
+              <Pencil className="w-4 h-4 text-gray-400" />
+            </button>
+          )}
+          {activeChannel.isMember && !activeChannel.isDefault && (
+            <button
+              onClick={() => onLeave(activeChannel)}
+              className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors"
+              title="Leave channel"
+            >
+              <LogOut className="w-4 h-4 text-gray-400" />
+            </button>
+          )}
+          {canManage && !activeChannel.isDefault && (
+            <button
+              onClick={() => onDelete(activeChannel)}
+              className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors"
+              title="Delete channel"
+            >
+              <Trash2 className="w-4 h-4 text-red-400" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
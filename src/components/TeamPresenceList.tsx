@@ -0,0 +1,90 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PresenceStatus, TeamMemberPresence } from '../lib/teamPresence';
+
+interface TeamPresenceListProps {
+  members: TeamMemberPresence[];
+  currentUserId?: string;
+}
+
+const MAX_AVATARS = 4;
+
+const STATUS_STYLES: Record<PresenceStatus, { dot: string; label: string }> = {
+  online: { dot: 'bg-green-400', label: 'Online' },
+  idle: { dot: 'bg-yellow-400', label: 'Idle' },
+  away: { dot: 'bg-gray-500', label: 'Away' }
+};
+
+const Avatar: React.FC<{ member: TeamMemberPresence; size: string }> = ({ member, size }) => (
+  <div className="relative flex-shrink-0">
+    <div className={`${size} rounded-full bg-gray-600 text-white font-bold flex items-center justify-center border-2 border-gray-900 ${
+      member.status === 'online' ? '' : 'opacity-60'
+    }`}>
+      {member.userName.charAt(0).toUpperCase()}
+    </div>
+    <span className={`absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full border-2 border-gray-900 ${STATUS_STYLES[member.status].dot}`} />
+  </div>
+);
+
+// Avatars of teammates with team chat open, with a dropdown listing everyone and their status
+export const TeamPresenceList: React.FC<TeamPresenceListProps> = ({ members, currentUserId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  if (members.length === 0) return null;
+
+  const onlineCount = members.filter(member => member.status === 'online').length;
+  const hiddenCount = members.length - MAX_AVATARS;
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-1.5 py-1 rounded-lg hover:bg-gray-800 transition-colors"
+        title={`${onlineCount} online`}
+      >
+        <div className="flex -space-x-2">
+          {members.slice(0, MAX_AVATARS).map(member => (
+            <Avatar key={member.userId} member={member} size="w-6 h-6 text-xs" />
+          ))}
+        </div>
+        {hiddenCount > 0 && (
+          <span className="text-gray-400 text-xs">+{hiddenCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 bg-gray-800 rounded-lg shadow-xl border border-gray-700 overflow-hidden z-30">
+          <div className="px-3 py-2 border-b border-gray-700 text-xs text-gray-400">
+            In team chat now · {onlineCount} online
+          </div>
+          <div className="max-h-72 overflow-y-auto py-1">
+            {members.map(member => (
+              <div key={member.userId} className="flex items-center space-x-2 px-3 py-2">
+                <Avatar member={member} size="w-7 h-7 text-sm" />
+                <span className="flex-1 text-sm text-white truncate">
+                  {member.userName}
+                  {member.userId === currentUserId && <span className="text-gray-500"> (you)</span>}
+                </span>
+                <span className="text-xs text-gray-400">{STATUS_STYLES[member.status].label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, MessagesSquare, Bell, BellOff } from 'lucide-react';
+import { MentionInput } from './MentionInput';
+import { GroupMessage as GroupMessageType } from '../types';
+
+interface ThreadUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface ThreadPanelProps {
+  channelName: string;
+  rootMessage: GroupMessageType | null;
+  replies: GroupMessageType[];
+  loading: boolean;
+  error: string | null;
+  isSubscribed: boolean;
+  updatingSubscription: boolean;
+  // Empty when nobody is waiting on Astra / typing in this thread
+  astraActivity: string;
+  typingIndicator: string;
+  users: ThreadUser[];
+  renderMessage: (message: GroupMessageType) => React.ReactNode;
+  onToggleSubscription: () => void;
+  onSend: (message: string, imageData: { url: string; filename: string; size: number } | undefined, alsoSendToChannel: boolean) => Promise<void>;
+  onTyping: (isTyping: boolean) => void;
+  onClose: () => void;
+}
+
+// Side panel with a thread's parent message, its replies and a reply box
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  channelName,
+  rootMessage,
+  replies,
+  loading,
+  error,
+  isSubscribed,
+  updatingSubscription,
+  astraActivity,
+  typingIndicator,
+  users,
+  renderMessage,
+  onToggleSubscription,
+  onSend,
+  onTyping,
+  onClose
+}) => {
+  const [inputValue, setInputValue] = useState('');
+  const [alsoSendToChannel, setAlsoSendToChannel] = useState(false);
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest reply in view
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies.length, astraActivity]);
+
+  const handleSend = async (
+    message: string,
+    imageData?: { url: string; filename: string; size: number }
+  ) => {
+    if (!message.trim() && !imageData) return;
+
+    await onSend(message, imageData, alsoSendToChannel);
+    setInputValue('');
+    setAlsoSendToChannel(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-900 flex flex-col lg:static lg:inset-auto lg:z-auto lg:w-96 lg:flex-shrink-0 lg:border-l lg:border-gray-700">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <div className="flex items-center space-x-2 min-w-0">
+          <MessagesSquare className="w-5 h-5 text-blue-400 flex-shrink-0" />
+          <div className="min-w-0">
+            <h2 className="text-white font-bold leading-tight">Thread</h2>
+            <p className="text-gray-400 text-xs truncate">#{channelName}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onToggleSubscription}
+            disabled={updatingSubscription || !rootMessage}
+            className={`flex items-center space-x-1 px-2 py-1.5 rounded-lg text-xs transition-colors disabled:opacity-50 ${
+              isSubscribed ? 'text-blue-300 hover:bg-gray-800' : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+            }`}
+            title={isSubscribed ? 'Stop notifications for new replies' : 'Get notified about new replies'}
+          >
+            {isSubscribed ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+            <span>{isSubscribed ? 'Following' : 'Follow'}</span>
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+            title="Close thread"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      {/* Parent message and replies */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-1">
+        {loading && !rootMessage ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+          </div>
+        ) : error && !rootMessage ? (
+          <p className="text-gray-400 text-sm text-center mt-8">{error}</p>
+        ) : rootMessage && (
+          <>
+            {renderMessage(rootMessage)}
+
+            <div className="flex items-center space-x-3 my-3">
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+              </span>
+              <div className="flex-1 border-t border-gray-700" />
+            </div>
+
+            {replies.map(reply => (
+              <React.Fragment key={reply.id}>{renderMessage(reply)}</React.Fragment>
+            ))}
+
+            {astraActivity && (
+              <div className="flex items-center space-x-2 text-sm text-gray-300 mb-4">
+                <span>🚀 {astraActivity}</span>
+                <div className="flex space-x-1">
+                  <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                  <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                  <div className="w-1 h-1 bg-white rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      {/* Reply box */}
+      <div className="border-t border-gray-700 p-2 lg:p-3">
+        {typingIndicator && (
+          <div className="text-xs text-gray-400 italic px-2 pb-1">{typingIndicator}</div>
+        )}
+        <MentionInput
+          value={inputValue}
+          onChange={setInputValue}
+          onSend={handleSend}
+          disabled={!rootMessage}
+          placeholder="Reply in thread... Use @astra for AI Intelligence"
+          users={users}
+          onTyping={onTyping}
+        />
+        <label className="flex items-center space-x-2 mt-2 px-1 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={alsoSendToChannel}
+            onChange={(e) => setAlsoSendToChannel(e.target.checked)}
+            className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Also send to #{channelName}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
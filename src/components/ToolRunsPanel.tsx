@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, CheckCircle, XCircle, Wrench } from 'lucide-react';
+import { AstraToolRun, formatDuration } from '../lib/astraProvider';
+
+interface ToolRunsPanelProps {
+  toolRuns: AstraToolRun[];
+  modelUsed?: string;
+  totalTimeMs?: number;
+}
+
+// Expandable "How Astra answered" panel listing the workflow tools that ran
+export const ToolRunsPanel: React.FC<ToolRunsPanelProps> = ({ toolRuns, modelUsed, totalTimeMs }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (toolRuns.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <span>How Astra answered</span>
+        <span className="text-gray-500">
+          · {toolRuns.length} {toolRuns.length === 1 ? 'step' : 'steps'}
+          {totalTimeMs ? ` · ${formatDuration(totalTimeMs)}` : ''}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 rounded-lg bg-gray-900/60 border border-gray-600/50 p-2 space-y-1.5">
+          {toolRuns.map((toolRun, index) => (
+            <div key={index} className="flex items-start space-x-2 text-xs">
+              {toolRun.status === 'error'
+                ? <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0 mt-0.5" />
+                : toolRun.status === 'success'
+                ? <CheckCircle className="w-3.5 h-3.5 text-green-400 flex-shrink-0 mt-0.5" />
+                : <Wrench className="w-3.5 h-3.5 text-gray-400 flex-shrink-0 mt-0.5" />}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-gray-200 truncate">{toolRun.name}</span>
+                  {toolRun.durationMs !== undefined && (
+                    <span className="text-gray-500 flex-shrink-0">{formatDuration(toolRun.durationMs)}</span>
+                  )}
+                </div>
+                {toolRun.summary && (
+                  <div className="text-gray-400 break-words">{toolRun.summary}</div>
+                )}
+              </div>
+            </div>
+          ))}
+          {modelUsed && (
+            <div className="pt-1.5 border-t border-gray-700 text-xs text-gray-500">
+              Model: {modelUsed}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
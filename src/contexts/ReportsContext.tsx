@@ -26,6 +26,8 @@ export interface UserReport {
   last_run_at: string | null;
   next_run_at: string | null;
   report_template_id: string | null;
+  // The Astra answer this report was created from, if any
+  source_message_id: string | null;
   created_at: string;
   template?: ReportTemplate;
 }
@@ -142,8 +144,9 @@ export const ReportsProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, [user]);
 
+  // Throws on failure so the create modal can keep the form open and show why
   const createReport = async (data: any) => {
-    if (!user) return;
+    if (!user) throw new Error('You need to be signed in to create a report');
 
     try {
       setLoading(true);
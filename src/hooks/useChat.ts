@@ -1,14 +1,61 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Message, ReplyState } from '../types';
+import { Message, MessageAttachment, ReplyState } from '../types';
 import { useChats } from './useChats';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { astraProvider, astraProviderConfigError, AstraRequestError } from '../lib/astraProvider';
+import { buildConversationContext, extendConversationSummary, SummaryCacheEntry } from '../lib/conversationContext';
+import { getBranchInfo, getPathThrough } from '../lib/conversationBranches';
+import { getMessageAttachments, loadAttachment, toStoredAttachment } from '../lib/attachments';
+import { generateFollowUps } from '../lib/followUps';
 import { v4 as uuidv4 } from 'uuid';
 
-const WEBHOOK_URL = import.meta.env.VITE_N8N_WEBHOOK_URL;
+// Sending from an earlier point in the conversation (edit / regenerate) starts a sibling branch
+interface BranchOptions {
+  // Database id of the message the new turn follows (null for the first message)
+  previousMessageId: string | null;
+  // Re-answer an already stored prompt instead of logging a new one
+  existingUserMessageId?: string;
+  parentMessageId?: string | null;
+}
+
+interface SendOptions {
+  branch?: BranchOptions;
+  // Overrides the reply state, so a retried reply keeps its parent
+  replyToMessageId?: string | null;
+  attachments?: MessageAttachment[];
+}
+
+// Everything needed to send a failed (or stopped) message again
+interface FailedRequest {
+  text: string;
+  branch?: BranchOptions;
+  parentMessageId: string | null;
+  attachments: MessageAttachment[];
+}
+
+// Sent in place of a question when the user only attached files
+const ATTACHMENTS_ONLY_PROMPT = 'Please review the attached files.';
+
+const getSendErrorText = (error: unknown): string => {
+  if (error instanceof AstraRequestError) {
+    switch (error.kind) {
+      case 'aborted':
+        return 'You stopped this response.';
+      case 'timeout':
+        return `${error.message}.`;
+      case 'network':
+        return 'Network connection error. Please check your internet connection.';
+      case 'http':
+      case 'config':
+        return `${error.message}.`;
+    }
+  }
+  return "I'm sorry, I'm having trouble connecting right now.";
+};
 
 export const useChat = () => {
-  const { logChatMessage, currentMessages, currentConversationId, loading: chatsLoading, loadConversation, startNewConversation: chatsStartNewConversation, updateVisualizationStatus, conversations, hasInitialized, getVisualizationState, updateVisualizationState, updateVisualizationData } = useChats();
+  const { logChatMessage, currentMessages, conversationMessages, selectBranch, autoTitleConversation, currentConversationId, loading: chatsLoading, loadConversation, startNewConversation: chatsStartNewConversation, updateVisualizationStatus, updateMessageMetadata, conversations, hasInitialized, getVisualizationState, updateVisualizationState, updateVisualizationData, getHistorySummary, saveHistorySummary } = useChats();
   const { user } = useAuth();
   const [userProfile, setUserProfile] = useState<{ name: string | null } | null>(null);
   const [messages, setMessages] = useState<Message[]>([
@@ -21,9 +68,15 @@ export const useChat = () => {
     }
   ]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Retry attempt of the in-flight request (0 while on the first attempt)
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const failedRequestsRef = useRef<Record<string, FailedRequest>>({});
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [hasLoadedConversation, setHasLoadedConversation] = useState(false);
+  const historySummaryRef = useRef<Record<string, SummaryCacheEntry | null>>({});
   const [replyState, setReplyState] = useState<ReplyState>({
     isReplying: false,
     messageId: null,
@@ -69,18 +122,31 @@ export const useChat = () => {
     
     if (currentMessages.length > 0) {
       const uiMessages: Message[] = [];
+      const messagesById = new Map(currentMessages.map(dbMessage => [dbMessage.id, dbMessage]));
       
       currentMessages.forEach((dbMessage, index) => {
+        const branchInfo = getBranchInfo(conversationMessages, dbMessage.id);
+
         if (dbMessage.isUser) {
+          // Resolve the quoted parent for replies (it may have been deleted since)
+          const parentMessage = dbMessage.parentMessageId ? messagesById.get(dbMessage.parentMessageId) : undefined;
+
           // Add user message
           uiMessages.push({
             id: `${dbMessage.id}-user`,
+            chatId: dbMessage.id,
             text: dbMessage.message,
             isUser: true,
             timestamp: new Date(dbMessage.createdAt),
             messageType: 'user',
-            isReply: dbMessage.message.startsWith('@reply '),
-            replyToId: dbMessage.message.startsWith('@reply ') ? dbMessage.message.split(' ')[1] : undefined
+            branchIndex: branchInfo?.index,
+            branchCount: branchInfo?.count,
+            attachments: getMessageAttachments(dbMessage.metadata),
+            replyTo: dbMessage.parentMessageId ? {
+              messageId: dbMessage.parentMessageId,
+              text: parentMessage?.message || '',
+              isUser: parentMessage?.isUser || false
+            } : undefined
           });
         } else {
           // Add Astra response
@@ -94,6 +160,8 @@ export const useChat = () => {
             hasStoredVisualization: !!dbMessage.visualizationData,
             visualization_data: dbMessage.visualizationData,
             messageType: 'astra',
+            branchIndex: branchInfo?.index,
+            branchCount: branchInfo?.count,
             metadata: dbMessage.metadata || {}
           });
           
@@ -134,31 +202,42 @@ export const useChat = () => {
         }
       ]);
     }
-  }, [currentMessages, currentConversationId, chatsLoading]);
+  }, [currentMessages, conversationMessages, currentConversationId, chatsLoading]);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
 
-  const sendMessage = useCallback(async (text: string) => {
-    if (!text.trim() || isLoading) return;
+  const sendMessage = useCallback(async (text: string, options: SendOptions = {}) => {
+    const { branch, replyToMessageId, attachments = [] } = options;
+    if ((!text.trim() && attachments.length === 0) || isLoading) return;
 
-    let messageToSend = text.trim();
-    let isReplyMessage = false;
-    
-    // Check if we're in reply mode
-    if (replyState.isReplying && replyState.messageId) {
-      messageToSend = `@reply ${replyState.messageId} ${text.trim()}`;
-      isReplyMessage = true;
-      console.log('🔄 Sending reply message:', messageToSend);
+    const messageToSend = text.trim() || ATTACHMENTS_ONLY_PROMPT;
+    const parentMessageId = branch
+      ? branch.parentMessageId || null
+      : replyToMessageId !== undefined
+        ? replyToMessageId
+        : replyState.isReplying ? replyState.messageId : null;
+
+    // The conversation path this turn continues from
+    const basePath = branch ? getPathThrough(currentMessages, branch.previousMessageId) : currentMessages;
+    const previousMessageId = branch
+      ? branch.previousMessageId
+      : currentMessages[currentMessages.length - 1]?.id || null;
+    const parentMessage = parentMessageId
+      ? currentMessages.find(dbMessage => dbMessage.id === parentMessageId)
+      : undefined;
+
+    if (parentMessageId) {
+      console.log('🔄 Sending reply to message:', parentMessageId);
     }
 
-    // Check if webhook URL is configured
-    if (!WEBHOOK_URL) {
-      console.error('N8N webhook URL not configured');
+    // Check that the Astra provider is configured
+    if (astraProviderConfigError) {
+      console.error('Astra provider not configured:', astraProviderConfigError);
       const errorMessage: Message = {
         id: `${uuidv4()}-error`,
-        text: "Configuration error: N8N webhook URL not set. Please check your environment variables.",
+        text: `Configuration error: ${astraProviderConfigError}. Please check your environment variables.`,
         isUser: false,
         timestamp: new Date()
       };
@@ -173,20 +252,40 @@ export const useChat = () => {
 
     const messageId = uuidv4();
     const startTime = Date.now();
+    // The first message of a brand-new chat picks the conversation id here so both
+    // turns (and the auto-title) land in the same conversation
+    const conversationId = currentConversationId || uuidv4();
     const userMessage: Message = {
       id: `${messageId}-user`,
       text: messageToSend,
       isUser: true,
       timestamp: new Date(),
       messageType: 'user',
-      isReply: isReplyMessage,
-      replyToId: replyState.isReplying ? replyState.messageId : undefined
+      attachments,
+      replyTo: parentMessageId ? {
+        messageId: parentMessageId,
+        text: parentMessage?.message || replyState.messageSnippet || '',
+        isUser: parentMessage?.isUser || false
+      } : undefined
     };
 
-    // Add user message to UI immediately
-    setMessages(prev => [...prev, userMessage]);
+    // Add user message to UI immediately, dropping anything after the branch point
+    if (branch) {
+      const keptIds = new Set(basePath.map(dbMessage => dbMessage.id));
+      if (branch.existingUserMessageId) keptIds.add(branch.existingUserMessageId);
+      setMessages(prev => [
+        ...prev.filter(msg => msg.id === 'welcome' || (msg.chatId && keptIds.has(msg.chatId))),
+        ...(branch.existingUserMessageId ? [] : [userMessage])
+      ]);
+    } else {
+      setMessages(prev => [...prev, userMessage]);
+    }
     setInputValue('');
     setIsLoading(true);
+    setRetryAttempt(0);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     // Clear reply state after sending
     if (replyState.isReplying) {
@@ -198,132 +297,145 @@ export const useChat = () => {
     }
 
     try {
-      const requestStartTime = Date.now();
-      
-      console.log('🌐 Sending request to webhook:', WEBHOOK_URL);
-      console.log('📤 Request payload:', { 
-        chatInput: messageToSend,
-        user_id: userId,
-        user_email: userEmail,
-        user_name: userName,
-        conversation_id: currentConversationId,
-        mode: 'private'
-      });
-      
-      const response = await fetch(WEBHOOK_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chatInput: messageToSend,
-          user_id: userId,
-          user_email: userEmail,
-          user_name: userName,
-          conversation_id: currentConversationId,
-          mode: 'private'
-        })
-      });
-      const requestEndTime = Date.now();
-      const responseTimeMs = requestEndTime - requestStartTime;
+      // Attach a bounded window of prior turns (plus a summary of anything older).
+      // The stored summary is only reused if it was written for this path.
+      if (!(conversationId in historySummaryRef.current)) {
+        historySummaryRef.current[conversationId] = await getHistorySummary(conversationId);
+      }
+      const cachedSummary = historySummaryRef.current[conversationId];
+      const conversationContext = buildConversationContext(basePath, cachedSummary);
 
-      console.log('📥 Response status:', response.status);
-      console.log('📥 Response headers:', Object.fromEntries(response.headers.entries()));
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Webhook request failed:', {
-          status: response.status,
-          statusText: response.statusText,
-          errorText: errorText
+      // Fold the turns that left the window into the summary without holding up this question
+      if (conversationContext.needsSummaryUpdate) {
+        extendConversationSummary(basePath, cachedSummary).then(entry => {
+          if (!entry) return;
+          historySummaryRef.current[conversationId] = entry;
+          saveHistorySummary(conversationId, entry);
         });
-        
-        // Try to parse error response and extract meaningful message
-        let errorMessage = `Webhook request failed: ${response.status} ${response.statusText}`;
-        if (errorText) {
-          try {
-            const errorJson = JSON.parse(errorText);
-            if (errorJson.message) {
-              errorMessage = `Server error: ${errorJson.message}`;
-            } else {
-              errorMessage += ` - ${errorText}`;
-            }
-          } catch (parseError) {
-            // If not JSON, use raw error text
-            errorMessage += ` - ${errorText}`;
-          }
-        }
-        
-        throw new Error(errorMessage);
       }
 
-      const responseText = await response.text();
+      const requestStartTime = Date.now();
       
-      // Try to parse JSON response and extract the output field
-      let messageText = responseText;
-      let metadata: any = {};
-      let tokensUsed: any = {};
-      let toolsUsed: string[] = [];
+      console.log('🌐 Sending request to Astra provider:', astraProvider.name);
+      console.log('📤 Request:', {
+        message: messageToSend,
+        userId,
+        conversationId,
+        mode: 'private',
+        parentMessageId,
+        historyTurns: conversationContext.history.length,
+        hasSummary: !!conversationContext.summary
+      });
       
-      try {
-        const jsonResponse = JSON.parse(responseText);
-        if (jsonResponse.output) {
-          messageText = jsonResponse.output;
-        }
-        
-        // Extract additional metadata if available from n8n response
-        if (jsonResponse.metadata) {
-          metadata = jsonResponse.metadata;
-        }
-        if (jsonResponse.tokens_used) {
-          tokensUsed = jsonResponse.tokens_used;
-        }
-        if (jsonResponse.tools_used) {
-          toolsUsed = jsonResponse.tools_used;
-        }
-        if (jsonResponse.model_used) {
-          metadata.model_used = jsonResponse.model_used;
-        }
-      } catch (e) {
-        // If it's not JSON, use the raw text
-        messageText = responseText;
-      }
-
-      console.log('✅ Received Astra response:', { messageText: messageText.substring(0, 100) + '...' });
-
       const astraMessage: Message = {
         id: `${messageId}-astra`,
-        text: messageText,
+        text: '',
         isUser: false,
         timestamp: new Date(),
-        messageType: 'astra'
+        messageType: 'astra',
+        isStreaming: true
       };
 
-      // Add Astra response to UI immediately
-      setMessages(prev => [...prev, astraMessage]);
+      // Render partial text as it arrives - the bubble is created on the first chunk
+      // so the loading indicator stays up until Astra actually starts answering
+      let hasStartedStreaming = false;
+      const handlePartialText = (partialText: string) => {
+        if (!hasStartedStreaming) {
+          hasStartedStreaming = true;
+          setIsStreaming(true);
+          setMessages(prev => [...prev, { ...astraMessage, text: partialText }]);
+          return;
+        }
+        setMessages(prev => prev.map(msg =>
+          msg.id === astraMessage.id ? { ...msg, text: partialText } : msg
+        ));
+      };
+
+      // Attachments of a regenerated or edited prompt are read back from storage
+      const requestAttachments = await Promise.all(attachments.map(loadAttachment));
+
+      const astraResponse = await astraProvider.send(
+        {
+          message: messageToSend,
+          mode: 'private',
+          user: { id: userId, email: userEmail, name: userName },
+          conversationId,
+          history: conversationContext.history,
+          summary: conversationContext.summary,
+          parentMessageId,
+          replyToMessage: parentMessage?.message || replyState.messageSnippet || null,
+          attachments: requestAttachments
+        },
+        {
+          signal: abortController.signal,
+          onText: handlePartialText,
+          onRetry: (attempt) => setRetryAttempt(attempt)
+        }
+      );
+      const requestEndTime = Date.now();
+      const responseTimeMs = requestEndTime - requestStartTime;
+
+      const messageText = astraResponse.text;
+      const tokensUsed = astraResponse.tokensUsed;
+      const metadata: Record<string, unknown> = {
+        ...astraResponse.metadata,
+        model_used: astraResponse.modelUsed,
+        sources: astraResponse.sources,
+        tools_used: astraResponse.toolsUsed
+      };
+
+      console.log('✅ Received Astra response:', {
+        messageText: messageText.substring(0, 100) + '...',
+        streamed: astraResponse.streamed
+      });
+
+      // Replace the partial bubble (or add it, for non-streaming responses) with the final text
+      const finalAstraMessage: Message = {
+        ...astraMessage,
+        text: messageText,
+        isStreaming: false,
+        metadata: { ...metadata, total_processing_time: responseTimeMs }
+      };
+      setMessages(prev => hasStartedStreaming
+        ? prev.map(msg => msg.id === astraMessage.id ? finalAstraMessage : msg)
+        : [...prev, finalAstraMessage]
+      );
+      setIsStreaming(false);
 
       console.log('✅ Added Astra message to UI, current message count:', messages.length + 1);
 
+      // Follow-up suggestions come from the workflow when it sends them. Otherwise they're
+      // generated in the background and patched onto the answer once it has been saved.
+      const showFollowUps = (followUps: string[]) => setMessages(prev => prev.map(msg =>
+        msg.id === astraMessage.id ? { ...msg, metadata: { ...msg.metadata, follow_ups: followUps } } : msg
+      ));
+      let generatedFollowUps: Promise<string[]> | null = null;
+      if (astraResponse.followUps.length > 0) {
+        metadata.follow_ups = astraResponse.followUps;
+        showFollowUps(astraResponse.followUps);
+      } else {
+        generatedFollowUps = generateFollowUps(messageToSend, messageText);
+        generatedFollowUps.then(showFollowUps);
+      }
+
       // Log the chat message to database
       try {
-        // Log user message
-        const userChatId = await logChatMessage(
-          text.trim(), // Log original text, not formatted version
+        // Log user message (a regenerated answer reuses the stored prompt)
+        const userChatId = branch?.existingUserMessageId || await logChatMessage(
+          messageToSend,
           true, // isUser
-          currentConversationId || undefined,
+          conversationId,
           0, // No response time for user messages
           {},
           undefined,
-          { 
-            request_time: requestStartTime,
-            is_reply: isReplyMessage,
-            reply_to_id: isReplyMessage ? replyState.messageId : undefined
-          },
+          { request_time: requestStartTime, ...(attachments.length > 0 ? { attachments: attachments.map(toStoredAttachment) } : {}) },
           false, // visualization
           'private', // mode
           [], // mentions
-          text.trim(), // astraPrompt (original user question, without @reply formatting)
-          undefined // visualizationData
+          messageToSend, // astraPrompt (original user question)
+          undefined, // visualizationData
+          parentMessageId, // parentMessageId (message being replied to)
+          previousMessageId // previousMessageId (message this turn follows)
         );
         
         console.log('✅ Logged user message to database:', userChatId);
@@ -332,10 +444,10 @@ export const useChat = () => {
         const chatId = await logChatMessage(
           messageText,
           false, // isUser (Astra response)
-          currentConversationId || undefined,
+          conversationId,
           responseTimeMs,
           tokensUsed,
-          metadata.model_used || 'n8n-workflow',
+          astraResponse.modelUsed,
           {
             ...metadata,
             request_time: requestStartTime,
@@ -345,11 +457,31 @@ export const useChat = () => {
           false, // visualization
           'private', // mode
           [], // mentions
-          text.trim(), // astraPrompt (original user question)
-          undefined // visualizationData
+          messageToSend, // astraPrompt (original user question)
+          undefined, // visualizationData
+          null, // parentMessageId
+          userChatId // previousMessageId
         );
         
         console.log('✅ Logged Astra response to database:', chatId);
+
+        if (generatedFollowUps && chatId) {
+          generatedFollowUps.then(followUps => updateMessageMetadata(chatId, { follow_ups: followUps }));
+        }
+
+        // Title new conversations (and edited first prompts) from the first exchange
+        if (previousMessageId === null && !branch?.existingUserMessageId && chatId) {
+          autoTitleConversation(conversationId, messageToSend, messageText);
+        }
+
+        // Persist the new branch as the selected one
+        if (branch) {
+          if (branch.existingUserMessageId && chatId) {
+            await selectBranch(chatId, branch.existingUserMessageId);
+          } else if (userChatId) {
+            await selectBranch(userChatId, branch.previousMessageId);
+          }
+        }
         
         // Refresh messages to ensure UI is updated with database changes
         await refreshMessages();
@@ -368,30 +500,114 @@ export const useChat = () => {
         // Don't block the UI if logging fails
       }
     } catch (error) {
-      console.error('Error sending message:', error);
-      
-      let errorMessage = "I'm sorry, I'm having trouble connecting right now. Please try again in a moment.";
-      
-      if (error instanceof Error) {
-        if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
-          errorMessage = "Network connection error. Please check your internet connection and try again.";
-        } else if (error.message.includes('Webhook request failed')) {
-          errorMessage = `Server error: ${error.message}. Please contact support if this persists.`;
-        }
+      if (error instanceof AstraRequestError && error.kind === 'aborted') {
+        console.log('⏹️ Response stopped by user');
+      } else {
+        console.error('Error sending message:', error);
       }
-      
-      const errorMessageObj: Message = {
-        id: `${messageId}-error`,
-        text: errorMessage,
-        isUser: false,
-        timestamp: new Date(),
-        messageType: 'system'
-      };
-      setMessages(prev => [...prev, errorMessageObj]);
+
+      // Keep the prompt on screen with a retry affordance instead of an error bubble.
+      // A regenerated prompt is already on screen under its database id.
+      const failedMessageId = branch?.existingUserMessageId
+        ? `${branch.existingUserMessageId}-user`
+        : userMessage.id;
+      failedRequestsRef.current[failedMessageId] = { text: messageToSend, branch, parentMessageId, attachments };
+
+      const sendError = getSendErrorText(error);
+      // Drop any partially streamed answer so it isn't mistaken for a complete one
+      setMessages(prev => prev
+        .filter(msg => msg.id !== `${messageId}-astra`)
+        .map(msg => msg.id === failedMessageId ? { ...msg, sendError } : msg)
+      );
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
+      setIsStreaming(false);
+      setRetryAttempt(0);
     }
-  }, [isLoading, logChatMessage, currentConversationId, updateVisualizationStatus, user, userProfile, replyState]);
+  }, [isLoading, logChatMessage, selectBranch, autoTitleConversation, updateMessageMetadata, getHistorySummary, saveHistorySummary, currentConversationId, currentMessages, updateVisualizationStatus, user, userProfile, replyState]);
+
+  // Abort the in-flight request; the prompt is kept with a retry affordance
+  const stopResponse = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Send a failed or stopped message again
+  const retryMessage = useCallback((messageId: string) => {
+    const failedRequest = failedRequestsRef.current[messageId];
+    if (!failedRequest || isLoading) return;
+
+    delete failedRequestsRef.current[messageId];
+    console.log('🔁 Retrying message:', messageId);
+
+    // The retried send adds the prompt again; a regenerated prompt stays where it is
+    setMessages(prev => failedRequest.branch?.existingUserMessageId
+      ? prev.map(msg => msg.id === messageId ? { ...msg, sendError: undefined } : msg)
+      : prev.filter(msg => msg.id !== messageId)
+    );
+    sendMessage(failedRequest.text, {
+      branch: failedRequest.branch,
+      replyToMessageId: failedRequest.parentMessageId,
+      attachments: failedRequest.attachments
+    });
+  }, [isLoading, sendMessage]);
+
+  // Don't leave a request running after the chat unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Ask Astra to answer the same prompt again as a sibling branch
+  const regenerateResponse = useCallback((astraChatId: string) => {
+    const astraMessage = currentMessages.find(m => m.id === astraChatId);
+    const promptMessage = currentMessages.find(m => m.id === astraMessage?.previousMessageId);
+    if (!promptMessage || !promptMessage.isUser) {
+      console.error('❌ Cannot regenerate: prompt for message not found', astraChatId);
+      return;
+    }
+
+    console.log('🔁 Regenerating response for prompt:', promptMessage.id);
+    sendMessage(promptMessage.message, {
+      branch: {
+        previousMessageId: promptMessage.previousMessageId || null,
+        existingUserMessageId: promptMessage.id,
+        parentMessageId: promptMessage.parentMessageId
+      },
+      attachments: getMessageAttachments(promptMessage.metadata)
+    });
+  }, [currentMessages, sendMessage]);
+
+  // Send an edited prompt as a sibling of the original
+  const editMessage = useCallback((userChatId: string, newText: string) => {
+    const originalMessage = currentMessages.find(m => m.id === userChatId);
+    if (!originalMessage || !newText.trim()) return;
+
+    console.log('✏️ Editing prompt:', userChatId);
+    // The edited prompt keeps the original's attachments
+    sendMessage(newText, {
+      branch: {
+        previousMessageId: originalMessage.previousMessageId || null,
+        parentMessageId: originalMessage.parentMessageId
+      },
+      attachments: getMessageAttachments(originalMessage.metadata)
+    });
+  }, [currentMessages, sendMessage]);
+
+  // Move to the previous/next sibling branch of a message
+  const switchBranch = useCallback((chatId: string, direction: -1 | 1) => {
+    if (isLoading) return;
+
+    const branchInfo = getBranchInfo(conversationMessages, chatId);
+    if (!branchInfo) return;
+
+    const targetId = branchInfo.siblingIds[branchInfo.index + direction];
+    const message = conversationMessages.find(m => m.id === chatId);
+    if (!targetId || !message) return;
+
+    selectBranch(targetId, message.previousMessageId || null);
+  }, [isLoading, conversationMessages, selectBranch]);
 
   // Load the most recent conversation when component mounts or when returning to private chat
   useEffect(() => {
@@ -419,7 +635,10 @@ export const useChat = () => {
     if (user && hasInitialized && !currentConversationId) {
       // If there are existing conversations, load the most recent one
       if (conversations.length > 0) {
-        const mostRecentConversation = conversations[0];
+        // Pinned conversations are listed first, so pick by activity rather than position
+        const mostRecentConversation = conversations.reduce((latest, conv) =>
+          (conv.lastActivity || conv.createdAt) > (latest.lastActivity || latest.createdAt) ? conv : latest
+        );
         console.log('useChat: Loading most recent conversation:', mostRecentConversation.id);
         loadConversation(mostRecentConversation.id);
       }
@@ -483,9 +702,13 @@ export const useChat = () => {
   return {
     messages,
     isLoading,
+    isStreaming,
+    retryAttempt,
     inputValue,
     setInputValue,
     sendMessage,
+    stopResponse,
+    retryMessage,
     toggleMessageExpansion,
     messagesEndRef,
     setMessages,
@@ -498,6 +721,9 @@ export const useChat = () => {
     updateVisualizationData,
     replyState,
     startReply,
-    cancelReply
+    cancelReply,
+    regenerateResponse,
+    editMessage,
+    switchBranch
   };
 };
\ No newline at end of file
@@ -1,10 +1,16 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { supabase, Database } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { buildActivePath } from '../lib/conversationBranches';
+import { generateConversationTitle } from '../lib/conversationTitle';
+import { SummaryCacheEntry } from '../lib/conversationContext';
 import { v4 as uuidv4 } from 'uuid';
 
-type ChatRow = Database['public']['Tables']['astra_chats']['Row'];
 type ChatInsert = Database['public']['Tables']['astra_chats']['Insert'];
+type ConversationSettingsInsert = Database['public']['Tables']['astra_conversations']['Insert'];
+type ConversationSummaryRow = Database['public']['Functions']['get_astra_conversations']['Returns'][number];
+
+export const CONVERSATIONS_PAGE_SIZE = 30;
 
 export interface Conversation {
   id: string;
@@ -13,8 +19,41 @@ export interface Conversation {
   createdAt: string;
   messageCount: number;
   lastActivity?: string; // Track most recent message time for sorting
+  hasCustomTitle: boolean;
+  isPinned: boolean;
+  isArchived: boolean;
+  folder: string | null;
+  tags: string[];
+}
+
+export interface ConversationSettingsUpdate {
+  title?: string;
+  isPinned?: boolean;
+  isArchived?: boolean;
+  folder?: string | null;
+  tags?: string[];
 }
 
+export interface ConversationFilters {
+  archived: boolean;
+  folder: string | null;
+  search: string;
+}
+
+const toConversation = (row: ConversationSummaryRow): Conversation => ({
+  id: row.conversation_id,
+  title: row.title,
+  lastMessage: row.last_message,
+  createdAt: row.created_at,
+  messageCount: row.message_count,
+  lastActivity: row.last_activity,
+  hasCustomTitle: row.has_custom_title,
+  isPinned: row.is_pinned,
+  isArchived: row.is_archived,
+  folder: row.folder,
+  tags: row.tags || [],
+});
+
 export interface ChatMessage {
   id: string;
   message: string;
@@ -23,13 +62,28 @@ export interface ChatMessage {
   visualization?: boolean;
   visualizationData?: string;
   metadata?: any;
+  parentMessageId?: string | null;
+  previousMessageId?: string | null;
+  isActiveBranch?: boolean;
 }
 
 export const useChats = () => {
   const { user } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationFilters, setConversationFilters] = useState<ConversationFilters>({
+    archived: false,
+    folder: null,
+    search: ''
+  });
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
+  const [loadingMoreConversations, setLoadingMoreConversations] = useState(false);
+  const [folders, setFolders] = useState<string[]>([]);
+  // Refreshes reload every page the user has scrolled through so far
+  const loadedCountRef = useRef(0);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
-  const [currentMessages, setCurrentMessages] = useState<ChatMessage[]>([]);
+  // Every message of the open conversation, across all branches
+  const [conversationMessages, setConversationMessages] = useState<ChatMessage[]>([]);
+  const currentMessages = useMemo(() => buildActivePath(conversationMessages), [conversationMessages]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [userProfile, setUserProfile] = useState<{ name: string | null } | null>(null);
@@ -65,19 +119,41 @@ export const useChats = () => {
     }
   }, [user, fetchUserProfile]);
 
-  // Fetch user's conversations
+  // Fetch folder names for the sidebar filter
+  const fetchFolders = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('astra_conversations')
+      .select('folder')
+      .eq('user_id', user.id)
+      .not('folder', 'is', null);
+
+    if (error) {
+      console.error('Error fetching conversation folders:', error);
+      return;
+    }
+
+    setFolders(
+      Array.from(new Set((data || []).map(row => row.folder).filter((folder): folder is string => !!folder)))
+        .sort((a, b) => a.localeCompare(b))
+    );
+  }, [user]);
+
+  // Fetch the user's conversations (one row per conversation, aggregated in Postgres)
   const fetchConversations = useCallback(async () => {
     if (!user) return;
 
     try {
       setLoading(true);
-      
-      const { data, error } = await supabase
-        .from('astra_chats')
-        .select('conversation_id, message, message_type, created_at')
-        .eq('user_id', user.id)
-        .eq('mode', 'private')
-        .order('created_at', { ascending: false });
+
+      const limit = Math.max(CONVERSATIONS_PAGE_SIZE, loadedCountRef.current);
+      const { data, error } = await supabase.rpc('get_astra_conversations', {
+        p_limit: limit,
+        p_archived: conversationFilters.archived,
+        p_folder: conversationFilters.folder,
+        p_search: conversationFilters.search.trim() || null
+      });
 
       if (error) {
         console.error('Error fetching conversations:', error);
@@ -85,72 +161,76 @@ export const useChats = () => {
         return;
       }
 
-      // Group messages by conversation_id
-      const conversationMap = new Map<string, {
-        messages: ChatRow[];
-        firstMessage: ChatRow;
-        lastMessage: ChatRow;
-      }>();
-
-      data.forEach((chat) => {
-        const convId = chat.conversation_id || 'default';
-        if (!conversationMap.has(convId)) {
-          conversationMap.set(convId, {
-            messages: [],
-            firstMessage: chat,
-            lastMessage: chat,
-          });
-        }
-        const conv = conversationMap.get(convId)!;
-        conv.messages.push(chat);
-        
-        // Update first and last messages
-        if (new Date(chat.created_at) < new Date(conv.firstMessage.created_at)) {
-          conv.firstMessage = chat;
-        }
-        if (new Date(chat.created_at) > new Date(conv.lastMessage.created_at)) {
-          conv.lastMessage = chat;
-        }
-      });
-
-      // Convert to conversation list
-      const conversationList: Conversation[] = Array.from(conversationMap.entries()).map(
-        ([id, { messages, firstMessage, lastMessage }]) => ({
-          id,
-          title: firstMessage.message.length > 50
-            ? firstMessage.message.substring(0, 50) + '...'
-            : firstMessage.message,
-          lastMessage: lastMessage.message.length > 100
-            ? lastMessage.message.substring(0, 100) + '...'
-            : lastMessage.message,
-          createdAt: firstMessage.created_at,
-          messageCount: messages.length,
-          lastActivity: lastMessage.created_at, // Track most recent activity
-        })
-      );
-
-      // Sort by most recent activity (lastMessage time), not creation date
-      conversationList.sort((a, b) => {
-        const aTime = new Date(a.lastActivity || a.createdAt).getTime();
-        const bTime = new Date(b.lastActivity || b.createdAt).getTime();
-        return bTime - aTime; // Most recent first
-      });
+      const conversationList = ((data || []) as ConversationSummaryRow[]).map(toConversation);
+      loadedCountRef.current = conversationList.length;
 
       console.log('📋 fetchConversations: Found', conversationList.length, 'conversations');
       setConversations(conversationList);
+      setHasMoreConversations(conversationList.length === limit);
+      fetchFolders();
     } catch (err) {
       console.error('Error in fetchConversations:', err);
       setError('Failed to load conversations');
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, conversationFilters, fetchFolders]);
+
+  // Load the next page, continuing after the last conversation already loaded
+  const fetchMoreConversations = useCallback(async () => {
+    if (!user || !hasMoreConversations || loadingMoreConversations) return;
+
+    const lastConversation = conversations[conversations.length - 1];
+    if (!lastConversation) return;
+
+    try {
+      setLoadingMoreConversations(true);
+
+      const { data, error } = await supabase.rpc('get_astra_conversations', {
+        p_limit: CONVERSATIONS_PAGE_SIZE,
+        p_cursor_pinned: lastConversation.isPinned,
+        p_cursor_activity: lastConversation.lastActivity || lastConversation.createdAt,
+        p_cursor_id: lastConversation.id,
+        p_archived: conversationFilters.archived,
+        p_folder: conversationFilters.folder,
+        p_search: conversationFilters.search.trim() || null
+      });
+
+      if (error) {
+        console.error('Error fetching more conversations:', error);
+        setError('Failed to load conversations');
+        return;
+      }
+
+      const page = ((data || []) as ConversationSummaryRow[]).map(toConversation);
+      console.log('📋 fetchMoreConversations: Loaded', page.length, 'more conversations');
+
+      setConversations(prev => {
+        const loadedIds = new Set(prev.map(conv => conv.id));
+        const merged = [...prev, ...page.filter(conv => !loadedIds.has(conv.id))];
+        loadedCountRef.current = merged.length;
+        return merged;
+      });
+      setHasMoreConversations(page.length === CONVERSATIONS_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error in fetchMoreConversations:', err);
+      setError('Failed to load conversations');
+    } finally {
+      setLoadingMoreConversations(false);
+    }
+  }, [user, conversations, conversationFilters, hasMoreConversations, loadingMoreConversations]);
+
+  // Changing filters starts again from the first page
+  const updateConversationFilters = useCallback((updates: Partial<ConversationFilters>) => {
+    loadedCountRef.current = 0;
+    setConversationFilters(prev => ({ ...prev, ...updates }));
+  }, []);
 
   // Generate a new conversation ID
   const createNewConversation = useCallback(() => {
     const newConversationId = uuidv4();
     setCurrentConversationId(newConversationId);
-    setCurrentMessages([]);
+    setConversationMessages([]);
     return newConversationId;
   }, []);
 
@@ -167,7 +247,12 @@ export const useChats = () => {
     mode?: 'private' | 'team' | 'reports',
     mentions?: string[],
     astraPrompt?: string,
-    visualizationData?: string
+    visualizationData?: string,
+    parentMessageId?: string | null,
+    previousMessageId?: string | null,
+    channelId?: string | null,
+    threadRootId?: string | null,
+    alsoSendToChannel?: boolean
   ): Promise<string | null> => {
     if (!user) return null;
 
@@ -211,7 +296,13 @@ export const useChats = () => {
         mode: mode || 'private',
         mentions: mentions || [],
         astra_prompt: astraPrompt,
-        visualization_data: visualizationData
+        visualization_data: visualizationData,
+        parent_message_id: parentMessageId || null,
+        previous_message_id: previousMessageId || null,
+        is_active_branch: true,
+        channel_id: channelId || null,
+        thread_root_id: threadRootId || null,
+        also_sent_to_channel: alsoSendToChannel || false
       };
 
       const { data, error } = await supabase
@@ -232,8 +323,22 @@ export const useChats = () => {
         message: data.message,
         isUser: data.message_type === 'user',
         createdAt: data.created_at,
+        // Same fields as loadConversation so the rebuilt UI keeps citations, follow-ups and attachments
+        visualization: data.visualization || false,
+        visualizationData: data.visualization_data,
+        metadata: data.metadata || {},
+        parentMessageId: data.parent_message_id,
+        previousMessageId: data.previous_message_id,
+        isActiveBranch: true,
       };
-      setCurrentMessages(prev => [...prev, newMessage]);
+      // A new message becomes the selected branch among its siblings
+      setConversationMessages(prev => [
+        ...prev.map(m => (m.previousMessageId || null) === (newMessage.previousMessageId || null)
+          ? { ...m, isActiveBranch: false }
+          : m
+        ),
+        newMessage
+      ]);
 
       // Trigger immediate refresh for conversations list
       // The real-time subscription will update all instances
@@ -260,12 +365,12 @@ export const useChats = () => {
       setLoading(true);
       
       // Clear current messages first to show loading state
-      setCurrentMessages([]);
+      setConversationMessages([]);
       setCurrentConversationId(conversationId);
       
       const { data, error } = await supabase
         .from('astra_chats')
-        .select('id, message, message_type, created_at, visualization, visualization_data, metadata')
+        .select('id, message, message_type, created_at, visualization, visualization_data, metadata, parent_message_id, previous_message_id, is_active_branch')
         .eq('user_id', user.id)
         .eq('conversation_id', conversationId)
         .eq('mode', 'private')
@@ -285,9 +390,12 @@ export const useChats = () => {
         visualization: chat.visualization || false,
         visualizationData: chat.visualization_data,
         metadata: chat.metadata || {},
+        parentMessageId: chat.parent_message_id,
+        previousMessageId: chat.previous_message_id,
+        isActiveBranch: chat.is_active_branch,
       }));
 
-      setCurrentMessages(messages);
+      setConversationMessages(messages);
 
       setLoading(false);
     } catch (err) {
@@ -314,6 +422,16 @@ export const useChats = () => {
         return;
       }
 
+      const { error: settingsError } = await supabase
+        .from('astra_conversations')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('conversation_id', conversationId);
+
+      if (settingsError) {
+        console.error('Error deleting conversation settings:', settingsError);
+      }
+
       // If we deleted the current conversation, start a new one
       if (conversationId === currentConversationId) {
         createNewConversation();
@@ -332,9 +450,207 @@ export const useChats = () => {
     const newConversationId = uuidv4();
     console.log('🆕 startNewConversation: Creating new conversation with ID:', newConversationId);
     setCurrentConversationId(newConversationId);
-    setCurrentMessages([]);
+    setConversationMessages([]);
     return newConversationId;
   }, []);
+  // Save title / pin / archive / folder / tag changes for a conversation
+  const updateConversationSettings = useCallback(async (
+    conversationId: string,
+    updates: ConversationSettingsUpdate
+  ) => {
+    if (!user) return;
+
+    const settings: ConversationSettingsInsert = {
+      conversation_id: conversationId,
+      user_id: user.id
+    };
+    if (updates.title !== undefined) {
+      settings.title = updates.title.trim() || null;
+      settings.is_title_custom = !!updates.title.trim();
+    }
+    if (updates.isPinned !== undefined) settings.is_pinned = updates.isPinned;
+    if (updates.isArchived !== undefined) settings.is_archived = updates.isArchived;
+    if (updates.folder !== undefined) settings.folder = updates.folder?.trim() || null;
+    if (updates.tags !== undefined) {
+      settings.tags = Array.from(new Set(updates.tags.map(tag => tag.trim()).filter(Boolean)));
+    }
+
+    // Update the list immediately; the upsert below persists it
+    setConversations(prev => prev.map(conv => {
+      if (conv.id !== conversationId) return conv;
+      return {
+        ...conv,
+        ...(settings.title !== undefined && settings.title !== null ? { title: settings.title } : {}),
+        ...(settings.is_title_custom !== undefined ? { hasCustomTitle: settings.is_title_custom } : {}),
+        ...(settings.is_pinned !== undefined ? { isPinned: settings.is_pinned } : {}),
+        ...(settings.is_archived !== undefined ? { isArchived: settings.is_archived } : {}),
+        ...(settings.folder !== undefined ? { folder: settings.folder } : {}),
+        ...(settings.tags !== undefined ? { tags: settings.tags } : {}),
+      };
+    }));
+
+    try {
+      const { error } = await supabase
+        .from('astra_conversations')
+        .upsert(settings, { onConflict: 'conversation_id' });
+
+      if (error) {
+        console.error('Error updating conversation settings:', error);
+        setError('Failed to update conversation');
+        fetchConversations();
+        return;
+      }
+
+      console.log('✅ Updated conversation settings:', conversationId, updates);
+      // Pins reorder the list and archiving moves conversations out of the current view
+      fetchConversations();
+    } catch (err) {
+      console.error('Error in updateConversationSettings:', err);
+      setError('Failed to update conversation');
+    }
+  }, [user, fetchConversations]);
+
+  // Title a conversation from its first exchange, unless the user has renamed it
+  const autoTitleConversation = useCallback(async (
+    conversationId: string,
+    question: string,
+    answer: string
+  ) => {
+    if (!user) return;
+
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('astra_conversations')
+        .select('is_title_custom')
+        .eq('conversation_id', conversationId)
+        .maybeSingle();
+
+      if (existingError) {
+        console.error('Error checking conversation title:', existingError);
+        return;
+      }
+
+      if (existing?.is_title_custom) return;
+
+      const title = await generateConversationTitle(question, answer);
+      const { error } = await supabase
+        .from('astra_conversations')
+        .upsert({
+          conversation_id: conversationId,
+          user_id: user.id,
+          title,
+          is_title_custom: false
+        }, { onConflict: 'conversation_id' });
+
+      if (error) {
+        console.error('Error saving conversation title:', error);
+        return;
+      }
+
+      console.log('🏷️ Auto-titled conversation:', conversationId, title);
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversationId && !conv.hasCustomTitle ? { ...conv, title } : conv
+      ));
+    } catch (err) {
+      console.error('Error in autoTitleConversation:', err);
+    }
+  }, [user]);
+
+  // Summary of the turns that no longer fit in the history window, stored per conversation
+  const getHistorySummary = useCallback(async (conversationId: string): Promise<SummaryCacheEntry | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('astra_conversations')
+        .select('history_summary, history_summary_count, history_summary_message_id')
+        .eq('conversation_id', conversationId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading history summary:', error);
+        return null;
+      }
+
+      if (!data?.history_summary) return null;
+
+      return {
+        summary: data.history_summary,
+        summarizedCount: data.history_summary_count,
+        throughMessageId: data.history_summary_message_id
+      };
+    } catch (err) {
+      console.error('Error in getHistorySummary:', err);
+      return null;
+    }
+  }, [user]);
+
+  const saveHistorySummary = useCallback(async (conversationId: string, entry: SummaryCacheEntry) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('astra_conversations')
+        .upsert({
+          conversation_id: conversationId,
+          user_id: user.id,
+          history_summary: entry.summary,
+          history_summary_count: entry.summarizedCount,
+          history_summary_message_id: entry.throughMessageId || null
+        }, { onConflict: 'conversation_id' });
+
+      if (error) {
+        console.error('Error saving history summary:', error);
+      }
+    } catch (err) {
+      console.error('Error in saveHistorySummary:', err);
+    }
+  }, [user]);
+
+  // Select one sibling branch and persist the choice so loadConversation restores it
+  const selectBranch = useCallback(async (messageId: string, previousMessageId: string | null) => {
+    if (!user || !currentConversationId) return;
+
+    setConversationMessages(prev => prev.map(m =>
+      (m.previousMessageId || null) === previousMessageId
+        ? { ...m, isActiveBranch: m.id === messageId }
+        : m
+    ));
+
+    try {
+      let deselectQuery = supabase
+        .from('astra_chats')
+        .update({ is_active_branch: false })
+        .eq('user_id', user.id)
+        .eq('conversation_id', currentConversationId)
+        .neq('id', messageId);
+      deselectQuery = previousMessageId
+        ? deselectQuery.eq('previous_message_id', previousMessageId)
+        : deselectQuery.is('previous_message_id', null);
+
+      const { error: deselectError } = await deselectQuery;
+      if (deselectError) {
+        console.error('Error updating branch selection:', deselectError);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('astra_chats')
+        .update({ is_active_branch: true })
+        .eq('id', messageId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error updating branch selection:', error);
+        return;
+      }
+
+      console.log('🌿 Selected branch:', messageId);
+    } catch (err) {
+      console.error('Error in selectBranch:', err);
+    }
+  }, [user, currentConversationId]);
+
   // Update visualization status for a chat message
   const updateVisualizationStatus = useCallback(async (messageId: string, hasVisualization: boolean) => {
     if (!user) return;
@@ -357,6 +673,42 @@ export const useChats = () => {
     }
   }, [user]);
 
+  // Merge keys into a stored message's metadata, e.g. follow-ups generated after it was saved
+  const updateMessageMetadata = useCallback(async (messageId: string, patch: Record<string, unknown>) => {
+    if (!user) return;
+
+    try {
+      const { data: existingMessage, error: fetchError } = await supabase
+        .from('astra_chats')
+        .select('metadata')
+        .eq('id', messageId)
+        .maybeSingle();
+
+      if (fetchError) {
+        console.error('Error fetching message metadata:', fetchError);
+        return;
+      }
+
+      const metadata = { ...(existingMessage?.metadata || {}), ...patch };
+      const { error } = await supabase
+        .from('astra_chats')
+        .update({ metadata })
+        .eq('id', messageId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error updating message metadata:', error);
+        return;
+      }
+
+      setConversationMessages(prev => prev.map(m =>
+        m.id === messageId ? { ...m, metadata: { ...(m.metadata || {}), ...patch } } : m
+      ));
+    } catch (err) {
+      console.error('Error in updateMessageMetadata:', err);
+    }
+  }, [user]);
+
   // Get visualization state for a message
   const getVisualizationState = useCallback((messageId: string) => {
     // First check if we have it in local state
@@ -474,6 +826,19 @@ export const useChats = () => {
           fetchConversations();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'astra_conversations',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          console.log('📡 Conversation settings update received:', payload.eventType);
+          fetchConversations();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -484,8 +849,15 @@ export const useChats = () => {
 
   return {
     conversations,
+    hasMoreConversations,
+    loadingMoreConversations,
+    fetchMoreConversations,
+    conversationFilters,
+    updateConversationFilters,
+    folders,
     currentConversationId,
     currentMessages,
+    conversationMessages,
     loading,
     error,
     logChatMessage,
@@ -495,9 +867,15 @@ export const useChats = () => {
     createNewConversation,
     startNewConversation,
     updateVisualizationStatus,
+    updateMessageMetadata,
     getVisualizationState,
     updateVisualizationState,
     updateVisualizationData,
+    selectBranch,
+    updateConversationSettings,
+    autoTitleConversation,
+    getHistorySummary,
+    saveHistorySummary,
     setError,
     hasInitialized,
   };
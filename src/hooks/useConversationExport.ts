@@ -0,0 +1,181 @@
+import { useState, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getFallbackTitle } from '../lib/conversationTitle';
+import {
+  ConversationExport,
+  ExportFormat,
+  buildConversationExport,
+  downloadFile,
+  getExportFileName,
+  parseConversationExport,
+  toJson,
+  toMarkdown,
+  toPrintableHtml
+} from '../lib/conversationExport';
+
+type ChatInsert = Database['public']['Tables']['astra_chats']['Insert'];
+
+export const useConversationExport = () => {
+  const { user } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load every message of a conversation (all branches) plus its settings
+  const loadConversationExport = useCallback(async (conversationId: string): Promise<ConversationExport | null> => {
+    if (!user) return null;
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('astra_chats')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('conversation_id', conversationId)
+      .eq('mode', 'private')
+      .order('created_at', { ascending: true });
+
+    if (rowsError) {
+      console.error('Error loading conversation for export:', rowsError);
+      setError('Failed to load conversation');
+      return null;
+    }
+
+    if (!rows || rows.length === 0) {
+      setError('This conversation has no messages to export');
+      return null;
+    }
+
+    const { data: settings } = await supabase
+      .from('astra_conversations')
+      .select('title, folder, tags')
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    return buildConversationExport({
+      id: conversationId,
+      title: settings?.title || getFallbackTitle(rows[0].message),
+      folder: settings?.folder || null,
+      tags: settings?.tags || []
+    }, rows);
+  }, [user]);
+
+  const exportConversation = useCallback(async (conversationId: string, format: ExportFormat) => {
+    try {
+      setExporting(true);
+      setError(null);
+
+      const data = await loadConversationExport(conversationId);
+      if (!data) return;
+
+      console.log('📤 Exporting conversation:', conversationId, format, data.messages.length, 'messages');
+
+      if (format === 'markdown') {
+        downloadFile(toMarkdown(data), getExportFileName(data.conversation.title, 'md'), 'text/markdown;charset=utf-8');
+      } else if (format === 'json') {
+        downloadFile(toJson(data), getExportFileName(data.conversation.title, 'json'), 'application/json;charset=utf-8');
+      } else {
+        // Open the print-optimized document and let the browser save it as PDF
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+          setError('Allow pop-ups to print or save this conversation as PDF');
+          return;
+        }
+        printWindow.document.open();
+        printWindow.document.write(toPrintableHtml(data));
+        printWindow.document.close();
+        printWindow.focus();
+        // Give embedded visualizations a moment to render before the print dialog opens
+        setTimeout(() => printWindow.print(), 800);
+      }
+    } catch (err) {
+      console.error('Error in exportConversation:', err);
+      setError('Failed to export conversation');
+    } finally {
+      setExporting(false);
+    }
+  }, [loadConversationExport]);
+
+  // Import a JSON export as a new conversation; returns the new conversation id
+  const importConversation = useCallback(async (file: File): Promise<string | null> => {
+    if (!user) return null;
+
+    try {
+      setImporting(true);
+      setError(null);
+
+      const data = parseConversationExport(await file.text());
+      const conversationId = uuidv4();
+
+      // Fresh ids keep the import separate from the original; reply and branch links are remapped
+      const idMap = new Map(data.messages.map(message => [message.id, uuidv4()]));
+      const remap = (id: string | null | undefined) => (id && idMap.get(id)) || null;
+
+      const rows: ChatInsert[] = data.messages.map(message => ({
+        id: idMap.get(message.id),
+        user_id: user.id,
+        user_email: message.user_email || (message.message_type === 'user' ? user.email || '' : 'astra@rockethub.ai'),
+        user_name: message.user_name || (message.message_type === 'user' ? 'User' : 'Astra'),
+        message: message.message,
+        message_type: message.message_type === 'user' ? 'user' : 'astra',
+        conversation_id: conversationId,
+        mode: 'private',
+        created_at: message.created_at,
+        parent_message_id: remap(message.parent_message_id),
+        previous_message_id: remap(message.previous_message_id),
+        is_active_branch: message.is_active_branch !== false,
+        metadata: { ...(message.metadata || {}), imported_from: message.id },
+        tokens_used: message.tokens_used || {},
+        model_used: message.model_used || null,
+        response_time_ms: message.response_time_ms || 0,
+        astra_prompt: message.astra_prompt || null,
+        mentions: message.mentions || [],
+        visualization: !!message.visualization,
+        visualization_data: message.visualization_data || null
+      }));
+
+      const { error: insertError } = await supabase
+        .from('astra_chats')
+        .insert(rows);
+
+      if (insertError) {
+        console.error('Error importing conversation messages:', insertError);
+        setError('Failed to import conversation');
+        return null;
+      }
+
+      const { error: settingsError } = await supabase
+        .from('astra_conversations')
+        .upsert({
+          conversation_id: conversationId,
+          user_id: user.id,
+          title: `${data.conversation?.title || getFallbackTitle(data.messages[0].message)} (imported)`,
+          is_title_custom: true,
+          folder: data.conversation?.folder || null,
+          tags: data.conversation?.tags || []
+        }, { onConflict: 'conversation_id' });
+
+      if (settingsError) {
+        console.error('Error saving imported conversation settings:', settingsError);
+      }
+
+      console.log('📥 Imported conversation:', conversationId, rows.length, 'messages');
+      return conversationId;
+    } catch (err) {
+      console.error('Error in importConversation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import conversation');
+      return null;
+    } finally {
+      setImporting(false);
+    }
+  }, [user]);
+
+  return {
+    exporting,
+    importing,
+    error,
+    setError,
+    exportConversation,
+    importConversation
+  };
+};
@@ -0,0 +1,294 @@
+import { useState, useCallback } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { buildActivePath } from '../lib/conversationBranches';
+import { getFallbackTitle } from '../lib/conversationTitle';
+import { SharedConversationCard, summarizeForTeamChat } from '../lib/conversationShare';
+import { Message } from '../types';
+
+type ShareRow = Database['public']['Tables']['astra_shared_conversations']['Row'];
+type ChatInsert = Database['public']['Tables']['astra_chats']['Insert'];
+type SharedChatRow = Database['public']['Functions']['get_shared_conversation']['Returns'][number];
+
+export interface SharedConversation {
+  shareId: string;
+  conversationId: string;
+  title: string;
+  ownerName: string;
+  sharedAt: string;
+  messages: Message[];
+}
+
+interface ActiveMessage {
+  id: string;
+  message: string;
+  isUser: boolean;
+  createdAt: string;
+  previousMessageId: string | null;
+  isActiveBranch: boolean;
+}
+
+export const useConversationSharing = () => {
+  const { user } = useAuth();
+  const [sharing, setSharing] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The messages of the owner's conversation as they currently see it (selected branches only)
+  const loadActiveMessages = useCallback(async (conversationId: string): Promise<ActiveMessage[]> => {
+    if (!user) return [];
+
+    const { data, error: loadError } = await supabase
+      .from('astra_chats')
+      .select('id, message, message_type, created_at, previous_message_id, is_active_branch')
+      .eq('user_id', user.id)
+      .eq('conversation_id', conversationId)
+      .eq('mode', 'private')
+      .order('created_at', { ascending: true });
+
+    if (loadError) {
+      console.error('Error loading conversation for sharing:', loadError);
+      return [];
+    }
+
+    return buildActivePath((data || []).map(chat => ({
+      id: chat.id,
+      message: chat.message,
+      isUser: chat.message_type === 'user',
+      createdAt: chat.created_at,
+      previousMessageId: chat.previous_message_id,
+      isActiveBranch: chat.is_active_branch
+    })));
+  }, [user]);
+
+  const getShare = useCallback(async (conversationId: string): Promise<ShareRow | null> => {
+    if (!user) return null;
+
+    const { data, error: shareError } = await supabase
+      .from('astra_shared_conversations')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    if (shareError) {
+      console.error('Error loading share:', shareError);
+      return null;
+    }
+
+    return data;
+  }, [user]);
+
+  // Create (or re-activate) the read-only link for a conversation
+  const shareConversation = useCallback(async (conversationId: string): Promise<ShareRow | null> => {
+    if (!user) return null;
+
+    try {
+      setSharing(true);
+      setError(null);
+
+      const [{ data: settings }, messages] = await Promise.all([
+        supabase
+          .from('astra_conversations')
+          .select('title')
+          .eq('conversation_id', conversationId)
+          .maybeSingle(),
+        loadActiveMessages(conversationId)
+      ]);
+
+      if (messages.length === 0) {
+        setError('This conversation has no messages to share');
+        return null;
+      }
+
+      const { data, error: shareError } = await supabase
+        .from('astra_shared_conversations')
+        .upsert({
+          conversation_id: conversationId,
+          user_id: user.id,
+          title: settings?.title || getFallbackTitle(messages[0].message),
+          is_active: true
+        }, { onConflict: 'conversation_id' })
+        .select()
+        .single();
+
+      if (shareError) {
+        console.error('Error sharing conversation:', shareError);
+        setError('Failed to share conversation');
+        return null;
+      }
+
+      console.log('🔗 Shared conversation:', conversationId, 'as', data.id);
+      return data;
+    } catch (err) {
+      console.error('Error in shareConversation:', err);
+      setError('Failed to share conversation');
+      return null;
+    } finally {
+      setSharing(false);
+    }
+  }, [user, loadActiveMessages]);
+
+  // Existing links stop working; sharing again re-activates the same link
+  const stopSharing = useCallback(async (conversationId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      setSharing(true);
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('astra_shared_conversations')
+        .update({ is_active: false })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('Error stopping share:', updateError);
+        setError('Failed to stop sharing');
+        return false;
+      }
+
+      console.log('🔗 Stopped sharing conversation:', conversationId);
+      return true;
+    } catch (err) {
+      console.error('Error in stopSharing:', err);
+      setError('Failed to stop sharing');
+      return false;
+    } finally {
+      setSharing(false);
+    }
+  }, [user]);
+
+  // Post a summarized card to team chat that links back to the shared conversation
+  const postToTeamChat = useCallback(async (conversationId: string, note?: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const share = await shareConversation(conversationId);
+    if (!share) return false;
+
+    try {
+      setPosting(true);
+      setError(null);
+
+      const messages = await loadActiveMessages(conversationId);
+      const summary = await summarizeForTeamChat(share.title, messages);
+
+      const { data: profile } = await supabase
+        .from('users')
+        .select('name')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      const sharedConversation: SharedConversationCard = {
+        share_id: share.id,
+        conversation_id: conversationId,
+        title: share.title,
+        message_count: messages.length
+      };
+
+      const chatData: ChatInsert = {
+        user_id: user.id,
+        user_email: user.email || '',
+        user_name: profile?.name || user.email?.split('@')[0] || 'Unknown User',
+        message: note?.trim() ? `${note.trim()}\n\n${summary}` : summary,
+        message_type: 'user',
+        mode: 'team',
+        mentions: [],
+        metadata: {
+          team_chat: true,
+          message_type: 'user',
+          shared_conversation: sharedConversation
+        }
+      };
+
+      const { error: insertError } = await supabase
+        .from('astra_chats')
+        .insert(chatData);
+
+      if (insertError) {
+        console.error('Error posting conversation to team chat:', insertError);
+        setError('Failed to post to team chat');
+        return false;
+      }
+
+      console.log('📣 Posted shared conversation to team chat:', conversationId);
+      return true;
+    } catch (err) {
+      console.error('Error in postToTeamChat:', err);
+      setError('Failed to post to team chat');
+      return false;
+    } finally {
+      setPosting(false);
+    }
+  }, [user, shareConversation, loadActiveMessages]);
+
+  // Load a conversation someone shared, as read-only messages on its selected branches
+  const loadSharedConversation = useCallback(async (shareId: string): Promise<SharedConversation | null> => {
+    try {
+      setError(null);
+
+      const { data, error: loadError } = await supabase
+        .rpc('get_shared_conversation', { p_share_id: shareId });
+
+      if (loadError) {
+        console.error('Error loading shared conversation:', loadError);
+        setError('Failed to load shared conversation');
+        return null;
+      }
+
+      const rows: SharedChatRow[] = data || [];
+      if (rows.length === 0) {
+        setError('This conversation is no longer shared');
+        return null;
+      }
+
+      const path = buildActivePath(rows.map(row => ({
+        ...row,
+        id: row.message_id,
+        createdAt: row.created_at,
+        previousMessageId: row.previous_message_id,
+        isActiveBranch: row.is_active_branch
+      })));
+      const rowsById = new Map(rows.map(row => [row.message_id, row]));
+
+      return {
+        shareId: rows[0].share_id,
+        conversationId: rows[0].conversation_id,
+        title: rows[0].title,
+        ownerName: rows[0].owner_name,
+        sharedAt: rows[0].shared_at,
+        messages: path.map(row => {
+          const parent = row.parent_message_id ? rowsById.get(row.parent_message_id) : undefined;
+          return {
+            id: row.message_id,
+            chatId: row.message_id,
+            text: row.message,
+            isUser: row.message_type === 'user',
+            timestamp: new Date(row.created_at),
+            visualization_data: row.visualization_data || undefined,
+            hasStoredVisualization: !!row.visualization_data,
+            replyTo: parent
+              ? { messageId: parent.message_id, text: parent.message, isUser: parent.message_type === 'user' }
+              : undefined
+          };
+        })
+      };
+    } catch (err) {
+      console.error('Error in loadSharedConversation:', err);
+      setError('Failed to load shared conversation');
+      return null;
+    }
+  }, []);
+
+  return {
+    sharing,
+    posting,
+    error,
+    setError,
+    getShare,
+    shareConversation,
+    stopSharing,
+    postToTeamChat,
+    loadSharedConversation
+  };
+};
@@ -1,10 +1,25 @@
 import { useState, useCallback, useEffect } from 'react';
-import { FavoriteMessage } from '../types';
-import { supabase } from '../lib/supabase';
+import { FavoriteMessage, FavoriteUpdate } from '../types';
+import { supabase, Database } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 
+type SavedPromptRow = Database['public']['Tables']['astra_saved_prompts']['Row'];
+type SavedPromptUpdate = Database['public']['Tables']['astra_saved_prompts']['Update'];
+
 const FAVORITES_STORAGE_KEY = 'astra-favorite-messages';
 
+// Convert database format to FavoriteMessage format
+const toFavorite = (item: SavedPromptRow): FavoriteMessage => ({
+  id: item.id,
+  text: item.prompt_text,
+  title: item.title || null,
+  folder: item.folder || null,
+  tags: item.tags || [],
+  usageCount: item.usage_count || 0,
+  lastUsedAt: item.last_used_at ? new Date(item.last_used_at) : null,
+  createdAt: new Date(item.created_at)
+});
+
 export const useFavorites = () => {
   const { user } = useAuth();
   const [favorites, setFavorites] = useState<FavoriteMessage[]>([]);
@@ -33,12 +48,7 @@ export const useFavorites = () => {
           return;
         }
 
-        // Convert database format to FavoriteMessage format
-        const dbFavorites: FavoriteMessage[] = (data || []).map((item) => ({
-          id: item.id,
-          text: item.prompt_text,
-          createdAt: new Date(item.created_at)
-        }));
+        const dbFavorites: FavoriteMessage[] = (data || []).map(toFavorite);
 
         setFavorites(dbFavorites);
 
@@ -76,12 +86,7 @@ export const useFavorites = () => {
                 .order('created_at', { ascending: false });
 
               if (migratedData) {
-                const migratedFavorites: FavoriteMessage[] = migratedData.map((item) => ({
-                  id: item.id,
-                  text: item.prompt_text,
-                  createdAt: new Date(item.created_at)
-                }));
-                setFavorites(migratedFavorites);
+                setFavorites(migratedData.map(toFavorite));
               }
             }
           } catch (migrationError) {
@@ -98,6 +103,28 @@ export const useFavorites = () => {
     loadFavorites();
   }, [user]);
 
+  // Re-read saved prompts, e.g. after one was copied in from the team library
+  const reloadFavorites = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('astra_saved_prompts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error reloading favorites:', error);
+        return;
+      }
+
+      setFavorites((data || []).map(toFavorite));
+    } catch (error) {
+      console.error('Error in reloadFavorites:', error);
+    }
+  }, [user]);
+
   // Add a message to favorites
   const addToFavorites = useCallback(async (messageId: string, text: string) => {
     if (!user) {
@@ -121,13 +148,7 @@ export const useFavorites = () => {
       }
 
       // Add to local state
-      const newFavorite: FavoriteMessage = {
-        id: data.id,
-        text: data.prompt_text,
-        createdAt: new Date(data.created_at)
-      };
-
-      setFavorites(prev => [newFavorite, ...prev]);
+      setFavorites(prev => [toFavorite(data), ...prev]);
     } catch (error) {
       console.error('Error in addToFavorites:', error);
     }
@@ -159,6 +180,63 @@ export const useFavorites = () => {
     }
   }, [user]);
 
+  // Edit a saved prompt's text, title, folder or tags
+  const updateFavorite = useCallback(async (favoriteId: string, updates: FavoriteUpdate) => {
+    if (!user) {
+      console.error('Cannot update favorite: user not authenticated');
+      return;
+    }
+
+    const changes: SavedPromptUpdate = {};
+    if (updates.text !== undefined) {
+      if (!updates.text.trim()) return;
+      changes.prompt_text = updates.text.trim();
+    }
+    if (updates.title !== undefined) changes.title = updates.title.trim() || null;
+    if (updates.folder !== undefined) changes.folder = updates.folder?.trim() || null;
+    if (updates.tags !== undefined) {
+      changes.tags = Array.from(new Set(updates.tags.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('astra_saved_prompts')
+        .update(changes)
+        .eq('id', favoriteId)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating favorite:', error);
+        return;
+      }
+
+      setFavorites(prev => prev.map(fav => fav.id === favoriteId ? toFavorite(data) : fav));
+    } catch (error) {
+      console.error('Error in updateFavorite:', error);
+    }
+  }, [user]);
+
+  // Count a use of a saved prompt (inserted into the input or sent)
+  const recordFavoriteUse = useCallback(async (favoriteId: string) => {
+    if (!user) return;
+
+    setFavorites(prev => prev.map(fav =>
+      fav.id === favoriteId ? { ...fav, usageCount: fav.usageCount + 1, lastUsedAt: new Date() } : fav
+    ));
+
+    try {
+      const { error } = await supabase.rpc('record_saved_prompt_use', { p_prompt_id: favoriteId });
+
+      if (error) {
+        console.error('Error recording favorite use:', error);
+      }
+    } catch (error) {
+      console.error('Error in recordFavoriteUse:', error);
+    }
+  }, [user]);
+
   // Check if a message text is already favorited
   const isFavorited = useCallback((text: string) => {
     return favorites.some(fav => fav.text === text);
@@ -180,6 +258,9 @@ export const useFavorites = () => {
     favorites,
     addToFavorites,
     removeFromFavorites,
+    updateFavorite,
+    recordFavoriteUse,
+    reloadFavorites,
     isFavorited,
     toggleFavorite,
     loading
@@ -1,15 +1,16 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { supabase, Database } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useChats } from './useChats';
-import { GroupMessage } from '../types';
+import { GroupMessage, TeamThreadTarget } from '../types';
+import { astraProvider, astraProviderConfigError } from '../lib/astraProvider';
+import { CHANNEL_MESSAGE_FILTER, TEAM_MESSAGE_COLUMNS, TeamChatRow, isThreadOnlyReply, toGroupMessage } from '../lib/teamThreads';
 
 type GroupMessageRow = Database['public']['Tables']['group_messages']['Row'];
 type GroupMessageInsert = Database['public']['Tables']['group_messages']['Insert'];
 
-const WEBHOOK_URL = import.meta.env.VITE_N8N_WEBHOOK_URL;
-
-export const useGroupChat = () => {
+// Messages of one team channel; nothing loads until a channel is chosen
+export const useGroupChat = (channelId: string | null, channelName?: string) => {
   const { user } = useAuth();
   const { logChatMessage } = useChats();
   const [messages, setMessages] = useState<GroupMessage[]>([]);
@@ -18,8 +19,12 @@ export const useGroupChat = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isAstraThinking, setIsAstraThinking] = useState(false);
-  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  // Thread Astra is answering in, or null when the answer goes to the channel
+  const [astraThinkingThreadId, setAstraThinkingThreadId] = useState<string | null>(null);
   const [totalMessageCount, setTotalMessageCount] = useState(0);
+  // Results for a channel the user has already switched away from are dropped
+  const channelIdRef = useRef(channelId);
+  channelIdRef.current = channelId;
 
   // Parse @mentions from message content
   const parseMentions = useCallback((message: string): string[] => {
@@ -62,6 +67,8 @@ export const useGroupChat = () => {
     const scrollContainer = document.querySelector('.chat-messages-container');
     const savedScrollTop = scrollContainer?.scrollTop || 0;
     const savedScrollHeight = scrollContainer?.scrollHeight || 0;
+
+    if (!channelId) return;
     
     try {
       if (!append) {
@@ -76,34 +83,29 @@ export const useGroupChat = () => {
       const { count: totalCount, error: countError } = await supabase
         .from('astra_chats')
         .select('*', { count: 'exact', head: true })
-        .eq('mode', 'team');
+        .eq('mode', 'team')
+        .eq('channel_id', channelId)
+        .or(CHANNEL_MESSAGE_FILTER);
+
+      if (channelIdRef.current !== channelId) return;
 
       if (!countError && totalCount !== null) {
         setTotalMessageCount(totalCount);
         setHasMoreMessages(offset + limit < totalCount);
       }
 
-      // Fetch from astra_chats table where mode = 'team'
+      // Fetch the channel's messages from astra_chats
       const { data, error } = await supabase
         .from('astra_chats')
-        .select(`
-          id,
-          user_id,
-          user_name,
-          user_email,
-          message,
-          message_type,
-          mentions,
-          astra_prompt,
-          visualization_data,
-          metadata,
-          created_at,
-          updated_at
-        `)
+        .select(TEAM_MESSAGE_COLUMNS)
         .eq('mode', 'team')
+        .eq('channel_id', channelId)
+        .or(CHANNEL_MESSAGE_FILTER)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1)
 
+      if (channelIdRef.current !== channelId) return;
+
       if (error) {
         console.error('Error fetching messages:', error);
         setError('Failed to load messages');
@@ -121,20 +123,7 @@ export const useGroupChat = () => {
       })));
 
       // Transform astra_chats data to GroupMessage format
-      const transformedMessages: GroupMessage[] = (data || []).map(chat => ({
-        id: chat.id,
-        user_id: chat.user_id,
-        user_name: chat.user_name,
-        user_email: chat.user_email,
-        message_content: chat.message,
-        message_type: chat.message_type as 'user' | 'astra' | 'system',
-        mentions: chat.mentions || [],
-        astra_prompt: chat.astra_prompt,
-        visualization_data: chat.visualization_data,
-        metadata: chat.metadata || {},
-        created_at: chat.created_at,
-        updated_at: chat.updated_at
-      }));
+      const transformedMessages: GroupMessage[] = (data || []).map(toGroupMessage);
 
       // Since we ordered by descending, reverse to show chronologically
       transformedMessages.reverse();
@@ -193,26 +182,26 @@ export const useGroupChat = () => {
         setLoadingMore(false);
       }
     }
-  }, [messages.length]);
+  }, [channelId, messages.length]);
 
   // Send a group message
   const sendMessage = useCallback(async (
     content: string, 
     imageData?: { url: string; filename: string; size: number },
-    replyTo?: { id: string; content: string; userName: string; timestamp: string }
+    thread?: TeamThreadTarget
   ) => {
     console.log('🚀 useGroupChat: sendMessage called with content:', content);
     console.log('🚀 useGroupChat: imageData:', imageData);
     console.log('🚀 useGroupChat: Current user:', user?.id, user?.email);
-    console.log('🚀 useGroupChat: WEBHOOK_URL exists:', !!WEBHOOK_URL);
-    console.log('🚀 useGroupChat: Reply to:', replyTo);
+    console.log('🚀 useGroupChat: Astra provider:', astraProvider.name);
+    console.log('🚀 useGroupChat: Thread:', thread);
     
-    if (!user || (!content.trim() && !imageData)) return;
+    if (!user || !channelId || (!content.trim() && !imageData)) return;
 
-    // Check if webhook URL is configured
-    if (!WEBHOOK_URL) {
-      console.error('N8N webhook URL not configured');
-      setError('Configuration error: N8N webhook URL not set. Please check your environment variables.');
+    // Check that the Astra provider is configured
+    if (astraProviderConfigError) {
+      console.error('Astra provider not configured:', astraProviderConfigError);
+      setError(`Configuration error: ${astraProviderConfigError}. Please check your environment variables.`);
       return;
     }
 
@@ -223,7 +212,6 @@ export const useGroupChat = () => {
     const isAstraMention = mentions.some(mention => mention.toLowerCase() === 'astra');
     console.log('🚀 useGroupChat: Is Astra mention:', isAstraMention);
 
-    // Prepare metadata for reply
     const messageMetadata: any = { 
       team_chat: true,
       message_type: 'user',
@@ -234,16 +222,6 @@ export const useGroupChat = () => {
       messageMetadata.image = imageData;
     }
 
-    if (replyTo) {
-      messageMetadata.reply_to_message_id = replyTo.id;
-      messageMetadata.reply_to_message = {
-        id: replyTo.id,
-        content: replyTo.content,
-        userName: replyTo.userName,
-        timestamp: replyTo.timestamp
-      };
-    }
-
     try {
       console.log('🚀 useGroupChat: About to log user message...');
       // Log user message to astra_chats
@@ -259,7 +237,12 @@ export const useGroupChat = () => {
         'team', // mode
         mentions, // mentions
         undefined, // astraPrompt
-        undefined // visualizationData
+        undefined, // visualizationData
+        null, // parentMessageId
+        null, // previousMessageId
+        channelId, // channelId
+        thread?.rootId, // threadRootId
+        thread?.alsoSendToChannel // alsoSendToChannel
       );
       
       console.log('✅ Team Chat: User message logged with ID:', userMessageId);
@@ -268,74 +251,55 @@ export const useGroupChat = () => {
       if (isAstraMention) {
         console.log('🤖 useGroupChat: Astra mentioned, setting thinking state...');
         setIsAstraThinking(true);
+        setAstraThinkingThreadId(thread?.rootId || null);
         
         try {
           // Extract the prompt after @astra
           const astraPrompt = content.replace(/@astra\s*/gi, '').trim();
           console.log('🤖 useGroupChat: Extracted Astra prompt:', astraPrompt);
-          console.log('🌐 useGroupChat: About to call webhook...');
-          
-          const response = await fetch(WEBHOOK_URL, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ 
-              chatInput: astraPrompt,
-              user_id: user.id,
-              user_email: user.email || '',
-              user_name: userName,
-              conversation_id: null,
-              mode: 'team',
-              original_message: content.trim(),
-              mentions: mentions
-            })
-          });
+          console.log('🌐 useGroupChat: About to call Astra provider:', astraProvider.name);
 
           const requestStartTime = Date.now();
-          console.log('🌐 useGroupChat: Webhook response status:', response.status);
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('❌ Team Chat: Webhook failed:', response.status, errorText);
-            throw new Error('Failed to get Astra response');
-          }
-
-          const responseText = await response.text();
-          console.log('🌐 useGroupChat: Webhook response text length:', responseText.length);
-          const requestEndTime = Date.now();
-          const responseTimeMs = requestEndTime - requestStartTime;
-          let astraResponse = responseText;
-          
-          // Try to parse JSON response
-          try {
-            const jsonResponse = JSON.parse(responseText);
-            if (jsonResponse.output) {
-              astraResponse = jsonResponse.output;
-            }
-          } catch (e) {
-            // Use raw text if not JSON
-          }
+          const astraResponse = await astraProvider.send({
+            message: astraPrompt,
+            mode: 'team',
+            user: { id: user.id, email: user.email || '', name: userName },
+            conversationId: null,
+            originalMessage: content.trim(),
+            mentions,
+            metadata: { channel_id: channelId, channel_name: channelName }
+          });
+          const responseTimeMs = Date.now() - requestStartTime;
+          console.log('🌐 useGroupChat: Astra response length:', astraResponse.text.length);
           
           console.log('🤖 useGroupChat: About to log Astra response...');
           // Log Astra's response to astra_chats table
           const astraMessageId = await logChatMessage(
-            astraResponse,
+            astraResponse.text,
             false, // isUser (Astra response)
             null, // No conversation ID for team chat
             responseTimeMs, // Response time
-            {}, // Tokens used - could be extracted from response
-            'n8n-workflow', // Model used
+            astraResponse.tokensUsed, // Tokens used
+            astraResponse.modelUsed, // Model used
             { 
+              ...astraResponse.metadata,
               team_chat: true,
               message_type: 'astra',
               asked_by_user_name: userName,
-              original_user_message_id: userMessageId
+              original_user_message_id: userMessageId,
+              sources: astraResponse.sources,
+              tools_used: astraResponse.toolsUsed,
+              follow_ups: astraResponse.followUps
             },
             false, // visualization
             'team', // mode
             [], // mentions (Astra doesn't mention anyone)
             astraPrompt, // astraPrompt
-            undefined // visualizationData
+            undefined, // visualizationData
+            null, // parentMessageId
+            null, // previousMessageId
+            channelId, // channelId (answer in the channel Astra was mentioned in)
+            thread?.rootId // threadRootId (and in the thread, if asked in one)
           );
           
           console.log('✅ Team Chat: Astra response logged with ID:', astraMessageId);
@@ -368,7 +332,7 @@ export const useGroupChat = () => {
             null, // No conversation ID for team chat
             0, // No response time for errors
             {}, // No tokens used
-            'n8n-workflow', // Model used
+            astraProvider.name, // Model used
             { 
               team_chat: true,
               message_type: 'astra',
@@ -380,7 +344,11 @@ export const useGroupChat = () => {
             'team', // mode
             [], // mentions
             content.replace(/@astra\s*/i, '').trim(), // astraPrompt
-            undefined // visualizationData
+            undefined, // visualizationData
+            null, // parentMessageId
+            null, // previousMessageId
+            channelId, // channelId
+            thread?.rootId // threadRootId
           );
           
           // Add delay for error response too
@@ -392,6 +360,7 @@ export const useGroupChat = () => {
         } finally {
           console.log('🤖 useGroupChat: Setting Astra thinking to false...');
           setIsAstraThinking(false);
+          setAstraThinkingThreadId(null);
         }
       }
       
@@ -407,28 +376,18 @@ export const useGroupChat = () => {
       console.error('Error in sendMessage:', err);
       setError('Failed to send message');
     }
-  }, [user, parseMentions, getUserName, logChatMessage, fetchMessages]);
+  }, [user, channelId, channelName, parseMentions, getUserName, logChatMessage, fetchMessages]);
 
   // Search messages
   const searchMessages = useCallback(async (query: string): Promise<GroupMessage[]> => {
+    if (!channelId) return [];
+
     try {
       const { data, error } = await supabase
         .from('astra_chats')
-        .select(`
-          id,
-          user_id,
-          user_name,
-          user_email,
-          message,
-          message_type,
-          mentions,
-          astra_prompt,
-          visualization_data,
-          metadata,
-          created_at,
-          updated_at
-        `)
+        .select(TEAM_MESSAGE_COLUMNS)
         .eq('mode', 'team')
+        .eq('channel_id', channelId)
         .or(`message.ilike.%${query}%,user_name.ilike.%${query}%`)
         .order('created_at', { ascending: false })
         .limit(100);
@@ -439,27 +398,14 @@ export const useGroupChat = () => {
       }
 
       // Transform astra_chats data to GroupMessage format
-      const transformedMessages: GroupMessage[] = (data || []).map(chat => ({
-        id: chat.id,
-        user_id: chat.user_id,
-        user_name: chat.user_name,
-        user_email: chat.user_email,
-        message_content: chat.message,
-        message_type: chat.message_type as 'user' | 'astra' | 'system',
-        mentions: chat.mentions || [],
-        astra_prompt: chat.astra_prompt,
-        visualization_data: chat.visualization_data,
-        metadata: chat.metadata || {},
-        created_at: chat.created_at,
-        updated_at: chat.updated_at
-      }));
+      const transformedMessages: GroupMessage[] = (data || []).map(toGroupMessage);
 
       return transformedMessages;
     } catch (err) {
       console.error('Error in searchMessages:', err);
       return [];
     }
-  }, []);
+  }, [channelId]);
 
   // Update visualization data for a message
   const updateVisualizationData = useCallback(async (messageId: string, visualizationData: string) => {
@@ -495,20 +441,23 @@ export const useGroupChat = () => {
 
   // Set up real-time subscription
   useEffect(() => {
-    if (!user) return;
+    if (!user || !channelId) return;
 
-    console.log('🔄 Setting up real-time subscription for team chat...');
+    console.log('🔄 Setting up real-time subscription for team channel:', channelId);
 
     const channel = supabase
-      .channel('astra_chats_team')
+      .channel(`astra_chats_team_${channelId}`)
       .on('postgres_changes', {
         event: 'INSERT',
         schema: 'public',
         table: 'astra_chats',
-        filter: 'mode=eq.team'
+        filter: `channel_id=eq.${channelId}`
       }, (payload) => {
         console.log('🔄 Real-time: New message received:', payload.new);
         const newChat = payload.new as any;
+        // Replies that stay in their thread are shown by the thread panel
+        if (isThreadOnlyReply(newChat)) return;
+
         // Transform and add new message
         setMessages(prev => {
           const messageExists = prev.some(msg => msg.id === newChat.id);
@@ -517,32 +466,36 @@ export const useGroupChat = () => {
             return prev;
           }
           
-          const transformedMessage: GroupMessage = {
-            id: newChat.id,
-            user_id: newChat.user_id,
-            user_name: newChat.user_name,
-            user_email: newChat.user_email,
-            message_content: newChat.message,
-            message_type: newChat.message_type,
-            mentions: newChat.mentions || [],
-            astra_prompt: newChat.astra_prompt,
-            visualization_data: newChat.visualization_data,
-            metadata: newChat.metadata || {},
-            created_at: newChat.created_at,
-            updated_at: newChat.updated_at
-          };
+          const transformedMessage = toGroupMessage(newChat);
           
           console.log('🔄 Real-time: Adding new message to state:', transformedMessage.id, transformedMessage.message_type);
           return [...prev, transformedMessage];
         });
       })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'astra_chats',
+        filter: `channel_id=eq.${channelId}`
+      }, (payload) => {
+        // Keeps edits, deletions and thread reply counts on parent messages current
+        const updatedMessage = toGroupMessage(payload.new as TeamChatRow);
+        setMessages(prev => prev.map(msg => msg.id === updatedMessage.id ? updatedMessage : msg));
+      })
       .subscribe();
 
     return () => {
       console.log('🔄 Cleaning up real-time subscription...');
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, channelId]);
+
+  // Start each channel from an empty list
+  useEffect(() => {
+    setMessages([]);
+    setHasMoreMessages(true);
+    setTotalMessageCount(0);
+  }, [channelId]);
 
   // Load initial messages
   useEffect(() => {
@@ -559,7 +512,7 @@ export const useGroupChat = () => {
     loading,
     error,
     isAstraThinking,
-    typingUsers,
+    astraThinkingThreadId,
     sendMessage,
     fetchMessages,
     loadMoreMessages,
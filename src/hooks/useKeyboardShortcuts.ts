@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { KEYBOARD_SHORTCUTS, ShortcutId, matchesShortcut } from '../lib/keyboardShortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutId, () => void>>;
+
+// Listens for the app-wide shortcuts; handlers can change every render without re-subscribing
+export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled = true) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat) return;
+
+      const shortcut = KEYBOARD_SHORTCUTS.find(candidate => matchesShortcut(event, candidate));
+      const handler = shortcut && handlersRef.current[shortcut.id];
+      if (!handler) return;
+
+      event.preventDefault();
+      console.log('⌨️ Keyboard shortcut:', shortcut.id);
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
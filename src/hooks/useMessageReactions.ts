@@ -0,0 +1,177 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { ReactionSummary } from '../types';
+import { MessageReactionRow, isEmoji, summarizeReactions } from '../lib/reactions';
+
+const sameReaction = (a: MessageReactionRow, b: Pick<MessageReactionRow, 'message_id' | 'user_id' | 'emoji'>) =>
+  a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+// Reactions on team chat messages, one row per (message, user, emoji), kept in sync over realtime.
+// messageIds should be memoized; reactions are fetched once per message.
+export const useMessageReactions = (messageIds: string[]) => {
+  const { user } = useAuth();
+  const [reactions, setReactions] = useState<Record<string, MessageReactionRow[]>>({});
+  const [error, setError] = useState<string | null>(null);
+  // Messages whose reactions have been requested, so each is only fetched once
+  const requestedIdsRef = useRef<Set<string>>(new Set());
+
+  const getUserName = useCallback(async (): Promise<string> => {
+    if (!user) return '';
+
+    const { data } = await supabase
+      .from('users')
+      .select('name')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    return data?.name || user.email?.split('@')[0] || 'Unknown User';
+  }, [user]);
+
+  const addRow = useCallback((row: MessageReactionRow) => {
+    setReactions(prev => {
+      const rows = prev[row.message_id] || [];
+      if (rows.some(existing => sameReaction(existing, row))) return prev;
+      return { ...prev, [row.message_id]: [...rows, row] };
+    });
+  }, []);
+
+  const removeRow = useCallback((row: Pick<MessageReactionRow, 'message_id' | 'user_id' | 'emoji'>) => {
+    setReactions(prev => {
+      const rows = prev[row.message_id];
+      if (!rows) return prev;
+      return { ...prev, [row.message_id]: rows.filter(existing => !sameReaction(existing, row)) };
+    });
+  }, []);
+
+  // Fetch reactions for messages that haven't been loaded yet
+  useEffect(() => {
+    if (!user) return;
+
+    const missingIds = messageIds.filter(id => !requestedIdsRef.current.has(id));
+    if (missingIds.length === 0) return;
+    missingIds.forEach(id => requestedIdsRef.current.add(id));
+
+    const loadReactions = async () => {
+      const { data, error: fetchError } = await supabase
+        .from('message_reactions')
+        .select('message_id, user_id, emoji, user_name, created_at')
+        .in('message_id', missingIds);
+
+      if (fetchError) {
+        console.error('Error loading reactions:', fetchError);
+        missingIds.forEach(id => requestedIdsRef.current.delete(id));
+        return;
+      }
+
+      setReactions(prev => {
+        const next = { ...prev };
+        missingIds.forEach(id => {
+          next[id] = next[id] || [];
+        });
+        (data || []).forEach((row: MessageReactionRow) => {
+          if (!next[row.message_id].some(existing => sameReaction(existing, row))) {
+            next[row.message_id] = [...next[row.message_id], row];
+          }
+        });
+        return next;
+      });
+    };
+
+    loadReactions();
+  }, [user, messageIds]);
+
+  // Add the user's reaction, or take it back if they already reacted with that emoji
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    if (!user) return;
+
+    if (!isEmoji(emoji)) {
+      setError('Reactions must be an emoji');
+      return;
+    }
+
+    const key = { message_id: messageId, user_id: user.id, emoji };
+    const hasReacted = (reactions[messageId] || []).some(row => sameReaction(row, key));
+
+    try {
+      if (hasReacted) {
+        removeRow(key);
+        const { error: deleteError } = await supabase
+          .from('message_reactions')
+          .delete()
+          .eq('message_id', messageId)
+          .eq('user_id', user.id)
+          .eq('emoji', emoji);
+
+        if (deleteError) throw deleteError;
+      } else {
+        const row: MessageReactionRow = {
+          ...key,
+          user_name: await getUserName(),
+          created_at: new Date().toISOString()
+        };
+        addRow(row);
+        const { error: insertError } = await supabase
+          .from('message_reactions')
+          .insert({ message_id: row.message_id, user_id: row.user_id, emoji: row.emoji, user_name: row.user_name });
+
+        // Reacting twice from two tabs is fine
+        if (insertError && insertError.code !== '23505') throw insertError;
+      }
+
+      setError(null);
+      console.log('✅ Message reaction updated successfully:', messageId, emoji);
+    } catch (err) {
+      console.error('Error updating reaction:', err);
+      setError('Failed to update reaction');
+      // Undo the optimistic change
+      if (hasReacted) {
+        const restored = (reactions[messageId] || []).find(row => sameReaction(row, key));
+        if (restored) addRow(restored);
+      } else {
+        removeRow(key);
+      }
+    }
+  }, [user, reactions, getUserName, addRow, removeRow]);
+
+  const getReactions = useCallback((messageId: string): ReactionSummary[] =>
+    summarizeReactions(reactions[messageId] || [], user?.id),
+  [reactions, user]);
+
+  // Reactions from everyone, including this user's other tabs
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel('message_reactions')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'message_reactions'
+      }, (payload) => {
+        const row = payload.new as MessageReactionRow;
+        if (requestedIdsRef.current.has(row.message_id)) {
+          addRow(row);
+        }
+      })
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'message_reactions'
+      }, (payload) => {
+        removeRow(payload.old as MessageReactionRow);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, addRow, removeRow]);
+
+  return {
+    getReactions,
+    toggleReaction,
+    error,
+    setError
+  };
+};
@@ -0,0 +1,109 @@
+import { useState, useCallback, useRef } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+type MessageSearchRow = Database['public']['Functions']['search_astra_messages']['Returns'][number];
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  isUser: boolean;
+  createdAt: string;
+  snippet: string;
+}
+
+// Markers search_astra_messages wraps around matched terms in snippets
+export const SNIPPET_MATCH_START = '[[[';
+export const SNIPPET_MATCH_END = ']]]';
+
+// Split a snippet into plain and matched parts so matches can be rendered as <mark>
+export const splitSnippet = (snippet: string): { text: string; isMatch: boolean }[] => {
+  const parts: { text: string; isMatch: boolean }[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SNIPPET_MATCH_START);
+    const end = start === -1 ? -1 : rest.indexOf(SNIPPET_MATCH_END, start);
+    if (start === -1 || end === -1) {
+      parts.push({ text: rest, isMatch: false });
+      break;
+    }
+
+    if (start > 0) parts.push({ text: rest.substring(0, start), isMatch: false });
+    parts.push({ text: rest.substring(start + SNIPPET_MATCH_START.length, end), isMatch: true });
+    rest = rest.substring(end + SNIPPET_MATCH_END.length);
+  }
+
+  return parts;
+};
+
+export const useMessageSearch = () => {
+  const { user } = useAuth();
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses to queries that have since been replaced
+  const latestQueryRef = useRef('');
+
+  const searchMessages = useCallback(async (query: string, limit: number = 20) => {
+    const trimmed = query.trim();
+    latestQueryRef.current = trimmed;
+
+    if (!user || trimmed.length < 2) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    try {
+      setSearching(true);
+      setError(null);
+
+      const { data, error } = await supabase.rpc('search_astra_messages', {
+        p_query: trimmed,
+        p_limit: limit
+      });
+
+      if (latestQueryRef.current !== trimmed) return;
+
+      if (error) {
+        console.error('Error searching messages:', error);
+        setError('Failed to search messages');
+        setResults([]);
+        return;
+      }
+
+      setResults(((data || []) as MessageSearchRow[]).map(row => ({
+        messageId: row.message_id,
+        conversationId: row.conversation_id,
+        conversationTitle: row.conversation_title || 'Untitled conversation',
+        isUser: row.message_type === 'user',
+        createdAt: row.created_at,
+        snippet: row.snippet
+      })));
+    } catch (err) {
+      console.error('Error in searchMessages:', err);
+      setError('Failed to search messages');
+    } finally {
+      if (latestQueryRef.current === trimmed) {
+        setSearching(false);
+      }
+    }
+  }, [user]);
+
+  const clearResults = useCallback(() => {
+    latestQueryRef.current = '';
+    setResults([]);
+    setError(null);
+    setSearching(false);
+  }, []);
+
+  return {
+    results,
+    searching,
+    error,
+    searchMessages,
+    clearResults
+  };
+};
@@ -4,21 +4,28 @@ import { useAuth } from '../contexts/AuthContext';
 
 interface NotificationState {
   unreadCount: number;
-  lastSeenMessageId: string | null;
   mentions: Array<{
     id: string;
     message: string;
     userName: string;
     timestamp: string;
   }>;
+  // New replies in threads the user follows
+  threadReplies: Array<{
+    id: string;
+    threadRootId: string;
+    message: string;
+    userName: string;
+    timestamp: string;
+  }>;
 }
 
 export const useNotifications = () => {
   const { user } = useAuth();
   const [notifications, setNotifications] = useState<NotificationState>({
     unreadCount: 0,
-    lastSeenMessageId: null,
-    mentions: []
+    mentions: [],
+    threadReplies: []
   });
   const [isTabActive, setIsTabActive] = useState(true);
 
@@ -106,96 +113,61 @@ export const useNotifications = () => {
     return isMentioned;
   }, [user, getUserDisplayName, isTabActive]);
 
-  // Load last seen message from localStorage
-  useEffect(() => {
+  // Notify about a reply in a thread the user follows
+  const checkForThreadReply = useCallback(async (threadRootId: string, message: string, messageId: string, senderName: string, timestamp: string) => {
     if (!user) return;
 
-    const lastSeenKey = `astra-last-seen-${user.id}`;
-    const lastSeen = localStorage.getItem(lastSeenKey);
-    
-    if (lastSeen) {
-      setNotifications(prev => ({
-        ...prev,
-        lastSeenMessageId: lastSeen
-      }));
+    const { data, error } = await supabase
+      .from('astra_thread_subscriptions')
+      .select('is_subscribed')
+      .eq('thread_root_id', threadRootId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking thread subscription:', error);
+      return;
     }
-  }, [user]);
+    if (!data?.is_subscribed) return;
 
-  // Calculate unread count
-  const updateUnreadCount = useCallback(async () => {
-    if (!user || !notifications.lastSeenMessageId) return;
+    const preview = message.length > 100 ? message.substring(0, 100) + '...' : message;
+    setNotifications(prev => ({
+      ...prev,
+      threadReplies: [
+        { id: messageId, threadRootId, message: preview, userName: senderName, timestamp },
+        ...prev.threadReplies.slice(0, 9) // Keep only last 10 replies
+      ]
+    }));
 
-    try {
-      // First, get the timestamp of the last seen message
-      const { data: lastSeenMessage, error: timestampError } = await supabase
-        .from('astra_chats')
-        .select('created_at')
-        .eq('id', notifications.lastSeenMessageId)
-        .single();
+    if (!isTabActive && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification(`${senderName} replied in a thread you follow`, {
+        body: preview,
+        icon: '/RocketHub Favicon.png',
+        tag: `team-chat-thread-${threadRootId}`
+      });
+    }
+  }, [user, isTabActive]);
 
-      if (timestampError || !lastSeenMessage) {
-        console.error('Error getting last seen message timestamp:', timestampError);
-        return;
-      }
+  // Total unread team messages across the user's channels (read markers live in the database)
+  const refreshUnreadCount = useCallback(async () => {
+    if (!user) return;
 
-      // Now count messages created after that timestamp
-      const { count, error } = await supabase
-        .from('astra_chats')
-        .select('*', { count: 'exact', head: true })
-        .eq('mode', 'team')
-        .gt('created_at', lastSeenMessage.created_at);
+    try {
+      const { data, error } = await supabase.rpc('get_team_channels');
 
       if (error) {
         console.error('Error counting unread messages:', error);
         return;
       }
 
-      setNotifications(prev => ({
-        ...prev,
-        unreadCount: count || 0
-      }));
+      const unreadCount = (data || []).reduce(
+        (total: number, channel: { unread_count: number }) => total + (Number(channel.unread_count) || 0),
+        0
+      );
+      setNotifications(prev => ({ ...prev, unreadCount }));
     } catch (err) {
-      console.error('Error in updateUnreadCount:', err);
+      console.error('Error in refreshUnreadCount:', err);
     }
-  }, [user, notifications.lastSeenMessageId]);
-
-  // Mark messages as seen
-  const markAsSeen = useCallback(async (messageId?: string) => {
-    if (!user) return;
-
-    let lastSeenId = messageId;
-    
-    // If no specific message ID provided, get the latest message
-    if (!lastSeenId) {
-      try {
-        const { data, error } = await supabase
-          .from('astra_chats')
-          .select('id')
-          .eq('mode', 'team')
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (error || !data) return;
-        lastSeenId = data.id;
-      } catch (err) {
-        console.error('Error getting latest message:', err);
-        return;
-      }
-    }
-
-    // Save to localStorage
-    const lastSeenKey = `astra-last-seen-${user.id}`;
-    localStorage.setItem(lastSeenKey, lastSeenId);
-
-    // Update state
-    setNotifications(prev => ({
-      ...prev,
-      lastSeenMessageId: lastSeenId,
-      unreadCount: 0
-    }));
-
-    console.log('✅ Marked messages as seen up to:', lastSeenId);
   }, [user]);
 
   // Clear mentions
@@ -206,6 +178,16 @@ export const useNotifications = () => {
     }));
   }, []);
 
+  // Clear thread reply notifications, for one thread or all of them
+  const clearThreadReplies = useCallback((threadRootId?: string) => {
+    setNotifications(prev => ({
+      ...prev,
+      threadReplies: threadRootId
+        ? prev.threadReplies.filter(reply => reply.threadRootId !== threadRootId)
+        : []
+    }));
+  }, []);
+
   // Request notification permission
   const requestNotificationPermission = useCallback(async () => {
     if ('Notification' in window && Notification.permission === 'default') {
@@ -240,43 +222,35 @@ export const useNotifications = () => {
           newMessage.created_at
         );
 
-        // Update unread count if user hasn't seen this message
-        if (notifications.lastSeenMessageId) {
-          const messageTime = new Date(newMessage.created_at);
-          const lastSeenTime = new Date(notifications.lastSeenMessageId);
-          
-          if (messageTime > lastSeenTime) {
-            setNotifications(prev => ({
-              ...prev,
-              unreadCount: prev.unreadCount + 1
-            }));
-          }
-        } else {
-          // No last seen message, increment count
-          setNotifications(prev => ({
-            ...prev,
-            unreadCount: prev.unreadCount + 1
-          }));
+        if (newMessage.thread_root_id) {
+          await checkForThreadReply(
+            newMessage.thread_root_id,
+            newMessage.message,
+            newMessage.id,
+            newMessage.user_name,
+            newMessage.created_at
+          );
         }
+
+        // Only channels the user belongs to count, so recount rather than increment
+        refreshUnreadCount();
       })
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user, checkForMentions, notifications.lastSeenMessageId]);
+  }, [user, checkForMentions, checkForThreadReply, refreshUnreadCount]);
 
-  // Update unread count when lastSeenMessageId changes
   useEffect(() => {
-    if (notifications.lastSeenMessageId) {
-      updateUnreadCount();
-    }
-  }, [notifications.lastSeenMessageId, updateUnreadCount]);
+    refreshUnreadCount();
+  }, [refreshUnreadCount]);
 
   return {
     notifications,
-    markAsSeen,
+    refreshUnreadCount,
     clearMentions,
+    clearThreadReplies,
     requestNotificationPermission,
     isTabActive
   };
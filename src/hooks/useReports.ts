@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { ReportMessage } from '../types';
+import { astraProvider, astraProviderConfigError } from '../lib/astraProvider';
 
 export interface ReportTemplate {
   id: string;
@@ -499,68 +500,20 @@ export const useReports = () => {
     try {
       setRunningReports(prev => new Set([...prev, id]));
       
-      const webhookUrl = import.meta.env.VITE_N8N_WEBHOOK_URL;
-      if (!webhookUrl) {
-        throw new Error('N8N webhook URL not configured');
+      if (astraProviderConfigError) {
+        throw new Error(`Astra provider not configured: ${astraProviderConfigError}`);
       }
 
       console.log('🚀 Running report manually:', {
         reportId: id,
         reportTitle: report.title,
         reportPrompt: report.prompt,
-        webhookUrl: webhookUrl ? 'configured' : 'missing',
+        provider: astraProvider.name,
         userId: user.id,
         userEmail: user.email
       });
 
-      const requestStartTime = Date.now();
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chatInput: report.prompt,
-          user_id: user.id,
-          user_email: user.email,
-          mode: 'reports',
-          metadata: {
-            report_title: report.title,
-            report_schedule: report.schedule_time,
-            report_frequency: report.schedule_frequency,
-            is_manual_run: true,
-            executed_at: new Date().toISOString()
-          }
-        })
-      });
-
-      const requestEndTime = Date.now();
-      const responseTimeMs = requestEndTime - requestStartTime;
-      console.log('📡 Webhook response:', {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Webhook failed:', {
-          status: response.status,
-          statusText: response.statusText,
-          errorText
-        });
-        throw new Error(`Failed to execute report: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      const responseText = await response.text();
-      console.log('✅ Webhook success:', {
-        responseLength: responseText.length,
-        responsePreview: responseText.substring(0, 200) + '...'
-      });
-
-      // Parse the response to get the actual report content
-      let reportContent = responseText;
-      let metadata: any = {
+      const reportMetadata = {
         report_title: report.title,
         report_schedule: report.schedule_time,
         report_frequency: report.schedule_frequency,
@@ -568,18 +521,28 @@ export const useReports = () => {
         executed_at: new Date().toISOString()
       };
 
-      try {
-        const jsonResponse = JSON.parse(responseText);
-        if (jsonResponse.output) {
-          reportContent = jsonResponse.output;
-        }
-        if (jsonResponse.metadata) {
-          metadata = { ...metadata, ...jsonResponse.metadata };
-        }
-      } catch (e) {
-        // Use raw text if not JSON
-        console.log('📝 Using raw response text as report content');
-      }
+      const requestStartTime = Date.now();
+      const astraResponse = await astraProvider.send({
+        message: report.prompt,
+        mode: 'reports',
+        user: { id: user.id, email: user.email || '', name: user.user_metadata?.full_name || user.email || '' },
+        conversationId: null,
+        metadata: reportMetadata
+      });
+      const responseTimeMs = Date.now() - requestStartTime;
+
+      console.log('✅ Report generated:', {
+        responseLength: astraResponse.text.length,
+        responsePreview: astraResponse.text.substring(0, 200) + '...'
+      });
+
+      const reportContent = astraResponse.text;
+      const metadata = {
+        ...reportMetadata,
+        ...astraResponse.metadata,
+        sources: astraResponse.sources,
+        tools_used: astraResponse.toolsUsed
+      };
 
       console.log('💾 Saving report to astra_chats table...');
       
@@ -594,8 +557,8 @@ export const useReports = () => {
           message_type: 'astra',
           conversation_id: null,
           response_time_ms: responseTimeMs,
-          tokens_used: {},
-          model_used: 'n8n-workflow',
+          tokens_used: astraResponse.tokensUsed,
+          model_used: astraResponse.modelUsed,
           metadata: metadata,
           visualization: false,
           mode: 'reports',
@@ -0,0 +1,258 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { SharedPrompt, SharedPromptDraft } from '../types';
+
+type SharedPromptRow = Database['public']['Tables']['astra_shared_prompts']['Row'];
+
+const toSharedPrompt = (row: SharedPromptRow, upvotedIds: Set<string>): SharedPrompt => ({
+  id: row.id,
+  authorId: row.author_id,
+  authorName: row.author_name,
+  title: row.title,
+  description: row.description || null,
+  text: row.prompt_text,
+  tags: row.tags || [],
+  isFeatured: row.is_featured,
+  upvoteCount: row.upvote_count || 0,
+  copyCount: row.copy_count || 0,
+  hasUpvoted: upvotedIds.has(row.id),
+  createdAt: new Date(row.created_at)
+});
+
+const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
+
+// The workspace-wide prompt library: browsing, publishing, upvotes and admin curation
+export const useSharedPrompts = () => {
+  const { user } = useAuth();
+  const [sharedPrompts, setSharedPrompts] = useState<SharedPrompt[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const fetchSharedPrompts = useCallback(async () => {
+    if (!user) {
+      setSharedPrompts([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [promptsResult, votesResult] = await Promise.all([
+        supabase
+          .from('astra_shared_prompts')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('astra_shared_prompt_votes')
+          .select('prompt_id')
+          .eq('user_id', user.id)
+      ]);
+
+      if (promptsResult.error) {
+        console.error('Error loading shared prompts:', promptsResult.error);
+        setError('Failed to load the team library');
+        return;
+      }
+      if (votesResult.error) {
+        console.error('Error loading shared prompt votes:', votesResult.error);
+      }
+
+      const upvotedIds = new Set<string>((votesResult.data || []).map(vote => vote.prompt_id));
+      setSharedPrompts((promptsResult.data || []).map(row => toSharedPrompt(row, upvotedIds)));
+      setError(null);
+    } catch (err) {
+      console.error('Error in fetchSharedPrompts:', err);
+      setError('Failed to load the team library');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Admins can feature prompts and remove anyone's
+  useEffect(() => {
+    if (!user) {
+      setIsAdmin(false);
+      return;
+    }
+
+    supabase
+      .from('users')
+      .select('is_admin')
+      .eq('id', user.id)
+      .maybeSingle()
+      .then(({ data, error: adminError }) => {
+        if (adminError) {
+          console.error('Error checking admin status:', adminError);
+          return;
+        }
+        setIsAdmin(data?.is_admin || false);
+      });
+  }, [user]);
+
+  const publishPrompt = useCallback(async (draft: SharedPromptDraft): Promise<SharedPrompt | null> => {
+    if (!user) {
+      setError('You must be signed in to share prompts');
+      return null;
+    }
+    if (!draft.title.trim() || !draft.text.trim()) {
+      setError('A shared prompt needs a title and prompt text');
+      return null;
+    }
+
+    try {
+      const { data: profile } = await supabase
+        .from('users')
+        .select('name, email')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      const { data, error: insertError } = await supabase
+        .from('astra_shared_prompts')
+        .insert({
+          author_id: user.id,
+          author_name: profile?.name || profile?.email || user.email || 'Unknown',
+          title: draft.title.trim(),
+          description: draft.description.trim() || null,
+          prompt_text: draft.text.trim(),
+          tags: normalizeTags(draft.tags)
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error sharing prompt:', insertError);
+        setError('Failed to share prompt');
+        return null;
+      }
+
+      console.log('📚 Shared prompt with the team:', data.id);
+      const shared = toSharedPrompt(data, new Set());
+      setSharedPrompts(prev => [shared, ...prev]);
+      setError(null);
+      return shared;
+    } catch (err) {
+      console.error('Error in publishPrompt:', err);
+      setError('Failed to share prompt');
+      return null;
+    }
+  }, [user]);
+
+  const deleteSharedPrompt = useCallback(async (promptId: string) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('astra_shared_prompts')
+        .delete()
+        .eq('id', promptId);
+
+      if (deleteError) {
+        console.error('Error deleting shared prompt:', deleteError);
+        setError('Failed to remove prompt from the library');
+        return;
+      }
+
+      setSharedPrompts(prev => prev.filter(prompt => prompt.id !== promptId));
+    } catch (err) {
+      console.error('Error in deleteSharedPrompt:', err);
+      setError('Failed to remove prompt from the library');
+    }
+  }, []);
+
+  // Upvote counts are maintained by a trigger, so only the vote row is written here
+  const toggleUpvote = useCallback(async (prompt: SharedPrompt) => {
+    if (!user) return;
+
+    const upvoting = !prompt.hasUpvoted;
+    const applyVote = (voted: boolean) => setSharedPrompts(prev => prev.map(item =>
+      item.id === prompt.id
+        ? { ...item, hasUpvoted: voted, upvoteCount: Math.max(item.upvoteCount + (voted ? 1 : -1), 0) }
+        : item
+    ));
+    applyVote(upvoting);
+
+    try {
+      const { error: voteError } = upvoting
+        ? await supabase
+          .from('astra_shared_prompt_votes')
+          .insert({ prompt_id: prompt.id, user_id: user.id })
+        : await supabase
+          .from('astra_shared_prompt_votes')
+          .delete()
+          .eq('prompt_id', prompt.id)
+          .eq('user_id', user.id);
+
+      if (voteError) {
+        console.error('Error updating upvote:', voteError);
+        applyVote(!upvoting);
+      }
+    } catch (err) {
+      console.error('Error in toggleUpvote:', err);
+      applyVote(!upvoting);
+    }
+  }, [user]);
+
+  const setFeatured = useCallback(async (promptId: string, featured: boolean) => {
+    if (!isAdmin) return;
+
+    try {
+      const { error: updateError } = await supabase
+        .from('astra_shared_prompts')
+        .update({ is_featured: featured })
+        .eq('id', promptId);
+
+      if (updateError) {
+        console.error('Error updating featured prompt:', updateError);
+        setError('Failed to update featured prompts');
+        return;
+      }
+
+      setSharedPrompts(prev => prev.map(prompt =>
+        prompt.id === promptId ? { ...prompt, isFeatured: featured } : prompt
+      ));
+    } catch (err) {
+      console.error('Error in setFeatured:', err);
+      setError('Failed to update featured prompts');
+    }
+  }, [isAdmin]);
+
+  // Copies into the caller's own saved prompts, where it can be edited freely
+  const copyToFavorites = useCallback(async (promptId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error: copyError } = await supabase.rpc('copy_shared_prompt_to_favorites', {
+        p_prompt_id: promptId
+      });
+
+      if (copyError) {
+        console.error('Error copying shared prompt:', copyError);
+        setError('Failed to copy prompt to your saved prompts');
+        return false;
+      }
+
+      setSharedPrompts(prev => prev.map(prompt =>
+        prompt.id === promptId ? { ...prompt, copyCount: prompt.copyCount + 1 } : prompt
+      ));
+      return true;
+    } catch (err) {
+      console.error('Error in copyToFavorites:', err);
+      setError('Failed to copy prompt to your saved prompts');
+      return false;
+    }
+  }, [user]);
+
+  return {
+    sharedPrompts,
+    loading,
+    error,
+    setError,
+    isAdmin,
+    fetchSharedPrompts,
+    publishPrompt,
+    deleteSharedPrompt,
+    toggleUpvote,
+    setFeatured,
+    copyToFavorites
+  };
+};
@@ -0,0 +1,123 @@
+import { useState, useCallback, useEffect, useMemo, KeyboardEvent } from 'react';
+import {
+  SlashCommand,
+  SlashCommandSuggestion,
+  findSlashCommand,
+  getSlashCommandSuggestions,
+  parseSlashCommand
+} from '../lib/slashCommands';
+
+export interface SlashCommandFeedback {
+  type: 'success' | 'error';
+  text: string;
+}
+
+const FEEDBACK_TIMEOUT_MS = 4000;
+
+// Autocomplete and execution for `/commands` typed into a chat composer
+export const useSlashCommands = (
+  value: string,
+  onChange: (value: string) => void,
+  commands: SlashCommand[]
+) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dismissedValue, setDismissedValue] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [feedback, setFeedback] = useState<SlashCommandFeedback | null>(null);
+
+  const suggestions = useMemo(
+    () => commands.length > 0 ? getSlashCommandSuggestions(value, commands) : [],
+    [value, commands]
+  );
+  const isMenuOpen = suggestions.length > 0 && dismissedValue !== value;
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [value]);
+
+  useEffect(() => {
+    if (!feedback) return;
+    const timeout = setTimeout(() => setFeedback(null), FEEDBACK_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [feedback]);
+
+  // Runs `text` if it is a known command; returns false so unknown `/text` is sent as a message
+  const runCommand = useCallback(async (text: string): Promise<boolean> => {
+    const parsed = parseSlashCommand(text);
+    const command = parsed && findSlashCommand(commands, parsed.name);
+    if (!parsed || !command) return false;
+
+    if (command.requiresArgs && !parsed.args) {
+      onChange(`/${command.name} `);
+      setFeedback({ type: 'error', text: `Usage: /${command.name} ${command.argsHint || ''}`.trim() });
+      return true;
+    }
+
+    console.log('⌨️ Running slash command:', command.name, parsed.args);
+    onChange('');
+    setRunning(true);
+    try {
+      const result = await command.run(parsed.args);
+      setFeedback(result ? { type: 'success', text: result } : null);
+    } catch (err) {
+      console.error(`Error running /${command.name}:`, err);
+      setFeedback({ type: 'error', text: err instanceof Error ? err.message : `/${command.name} failed` });
+    } finally {
+      setRunning(false);
+    }
+    return true;
+  }, [commands, onChange]);
+
+  const selectSuggestion = useCallback((suggestion: SlashCommandSuggestion) => {
+    if (suggestion.runnable) {
+      runCommand(suggestion.completion);
+    } else {
+      onChange(suggestion.completion);
+    }
+  }, [runCommand, onChange]);
+
+  // Handles menu navigation; returns true when the key was used by the menu
+  const handleKeyDown = useCallback((e: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!isMenuOpen) return false;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(prev => prev < suggestions.length - 1 ? prev + 1 : 0);
+      return true;
+    }
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(prev => prev > 0 ? prev - 1 : suggestions.length - 1);
+      return true;
+    }
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      const suggestion = suggestions[selectedIndex];
+      if (suggestion) onChange(suggestion.completion);
+      return true;
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      const suggestion = suggestions[selectedIndex];
+      if (suggestion) selectSuggestion(suggestion);
+      return true;
+    }
+    if (e.key === 'Escape') {
+      setDismissedValue(value);
+      return true;
+    }
+    return false;
+  }, [isMenuOpen, suggestions, selectedIndex, selectSuggestion, onChange, value]);
+
+  return {
+    suggestions,
+    isMenuOpen,
+    selectedIndex,
+    setSelectedIndex,
+    selectSuggestion,
+    handleKeyDown,
+    runCommand,
+    running,
+    feedback
+  };
+};
@@ -0,0 +1,400 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { TeamChannel, TeamChannelDraft } from '../types';
+import { isValidChannelName, normalizeChannelName } from '../lib/teamChannels';
+
+type TeamChannelRow = Database['public']['Functions']['get_team_channels']['Returns'][number];
+
+const toTeamChannel = (row: TeamChannelRow): TeamChannel => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || null,
+  isPrivate: row.is_private,
+  isDefault: row.is_default,
+  createdBy: row.created_by,
+  memberCount: Number(row.member_count) || 0,
+  isMember: row.is_member,
+  isOwner: row.member_role === 'owner',
+  unreadCount: Number(row.unread_count) || 0,
+  createdAt: new Date(row.created_at)
+});
+
+const getActiveChannelKey = (userId: string) => `astra-team-channel-${userId}`;
+
+// Team chat channels: listing, switching, membership and per-channel unread counts
+export const useTeamChannels = () => {
+  const { user } = useAuth();
+  const [channels, setChannels] = useState<TeamChannel[]>([]);
+  const [activeChannelId, setActiveChannelId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const activeChannelIdRef = useRef<string | null>(null);
+  activeChannelIdRef.current = activeChannelId;
+
+  const fetchChannels = useCallback(async (): Promise<TeamChannel[]> => {
+    if (!user) {
+      setChannels([]);
+      return [];
+    }
+
+    setLoading(true);
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_team_channels');
+
+      if (fetchError) {
+        console.error('Error loading team channels:', fetchError);
+        setError('Failed to load channels');
+        return [];
+      }
+
+      const loaded = (data || []).map(toTeamChannel);
+      setChannels(loaded);
+      setError(null);
+      return loaded;
+    } catch (err) {
+      console.error('Error in fetchChannels:', err);
+      setError('Failed to load channels');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const joinChannel = useCallback(async (channelId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error: joinError } = await supabase
+        .from('astra_team_channel_members')
+        .insert({ channel_id: channelId, user_id: user.id });
+
+      // Already a member is fine
+      if (joinError && joinError.code !== '23505') {
+        console.error('Error joining channel:', joinError);
+        setError('Failed to join channel');
+        return false;
+      }
+
+      setChannels(prev => prev.map(channel =>
+        channel.id === channelId && !channel.isMember
+          ? { ...channel, isMember: true, memberCount: channel.memberCount + 1 }
+          : channel
+      ));
+      return true;
+    } catch (err) {
+      console.error('Error in joinChannel:', err);
+      setError('Failed to join channel');
+      return false;
+    }
+  }, [user]);
+
+  const markChannelRead = useCallback(async (channelId: string) => {
+    setChannels(prev => prev.map(channel =>
+      channel.id === channelId && channel.unreadCount > 0 ? { ...channel, unreadCount: 0 } : channel
+    ));
+
+    const { error: readError } = await supabase.rpc('mark_team_channel_read', { p_channel_id: channelId });
+    if (readError) {
+      console.error('Error marking channel as read:', readError);
+    }
+  }, []);
+
+  // Public channels are joined on first visit so their unread counts are tracked
+  const selectChannel = useCallback(async (channelId: string) => {
+    if (!user) return;
+
+    const channel = channels.find(candidate => candidate.id === channelId);
+    if (!channel) return;
+
+    if (!channel.isMember && !channel.isPrivate) {
+      await joinChannel(channelId);
+    }
+
+    setActiveChannelId(channelId);
+    localStorage.setItem(getActiveChannelKey(user.id), channelId);
+    console.log('📺 Switched team channel:', channel.name);
+  }, [user, channels, joinChannel]);
+
+  const createChannel = useCallback(async (draft: TeamChannelDraft): Promise<TeamChannel | null> => {
+    if (!user) {
+      setError('You must be signed in to create channels');
+      return null;
+    }
+
+    const name = normalizeChannelName(draft.name);
+    if (!isValidChannelName(name)) {
+      setError('Channel names use lowercase letters, numbers, dashes and underscores');
+      return null;
+    }
+    if (channels.some(channel => channel.name === name)) {
+      setError(`#${name} already exists`);
+      return null;
+    }
+
+    try {
+      // The id is generated here because a private channel isn't readable until
+      // the owner membership (added by a trigger) exists
+      const channelId = uuidv4();
+      const { error: insertError } = await supabase
+        .from('astra_team_channels')
+        .insert({
+          id: channelId,
+          name,
+          description: draft.description.trim() || null,
+          is_private: draft.isPrivate,
+          created_by: user.id
+        });
+
+      if (insertError) {
+        console.error('Error creating channel:', insertError);
+        setError(insertError.code === '23505' ? `#${name} already exists` : 'Failed to create channel');
+        return null;
+      }
+
+      const memberIds = draft.memberIds.filter(memberId => memberId !== user.id);
+      if (memberIds.length > 0) {
+        const { error: membersError } = await supabase
+          .from('astra_team_channel_members')
+          .insert(memberIds.map(memberId => ({ channel_id: channelId, user_id: memberId })));
+
+        if (membersError) {
+          console.error('Error adding channel members:', membersError);
+          setError('Channel created, but some members could not be added');
+        }
+      }
+
+      console.log('✅ Created team channel:', name);
+      const loaded = await fetchChannels();
+      const created = loaded.find(channel => channel.id === channelId) || null;
+      if (created) {
+        setActiveChannelId(created.id);
+        localStorage.setItem(getActiveChannelKey(user.id), created.id);
+      }
+      return created;
+    } catch (err) {
+      console.error('Error in createChannel:', err);
+      setError('Failed to create channel');
+      return null;
+    }
+  }, [user, channels, fetchChannels]);
+
+  const updateChannel = useCallback(async (channelId: string, updates: { name: string; description: string }): Promise<boolean> => {
+    const name = normalizeChannelName(updates.name);
+    if (!isValidChannelName(name)) {
+      setError('Channel names use lowercase letters, numbers, dashes and underscores');
+      return false;
+    }
+
+    try {
+      const { error: updateError } = await supabase
+        .from('astra_team_channels')
+        .update({ name, description: updates.description.trim() || null })
+        .eq('id', channelId);
+
+      if (updateError) {
+        console.error('Error updating channel:', updateError);
+        setError(updateError.code === '23505' ? `#${name} already exists` : 'Failed to update channel');
+        return false;
+      }
+
+      setChannels(prev => prev.map(channel =>
+        channel.id === channelId
+          ? { ...channel, name, description: updates.description.trim() || null }
+          : channel
+      ));
+      return true;
+    } catch (err) {
+      console.error('Error in updateChannel:', err);
+      setError('Failed to update channel');
+      return false;
+    }
+  }, []);
+
+  const deleteChannel = useCallback(async (channelId: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('astra_team_channels')
+        .delete()
+        .eq('id', channelId);
+
+      if (deleteError) {
+        console.error('Error deleting channel:', deleteError);
+        setError('Failed to delete channel');
+        return false;
+      }
+
+      setChannels(prev => prev.filter(channel => channel.id !== channelId));
+      if (activeChannelIdRef.current === channelId) {
+        setActiveChannelId(null);
+      }
+      return true;
+    } catch (err) {
+      console.error('Error in deleteChannel:', err);
+      setError('Failed to delete channel');
+      return false;
+    }
+  }, []);
+
+  const leaveChannel = useCallback(async (channelId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error: leaveError } = await supabase
+        .from('astra_team_channel_members')
+        .delete()
+        .eq('channel_id', channelId)
+        .eq('user_id', user.id);
+
+      if (leaveError) {
+        console.error('Error leaving channel:', leaveError);
+        setError('Failed to leave channel');
+        return false;
+      }
+
+      // Private channels disappear once you leave; public ones stay listed
+      setChannels(prev => prev
+        .filter(channel => !(channel.id === channelId && channel.isPrivate))
+        .map(channel => channel.id === channelId
+          ? { ...channel, isMember: false, isOwner: false, unreadCount: 0, memberCount: Math.max(channel.memberCount - 1, 0) }
+          : channel
+        )
+      );
+      if (activeChannelIdRef.current === channelId) {
+        setActiveChannelId(null);
+      }
+      return true;
+    } catch (err) {
+      console.error('Error in leaveChannel:', err);
+      setError('Failed to leave channel');
+      return false;
+    }
+  }, [user]);
+
+  const getChannelMemberIds = useCallback(async (channelId: string): Promise<string[]> => {
+    const { data, error: membersError } = await supabase
+      .from('astra_team_channel_members')
+      .select('user_id')
+      .eq('channel_id', channelId);
+
+    if (membersError) {
+      console.error('Error loading channel members:', membersError);
+      return [];
+    }
+    return (data || []).map(member => member.user_id);
+  }, []);
+
+  // Owners manage who belongs to a channel
+  const setChannelMembers = useCallback(async (channelId: string, memberIds: string[]): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const currentIds = await getChannelMemberIds(channelId);
+      const wanted = new Set([...memberIds, user.id]);
+      const toAdd = [...wanted].filter(memberId => !currentIds.includes(memberId));
+      const toRemove = currentIds.filter(memberId => !wanted.has(memberId));
+
+      if (toAdd.length > 0) {
+        const { error: addError } = await supabase
+          .from('astra_team_channel_members')
+          .insert(toAdd.map(memberId => ({ channel_id: channelId, user_id: memberId })));
+        if (addError) throw addError;
+      }
+
+      if (toRemove.length > 0) {
+        const { error: removeError } = await supabase
+          .from('astra_team_channel_members')
+          .delete()
+          .eq('channel_id', channelId)
+          .in('user_id', toRemove);
+        if (removeError) throw removeError;
+      }
+
+      setChannels(prev => prev.map(channel =>
+        channel.id === channelId ? { ...channel, memberCount: wanted.size } : channel
+      ));
+      return true;
+    } catch (err) {
+      console.error('Error updating channel members:', err);
+      setError('Failed to update channel members');
+      return false;
+    }
+  }, [user, getChannelMemberIds]);
+
+  // Load channels, join the default one and restore the last channel used
+  useEffect(() => {
+    if (!user) {
+      setChannels([]);
+      setActiveChannelId(null);
+      return;
+    }
+
+    fetchChannels().then(loaded => {
+      const defaultChannel = loaded.find(channel => channel.isDefault);
+      if (defaultChannel && !defaultChannel.isMember) {
+        joinChannel(defaultChannel.id);
+      }
+
+      const storedId = localStorage.getItem(getActiveChannelKey(user.id));
+      const restored = loaded.find(channel => channel.id === storedId && (channel.isMember || !channel.isPrivate));
+      setActiveChannelId(restored?.id || defaultChannel?.id || loaded[0]?.id || null);
+    });
+  }, [user, fetchChannels, joinChannel]);
+
+  // Fall back to the default channel when the active one goes away
+  useEffect(() => {
+    if (activeChannelId || channels.length === 0) return;
+    const fallback = channels.find(channel => channel.isDefault) || channels[0];
+    setActiveChannelId(fallback.id);
+  }, [activeChannelId, channels]);
+
+  // Count new messages in the other channels the user belongs to
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel('team_channel_unreads')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'astra_chats',
+        filter: 'mode=eq.team'
+      }, (payload) => {
+        const newMessage = payload.new as { channel_id: string | null; user_id: string };
+        if (!newMessage.channel_id || newMessage.user_id === user.id) return;
+        if (newMessage.channel_id === activeChannelIdRef.current) return;
+
+        setChannels(prev => prev.map(teamChannel =>
+          teamChannel.id === newMessage.channel_id && teamChannel.isMember
+            ? { ...teamChannel, unreadCount: teamChannel.unreadCount + 1 }
+            : teamChannel
+        ));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const activeChannel = channels.find(channel => channel.id === activeChannelId) || null;
+
+  return {
+    channels,
+    activeChannel,
+    loading,
+    error,
+    setError,
+    fetchChannels,
+    selectChannel,
+    createChannel,
+    updateChannel,
+    deleteChannel,
+    joinChannel,
+    leaveChannel,
+    getChannelMemberIds,
+    setChannelMembers,
+    markChannelRead
+  };
+};
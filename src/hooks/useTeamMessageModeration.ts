@@ -0,0 +1,140 @@
+import { useState, useCallback } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { MessageRevision, ModerationLogEntry } from '../types';
+
+type ModerationLogRow = Database['public']['Tables']['astra_moderation_log']['Row'];
+
+// Editing and removing team chat messages: authors edit and soft-delete their own,
+// admins hard-delete anything (logged). Changes reach the chat through realtime updates.
+export const useTeamMessageModeration = () => {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editMessage = useCallback(async (messageId: string, content: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const trimmed = content.trim();
+    if (!trimmed) {
+      setError('Message cannot be empty');
+      return false;
+    }
+
+    setSaving(true);
+    try {
+      const { error: editError } = await supabase.rpc('edit_team_message', {
+        p_message_id: messageId,
+        p_message: trimmed
+      });
+
+      if (editError) throw editError;
+
+      setError(null);
+      console.log('✏️ Team message edited:', messageId);
+      return true;
+    } catch (err) {
+      console.error('Error editing message:', err);
+      setError('Failed to edit message');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const deleteOwnMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error: deleteError } = await supabase.rpc('delete_own_team_message', {
+        p_message_id: messageId
+      });
+
+      if (deleteError) throw deleteError;
+
+      setError(null);
+      console.log('🗑️ Team message deleted by author:', messageId);
+      return true;
+    } catch (err) {
+      console.error('Error deleting own message:', err);
+      setError('Failed to delete message. Messages can only be deleted shortly after posting.');
+      return false;
+    }
+  }, [user]);
+
+  const adminDeleteMessage = useCallback(async (messageId: string, reason: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error: deleteError } = await supabase.rpc('admin_delete_team_message', {
+        p_message_id: messageId,
+        p_reason: reason.trim() || null
+      });
+
+      if (deleteError) throw deleteError;
+
+      setError(null);
+      console.log('🛡️ Team message removed by admin:', messageId);
+      return true;
+    } catch (err) {
+      console.error('Error removing message:', err);
+      setError('Failed to delete message');
+      return false;
+    }
+  }, [user]);
+
+  // Earlier versions of a message, newest first
+  const getRevisions = useCallback(async (messageId: string): Promise<MessageRevision[]> => {
+    const { data, error: fetchError } = await supabase
+      .from('astra_message_revisions')
+      .select('id, message_id, previous_message, edited_by, created_at')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('Error loading message history:', fetchError);
+      setError('Failed to load edit history');
+      return [];
+    }
+
+    return data || [];
+  }, []);
+
+  // Admin removals, newest first (RLS returns nothing to non-admins)
+  const fetchModerationLog = useCallback(async (limit = 100): Promise<ModerationLogEntry[]> => {
+    const { data, error: fetchError } = await supabase
+      .from('astra_moderation_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (fetchError) {
+      console.error('Error loading moderation log:', fetchError);
+      setError('Failed to load moderation log');
+      return [];
+    }
+
+    return (data || []).map((row: ModerationLogRow) => ({
+      id: row.id,
+      action: row.action,
+      message_id: row.message_id,
+      channel_id: row.channel_id,
+      message_author_name: row.message_author_name,
+      message_content: row.message_snapshot?.message || '',
+      reason: row.reason,
+      moderator_name: row.moderator_name,
+      created_at: row.created_at
+    }));
+  }, []);
+
+  return {
+    saving,
+    error,
+    setError,
+    editMessage,
+    deleteOwnMessage,
+    adminDeleteMessage,
+    getRevisions,
+    fetchModerationLog
+  };
+};
@@ -0,0 +1,217 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  AstraRequestLocation,
+  PresenceStatus,
+  TYPING_TIMEOUT_MS,
+  TeamMemberPresence,
+  TeamPresencePayload,
+  getPresenceStatus,
+  mergePresence
+} from '../lib/teamPresence';
+
+interface TypingEvent {
+  user_id: string;
+  user_name: string;
+  channel_id: string;
+  thread_root_id: string | null;
+  is_typing: boolean;
+}
+
+interface Typer {
+  userName: string;
+  channelId: string;
+  threadRootId: string | null;
+  expiresAt: number;
+}
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+const STATUS_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Who is in team chat (online, idle or away), who is typing where, and whose @astra
+// questions are still being answered. Presence is shared by the whole workspace;
+// typing goes out as broadcast events. astraRequest should be memoized.
+export const useTeamPresence = (channelId: string | null, astraRequest: AstraRequestLocation | null) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<TeamMemberPresence[]>([]);
+  const [typers, setTypers] = useState<Record<string, Typer>>({});
+  const [status, setStatus] = useState<PresenceStatus>('online');
+  const [userName, setUserName] = useState('');
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const onlineAtRef = useRef(new Date().toISOString());
+
+  // Display name shown to teammates
+  useEffect(() => {
+    if (!user) return;
+
+    const loadUserName = async () => {
+      const { data } = await supabase
+        .from('users')
+        .select('name')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      setUserName(data?.name || user.email?.split('@')[0] || 'Unknown User');
+    };
+
+    loadUserName();
+  }, [user]);
+
+  // Idle after a while without input, away when the tab is hidden or idle for longer
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+      if (!document.hidden) setStatus('online');
+    };
+    const refreshStatus = () => {
+      setStatus(getPresenceStatus(Date.now() - lastActivityRef.current, document.hidden));
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        refreshStatus();
+      } else {
+        markActive();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = setInterval(refreshStatus, STATUS_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, []);
+
+  // Join the workspace presence channel
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase.channel('team_presence', {
+      config: { presence: { key: user.id } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setMembers(mergePresence(channel.presenceState<TeamPresencePayload>()));
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const event = payload as TypingEvent;
+        if (event.user_id === user.id) return;
+
+        setTypers(prev => {
+          const next = { ...prev };
+          if (event.is_typing) {
+            next[event.user_id] = {
+              userName: event.user_name,
+              channelId: event.channel_id,
+              threadRootId: event.thread_root_id,
+              expiresAt: Date.now() + TYPING_TIMEOUT_MS
+            };
+          } else {
+            delete next[event.user_id];
+          }
+          return next;
+        });
+      })
+      .subscribe((subscriptionStatus) => {
+        setIsSubscribed(subscriptionStatus === 'SUBSCRIBED');
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      setIsSubscribed(false);
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  // Publish this tab's state whenever it changes
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!user || !channel || !isSubscribed || !userName) return;
+
+    const payload: TeamPresencePayload = {
+      user_id: user.id,
+      user_name: userName,
+      status,
+      channel_id: channelId,
+      astra_request: astraRequest,
+      online_at: onlineAtRef.current
+    };
+
+    const trackPresence = async () => {
+      const result = await channel.track(payload);
+      if (result !== 'ok') {
+        console.error('Error updating team presence:', result);
+      }
+    };
+
+    trackPresence();
+  }, [user, isSubscribed, userName, status, channelId, astraRequest]);
+
+  // Drop typers whose last event is too old (closed tab, lost connection)
+  useEffect(() => {
+    if (Object.keys(typers).length === 0) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setTypers(prev => {
+        const expired = Object.keys(prev).filter(userId => prev[userId].expiresAt <= now);
+        if (expired.length === 0) return prev;
+        const next = { ...prev };
+        expired.forEach(userId => delete next[userId]);
+        return next;
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [typers]);
+
+  // Called by the composer, already throttled
+  const notifyTyping = useCallback((isTyping: boolean, threadRootId: string | null = null) => {
+    const channel = channelRef.current;
+    if (!user || !channel || !isSubscribed || !userName || !channelId) return;
+
+    const payload: TypingEvent = {
+      user_id: user.id,
+      user_name: userName,
+      channel_id: channelId,
+      thread_root_id: threadRootId,
+      is_typing: isTyping
+    };
+
+    channel.send({ type: 'broadcast', event: 'typing', payload });
+  }, [user, isSubscribed, userName, channelId]);
+
+  // Teammates typing in the current channel, or in one of its threads
+  const getTypingNames = useCallback((threadRootId: string | null = null): string[] =>
+    Object.values(typers)
+      .filter(typer => typer.channelId === channelId && typer.threadRootId === threadRootId)
+      .map(typer => typer.userName),
+  [typers, channelId]);
+
+  // Teammates waiting on Astra in the current channel, or in one of its threads
+  const getAstraRequesters = useCallback((threadRootId: string | null = null): string[] =>
+    members
+      .filter(member => member.userId !== user?.id && member.astraRequests.some(request =>
+        request.channelId === channelId && request.threadRootId === threadRootId
+      ))
+      .map(member => member.userName),
+  [members, user, channelId]);
+
+  return {
+    onlineMembers: members,
+    status,
+    notifyTyping,
+    getTypingNames,
+    getAstraRequesters
+  };
+};
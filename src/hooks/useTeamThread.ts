@@ -0,0 +1,194 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { GroupMessage } from '../types';
+import { TEAM_MESSAGE_COLUMNS, TeamChatRow, toGroupMessage } from '../lib/teamThreads';
+
+// One team chat thread: its parent message, replies and the user's subscription to it
+export const useTeamThread = (rootId: string | null) => {
+  const { user } = useAuth();
+  const [rootMessage, setRootMessage] = useState<GroupMessage | null>(null);
+  const [replies, setReplies] = useState<GroupMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [updatingSubscription, setUpdatingSubscription] = useState(false);
+  // Results for a thread the user has already closed are dropped
+  const rootIdRef = useRef(rootId);
+  rootIdRef.current = rootId;
+
+  const fetchThread = useCallback(async () => {
+    if (!rootId) return;
+
+    setLoading(true);
+    try {
+      const [rootResult, repliesResult] = await Promise.all([
+        supabase
+          .from('astra_chats')
+          .select(TEAM_MESSAGE_COLUMNS)
+          .eq('id', rootId)
+          .maybeSingle(),
+        supabase
+          .from('astra_chats')
+          .select(TEAM_MESSAGE_COLUMNS)
+          .eq('thread_root_id', rootId)
+          .order('created_at', { ascending: true })
+      ]);
+
+      if (rootIdRef.current !== rootId) return;
+
+      if (rootResult.error || repliesResult.error) {
+        console.error('Error loading thread:', rootResult.error || repliesResult.error);
+        setError('Failed to load thread');
+        return;
+      }
+
+      if (!rootResult.data) {
+        setError('This message was deleted');
+        setRootMessage(null);
+        setReplies([]);
+        return;
+      }
+
+      setRootMessage(toGroupMessage(rootResult.data));
+      setReplies((repliesResult.data || []).map(toGroupMessage));
+      setError(null);
+    } catch (err) {
+      console.error('Error in fetchThread:', err);
+      setError('Failed to load thread');
+    } finally {
+      setLoading(false);
+    }
+  }, [rootId]);
+
+  const fetchSubscription = useCallback(async () => {
+    if (!rootId || !user) return;
+
+    const { data, error: subscriptionError } = await supabase
+      .from('astra_thread_subscriptions')
+      .select('is_subscribed')
+      .eq('thread_root_id', rootId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (subscriptionError) {
+      console.error('Error loading thread subscription:', subscriptionError);
+      return;
+    }
+    if (rootIdRef.current === rootId) {
+      setIsSubscribed(data?.is_subscribed || false);
+    }
+  }, [rootId, user]);
+
+  // Follow or unfollow the thread; the row is kept so replying doesn't resubscribe
+  const toggleSubscription = useCallback(async () => {
+    if (!rootId || !user) return;
+
+    const next = !isSubscribed;
+    setUpdatingSubscription(true);
+    try {
+      const { error: upsertError } = await supabase
+        .from('astra_thread_subscriptions')
+        .upsert(
+          { thread_root_id: rootId, user_id: user.id, is_subscribed: next, last_read_at: new Date().toISOString() },
+          { onConflict: 'thread_root_id,user_id' }
+        );
+
+      if (upsertError) {
+        console.error('Error updating thread subscription:', upsertError);
+        setError('Failed to update thread notifications');
+        return;
+      }
+
+      setIsSubscribed(next);
+      console.log(next ? '🔔 Following thread:' : '🔕 Unfollowed thread:', rootId);
+    } catch (err) {
+      console.error('Error in toggleSubscription:', err);
+      setError('Failed to update thread notifications');
+    } finally {
+      setUpdatingSubscription(false);
+    }
+  }, [rootId, user, isSubscribed]);
+
+  const markThreadRead = useCallback(async () => {
+    if (!rootId || !user) return;
+
+    const { error: readError } = await supabase
+      .from('astra_thread_subscriptions')
+      .update({ last_read_at: new Date().toISOString() })
+      .eq('thread_root_id', rootId)
+      .eq('user_id', user.id);
+
+    if (readError) {
+      console.error('Error marking thread as read:', readError);
+    }
+  }, [rootId, user]);
+
+  // Load the thread whenever a different one is opened
+  useEffect(() => {
+    setRootMessage(null);
+    setReplies([]);
+    setIsSubscribed(false);
+    setError(null);
+
+    if (user && rootId) {
+      fetchThread();
+      fetchSubscription();
+    }
+  }, [user, rootId, fetchThread, fetchSubscription]);
+
+  // New replies, and changes to the parent and replies (edits, reply count, visualizations)
+  useEffect(() => {
+    if (!user || !rootId) return;
+
+    const channel = supabase
+      .channel(`astra_thread_${rootId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'astra_chats',
+        filter: `thread_root_id=eq.${rootId}`
+      }, (payload) => {
+        const reply = toGroupMessage(payload.new as TeamChatRow);
+        setReplies(prev => prev.some(msg => msg.id === reply.id) ? prev : [...prev, reply]);
+        // Replying subscribes the user, so pick that up
+        if (reply.user_id === user.id) {
+          fetchSubscription();
+        }
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'astra_chats',
+        filter: `id=eq.${rootId}`
+      }, (payload) => {
+        setRootMessage(toGroupMessage(payload.new as TeamChatRow));
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'astra_chats',
+        filter: `thread_root_id=eq.${rootId}`
+      }, (payload) => {
+        const reply = toGroupMessage(payload.new as TeamChatRow);
+        setReplies(prev => prev.map(msg => msg.id === reply.id ? reply : msg));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, rootId, fetchSubscription]);
+
+  return {
+    rootMessage,
+    replies,
+    loading,
+    error,
+    isSubscribed,
+    updatingSubscription,
+    fetchThread,
+    toggleSubscription,
+    markThreadRead
+  };
+};
@@ -0,0 +1,43 @@
+import {
+  createAstraProvider,
+  createEdgeFunctionProvider,
+  getProviderConfigError,
+  parsePositiveInt,
+  parseProviderName,
+  SERVER_SIDE_PROVIDERS,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TIMEOUT_MS
+} from '../../supabase/functions/_shared/astra/index.ts';
+import type { AstraProviderConfig } from '../../supabase/functions/_shared/astra/index.ts';
+import { getFunctionHeaders, getFunctionUrl } from './edgeFunctions';
+
+// The backend that answers as Astra in private chat, team chat and reports.
+// The implementations live with the edge functions so both sides share them.
+// VITE_ASTRA_PROVIDER picks one (n8n by default); `mock` needs no network at all.
+// Gemini and OpenAI are reached through the astra-chat edge function, which holds
+// their API keys, so no provider key is ever built into the browser bundle.
+
+export * from '../../supabase/functions/_shared/astra/index.ts';
+
+const config: AstraProviderConfig = {
+  provider: parseProviderName(import.meta.env.VITE_ASTRA_PROVIDER),
+  n8nWebhookUrl: import.meta.env.VITE_N8N_WEBHOOK_URL,
+  timeoutMs: parsePositiveInt(import.meta.env.VITE_WEBHOOK_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+  maxRetries: parsePositiveInt(import.meta.env.VITE_WEBHOOK_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+  mockDelayMs: 30
+};
+
+const isServerSide = SERVER_SIDE_PROVIDERS.includes(config.provider);
+
+export const astraProvider = isServerSide
+  ? createEdgeFunctionProvider(config.provider, {
+    functionUrl: getFunctionUrl('astra-chat'),
+    getHeaders: getFunctionHeaders,
+    timeoutMs: config.timeoutMs,
+    maxRetries: config.maxRetries
+  })
+  : createAstraProvider(config);
+
+// Shown instead of sending when the selected provider is missing its settings.
+// The edge function checks its own secrets and reports what is missing.
+export const astraProviderConfigError = isServerSide ? null : getProviderConfigError(config);
@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import { AttachmentKind, MessageAttachment } from '../types';
+
+// Documents and spreadsheets attached to private chat questions.
+//
+// Files are uploaded to the private chat-attachments bucket under the user's folder and
+// their text is extracted in the browser, so the webhook gets a typed reference plus
+// readable content without having to parse PDFs or spreadsheets itself. Only a reference
+// and a short preview are stored with the message; the text is re-extracted from the
+// stored file when the question is sent again (regenerate or edit).
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+// Keeps a large spreadsheet from blowing up the request (and the model's context)
+export const MAX_EXTRACTED_CHARS = 20000;
+export const ATTACHMENT_PREVIEW_CHARS = 500;
+
+const ATTACHMENTS_BUCKET = 'chat-attachments';
+// Long enough for the webhook to fetch the file while it answers
+const SIGNED_URL_EXPIRES_IN = 60 * 60;
+// Attachments sent before the private bucket existed live in the public chat-media bucket
+const LEGACY_BUCKET = 'chat-media';
+const LEGACY_PATH_PREFIX = 'private-chat-attachments/';
+
+const getBucket = (path: string): string =>
+  path.startsWith(LEGACY_PATH_PREFIX) ? LEGACY_BUCKET : ATTACHMENTS_BUCKET;
+
+const KIND_BY_EXTENSION: Record<string, AttachmentKind> = {
+  pdf: 'pdf',
+  csv: 'csv',
+  xlsx: 'xlsx',
+  txt: 'text',
+  md: 'text',
+  json: 'text',
+  tsv: 'text'
+};
+
+// Value for the file input's `accept` attribute
+export const ATTACHMENT_ACCEPT = Object.keys(KIND_BY_EXTENSION).map(extension => `.${extension}`).join(',');
+
+const getExtension = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const getAttachmentKind = (file: File): AttachmentKind | null =>
+  KIND_BY_EXTENSION[getExtension(file.name)] || null;
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Reason a file can't be attached, or null when it can
+export const validateAttachment = (file: File, attachedCount: number): string | null => {
+  if (attachedCount >= MAX_ATTACHMENTS) {
+    return `You can attach up to ${MAX_ATTACHMENTS} files per message.`;
+  }
+  if (!getAttachmentKind(file)) {
+    return `${file.name} is not supported. Attach a PDF, CSV, Excel or text file.`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`;
+  }
+  return null;
+};
+
+// The parsers are large, so they are only loaded once someone attaches that kind of file
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  let length = 0;
+  for (let pageNumber = 1; pageNumber <= pdf.numPages && length < MAX_EXTRACTED_CHARS; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+      .join('')
+      .trim();
+    pages.push(`--- Page ${pageNumber} ---\n${text}`);
+    length += text.length;
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+// Quote a cell the way CSV expects when it contains a separator, quote or line break
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// read-excel-file only reads .xlsx, so legacy .xls workbooks are not accepted
+const extractSpreadsheetText = async (file: File): Promise<string> => {
+  const { default: readXlsxFile } = await import('read-excel-file/browser');
+  const sheets = await readXlsxFile(file);
+  return sheets
+    .map(({ sheet, data }) => `--- Sheet: ${sheet} ---\n${data.map(row => row.map(toCsvCell).join(',')).join('\n')}`)
+    .join('\n\n');
+};
+
+export const extractAttachmentText = async (
+  file: File,
+  kind: AttachmentKind
+): Promise<{ text: string; truncated: boolean }> => {
+  const text = kind === 'pdf'
+    ? await extractPdfText(file)
+    : kind === 'xlsx'
+      ? await extractSpreadsheetText(file)
+      : await file.text();
+
+  return text.length > MAX_EXTRACTED_CHARS
+    ? { text: text.substring(0, MAX_EXTRACTED_CHARS), truncated: true }
+    : { text, truncated: false };
+};
+
+// A link to the stored file, or null if it can't be created
+export const getAttachmentUrl = async (attachment: MessageAttachment): Promise<string | null> => {
+  const bucket = getBucket(attachment.path);
+  if (bucket === LEGACY_BUCKET) {
+    return supabase.storage.from(bucket).getPublicUrl(attachment.path).data.publicUrl;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(attachment.path, SIGNED_URL_EXPIRES_IN);
+
+  if (error || !data) {
+    console.error('Error creating attachment URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+// Upload a file and extract its text, ready to send with a question
+export const prepareAttachment = async (file: File, userId: string): Promise<MessageAttachment> => {
+  const kind = getAttachmentKind(file);
+  if (!kind) {
+    throw new Error(`${file.name} is not a supported file type`);
+  }
+
+  const { text, truncated } = await extractAttachmentText(file, kind);
+
+  const id = uuidv4();
+  const path = `${userId}/${id}.${getExtension(file.name)}`;
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (uploadError) {
+    console.error('Error uploading attachment:', uploadError);
+    throw new Error(`Failed to upload ${file.name}`);
+  }
+
+  const attachment: MessageAttachment = {
+    id,
+    name: file.name,
+    kind,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    path,
+    extractedText: text,
+    truncated
+  };
+
+  const url = await getAttachmentUrl(attachment);
+  if (!url) {
+    throw new Error(`Failed to upload ${file.name}`);
+  }
+
+  console.log('📎 Attachment ready:', { name: file.name, kind, chars: text.length, truncated });
+
+  return { ...attachment, url };
+};
+
+// The copy kept in the message metadata: no link (it expires) and only the start of the text
+export const toStoredAttachment = (attachment: MessageAttachment): MessageAttachment => {
+  const { id, name, kind, mimeType, size, path, truncated } = attachment;
+  const textPreview = attachment.textPreview ?? attachment.extractedText?.substring(0, ATTACHMENT_PREVIEW_CHARS);
+  return { id, name, kind, mimeType, size, path, truncated, ...(textPreview ? { textPreview } : {}) };
+};
+
+// Fill in the link and text of a stored attachment so it can be sent again
+export const loadAttachment = async (
+  attachment: MessageAttachment
+): Promise<MessageAttachment & { url: string }> => {
+  if (attachment.url && attachment.extractedText !== undefined) {
+    return { ...attachment, url: attachment.url };
+  }
+
+  const { data: blob, error } = await supabase.storage
+    .from(getBucket(attachment.path))
+    .download(attachment.path);
+  const url = await getAttachmentUrl(attachment);
+
+  if (error || !blob || !url) {
+    console.error('Error loading attachment:', error);
+    throw new Error(`Failed to load ${attachment.name}`);
+  }
+
+  const file = new File([blob], attachment.name, { type: attachment.mimeType });
+  const { text, truncated } = await extractAttachmentText(file, attachment.kind);
+  return { ...attachment, url, extractedText: text, truncated };
+};
+
+// Remove an upload that was never sent
+export const deleteAttachment = async (attachment: MessageAttachment): Promise<void> => {
+  const { error } = await supabase.storage
+    .from(getBucket(attachment.path))
+    .remove([attachment.path]);
+
+  if (error) {
+    console.error('Error deleting attachment:', error);
+  }
+};
+
+// Attachments are stored in the user message's metadata; older rows have none
+export const getMessageAttachments = (metadata: unknown): MessageAttachment[] => {
+  const attachments = metadata && typeof metadata === 'object'
+    ? (metadata as { attachments?: unknown }).attachments
+    : undefined;
+  return Array.isArray(attachments) ? attachments as MessageAttachment[] : [];
+};
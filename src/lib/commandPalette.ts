@@ -0,0 +1,63 @@
+import { ShortcutId } from './keyboardShortcuts';
+
+export type PaletteGroup = 'Actions' | 'Conversations' | 'Reports' | 'Saved prompts';
+
+export const PALETTE_GROUPS: PaletteGroup[] = ['Actions', 'Conversations', 'Reports', 'Saved prompts'];
+
+export interface PaletteItem {
+  id: string;
+  group: PaletteGroup;
+  title: string;
+  subtitle?: string;
+  // Extra words to match that aren't shown, e.g. "private" for "New chat"
+  keywords?: string;
+  shortcut?: ShortcutId;
+  perform: () => void;
+}
+
+const MAX_ITEMS_PER_GROUP = 6;
+
+// Scores `query` as an in-order subsequence of `text`; null when it doesn't match.
+// Consecutive characters and word starts score higher, so "nc" ranks "New chat" above "Launch".
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return 0;
+
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let position = -1;
+  let streak = 0;
+
+  for (const char of needle) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next === -1) return null;
+
+    const atWordStart = next === 0 || /[\s\-_/.]/.test(haystack[next - 1]);
+    streak = next === position + 1 ? streak + 1 : 0;
+    score += 1 + streak * 2 + (atWordStart ? 3 : 0) - Math.min(next - position - 1, 3) * 0.5;
+    position = next;
+  }
+
+  // Prefer shorter texts when the match quality is otherwise equal
+  return score - haystack.length * 0.01;
+};
+
+// Best matches first, capped per group and returned in group order
+export const searchPaletteItems = (items: PaletteItem[], query: string): PaletteItem[] => {
+  const scored = items
+    .map(item => {
+      const titleScore = fuzzyScore(query, item.title);
+      const extraScore = fuzzyScore(query, `${item.subtitle || ''} ${item.keywords || ''}`);
+      const score = titleScore ?? (extraScore === null ? null : extraScore - 5);
+      return { item, score };
+    })
+    .filter((entry): entry is { item: PaletteItem; score: number } => entry.score !== null);
+
+  return PALETTE_GROUPS.flatMap(group =>
+    scored
+      .filter(entry => entry.item.group === group)
+      .sort((a, b) => query.trim() ? b.score - a.score : 0)
+      .slice(0, MAX_ITEMS_PER_GROUP)
+      .map(entry => entry.item)
+  );
+};
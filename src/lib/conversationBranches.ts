@@ -0,0 +1,72 @@
+// Private conversations are stored as a tree: each astra_chats row points at the
+// message it follows (previous_message_id). Regenerating an answer or editing a
+// prompt adds a sibling, and is_active_branch marks the selected sibling.
+
+export interface BranchNode {
+  id: string;
+  createdAt: string;
+  previousMessageId?: string | null;
+  isActiveBranch?: boolean;
+}
+
+export interface BranchInfo {
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+const byCreatedAt = (a: BranchNode, b: BranchNode) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+// Group messages by the message they follow, oldest sibling first
+const groupByPrevious = <T extends BranchNode>(messages: T[]): Map<string | null, T[]> => {
+  const children = new Map<string | null, T[]>();
+  [...messages].sort(byCreatedAt).forEach(message => {
+    const key = message.previousMessageId || null;
+    children.set(key, [...(children.get(key) || []), message]);
+  });
+  return children;
+};
+
+// Walk the tree from the root, following the selected sibling at every level.
+// If no sibling is marked active the newest one wins.
+export const buildActivePath = <T extends BranchNode>(messages: T[]): T[] => {
+  const children = groupByPrevious(messages);
+  const path: T[] = [];
+  const visited = new Set<string>();
+  let previousId: string | null = null;
+
+  for (;;) {
+    const siblings = children.get(previousId);
+    if (!siblings || siblings.length === 0) break;
+
+    const selected = [...siblings].reverse().find(message => message.isActiveBranch !== false)
+      || siblings[siblings.length - 1];
+    if (visited.has(selected.id)) break;
+
+    visited.add(selected.id);
+    path.push(selected);
+    previousId = selected.id;
+  }
+
+  return path;
+};
+
+export const getBranchInfo = <T extends BranchNode>(messages: T[], messageId: string): BranchInfo | null => {
+  const message = messages.find(m => m.id === messageId);
+  if (!message) return null;
+
+  const siblingIds = messages
+    .filter(m => (m.previousMessageId || null) === (message.previousMessageId || null))
+    .sort(byCreatedAt)
+    .map(m => m.id);
+
+  return { index: siblingIds.indexOf(messageId), count: siblingIds.length, siblingIds };
+};
+
+// The active path up to and including the given message (an empty path for null)
+export const getPathThrough = <T extends BranchNode>(path: T[], messageId: string | null): T[] => {
+  if (!messageId) return [];
+  const index = path.findIndex(message => message.id === messageId);
+  return index === -1 ? path : path.slice(0, index + 1);
+};
@@ -0,0 +1,191 @@
+import { generateText } from './textGeneration';
+
+// Builds the multi-turn context that is sent to the n8n webhook alongside each
+// private chat question, so follow-ups like "break that down by month" work.
+//
+// The most recent turns are sent verbatim while they fit in the token budget
+// (the latest exchange always goes, truncated if needed). Anything older is folded
+// into a running summary that is extended in the background and stored per conversation.
+
+export interface HistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationContext {
+  history: HistoryTurn[];
+  summary: string | null;
+  summarizedCount: number;
+  // Enough older turns are missing from the stored summary to be worth a summarize call
+  needsSummaryUpdate: boolean;
+}
+
+export interface SummaryCacheEntry {
+  summarizedCount: number;
+  summary: string;
+  // Last message the summary covers, so a summary from another branch is not reused
+  throughMessageId?: string | null;
+}
+
+interface ContextMessage {
+  id?: string;
+  message: string;
+  isUser: boolean;
+}
+
+export const MAX_HISTORY_TURNS = 20;
+export const HISTORY_TOKEN_BUDGET = 3000;
+export const SUMMARY_TOKEN_BUDGET = 500;
+// Turns that leave the window are only summarized with Gemini in batches of this size;
+// until then they are sent as a short extract
+export const SUMMARY_BATCH_MESSAGES = 6;
+
+// Rough token estimate - good enough for budgeting without a tokenizer
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const toTurn = (message: ContextMessage): HistoryTurn => ({
+  role: message.isUser ? 'user' : 'assistant',
+  content: message.message
+});
+
+const truncateToTokens = (text: string, tokens: number): string => {
+  const maxChars = Math.max(tokens, 1) * 4;
+  return text.length > maxChars ? text.substring(0, maxChars) + '\n[truncated]' : text;
+};
+
+// Split messages into the recent window (sent verbatim) and the older part (summarized)
+export const splitHistory = (
+  messages: ContextMessage[],
+  tokenBudget: number = HISTORY_TOKEN_BUDGET,
+  maxTurns: number = MAX_HISTORY_TURNS
+): { recent: ContextMessage[]; older: ContextMessage[] } => {
+  let usedTokens = 0;
+  let startIndex = messages.length;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i].message);
+    if (messages.length - i > maxTurns || usedTokens + tokens > tokenBudget) break;
+    usedTokens += tokens;
+    startIndex = i;
+  }
+
+  // Follow-ups refer to the latest exchange, so keep it even when it is over budget
+  const lastExchangeStart = Math.max(
+    messages.length >= 2 && messages[messages.length - 2].isUser && !messages[messages.length - 1].isUser
+      ? messages.length - 2
+      : messages.length - 1,
+    0
+  );
+  if (startIndex > lastExchangeStart) {
+    const lastExchange = messages.slice(lastExchangeStart);
+    const perMessageBudget = Math.floor(tokenBudget / lastExchange.length);
+    return {
+      recent: lastExchange.map(message => ({ ...message, message: truncateToTokens(message.message, perMessageBudget) })),
+      older: messages.slice(0, lastExchangeStart)
+    };
+  }
+
+  return {
+    recent: messages.slice(startIndex),
+    older: messages.slice(0, startIndex)
+  };
+};
+
+// A stored summary only applies if it covers a prefix of these older turns
+const getUsableSummary = (
+  older: ContextMessage[],
+  cachedSummary?: SummaryCacheEntry | null
+): SummaryCacheEntry | null => {
+  if (!cachedSummary || cachedSummary.summarizedCount === 0 || cachedSummary.summarizedCount > older.length) {
+    return null;
+  }
+  const lastCovered = older[cachedSummary.summarizedCount - 1];
+  if (cachedSummary.throughMessageId && lastCovered.id && cachedSummary.throughMessageId !== lastCovered.id) {
+    return null;
+  }
+  return cachedSummary;
+};
+
+// Fallback summary used when Gemini is unavailable: the opening of each older turn
+const buildExtractiveSummary = (messages: ContextMessage[]): string => {
+  const maxChars = SUMMARY_TOKEN_BUDGET * 4;
+  const perTurnChars = Math.max(80, Math.floor(maxChars / Math.max(messages.length, 1)));
+
+  const lines = messages.map(message => {
+    const speaker = message.isUser ? 'User' : 'Astra';
+    const text = message.message.replace(/\s+/g, ' ').trim();
+    return `${speaker}: ${text.length > perTurnChars ? text.substring(0, perTurnChars) + '...' : text}`;
+  });
+
+  return lines.join('\n').substring(0, maxChars);
+};
+
+export const summarizeConversation = async (
+  messages: ContextMessage[],
+  previousSummary?: string
+): Promise<string> => {
+  const transcript = messages
+    .map(message => `${message.isUser ? 'User' : 'Astra'}: ${message.message}`)
+    .join('\n\n');
+
+  const prompt = `Summarize the earlier part of this conversation between a user and Astra, an AI assistant, in under ${SUMMARY_TOKEN_BUDGET} tokens.
+Keep the facts, figures, names, date ranges and decisions needed to answer follow-up questions. Do not add commentary.
+${previousSummary ? `\nSummary of the conversation before this excerpt:\n${previousSummary}\n` : ''}
+Conversation:
+${transcript}`;
+
+  const summary = await generateText(prompt, { temperature: 0.2, maxOutputTokens: SUMMARY_TOKEN_BUDGET * 2 });
+  return summary || buildExtractiveSummary(messages);
+};
+
+// Build the history window for a conversation without waiting on Gemini: the stored
+// summary is used as is, and turns it doesn't cover yet are added as a short extract
+export const buildConversationContext = (
+  messages: ContextMessage[],
+  cachedSummary?: SummaryCacheEntry | null
+): ConversationContext => {
+  const { recent, older } = splitHistory(messages);
+  const history = recent.map(toTurn);
+
+  if (older.length === 0) {
+    return { history, summary: null, summarizedCount: 0, needsSummaryUpdate: false };
+  }
+
+  const usableSummary = getUsableSummary(older, cachedSummary);
+  const summarizedCount = usableSummary?.summarizedCount || 0;
+  const unsummarized = older.slice(summarizedCount);
+
+  if (unsummarized.length === 0) {
+    return { history, summary: usableSummary?.summary || null, summarizedCount, needsSummaryUpdate: false };
+  }
+
+  const summary = [usableSummary?.summary, buildExtractiveSummary(unsummarized)]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    history,
+    summary,
+    summarizedCount,
+    needsSummaryUpdate: unsummarized.length >= SUMMARY_BATCH_MESSAGES
+  };
+};
+
+// Extend the stored summary with the turns that have left the window since it was written.
+// Meant to run in the background after a question has been sent.
+export const extendConversationSummary = async (
+  messages: ContextMessage[],
+  cachedSummary?: SummaryCacheEntry | null
+): Promise<SummaryCacheEntry | null> => {
+  const { older } = splitHistory(messages);
+  const usableSummary = getUsableSummary(older, cachedSummary);
+  const summarizedCount = usableSummary?.summarizedCount || 0;
+  if (older.length <= summarizedCount) return null;
+
+  const summary = await summarizeConversation(older.slice(summarizedCount), usableSummary?.summary);
+  return {
+    summarizedCount: older.length,
+    summary,
+    throughMessageId: older[older.length - 1].id || null
+  };
+};
@@ -0,0 +1,259 @@
+import { Database } from './supabase';
+import { buildActivePath } from './conversationBranches';
+
+// Converts private conversations to Markdown, lossless JSON and printable HTML,
+// and parses JSON exports back for import.
+
+type ChatRow = Database['public']['Tables']['astra_chats']['Row'];
+
+export type ExportFormat = 'markdown' | 'json' | 'print';
+
+export const CONVERSATION_EXPORT_FORMAT = 'astra-conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export interface ConversationExportMessage {
+  id: string;
+  message_type: string;
+  message: string;
+  user_name: string;
+  user_email: string;
+  created_at: string;
+  parent_message_id: string | null;
+  previous_message_id: string | null;
+  is_active_branch: boolean;
+  metadata: Record<string, unknown>;
+  tokens_used: Record<string, unknown>;
+  model_used: string | null;
+  response_time_ms: number;
+  astra_prompt: string | null;
+  mentions: unknown[];
+  visualization: boolean;
+  visualization_data: string | null;
+}
+
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  conversation: {
+    id: string;
+    title: string;
+    folder: string | null;
+    tags: string[];
+  };
+  messages: ConversationExportMessage[];
+}
+
+export const buildConversationExport = (
+  conversation: ConversationExport['conversation'],
+  rows: ChatRow[]
+): ConversationExport => ({
+  format: CONVERSATION_EXPORT_FORMAT,
+  version: CONVERSATION_EXPORT_VERSION,
+  exported_at: new Date().toISOString(),
+  conversation,
+  messages: rows.map(row => ({
+    id: row.id,
+    message_type: row.message_type,
+    message: row.message,
+    user_name: row.user_name,
+    user_email: row.user_email,
+    created_at: row.created_at,
+    parent_message_id: row.parent_message_id,
+    previous_message_id: row.previous_message_id,
+    is_active_branch: row.is_active_branch,
+    metadata: row.metadata || {},
+    tokens_used: row.tokens_used || {},
+    model_used: row.model_used,
+    response_time_ms: row.response_time_ms,
+    astra_prompt: row.astra_prompt,
+    mentions: row.mentions || [],
+    visualization: row.visualization,
+    visualization_data: row.visualization_data
+  }))
+});
+
+// The messages the user currently sees: the selected branch at every level
+const getActiveMessages = (data: ConversationExport): ConversationExportMessage[] =>
+  buildActivePath(data.messages.map(message => ({
+    ...message,
+    createdAt: message.created_at,
+    previousMessageId: message.previous_message_id,
+    isActiveBranch: message.is_active_branch
+  })));
+
+const formatTimestamp = (value: string): string =>
+  new Date(value).toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const speakerName = (message: ConversationExportMessage): string =>
+  message.message_type === 'user' ? message.user_name || 'You' : 'Astra';
+
+const quoteSnippet = (text: string, maxLength: number = 200): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? singleLine.substring(0, maxLength) + '...' : singleLine;
+};
+
+export const toMarkdown = (data: ConversationExport): string => {
+  const messages = getActiveMessages(data);
+  const byId = new Map(data.messages.map(message => [message.id, message]));
+
+  const lines: string[] = [
+    `# ${data.conversation.title}`,
+    '',
+    `_Exported from Astra Intelligence on ${formatTimestamp(data.exported_at)}_`,
+    ''
+  ];
+
+  if (data.conversation.folder || data.conversation.tags.length > 0) {
+    const details = [
+      data.conversation.folder ? `Folder: ${data.conversation.folder}` : null,
+      data.conversation.tags.length > 0 ? `Tags: ${data.conversation.tags.map(tag => `#${tag}`).join(' ')}` : null
+    ].filter(Boolean);
+    lines.push(`_${details.join(' · ')}_`, '');
+  }
+
+  messages.forEach(message => {
+    lines.push('---', '', `### ${message.message_type === 'user' ? '🧑' : '🚀'} ${speakerName(message)} · ${formatTimestamp(message.created_at)}`, '');
+
+    const parent = message.parent_message_id ? byId.get(message.parent_message_id) : undefined;
+    if (message.parent_message_id) {
+      lines.push(
+        parent
+          ? `> Replying to ${speakerName(parent)}: ${quoteSnippet(parent.message)}`
+          : '> Replying to a message that is no longer available',
+        ''
+      );
+    }
+
+    lines.push(message.message, '');
+
+    if (message.visualization_data) {
+      lines.push('_A visualization was generated for this answer (included in the JSON export)._', '');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+export const toJson = (data: ConversationExport): string => JSON.stringify(data, null, 2);
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// A standalone, print-optimized HTML document. Visualizations are embedded in
+// sandboxed iframes so their scripts and styles cannot reach the page.
+export const toPrintableHtml = (data: ConversationExport): string => {
+  const messages = getActiveMessages(data);
+  const byId = new Map(data.messages.map(message => [message.id, message]));
+
+  const body = messages.map(message => {
+    const isUser = message.message_type === 'user';
+    const parent = message.parent_message_id ? byId.get(message.parent_message_id) : undefined;
+    const reply = message.parent_message_id
+      ? `<blockquote>${parent
+        ? `Replying to ${escapeHtml(speakerName(parent))}: ${escapeHtml(quoteSnippet(parent.message))}`
+        : 'Replying to a message that is no longer available'}</blockquote>`
+      : '';
+    const visualization = message.visualization_data
+      ? `<iframe class="visualization" sandbox="allow-scripts" srcdoc="${escapeHtml(message.visualization_data)}"></iframe>`
+      : '';
+
+    return `<section class="message ${isUser ? 'user' : 'astra'}">
+  <header><strong>${escapeHtml(speakerName(message))}</strong><span>${escapeHtml(formatTimestamp(message.created_at))}</span></header>
+  ${reply}
+  <div class="text">${escapeHtml(message.message)}</div>
+  ${visualization}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(data.conversation.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 800px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 12px; margin-bottom: 24px; }
+  .message { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; page-break-inside: avoid; }
+  .message.user { background: #eff6ff; border-color: #bfdbfe; }
+  .message header { display: flex; justify-content: space-between; font-size: 12px; color: #6b7280; margin-bottom: 6px; }
+  .message header strong { color: #111827; }
+  .text { white-space: pre-wrap; font-size: 14px; }
+  blockquote { margin: 0 0 8px; padding: 4px 10px; border-left: 3px solid #93c5fd; color: #4b5563; font-size: 12px; }
+  .visualization { width: 100%; height: 480px; border: 1px solid #e5e7eb; border-radius: 6px; margin-top: 10px; }
+  @media print {
+    body { margin: 0 auto; }
+    .message { break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(data.conversation.title)}</h1>
+<div class="meta">Exported from Astra Intelligence on ${escapeHtml(formatTimestamp(data.exported_at))}</div>
+${body}
+</body>
+</html>`;
+};
+
+// Validate an uploaded JSON export; throws with a user-facing message when invalid
+export const parseConversationExport = (text: string): ConversationExport => {
+  let parsed: Partial<ConversationExport> | null;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!parsed || parsed.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error('The file is not an Astra conversation export.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error('This export was created by a newer version of Astra and cannot be imported.');
+  }
+  if (!Array.isArray(parsed.messages) || parsed.messages.length === 0) {
+    throw new Error('The export does not contain any messages.');
+  }
+
+  const invalidMessage = parsed.messages.find((message: Partial<ConversationExportMessage> | null) =>
+    !message || typeof message.id !== 'string' || typeof message.message !== 'string' ||
+    !message.message.trim() || typeof message.created_at !== 'string'
+  );
+  if (invalidMessage) {
+    throw new Error('The export contains messages that are missing required fields.');
+  }
+
+  return parsed as ConversationExport;
+};
+
+export const getExportFileName = (title: string, extension: string): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60) || 'conversation';
+  return `astra-${slug}.${extension}`;
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
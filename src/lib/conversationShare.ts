@@ -0,0 +1,66 @@
+import { generateText } from './textGeneration';
+
+// Read-only share links for private conversations and the summary card that is
+// posted to team chat when a conversation is shared there.
+
+export const SHARE_QUERY_PARAM = 'share';
+
+const MAX_SUMMARY_LENGTH = 600;
+
+// Stored in the team message metadata so GroupMessage can render the card
+export interface SharedConversationCard {
+  share_id: string;
+  conversation_id: string;
+  title: string;
+  message_count: number;
+}
+
+interface SummaryMessage {
+  message: string;
+  isUser: boolean;
+}
+
+export const getShareUrl = (shareId: string): string =>
+  `${window.location.origin}${window.location.pathname}?${SHARE_QUERY_PARAM}=${shareId}`;
+
+export const getShareIdFromUrl = (): string | null =>
+  new URLSearchParams(window.location.search).get(SHARE_QUERY_PARAM);
+
+// Drop the share id from the address bar once the shared view is closed
+export const clearShareIdFromUrl = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SHARE_QUERY_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+};
+
+const truncate = (text: string, maxLength: number): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? singleLine.substring(0, maxLength) + '...' : singleLine;
+};
+
+// Fallback card text used when Gemini is unavailable: the first question and the latest answer
+const buildExtractiveSummary = (messages: SummaryMessage[]): string => {
+  const firstQuestion = messages.find(message => message.isUser);
+  const lastAnswer = [...messages].reverse().find(message => !message.isUser);
+
+  return [
+    firstQuestion ? `Q: ${truncate(firstQuestion.message, 200)}` : null,
+    lastAnswer ? `A: ${truncate(lastAnswer.message, 350)}` : null
+  ].filter(Boolean).join('\n');
+};
+
+export const summarizeForTeamChat = async (title: string, messages: SummaryMessage[]): Promise<string> => {
+  const transcript = messages
+    .map(message => `${message.isUser ? 'User' : 'Astra'}: ${message.message.substring(0, 2000)}`)
+    .join('\n\n');
+
+  const prompt = `A teammate is sharing the conversation below, titled "${title}", with their team.
+Write a summary of 2 to 4 sentences that tells the team what was asked and the key findings, including important figures.
+Reply with the summary only.
+
+Conversation:
+${transcript}`;
+
+  const summary = await generateText(prompt, { temperature: 0.3, maxOutputTokens: 300 });
+  return summary ? truncate(summary, MAX_SUMMARY_LENGTH) : buildExtractiveSummary(messages);
+};
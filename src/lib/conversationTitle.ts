@@ -0,0 +1,32 @@
+import { generateText } from './textGeneration';
+
+const MAX_TITLE_LENGTH = 60;
+
+// Title used until (or instead of) a generated one: the start of the first message
+export const getFallbackTitle = (message: string): string => {
+  const text = message.replace(/\s+/g, ' ').trim();
+  return text.length > 50 ? text.substring(0, 50) + '...' : text;
+};
+
+const cleanTitle = (title: string): string => {
+  const text = title
+    .replace(/^["'*#\s]+|["'*.\s]+$/g, '')
+    .replace(/^title:\s*/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > MAX_TITLE_LENGTH ? text.substring(0, MAX_TITLE_LENGTH) + '...' : text;
+};
+
+// Generate a short conversation title from the first exchange
+export const generateConversationTitle = async (question: string, answer: string): Promise<string> => {
+  const prompt = `Write a short title (3 to 6 words) for a conversation that starts with the exchange below.
+Reply with the title only, without quotes or punctuation at the end.
+
+User: ${question.substring(0, 1000)}
+
+Astra: ${answer.substring(0, 1500)}`;
+
+  const text = await generateText(prompt, { temperature: 0.3, maxOutputTokens: 30 });
+  const title = text ? cleanTitle(text) : '';
+  return title || getFallbackTitle(question);
+};
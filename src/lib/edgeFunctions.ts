@@ -0,0 +1,14 @@
+import { supabase } from './supabase';
+
+// Calls from the web app to the Supabase edge functions, as the signed-in user
+
+export const getFunctionUrl = (name: string): string =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`;
+
+export const getFunctionHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Authorization': `Bearer ${session?.access_token || ''}`,
+    'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+  };
+};
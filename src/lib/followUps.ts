@@ -0,0 +1,35 @@
+import { generateText } from './textGeneration';
+import { MAX_FOLLOW_UPS } from './astraProvider';
+
+const MAX_FOLLOW_UP_LENGTH = 80;
+
+// Used when no model is available: generic next steps that fit most answers
+export const getFallbackFollowUps = (answer: string): string[] => {
+  const suggestions = ['Summarize this in three bullet points'];
+  if (/^\s*\|.*\|\s*$/m.test(answer) || /\d+(\.\d+)?\s*%/.test(answer)) {
+    suggestions.push('Show this as a chart');
+  }
+  suggestions.push('What should we do next based on this?');
+  return suggestions.slice(0, MAX_FOLLOW_UPS);
+};
+
+const cleanFollowUps = (text: string): string[] =>
+  text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^["']|["']$/g, '').trim())
+    .filter(line => line.length > 0 && line.length <= MAX_FOLLOW_UP_LENGTH)
+    .slice(0, MAX_FOLLOW_UPS);
+
+// Suggest follow-up questions for answers whose workflow didn't send any
+export const generateFollowUps = async (question: string, answer: string): Promise<string[]> => {
+  const prompt = `Suggest ${MAX_FOLLOW_UPS} short follow-up questions the user could ask Astra next about the exchange below.
+Write each question on its own line, in the user's voice, under 12 words, without numbering or quotes.
+
+User: ${question.substring(0, 1000)}
+
+Astra: ${answer.substring(0, 2000)}`;
+
+  const text = await generateText(prompt, { temperature: 0.5, maxOutputTokens: 120 });
+  const followUps = text ? cleanFollowUps(text) : [];
+  return followUps.length > 0 ? followUps : getFallbackFollowUps(answer);
+};
@@ -0,0 +1,59 @@
+// App-wide keyboard shortcuts. `mod` is Cmd on macOS and Ctrl elsewhere.
+// Keys are matched on `KeyboardEvent.code` so Alt/Option combinations work on every layout.
+
+export type ShortcutId =
+  | 'commandPalette'
+  | 'newChat'
+  | 'focusInput'
+  | 'toggleSidebar'
+  | 'teamChat'
+  | 'latestReport'
+  | 'showShortcuts';
+
+export interface KeyboardShortcut {
+  id: ShortcutId;
+  description: string;
+  code: string;
+  label: string;
+  mod?: boolean;
+  shift?: boolean;
+  alt?: boolean;
+}
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { id: 'commandPalette', description: 'Open the command palette', code: 'KeyK', label: 'K', mod: true },
+  { id: 'newChat', description: 'Start a new private chat', code: 'KeyO', label: 'O', mod: true, shift: true },
+  { id: 'focusInput', description: 'Focus the message input', code: 'Escape', label: 'Esc', shift: true },
+  { id: 'toggleSidebar', description: 'Toggle the conversation sidebar', code: 'KeyS', label: 'S', mod: true, shift: true },
+  { id: 'teamChat', description: 'Jump to team chat', code: 'KeyT', label: 'T', alt: true },
+  { id: 'latestReport', description: 'Open the latest report', code: 'KeyR', label: 'R', alt: true },
+  { id: 'showShortcuts', description: 'Show keyboard shortcuts', code: 'Slash', label: '/', mod: true }
+];
+
+export const isMacPlatform = (): boolean =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/i.test(navigator.platform || navigator.userAgent);
+
+export const getShortcut = (id: ShortcutId): KeyboardShortcut =>
+  KEYBOARD_SHORTCUTS.find(shortcut => shortcut.id === id) as KeyboardShortcut;
+
+export const matchesShortcut = (event: KeyboardEvent, shortcut: KeyboardShortcut): boolean => {
+  const modPressed = isMacPlatform() ? event.metaKey : event.ctrlKey;
+  return event.code === shortcut.code &&
+    modPressed === !!shortcut.mod &&
+    event.shiftKey === !!shortcut.shift &&
+    event.altKey === !!shortcut.alt;
+};
+
+// The keys to show in <kbd> elements, e.g. ['⌘', 'K'] or ['Ctrl', 'Shift', 'O']
+export const formatShortcut = (shortcut: KeyboardShortcut): string[] => {
+  const mac = isMacPlatform();
+  const keys: string[] = [];
+  if (shortcut.mod) keys.push(mac ? '⌘' : 'Ctrl');
+  if (shortcut.alt) keys.push(mac ? '⌥' : 'Alt');
+  if (shortcut.shift) keys.push(mac ? '⇧' : 'Shift');
+  keys.push(shortcut.label);
+  return keys;
+};
+
+export const formatShortcutLabel = (id: ShortcutId): string =>
+  formatShortcut(getShortcut(id)).join(isMacPlatform() ? '' : '+');
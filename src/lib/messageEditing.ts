@@ -0,0 +1,17 @@
+import { GroupMessage } from '../types';
+
+// Must match the window in delete_own_team_message
+export const SELF_DELETE_WINDOW_MINUTES = 15;
+
+const isOwnLiveMessage = (message: GroupMessage, currentUserId?: string): boolean =>
+  !!currentUserId &&
+  message.user_id === currentUserId &&
+  message.message_type === 'user' &&
+  !message.deleted_at;
+
+export const canEditMessage = (message: GroupMessage, currentUserId?: string): boolean =>
+  isOwnLiveMessage(message, currentUserId);
+
+export const canSelfDeleteMessage = (message: GroupMessage, currentUserId?: string, now: number = Date.now()): boolean =>
+  isOwnLiveMessage(message, currentUserId) &&
+  now - new Date(message.created_at).getTime() < SELF_DELETE_WINDOW_MINUTES * 60 * 1000;
@@ -0,0 +1,65 @@
+import { FavoriteMessage, SharedPrompt } from '../types';
+
+// Saved prompts can contain placeholders like `{{client}}` or `{{date_range}}`.
+// They are filled in through a small form before the prompt is used.
+
+const VARIABLE_PATTERN = /\{\{\s*([\w][\w -]*?)\s*\}\}/g;
+
+// Unique variable names in the order they first appear
+export const extractPromptVariables = (text: string): string[] => {
+  const names = Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return Array.from(new Set(names));
+};
+
+export const fillPromptTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+
+// "date_range" -> "Date range"
+export const formatVariableLabel = (name: string): string => {
+  const words = name.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const getFavoriteTitle = (favorite: FavoriteMessage): string =>
+  favorite.title || favorite.text.replace(/\s+/g, ' ').trim();
+
+export const matchesPromptSearch = (favorite: FavoriteMessage, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [favorite.title || '', favorite.text, favorite.folder || '', ...favorite.tags]
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term.replace(/^#/, '')));
+};
+
+// Most used first, then most recently saved
+export const sortPromptsByUsage = (favorites: FavoriteMessage[]): FavoriteMessage[] =>
+  [...favorites].sort((a, b) =>
+    b.usageCount - a.usageCount || b.createdAt.getTime() - a.createdAt.getTime()
+  );
+
+export type SharedPromptView = 'featured' | 'top' | 'newest';
+
+export const matchesSharedPromptSearch = (prompt: SharedPrompt, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [prompt.title, prompt.description || '', prompt.text, prompt.authorName, ...prompt.tags]
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term.replace(/^#/, '')));
+};
+
+// Featured keeps only curated prompts; top ranks by upvotes, then copies
+export const sortSharedPrompts = (prompts: SharedPrompt[], view: SharedPromptView): SharedPrompt[] => {
+  const byNewest = (a: SharedPrompt, b: SharedPrompt) => b.createdAt.getTime() - a.createdAt.getTime();
+  const byVotes = (a: SharedPrompt, b: SharedPrompt) =>
+    b.upvoteCount - a.upvoteCount || b.copyCount - a.copyCount || byNewest(a, b);
+
+  if (view === 'featured') return prompts.filter(prompt => prompt.isFeatured).sort(byVotes);
+  return [...prompts].sort(view === 'top' ? byVotes : byNewest);
+};
@@ -0,0 +1,32 @@
+import { Database } from './supabase';
+import { ReactionSummary } from '../types';
+
+export type MessageReactionRow = Database['public']['Tables']['message_reactions']['Row'];
+
+// Offered first in the reaction picker; any other emoji can be added too
+export const QUICK_REACTIONS = ['👍', '🚀', '😂', '🙏', '🎉', '👀', '❤️', '🤷', '😢'];
+
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|[#*0-9]\uFE0F?\u20E3)(?:[\p{Emoji_Modifier}\uFE0F\u200D\p{Extended_Pictographic}\p{Regional_Indicator}\u{E0020}-\u{E007F}])*$/u;
+
+// Emoji-only text, including skin tones, flags and ZWJ sequences like 👩‍💻
+export const isEmoji = (text: string): boolean => {
+  const trimmed = text.trim();
+  return trimmed.length > 0 && trimmed.length <= 16 && EMOJI_PATTERN.test(trimmed);
+};
+
+// Group a message's reactions by emoji, in the order each emoji was first used
+export const summarizeReactions = (rows: MessageReactionRow[], currentUserId?: string): ReactionSummary[] => {
+  const byEmoji = new Map<string, ReactionSummary>();
+
+  [...rows]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(row => {
+      const summary = byEmoji.get(row.emoji) || { emoji: row.emoji, count: 0, userNames: [], reactedByMe: false };
+      summary.count += 1;
+      summary.userNames.push(row.user_name || 'Someone');
+      summary.reactedByMe = summary.reactedByMe || row.user_id === currentUserId;
+      byEmoji.set(row.emoji, summary);
+    });
+
+  return [...byEmoji.values()];
+};
@@ -0,0 +1,26 @@
+const MAX_TITLE_LENGTH = 50;
+
+// A report prefilled from an Astra answer, saved with a link back to that answer
+export interface ReportDraft {
+  title: string;
+  prompt: string;
+  sourceMessageId: string | null;
+}
+
+// Team prompts are addressed to Astra; the report runs without the mention
+const stripAstraMention = (text: string): string =>
+  text.replace(/@astra\b[:,]?/gi, ' ').replace(/\s+/g, ' ').trim();
+
+// Suggested title: the first sentence of the prompt, capitalised and shortened
+export const suggestReportTitle = (prompt: string): string => {
+  const text = stripAstraMention(prompt);
+  const firstSentence = (text.match(/^[^.?!\n]+/)?.[0] ?? text).trim();
+  const title = firstSentence.charAt(0).toUpperCase() + firstSentence.slice(1);
+  return title.length > MAX_TITLE_LENGTH ? title.substring(0, MAX_TITLE_LENGTH).trimEnd() + '...' : title;
+};
+
+export const createReportDraft = (prompt: string, sourceMessageId: string | null): ReportDraft => ({
+  title: suggestReportTitle(prompt),
+  prompt: stripAstraMention(prompt),
+  sourceMessageId
+});
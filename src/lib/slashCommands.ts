@@ -0,0 +1,160 @@
+// Keyboard commands typed at the start of a message, e.g. `/summarize 7d` or `/report run Weekly KPIs`.
+// Each chat surface builds its own list of commands wired to the hook actions it already has.
+
+export interface SlashCommandOption {
+  // Text inserted after the command name, e.g. `7d` or `run Weekly KPIs`
+  value: string;
+  description?: string;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  // Shown after the name in the menu, e.g. `<24h|7d|30d>`
+  argsHint?: string;
+  requiresArgs?: boolean;
+  getOptions?: () => SlashCommandOption[];
+  // May return a short confirmation; throw an Error to report a problem to the user
+  run: (args: string) => string | void | Promise<string | void>;
+}
+
+export interface SlashCommandSuggestion {
+  key: string;
+  label: string;
+  description: string;
+  // What the input becomes when the suggestion is picked
+  completion: string;
+  // Whether picking the suggestion runs the command straight away
+  runnable: boolean;
+}
+
+export interface ParsedSlashCommand {
+  name: string;
+  args: string;
+}
+
+const COMMAND_PATTERN = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i;
+
+export const parseSlashCommand = (text: string): ParsedSlashCommand | null => {
+  const match = text.trim().match(COMMAND_PATTERN);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] || '').trim() };
+};
+
+export const findSlashCommand = (commands: SlashCommand[], name: string): SlashCommand | undefined =>
+  commands.find(command => command.name === name.toLowerCase());
+
+// Suggestions for the menu while a single-line `/...` is being typed
+export const getSlashCommandSuggestions = (text: string, commands: SlashCommand[]): SlashCommandSuggestion[] => {
+  if (!text.startsWith('/') || text.includes('\n')) return [];
+
+  const nameMatch = text.match(/^\/([\w-]*)$/);
+  if (nameMatch) {
+    const query = nameMatch[1].toLowerCase();
+    return commands
+      .filter(command => command.name.startsWith(query))
+      .map(command => ({
+        key: command.name,
+        label: `/${command.name}${command.argsHint ? ` ${command.argsHint}` : ''}`,
+        description: command.description,
+        completion: `/${command.name}${command.argsHint ? ' ' : ''}`,
+        // Commands with options open them first instead of running with the default
+        runnable: !command.requiresArgs && !command.getOptions
+      }));
+  }
+
+  const parsed = parseSlashCommand(text);
+  const command = parsed && findSlashCommand(commands, parsed.name);
+  if (!parsed || !command) return [];
+
+  const query = text.replace(/^\/[\w-]+\s+/, '').toLowerCase();
+  const options = (command.getOptions?.() || []).filter(option =>
+    option.value.toLowerCase().startsWith(query) && option.value.toLowerCase() !== query.trimEnd()
+  );
+
+  if (options.length > 0) {
+    return options.map(option => ({
+      key: `${command.name}:${option.value}`,
+      label: `/${command.name} ${option.value}`,
+      description: option.description || command.description,
+      completion: `/${command.name} ${option.value}`,
+      runnable: true
+    }));
+  }
+
+  // Nothing left to complete: show the command itself so Enter runs it
+  return [{
+    key: command.name,
+    label: `/${command.name}${parsed.args ? ` ${parsed.args}` : command.argsHint ? ` ${command.argsHint}` : ''}`,
+    description: command.description,
+    completion: text.trimEnd(),
+    runnable: !command.requiresArgs || !!parsed.args
+  }];
+};
+
+// "24h", "7d", "30 days", "week" -> the periods the team chat summary supports
+export type SummaryPeriod = '24 Hours' | '7 Days' | '30 Days';
+
+export const parseSummaryPeriod = (args: string): SummaryPeriod | null => {
+  const value = args.toLowerCase().replace(/\s+/g, '');
+  if (['', '24h', '1d', 'day', '24hours'].includes(value)) return '24 Hours';
+  if (['7d', 'week', '7days', '1w'].includes(value)) return '7 Days';
+  if (['30d', 'month', '30days', '1m'].includes(value)) return '30 Days';
+  return null;
+};
+
+export const SUMMARY_PERIOD_OPTIONS: SlashCommandOption[] = [
+  { value: '24h', description: 'Summarize the last 24 hours' },
+  { value: '7d', description: 'Summarize the last 7 days' },
+  { value: '30d', description: 'Summarize the last 30 days' }
+];
+
+// Match a report by exact title first, then by prefix
+export const findReportByName = <T extends { title: string }>(reports: T[], name: string): T | undefined => {
+  const query = name.trim().toLowerCase();
+  if (!query) return undefined;
+  return reports.find(report => report.title.toLowerCase() === query)
+    || reports.find(report => report.title.toLowerCase().startsWith(query));
+};
+
+// Commands shared by private and team chat
+
+export const createReportCommand = (
+  reports: { id: string; title: string }[],
+  runReport: (reportId: string) => Promise<void>
+): SlashCommand => ({
+  name: 'report',
+  description: 'Run one of your reports now',
+  argsHint: 'run <report name>',
+  requiresArgs: true,
+  getOptions: () => reports.map(report => ({ value: `run ${report.title}`, description: 'Run this report now' })),
+  run: (args) => {
+    const match = args.match(/^run\s+(.+)$/i);
+    if (!match) throw new Error('Usage: /report run <report name>');
+
+    const report = findReportByName(reports, match[1]);
+    if (!report) throw new Error(`No report named "${match[1].trim()}"`);
+
+    // Results are delivered to the Reports tab, so don't hold the composer while it runs
+    runReport(report.id);
+    return `Running "${report.title}". The result will appear in Reports.`;
+  }
+});
+
+export const createFavoriteCommand = (
+  getLatestPrompt: () => string | undefined,
+  isSaved: (text: string) => boolean,
+  savePrompt: (text: string) => Promise<void>
+): SlashCommand => ({
+  name: 'favorite',
+  description: 'Save a prompt (or your last message) to your saved prompts',
+  argsHint: '[prompt]',
+  run: async (args) => {
+    const text = args || getLatestPrompt();
+    if (!text) throw new Error('Nothing to save yet. Use /favorite <prompt>');
+    if (isSaved(text)) return 'Already in your saved prompts';
+
+    await savePrompt(text);
+    return 'Saved to your prompts';
+  }
+});
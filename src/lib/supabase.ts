@@ -36,6 +36,17 @@ export type Database = {
           mentions: any[];
           astra_prompt: string | null;
           visualization_data: string | null;
+          parent_message_id: string | null;
+          previous_message_id: string | null;
+          is_active_branch: boolean;
+          channel_id: string | null;
+          thread_root_id: string | null;
+          also_sent_to_channel: boolean;
+          thread_reply_count: number;
+          thread_last_reply_at: string | null;
+          thread_participants: string[];
+          edited_at: string | null;
+          deleted_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -56,6 +67,17 @@ export type Database = {
           mentions?: any[];
           astra_prompt?: string | null;
           visualization_data?: string | null;
+          parent_message_id?: string | null;
+          previous_message_id?: string | null;
+          is_active_branch?: boolean;
+          channel_id?: string | null;
+          thread_root_id?: string | null;
+          also_sent_to_channel?: boolean;
+          thread_reply_count?: number;
+          thread_last_reply_at?: string | null;
+          thread_participants?: string[];
+          edited_at?: string | null;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -76,10 +98,414 @@ export type Database = {
           mentions?: any[];
           astra_prompt?: string | null;
           visualization_data?: string | null;
+          parent_message_id?: string | null;
+          previous_message_id?: string | null;
+          is_active_branch?: boolean;
+          channel_id?: string | null;
+          thread_root_id?: string | null;
+          also_sent_to_channel?: boolean;
+          thread_reply_count?: number;
+          thread_last_reply_at?: string | null;
+          thread_participants?: string[];
+          edited_at?: string | null;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      astra_conversations: {
+        Row: {
+          conversation_id: string;
+          user_id: string;
+          title: string | null;
+          is_title_custom: boolean;
+          is_pinned: boolean;
+          is_archived: boolean;
+          folder: string | null;
+          tags: string[];
+          history_summary: string | null;
+          history_summary_count: number;
+          history_summary_message_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          conversation_id: string;
+          user_id: string;
+          title?: string | null;
+          is_title_custom?: boolean;
+          is_pinned?: boolean;
+          is_archived?: boolean;
+          folder?: string | null;
+          tags?: string[];
+          history_summary?: string | null;
+          history_summary_count?: number;
+          history_summary_message_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          conversation_id?: string;
+          user_id?: string;
+          title?: string | null;
+          is_title_custom?: boolean;
+          is_pinned?: boolean;
+          is_archived?: boolean;
+          folder?: string | null;
+          tags?: string[];
+          history_summary?: string | null;
+          history_summary_count?: number;
+          history_summary_message_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      astra_shared_conversations: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          user_id: string;
+          title: string;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          conversation_id: string;
+          user_id: string;
+          title: string;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          conversation_id?: string;
+          user_id?: string;
+          title?: string;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      astra_saved_prompts: {
+        Row: {
+          id: string;
+          user_id: string;
+          prompt_text: string;
+          title: string | null;
+          folder: string | null;
+          tags: string[];
+          usage_count: number;
+          last_used_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          prompt_text: string;
+          title?: string | null;
+          folder?: string | null;
+          tags?: string[];
+          usage_count?: number;
+          last_used_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          prompt_text?: string;
+          title?: string | null;
+          folder?: string | null;
+          tags?: string[];
+          usage_count?: number;
+          last_used_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      astra_shared_prompts: {
+        Row: {
+          id: string;
+          author_id: string;
+          author_name: string;
+          title: string;
+          description: string | null;
+          prompt_text: string;
+          tags: string[];
+          is_featured: boolean;
+          upvote_count: number;
+          copy_count: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          author_id: string;
+          author_name: string;
+          title: string;
+          description?: string | null;
+          prompt_text: string;
+          tags?: string[];
+          is_featured?: boolean;
+          upvote_count?: number;
+          copy_count?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          author_id?: string;
+          author_name?: string;
+          title?: string;
+          description?: string | null;
+          prompt_text?: string;
+          tags?: string[];
+          is_featured?: boolean;
+          upvote_count?: number;
+          copy_count?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      astra_shared_prompt_votes: {
+        Row: {
+          prompt_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          prompt_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          prompt_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+      };
+      astra_reports: {
+        Row: {
+          id: string;
+          user_id: string;
+          title: string;
+          prompt: string;
+          schedule_type: string;
+          schedule_frequency: string;
+          schedule_time: string;
+          schedule_day: number | null;
+          is_active: boolean;
+          last_run_at: string | null;
+          next_run_at: string | null;
+          report_template_id: string | null;
+          source_message_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          title: string;
+          prompt: string;
+          schedule_type?: string;
+          schedule_frequency?: string;
+          schedule_time?: string;
+          schedule_day?: number | null;
+          is_active?: boolean;
+          last_run_at?: string | null;
+          next_run_at?: string | null;
+          report_template_id?: string | null;
+          source_message_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          title?: string;
+          prompt?: string;
+          schedule_type?: string;
+          schedule_frequency?: string;
+          schedule_time?: string;
+          schedule_day?: number | null;
+          is_active?: boolean;
+          last_run_at?: string | null;
+          next_run_at?: string | null;
+          report_template_id?: string | null;
+          source_message_id?: string | null;
+          created_at?: string;
+        };
+      };
+      astra_team_channels: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          is_private: boolean;
+          is_default: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          is_private?: boolean;
+          is_default?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          is_private?: boolean;
+          is_default?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      astra_team_channel_members: {
+        Row: {
+          channel_id: string;
+          user_id: string;
+          role: 'owner' | 'member';
+          last_read_at: string;
+          joined_at: string;
+        };
+        Insert: {
+          channel_id: string;
+          user_id: string;
+          role?: 'owner' | 'member';
+          last_read_at?: string;
+          joined_at?: string;
+        };
+        Update: {
+          channel_id?: string;
+          user_id?: string;
+          role?: 'owner' | 'member';
+          last_read_at?: string;
+          joined_at?: string;
+        };
+      };
+      astra_thread_subscriptions: {
+        Row: {
+          thread_root_id: string;
+          user_id: string;
+          is_subscribed: boolean;
+          last_read_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          thread_root_id: string;
+          user_id: string;
+          is_subscribed?: boolean;
+          last_read_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          thread_root_id?: string;
+          user_id?: string;
+          is_subscribed?: boolean;
+          last_read_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      astra_message_revisions: {
+        Row: {
+          id: string;
+          message_id: string;
+          previous_message: string;
+          edited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          previous_message: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          previous_message?: string;
+          edited_by?: string | null;
+          created_at?: string;
+        };
+      };
+      astra_moderation_log: {
+        Row: {
+          id: string;
+          action: string;
+          message_id: string;
+          channel_id: string | null;
+          message_author_id: string | null;
+          message_author_name: string | null;
+          message_snapshot: { message?: string; [column: string]: unknown };
+          reason: string | null;
+          moderator_id: string | null;
+          moderator_name: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          action: string;
+          message_id: string;
+          channel_id?: string | null;
+          message_author_id?: string | null;
+          message_author_name?: string | null;
+          message_snapshot?: { message?: string; [column: string]: unknown };
+          reason?: string | null;
+          moderator_id?: string | null;
+          moderator_name?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          action?: string;
+          message_id?: string;
+          channel_id?: string | null;
+          message_author_id?: string | null;
+          message_author_name?: string | null;
+          message_snapshot?: { message?: string; [column: string]: unknown };
+          reason?: string | null;
+          moderator_id?: string | null;
+          moderator_name?: string | null;
+          created_at?: string;
+        };
+      };
+      message_reactions: {
+        Row: {
+          message_id: string;
+          user_id: string;
+          emoji: string;
+          user_name: string;
+          created_at: string;
+        };
+        Insert: {
+          message_id: string;
+          user_id: string;
+          emoji: string;
+          user_name?: string;
+          created_at?: string;
+        };
+        Update: {
+          message_id?: string;
+          user_id?: string;
+          emoji?: string;
+          user_name?: string;
+          created_at?: string;
+        };
+      };
       group_messages: {
         Row: {
           id: string;
@@ -125,5 +551,125 @@ export type Database = {
         };
       };
     };
+    Functions: {
+      search_astra_messages: {
+        Args: {
+          p_query: string;
+          p_limit?: number;
+        };
+        Returns: {
+          message_id: string;
+          conversation_id: string;
+          conversation_title: string | null;
+          message_type: string;
+          created_at: string;
+          snippet: string;
+          rank: number;
+        }[];
+      };
+      get_astra_conversations: {
+        Args: {
+          p_limit?: number;
+          p_cursor_pinned?: boolean | null;
+          p_cursor_activity?: string | null;
+          p_cursor_id?: string | null;
+          p_archived?: boolean;
+          p_folder?: string | null;
+          p_search?: string | null;
+        };
+        Returns: {
+          conversation_id: string;
+          title: string;
+          last_message: string;
+          message_count: number;
+          created_at: string;
+          last_activity: string;
+          has_custom_title: boolean;
+          is_pinned: boolean;
+          is_archived: boolean;
+          folder: string | null;
+          tags: string[];
+        }[];
+      };
+      get_shared_conversation: {
+        Args: {
+          p_share_id: string;
+        };
+        Returns: {
+          share_id: string;
+          conversation_id: string;
+          title: string;
+          owner_name: string;
+          shared_at: string;
+          message_id: string;
+          message_type: string;
+          message: string;
+          user_name: string;
+          created_at: string;
+          parent_message_id: string | null;
+          previous_message_id: string | null;
+          is_active_branch: boolean;
+          visualization_data: string | null;
+        }[];
+      };
+      record_saved_prompt_use: {
+        Args: {
+          p_prompt_id: string;
+        };
+        Returns: undefined;
+      };
+      is_workspace_admin: {
+        Args: Record<string, never>;
+        Returns: boolean;
+      };
+      copy_shared_prompt_to_favorites: {
+        Args: {
+          p_prompt_id: string;
+        };
+        Returns: Database['public']['Tables']['astra_saved_prompts']['Row'][];
+      };
+      get_team_channels: {
+        Args: Record<string, never>;
+        Returns: {
+          id: string;
+          name: string;
+          description: string | null;
+          is_private: boolean;
+          is_default: boolean;
+          created_by: string | null;
+          created_at: string;
+          member_count: number;
+          is_member: boolean;
+          member_role: 'owner' | 'member' | null;
+          unread_count: number;
+        }[];
+      };
+      mark_team_channel_read: {
+        Args: {
+          p_channel_id: string;
+        };
+        Returns: void;
+      };
+      edit_team_message: {
+        Args: {
+          p_message_id: string;
+          p_message: string;
+        };
+        Returns: void;
+      };
+      delete_own_team_message: {
+        Args: {
+          p_message_id: string;
+        };
+        Returns: void;
+      };
+      admin_delete_team_message: {
+        Args: {
+          p_message_id: string;
+          p_reason?: string | null;
+        };
+        Returns: void;
+      };
+    };
   };
 };
\ No newline at end of file
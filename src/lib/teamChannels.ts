@@ -0,0 +1,16 @@
+export const CHANNEL_NAME_MAX_LENGTH = 40;
+
+// Channel names are lowercase words joined by dashes, e.g. "Q3 Planning" -> "q3-planning"
+export const normalizeChannelName = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/^#/, '')
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-_]+/, '')
+    .slice(0, CHANNEL_NAME_MAX_LENGTH);
+
+export const isValidChannelName = (name: string): boolean =>
+  /^[a-z0-9][a-z0-9_-]*$/.test(name) && name.length <= CHANNEL_NAME_MAX_LENGTH;
@@ -0,0 +1,76 @@
+export type PresenceStatus = 'online' | 'idle' | 'away';
+
+// Composer sends at most one typing event per throttle window; others drop a typer after the timeout
+export const TYPING_THROTTLE_MS = 2000;
+export const TYPING_TIMEOUT_MS = 5000;
+
+// No mouse or keyboard activity for this long marks a member idle, then away
+export const IDLE_AFTER_MS = 5 * 60 * 1000;
+export const AWAY_AFTER_MS = 15 * 60 * 1000;
+
+// Where a member's unanswered @astra question was asked
+export interface AstraRequestLocation {
+  channelId: string;
+  threadRootId: string | null;
+}
+
+// What each open team chat tab publishes over Realtime presence
+export interface TeamPresencePayload {
+  user_id: string;
+  user_name: string;
+  status: PresenceStatus;
+  channel_id: string | null;
+  astra_request: AstraRequestLocation | null;
+  online_at: string;
+}
+
+export interface TeamMemberPresence {
+  userId: string;
+  userName: string;
+  status: PresenceStatus;
+  channelId: string | null;
+  astraRequests: AstraRequestLocation[];
+}
+
+const STATUS_RANK: Record<PresenceStatus, number> = { online: 0, idle: 1, away: 2 };
+
+export const getPresenceStatus = (idleForMs: number, isHidden: boolean): PresenceStatus => {
+  if (isHidden || idleForMs >= AWAY_AFTER_MS) return 'away';
+  if (idleForMs >= IDLE_AFTER_MS) return 'idle';
+  return 'online';
+};
+
+// One entry per member; with several tabs open the most active tab wins
+export const mergePresence = (state: Record<string, TeamPresencePayload[]>): TeamMemberPresence[] =>
+  Object.values(state)
+    .filter(tabs => tabs.length > 0)
+    .map(tabs => {
+      const mostActive = [...tabs].sort((a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status])[0];
+      return {
+        userId: mostActive.user_id,
+        userName: mostActive.user_name,
+        status: mostActive.status,
+        channelId: mostActive.channel_id,
+        astraRequests: tabs
+          .map(tab => tab.astra_request)
+          .filter((request): request is AstraRequestLocation => !!request)
+      };
+    })
+    .sort((a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status] || a.userName.localeCompare(b.userName));
+
+// "Ann is typing…", "Ann and Bo are typing…", "Ann, Bo and 2 others are typing…"
+export const formatTypingIndicator = (names: string[]): string => {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  if (names.length === 3) return `${names[0]}, ${names[1]} and ${names[2]} are typing…`;
+  return `${names[0]}, ${names[1]} and ${names.length - 2} others are typing…`;
+};
+
+// Label for the Astra indicator; the user's own question takes precedence
+export const formatAstraActivity = (isAskedByMe: boolean, requesterNames: string[]): string => {
+  if (isAskedByMe) return 'Astra is thinking';
+  if (requesterNames.length === 0) return '';
+  if (requesterNames.length === 1) return `Astra is working on ${requesterNames[0]}'s request`;
+  return `Astra is working on requests from ${requesterNames.slice(0, -1).join(', ')} and ${requesterNames[requesterNames.length - 1]}`;
+};
@@ -0,0 +1,56 @@
+import { Database } from './supabase';
+import { GroupMessage } from '../types';
+
+export type TeamChatRow = Database['public']['Tables']['astra_chats']['Row'];
+
+// Columns of astra_chats that make up a team chat message
+export const TEAM_MESSAGE_COLUMNS = `
+  id,
+  user_id,
+  user_name,
+  user_email,
+  message,
+  message_type,
+  mentions,
+  astra_prompt,
+  visualization_data,
+  metadata,
+  thread_root_id,
+  also_sent_to_channel,
+  thread_reply_count,
+  thread_last_reply_at,
+  thread_participants,
+  edited_at,
+  deleted_at,
+  created_at,
+  updated_at
+`;
+
+// Messages shown in a channel: everything except replies that stay in their thread
+export const CHANNEL_MESSAGE_FILTER = 'thread_root_id.is.null,also_sent_to_channel.eq.true';
+
+export const isThreadOnlyReply = (chat: Pick<TeamChatRow, 'thread_root_id' | 'also_sent_to_channel'>): boolean =>
+  !!chat.thread_root_id && !chat.also_sent_to_channel;
+
+// Transform an astra_chats row to GroupMessage format
+export const toGroupMessage = (chat: Partial<TeamChatRow>): GroupMessage => ({
+  id: chat.id as string,
+  user_id: chat.user_id as string,
+  user_name: chat.user_name as string,
+  user_email: chat.user_email as string,
+  message_content: chat.message as string,
+  message_type: chat.message_type as 'user' | 'astra' | 'system',
+  mentions: chat.mentions || [],
+  astra_prompt: chat.astra_prompt,
+  visualization_data: chat.visualization_data,
+  metadata: chat.metadata || {},
+  thread_root_id: chat.thread_root_id || null,
+  also_sent_to_channel: chat.also_sent_to_channel || false,
+  thread_reply_count: chat.thread_reply_count || 0,
+  thread_last_reply_at: chat.thread_last_reply_at || null,
+  thread_participants: chat.thread_participants || [],
+  edited_at: chat.edited_at || null,
+  deleted_at: chat.deleted_at || null,
+  created_at: chat.created_at as string,
+  updated_at: chat.updated_at as string
+});
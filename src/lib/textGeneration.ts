@@ -0,0 +1,41 @@
+import { getFunctionHeaders, getFunctionUrl } from './edgeFunctions';
+
+// Short model calls for titles, follow-ups and summaries. They run in the
+// astra-generate edge function, which holds the Gemini key; callers get null
+// when it is unavailable and use their own fallback text.
+
+const GENERATE_TIMEOUT_MS = 20000;
+
+interface GenerateTextOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export const generateText = async (prompt: string, options: GenerateTextOptions = {}): Promise<string | null> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), GENERATE_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(getFunctionUrl('astra-generate'), {
+      method: 'POST',
+      headers: {
+        ...(await getFunctionHeaders()),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ prompt, ...options }),
+      signal: controller.signal
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      console.warn('⚠️ Text generation unavailable:', data?.message || response.status);
+      return null;
+    }
+    return typeof data?.text === 'string' && data.text.trim() ? data.text.trim() : null;
+  } catch (error) {
+    console.error('Error generating text:', error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -1,3 +1,5 @@
+import type { SharedConversationCard } from '../lib/conversationShare';
+
 export interface Message {
   id: string;
   chatId?: string;
@@ -10,6 +12,52 @@ export interface Message {
   hasStoredVisualization?: boolean;
   isCentered?: boolean;
   isFavorited?: boolean;
+  isStreaming?: boolean;
+  messageType?: 'user' | 'astra' | 'system';
+  replyTo?: MessageReplyReference;
+  branchIndex?: number;
+  branchCount?: number;
+  // Set on a user message whose request failed or was stopped; the message can be retried
+  sendError?: string;
+  attachments?: MessageAttachment[];
+  metadata?: MessageMetadata;
+}
+
+// astra_chats.metadata for private chat messages; only the keys read directly are listed
+export interface MessageMetadata {
+  model_used?: string;
+  total_processing_time?: number;
+  visualization_generating?: boolean;
+  [key: string]: unknown;
+}
+
+export type AttachmentKind = 'pdf' | 'csv' | 'xlsx' | 'text';
+
+// A file attached to a private chat question, uploaded to the chat-attachments bucket.
+// The copy stored in message metadata has no url or extractedText (see lib/attachments.ts).
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  size: number;
+  // Signed link, only present while the attachment is being sent
+  url?: string;
+  // Storage path, used to link, re-read or delete the upload
+  path: string;
+  // Text Astra reads instead of the raw file (capped, see lib/attachments.ts)
+  extractedText?: string;
+  // Start of the extracted text, kept with the stored message
+  textPreview?: string;
+  truncated?: boolean;
+}
+
+export interface MessageReplyReference {
+  messageId: string;
+  text: string;
+  isUser: boolean;
+}
+
 export interface ReportMessage {
   id: string;
   chatId: string;
@@ -29,12 +77,6 @@ export interface ReportMessage {
   visualization?: boolean;
 }
 
-  messageType?: 'user' | 'astra' | 'system';
-  isReply?: boolean;
-  replyToId?: string;
-  metadata?: any;
-}
-
 export interface VisualizationState {
   messageId: string;
   isGenerating: boolean;
@@ -52,11 +94,76 @@ export interface GroupMessage {
   mentions: string[];
   astra_prompt?: string | null;
   visualization_data?: string | null;
-  metadata?: any;
+  metadata?: GroupMessageMetadata;
+  // Set on thread replies; replies only appear in the channel when also_sent_to_channel is set
+  thread_root_id?: string | null;
+  also_sent_to_channel?: boolean;
+  // Kept up to date on a thread's parent message
+  thread_reply_count?: number;
+  thread_last_reply_at?: string | null;
+  thread_participants?: string[];
+  // Set when the author edits or deletes their message
+  edited_at?: string | null;
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// astra_chats.metadata for team messages; only the keys read directly are listed
+export interface GroupMessageMetadata {
+  reply_to_message_id?: string;
+  reply_to_message?: {
+    userName: string;
+    content: string;
+    timestamp: string;
+  };
+  asked_by_user_name?: string;
+  original_user_message_id?: string;
+  image?: {
+    url: string;
+    filename: string;
+    size: number;
+  };
+  shared_conversation?: SharedConversationCard;
+  [key: string]: unknown;
+}
+
+// One emoji on a team chat message, with everyone who reacted with it
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userNames: string[];
+  reactedByMe: boolean;
+}
+
+// An earlier version of an edited team chat message
+export interface MessageRevision {
+  id: string;
+  message_id: string;
+  previous_message: string;
+  edited_by: string | null;
+  created_at: string;
+}
+
+// A team chat message an admin removed, kept for review
+export interface ModerationLogEntry {
+  id: string;
+  action: string;
+  message_id: string;
+  channel_id: string | null;
+  message_author_name: string | null;
+  message_content: string;
+  reason: string | null;
+  moderator_name: string | null;
+  created_at: string;
+}
+
+// Where a team chat message goes when it is posted from a thread
+export interface TeamThreadTarget {
+  rootId: string;
+  alsoSendToChannel: boolean;
+}
+
 export interface ReplyState {
   isReplying: boolean;
   messageId: string | null;
@@ -69,12 +176,71 @@ export interface ReplyState {
   } | null;
 }
 
+// A saved prompt; `text` may contain `{{variable}}` placeholders (see lib/promptTemplates.ts)
 export interface FavoriteMessage {
   id: string;
   text: string;
+  title: string | null;
+  folder: string | null;
+  tags: string[];
+  usageCount: number;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// A prompt shared with the whole workspace through the team library
+export interface SharedPrompt {
+  id: string;
+  authorId: string;
+  authorName: string;
+  title: string;
+  description: string | null;
+  text: string;
+  tags: string[];
+  isFeatured: boolean;
+  upvoteCount: number;
+  copyCount: number;
+  hasUpvoted: boolean;
+  createdAt: Date;
+}
+
+export interface SharedPromptDraft {
+  title: string;
+  description: string;
+  text: string;
+  tags: string[];
+}
+
+// A named team chat room; private channels are only visible to their members
+export interface TeamChannel {
+  id: string;
+  name: string;
+  description: string | null;
+  isPrivate: boolean;
+  isDefault: boolean;
+  createdBy: string | null;
+  memberCount: number;
+  isMember: boolean;
+  isOwner: boolean;
+  unreadCount: number;
   createdAt: Date;
 }
 
+export interface TeamChannelDraft {
+  name: string;
+  description: string;
+  isPrivate: boolean;
+  // Users to add besides the creator (private channels)
+  memberIds: string[];
+}
+
+export interface FavoriteUpdate {
+  text?: string;
+  title?: string;
+  folder?: string | null;
+  tags?: string[];
+}
+
 export type ChatMode = 'reports' | 'private' | 'team';
 
 export interface ReportTemplate {
@@ -0,0 +1,35 @@
+import {
+  createAstraProvider,
+  getProviderConfigError,
+  parsePositiveInt,
+  parseProviderName,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TIMEOUT_MS
+} from './index.ts';
+import type { AstraProvider, AstraProviderConfig } from './index.ts';
+
+// Edge functions read the same variable names as the web app, so one set of
+// secrets configures both
+
+export const getProviderConfigFromEnv = (): AstraProviderConfig => ({
+  provider: parseProviderName(Deno.env.get('VITE_ASTRA_PROVIDER')),
+  n8nWebhookUrl: Deno.env.get('VITE_N8N_WEBHOOK_URL'),
+  geminiApiKey: Deno.env.get('VITE_GEMINI_API_KEY'),
+  geminiModel: Deno.env.get('VITE_GEMINI_MODEL'),
+  openAiBaseUrl: Deno.env.get('VITE_OPENAI_BASE_URL'),
+  openAiApiKey: Deno.env.get('VITE_OPENAI_API_KEY'),
+  openAiModel: Deno.env.get('VITE_OPENAI_MODEL'),
+  timeoutMs: parsePositiveInt(Deno.env.get('VITE_WEBHOOK_TIMEOUT_MS'), DEFAULT_TIMEOUT_MS),
+  maxRetries: parsePositiveInt(Deno.env.get('VITE_WEBHOOK_MAX_RETRIES'), DEFAULT_MAX_RETRIES),
+  mockDelayMs: 0
+});
+
+// Throws up front so a misconfigured function fails before touching any data
+export const getAstraProviderFromEnv = (): AstraProvider => {
+  const config = getProviderConfigFromEnv();
+  const configError = getProviderConfigError(config);
+  if (configError) {
+    throw new Error(`${configError}. Please configure it in your Supabase project settings.`);
+  }
+  return createAstraProvider(config);
+};
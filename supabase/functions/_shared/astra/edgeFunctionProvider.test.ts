@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEdgeFunctionProvider, toStreamEndEvent, toStreamErrorEvent } from './edgeFunctionProvider.ts';
+import { AstraRequestError } from './request.ts';
+import type { AstraRequest, AstraResponse } from './types.ts';
+
+const request: AstraRequest = {
+  message: 'How did Q3 go?',
+  mode: 'private',
+  user: { id: 'user-1', email: 'ann@example.com', name: 'Ann' }
+};
+
+const answer: AstraResponse = {
+  text: 'Revenue grew 12% [1]',
+  modelUsed: 'gpt-4o-mini',
+  tokensUsed: { total: 42 },
+  metadata: { provider: 'openai' },
+  sources: [{ title: 'Q3 board deck', url: 'https://example.com/q3' }],
+  toolsUsed: [{ name: 'web_search', durationMs: 120, status: 'success' }],
+  followUps: ['How does that compare to Q2?'],
+  streamed: false
+};
+
+// What the astra-chat function writes for the given events
+const ndjsonResponse = (events: Record<string, unknown>[]) =>
+  new Response(events.map(event => JSON.stringify(event)).join('\n') + '\n', {
+    headers: { 'Content-Type': 'application/x-ndjson' }
+  });
+
+const createProvider = (response: Response) => {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetchMock);
+  const provider = createEdgeFunctionProvider('openai', {
+    functionUrl: 'https://project.supabase.co/functions/v1/astra-chat',
+    getHeaders: async () => ({ Authorization: 'Bearer token' })
+  });
+  return { provider, fetchMock };
+};
+
+describe('edge function provider', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('streams the answer and keeps everything from the end event', async () => {
+    const { provider, fetchMock } = createProvider(ndjsonResponse([
+      { type: 'item', content: 'Revenue grew ' },
+      { type: 'item', content: '12% [1]' },
+      toStreamEndEvent(answer)
+    ]));
+    const onText = vi.fn();
+
+    const response = await provider.send(request, { onText });
+
+    expect(response).toEqual({ ...answer, streamed: true });
+    expect(onText).toHaveBeenLastCalledWith('Revenue grew 12% [1]');
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer token' });
+    expect(JSON.parse(init.body)).toEqual({ request });
+  });
+
+  it('turns an error event into a request error', async () => {
+    const { provider } = createProvider(ndjsonResponse([
+      toStreamErrorEvent(new AstraRequestError('Request failed: 429 Too Many Requests', 'http', 429))
+    ]));
+
+    await expect(provider.send(request)).rejects.toMatchObject({
+      kind: 'http',
+      status: 429,
+      message: 'Request failed: 429 Too Many Requests'
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { AstraRequestError, requestWithRetry } from './request.ts';
+import { readWebhookStream } from './webhookStream.ts';
+import { normalizeFollowUps, normalizeSources, normalizeToolsUsed } from './responseContract.ts';
+import type { AstraProvider, AstraProviderName, AstraResponse } from './types.ts';
+
+// Providers that need an API key run in the astra-chat edge function, so the key
+// stays in the Supabase secrets. The function streams the answer back as NDJSON in
+// the n8n webhook format and the web app reads it with readWebhookStream.
+
+export const SERVER_SIDE_PROVIDERS: AstraProviderName[] = ['gemini', 'openai'];
+
+export interface EdgeFunctionProviderOptions {
+  functionUrl: string;
+  // Authorization for the signed-in user, read fresh for every request
+  getHeaders: () => Promise<Record<string, string>>;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+// Last line of the stream: everything in the response except the text
+export const toStreamEndEvent = (response: AstraResponse) => ({
+  type: 'end',
+  model_used: response.modelUsed,
+  tokens_used: response.tokensUsed,
+  metadata: response.metadata,
+  sources: response.sources,
+  tools_used: response.toolsUsed,
+  follow_ups: response.followUps
+});
+
+// Sent instead of the end event when the provider fails after the stream started
+export const toStreamErrorEvent = (error: unknown) => ({
+  type: 'error',
+  error: error instanceof Error ? error.message : String(error),
+  status: error instanceof AstraRequestError ? error.status ?? null : null
+});
+
+export const createEdgeFunctionProvider = (
+  name: AstraProviderName,
+  options: EdgeFunctionProviderOptions
+): AstraProvider => ({
+  name,
+  send: async (request, sendOptions = {}) => {
+    const headers = await options.getHeaders();
+    const result = await requestWithRetry(
+      options.functionUrl,
+      {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          'Accept': 'application/x-ndjson',
+        },
+        body: JSON.stringify({ request })
+      },
+      (response) => readWebhookStream(response, sendOptions.onText || (() => undefined)),
+      {
+        signal: sendOptions.signal,
+        timeoutMs: options.timeoutMs,
+        maxRetries: options.maxRetries,
+        onRetry: sendOptions.onRetry
+      }
+    );
+
+    const payload = result.payload || {};
+    if (typeof payload.error === 'string') {
+      throw new AstraRequestError(payload.error, 'http', typeof payload.status === 'number' ? payload.status : 502);
+    }
+
+    return {
+      text: result.text,
+      modelUsed: payload.model_used || name,
+      tokensUsed: payload.tokens_used || {},
+      metadata: payload.metadata || {},
+      sources: normalizeSources(payload),
+      toolsUsed: normalizeToolsUsed(payload),
+      followUps: normalizeFollowUps(payload),
+      streamed: result.streamed
+    };
+  }
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { toGeminiContents } from './geminiProvider.ts';
+
+describe('toGeminiContents', () => {
+  it('drops model turns before the first user turn', () => {
+    const contents = toGeminiContents([
+      { role: 'assistant', content: 'Earlier answer' },
+      { role: 'user', content: 'How did Q3 go?' }
+    ]);
+
+    expect(contents).toEqual([{ role: 'user', parts: [{ text: 'How did Q3 go?' }] }]);
+  });
+
+  it('merges consecutive turns from the same role', () => {
+    const contents = toGeminiContents([
+      { role: 'user', content: 'How did Q3 go?' },
+      { role: 'user', content: 'And Q4?' },
+      { role: 'assistant', content: 'Both grew.' },
+      { role: 'assistant', content: 'Q4 more so.' },
+      { role: 'user', content: 'Why?' }
+    ]);
+
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: 'How did Q3 go?' }, { text: 'And Q4?' }] },
+      { role: 'model', parts: [{ text: 'Both grew.' }, { text: 'Q4 more so.' }] },
+      { role: 'user', parts: [{ text: 'Why?' }] }
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { AstraRequestError, requestWithRetry } from './request.ts';
+import { buildChatTurns, buildSystemPrompt } from './prompt.ts';
+import type { AstraHistoryTurn, AstraProvider, AstraProviderConfig } from './types.ts';
+
+// Calls the Gemini REST API directly (no SDK, so the same code runs in the
+// browser and in Deno)
+
+export const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+export const DEFAULT_GEMINI_MODEL = 'gemini-flash-latest';
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+  modelVersion?: string;
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+// Gemini rejects a conversation that starts with a model turn or repeats a role, which
+// the history window can produce (it may start mid-exchange, and a failed answer leaves
+// two questions in a row). Leading model turns are dropped and same-role turns merged.
+export const toGeminiContents = (turns: AstraHistoryTurn[]): GeminiContent[] => {
+  const contents: GeminiContent[] = [];
+  for (const turn of turns) {
+    const role = turn.role === 'assistant' ? 'model' : 'user';
+    const previous = contents[contents.length - 1];
+    if (!previous && role === 'model') continue;
+    if (previous?.role === role) {
+      previous.parts.push({ text: turn.content });
+    } else {
+      contents.push({ role, parts: [{ text: turn.content }] });
+    }
+  }
+  return contents;
+};
+
+export const createGeminiProvider = (config: AstraProviderConfig): AstraProvider => ({
+  name: 'gemini',
+  send: async (request, options = {}) => {
+    const model = config.geminiModel || DEFAULT_GEMINI_MODEL;
+
+    const data = await requestWithRetry<GeminiResponse>(
+      `${GEMINI_API_URL}/${encodeURIComponent(model)}:generateContent`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': config.geminiApiKey || '',
+        },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: buildSystemPrompt(request) }] },
+          contents: toGeminiContents(buildChatTurns(request))
+        })
+      },
+      (response) => response.json(),
+      {
+        signal: options.signal,
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+        onRetry: options.onRetry
+      }
+    );
+
+    const candidate = data.candidates?.[0];
+    const text = (candidate?.content?.parts || []).map(part => part.text || '').join('');
+    if (!text) {
+      const reason = data.promptFeedback?.blockReason || candidate?.finishReason || 'empty response';
+      throw new AstraRequestError(`Gemini returned no answer (${reason})`, 'http', 200);
+    }
+
+    const usage = data.usageMetadata || {};
+    return {
+      text,
+      modelUsed: data.modelVersion || model,
+      tokensUsed: {
+        prompt: usage.promptTokenCount,
+        completion: usage.candidatesTokenCount,
+        total: usage.totalTokenCount
+      },
+      metadata: { provider: 'gemini', finish_reason: candidate?.finishReason },
+      sources: [],
+      toolsUsed: [],
+      followUps: [],
+      streamed: false
+    };
+  }
+});
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateText } from './generateText.ts';
+
+const geminiResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('generateText', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the prompt with the generation settings and returns the text', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(geminiResponse({
+      candidates: [{ content: { parts: [{ text: ' Q3 revenue review ' }] } }]
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const text = await generateText(
+      { provider: 'gemini', geminiApiKey: 'key', geminiModel: 'gemini-test' },
+      'Title this',
+      { temperature: 0.3, maxOutputTokens: 30 }
+    );
+
+    expect(text).toBe('Q3 revenue review');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain('/gemini-test:generateContent');
+    expect(init.headers).toMatchObject({ 'x-goog-api-key': 'key' });
+    expect(JSON.parse(init.body)).toEqual({
+      contents: [{ role: 'user', parts: [{ text: 'Title this' }] }],
+      generationConfig: { temperature: 0.3, maxOutputTokens: 30 }
+    });
+  });
+
+  it('fails without calling Gemini when no key is set', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(generateText({ provider: 'n8n' }, 'Title this')).rejects.toMatchObject({ kind: 'config' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails when Gemini returns no text', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(geminiResponse({ promptFeedback: { blockReason: 'SAFETY' } })));
+
+    await expect(generateText({ provider: 'gemini', geminiApiKey: 'key' }, 'Title this'))
+      .rejects.toThrow('Gemini returned no text (SAFETY)');
+  });
+});
@@ -0,0 +1,64 @@
+import { AstraRequestError, requestWithRetry } from './request.ts';
+import { DEFAULT_GEMINI_MODEL, GEMINI_API_URL } from './geminiProvider.ts';
+import type { AstraProviderConfig } from './types.ts';
+
+// One-off Gemini completions for the small helpers around the chat: conversation
+// titles, follow-up suggestions and summaries. Runs in the astra-generate edge
+// function so the Gemini key never reaches the browser.
+
+export const MAX_GENERATE_PROMPT_LENGTH = 40000;
+export const MAX_GENERATE_OUTPUT_TOKENS = 1000;
+
+export interface GenerateTextOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+interface GeminiTextResponse {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+}
+
+export const generateText = async (
+  config: AstraProviderConfig,
+  prompt: string,
+  options: GenerateTextOptions = {}
+): Promise<string> => {
+  if (!config.geminiApiKey) {
+    throw new AstraRequestError('Gemini API key not set (VITE_GEMINI_API_KEY)', 'config');
+  }
+
+  const model = config.geminiModel || DEFAULT_GEMINI_MODEL;
+  const data = await requestWithRetry<GeminiTextResponse>(
+    `${GEMINI_API_URL}/${encodeURIComponent(model)}:generateContent`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.geminiApiKey,
+      },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt.substring(0, MAX_GENERATE_PROMPT_LENGTH) }] }],
+        generationConfig: {
+          temperature: options.temperature ?? 0.3,
+          maxOutputTokens: Math.min(options.maxOutputTokens || MAX_GENERATE_OUTPUT_TOKENS, MAX_GENERATE_OUTPUT_TOKENS)
+        }
+      })
+    },
+    (response) => response.json(),
+    {
+      signal: options.signal,
+      timeoutMs: config.timeoutMs,
+      maxRetries: config.maxRetries
+    }
+  );
+
+  const candidate = data.candidates?.[0];
+  const text = (candidate?.content?.parts || []).map(part => part.text || '').join('').trim();
+  if (!text) {
+    const reason = data.promptFeedback?.blockReason || candidate?.finishReason || 'empty response';
+    throw new AstraRequestError(`Gemini returned no text (${reason})`, 'http', 200);
+  }
+  return text;
+};
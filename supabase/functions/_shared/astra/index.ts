@@ -0,0 +1,68 @@
+import { AstraRequestError } from './request.ts';
+import { createN8nProvider } from './n8nProvider.ts';
+import { createGeminiProvider } from './geminiProvider.ts';
+import { createOpenAiProvider } from './openAiProvider.ts';
+import { createMockProvider } from './mockProvider.ts';
+import type { AstraProvider, AstraProviderConfig, AstraProviderName } from './types.ts';
+
+// Entry point shared by the web app (src/lib/astraProvider.ts) and the edge
+// functions (./denoConfig.ts). Only plain fetch is used here so it runs in both.
+
+export * from './types.ts';
+export * from './responseContract.ts';
+export { AstraRequestError, DEFAULT_MAX_RETRIES, DEFAULT_TIMEOUT_MS, parsePositiveInt } from './request.ts';
+export type { AstraErrorKind } from './request.ts';
+export {
+  createEdgeFunctionProvider,
+  SERVER_SIDE_PROVIDERS,
+  toStreamEndEvent,
+  toStreamErrorEvent
+} from './edgeFunctionProvider.ts';
+export type { EdgeFunctionProviderOptions } from './edgeFunctionProvider.ts';
+
+const PROVIDER_NAMES: AstraProviderName[] = ['n8n', 'gemini', 'openai', 'mock'];
+
+// Unknown or missing names fall back to n8n, the production backend
+export const parseProviderName = (value: string | undefined): AstraProviderName => {
+  const name = (value || '').trim().toLowerCase();
+  if (!name) return 'n8n';
+  if (PROVIDER_NAMES.includes(name as AstraProviderName)) return name as AstraProviderName;
+  console.warn(`⚠️ Unknown Astra provider "${value}", using n8n`);
+  return 'n8n';
+};
+
+// Describe what is missing for the selected provider, or null when it can be used
+export const getProviderConfigError = (config: AstraProviderConfig): string | null => {
+  switch (config.provider) {
+    case 'n8n':
+      return config.n8nWebhookUrl ? null : 'N8N webhook URL not set (VITE_N8N_WEBHOOK_URL)';
+    case 'gemini':
+      return config.geminiApiKey ? null : 'Gemini API key not set (VITE_GEMINI_API_KEY)';
+    case 'openai':
+      return config.openAiBaseUrl ? null : 'OpenAI-compatible endpoint not set (VITE_OPENAI_BASE_URL)';
+    case 'mock':
+      return null;
+  }
+};
+
+export const createAstraProvider = (config: AstraProviderConfig): AstraProvider => {
+  const provider = {
+    n8n: createN8nProvider,
+    gemini: createGeminiProvider,
+    openai: createOpenAiProvider,
+    mock: createMockProvider
+  }[config.provider](config);
+
+  // A misconfigured provider fails every request with a non-retryable error
+  const configError = getProviderConfigError(config);
+  if (configError) {
+    return {
+      name: provider.name,
+      send: async () => {
+        throw new AstraRequestError(`Configuration error: ${configError}`, 'config');
+      }
+    };
+  }
+
+  return provider;
+};
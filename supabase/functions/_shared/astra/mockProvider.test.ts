@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mockProvider.ts';
+import type { AstraRequest } from './types.ts';
+
+const request = (message: string): AstraRequest => ({
+  message,
+  mode: 'private',
+  user: { id: 'user-1', email: 'ann@example.com', name: 'Ann' }
+});
+
+describe('mock provider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('gives the same answer to the same request', async () => {
+    const provider = createMockProvider({ provider: 'mock' });
+
+    const first = await provider.send(request('How did Q3 go?'));
+    const second = await provider.send(request('How did Q3 go?'));
+
+    expect(first.text).toBe(second.text);
+    expect(first.followUps).toHaveLength(2);
+  });
+
+  it('fails [mock:error] requests after retrying them', async () => {
+    const provider = createMockProvider({ provider: 'mock', maxRetries: 1 });
+    const onRetry = vi.fn();
+
+    await expect(provider.send(request('[mock:error]'), { onRetry })).rejects.toMatchObject({
+      kind: 'http',
+      status: 503
+    });
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { AstraRequestError, requestWithRetry } from './request.ts';
+import type { AstraProvider, AstraProviderConfig, AstraRequest } from './types.ts';
+
+// Offline provider for local development and tests. The same request always gets
+// the same answer, streamed word by word, with a source, a tool run and follow-up
+// questions so the citation, "How Astra answered" and suggestion UI can be exercised too.
+//
+// Put `[mock:error]` in a message to get a 503 on every attempt. It goes through
+// requestWithRetry like a real backend, so the retries, backoff and final error run too.
+
+const MOCK_ERROR_TRIGGER = '[mock:error]';
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const buildMockAnswer = (request: AstraRequest): string => {
+  const words = request.message.trim().split(/\s+/).filter(Boolean);
+  return [
+    `**Mock answer** (${request.mode} mode) for ${request.user.name}`,
+    '',
+    `> ${request.message.trim().replace(/\n+/g, ' ')}`,
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    `| Words | ${words.length} |`,
+    `| Characters | ${request.message.length} |`,
+    `| Prior turns | ${request.history?.length || 0} |`,
+    `| Earlier summary | ${request.summary ? 'yes' : 'no'} |`,
+    `| Attachments | ${(request.attachments || []).map(attachment => attachment.name).join(', ') || 'none'} |`,
+    '',
+    'This reply comes from the offline mock provider [1], so no workflow or model was called.'
+  ].join('\n');
+};
+
+const wait = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AstraRequestError('Request was cancelled', 'aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const createMockProvider = (config: AstraProviderConfig): AstraProvider => ({
+  name: 'mock',
+  send: async (request, options = {}) => {
+    const { signal, onText } = options;
+    if (signal?.aborted) throw new AstraRequestError('Request was cancelled', 'aborted');
+
+    if (request.message.includes(MOCK_ERROR_TRIGGER)) {
+      return requestWithRetry<never>(
+        'mock://astra',
+        { method: 'POST' },
+        () => {
+          throw new AstraRequestError('Mock provider error responses are never read', 'http', 503);
+        },
+        {
+          signal,
+          timeoutMs: config.timeoutMs,
+          maxRetries: config.maxRetries,
+          onRetry: options.onRetry,
+          fetch: async () => new Response(
+            JSON.stringify({ message: 'Mock provider error' }),
+            { status: 503, statusText: 'Service Unavailable' }
+          )
+        }
+      );
+    }
+
+    const text = buildMockAnswer(request);
+    const delayMs = config.mockDelayMs || 0;
+
+    if (onText) {
+      // Keep the whitespace so every partial text is a prefix of the final one
+      const pieces = text.split(/(\s+)/);
+      let partial = '';
+      for (const piece of pieces) {
+        partial += piece;
+        if (!piece.trim()) continue;
+        if (delayMs > 0) await wait(delayMs, signal);
+        onText(partial);
+      }
+    }
+
+    const promptTokens = estimateTokens(request.message) + estimateTokens(request.summary || '')
+      + (request.history || []).reduce((total, turn) => total + estimateTokens(turn.content), 0);
+    const completionTokens = estimateTokens(text);
+
+    return {
+      text,
+      modelUsed: 'mock',
+      tokensUsed: {
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens + completionTokens
+      },
+      metadata: { provider: 'mock' },
+      sources: [{ title: 'Mock provider', snippet: 'Deterministic offline response', type: 'document' }],
+      toolsUsed: [{ name: 'mock_echo', durationMs: 0, status: 'success', summary: `${text.length} characters` }],
+      followUps: ['Summarize that in one sentence', 'Show the metrics as a chart'],
+      streamed: !!onText
+    };
+  }
+});
@@ -0,0 +1,69 @@
+import { requestWithRetry } from './request.ts';
+import { readWebhookStream } from './webhookStream.ts';
+import { normalizeFollowUps, normalizeSources, normalizeToolsUsed } from './responseContract.ts';
+import type { AstraProvider, AstraProviderConfig, AstraRequest } from './types.ts';
+
+// The n8n workflow receives the request as the webhook payload it has always had
+const toWebhookPayload = (request: AstraRequest) => ({
+  chatInput: request.message,
+  user_id: request.user.id,
+  user_email: request.user.email,
+  user_name: request.user.name,
+  conversation_id: request.conversationId ?? null,
+  mode: request.mode,
+  conversation_history: request.history,
+  conversation_summary: request.summary,
+  parent_message_id: request.parentMessageId,
+  reply_to_message: request.replyToMessage,
+  original_message: request.originalMessage,
+  mentions: request.mentions,
+  attachments: request.attachments?.map(attachment => ({
+    type: attachment.kind,
+    name: attachment.name,
+    mime_type: attachment.mimeType,
+    size: attachment.size,
+    url: attachment.url,
+    extracted_text: attachment.extractedText,
+    truncated: attachment.truncated
+  })),
+  metadata: request.metadata
+});
+
+export const createN8nProvider = (config: AstraProviderConfig): AstraProvider => ({
+  name: 'n8n',
+  send: async (request, options = {}) => {
+    const result = await requestWithRetry(
+      config.n8nWebhookUrl || '',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream, application/x-ndjson, application/json, text/plain',
+        },
+        body: JSON.stringify(toWebhookPayload(request))
+      },
+      (response) => {
+        console.log('📥 n8n response status:', response.status);
+        return readWebhookStream(response, options.onText || (() => undefined));
+      },
+      {
+        signal: options.signal,
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+        onRetry: options.onRetry
+      }
+    );
+
+    const payload = result.payload || {};
+    return {
+      text: result.text,
+      modelUsed: payload.model_used || 'n8n-workflow',
+      tokensUsed: payload.tokens_used || {},
+      metadata: payload.metadata || {},
+      sources: normalizeSources(payload),
+      toolsUsed: normalizeToolsUsed(payload),
+      followUps: normalizeFollowUps(payload),
+      streamed: result.streamed
+    };
+  }
+});
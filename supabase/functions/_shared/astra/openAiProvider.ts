@@ -0,0 +1,70 @@
+import { AstraRequestError, requestWithRetry } from './request.ts';
+import { buildChatTurns, buildSystemPrompt } from './prompt.ts';
+import type { AstraProvider, AstraProviderConfig } from './types.ts';
+
+// Any endpoint that implements OpenAI's `POST /chat/completions` (OpenAI itself,
+// Azure OpenAI, OpenRouter, a local Ollama or vLLM server, ...)
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+export const createOpenAiProvider = (config: AstraProviderConfig): AstraProvider => ({
+  name: 'openai',
+  send: async (request, options = {}) => {
+    const model = config.openAiModel || DEFAULT_OPENAI_MODEL;
+    const baseUrl = (config.openAiBaseUrl || '').replace(/\/+$/, '');
+
+    const data = await requestWithRetry<ChatCompletionResponse>(
+      `${baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // Local servers usually run without a key
+          ...(config.openAiApiKey ? { 'Authorization': `Bearer ${config.openAiApiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: buildSystemPrompt(request) },
+            ...buildChatTurns(request)
+          ]
+        })
+      },
+      (response) => response.json(),
+      {
+        signal: options.signal,
+        timeoutMs: config.timeoutMs,
+        maxRetries: config.maxRetries,
+        onRetry: options.onRetry
+      }
+    );
+
+    const choice = data.choices?.[0];
+    const text = choice?.message?.content || '';
+    if (!text) {
+      throw new AstraRequestError(`Chat completion returned no answer (${choice?.finish_reason || 'empty response'})`, 'http', 200);
+    }
+
+    const usage = data.usage || {};
+    return {
+      text,
+      modelUsed: data.model || model,
+      tokensUsed: {
+        prompt: usage.prompt_tokens,
+        completion: usage.completion_tokens,
+        total: usage.total_tokens
+      },
+      metadata: { provider: 'openai', finish_reason: choice?.finish_reason },
+      sources: [],
+      toolsUsed: [],
+      followUps: [],
+      streamed: false
+    };
+  }
+});
@@ -0,0 +1,49 @@
+import type { AstraHistoryTurn, AstraRequest } from './types.ts';
+
+// Prompt building for the providers that talk to a model directly (Gemini and
+// OpenAI-compatible). The n8n workflow receives the raw request fields instead and
+// builds its own prompt.
+
+const MODE_INSTRUCTIONS: Record<AstraRequest['mode'], string> = {
+  private: 'You are answering in a private one-to-one chat.',
+  team: 'You were mentioned in a team chat; keep the answer short and useful to the whole team.',
+  reports: 'You are writing a report. Use headings, bullet points and tables where they help.'
+};
+
+export const buildSystemPrompt = (request: AstraRequest): string => {
+  const parts = [
+    'You are Astra, an AI assistant for a company team. Answer in Markdown.',
+    MODE_INSTRUCTIONS[request.mode],
+    `You are talking to ${request.user.name}.`
+  ];
+
+  if (request.summary) {
+    parts.push(`Summary of the earlier conversation:\n${request.summary}`);
+  }
+  if (request.replyToMessage) {
+    parts.push(`The user is replying to this earlier message:\n${request.replyToMessage}`);
+  }
+  if (request.metadata && Object.keys(request.metadata).length > 0) {
+    parts.push(`Request details: ${JSON.stringify(request.metadata)}`);
+  }
+
+  return parts.join('\n\n');
+};
+
+// Attached files go into the question itself so the model reads them alongside it
+const formatAttachments = (request: AstraRequest): string =>
+  (request.attachments || []).map(attachment => [
+    `Attached ${attachment.kind.toUpperCase()} file "${attachment.name}"${attachment.truncated ? ' (truncated)' : ''}:`,
+    '```',
+    attachment.extractedText || '(no text could be extracted)',
+    '```'
+  ].join('\n')).join('\n\n');
+
+// Prior turns followed by the new question
+export const buildChatTurns = (request: AstraRequest): AstraHistoryTurn[] => {
+  const attachments = formatAttachments(request);
+  return [
+    ...(request.history || []),
+    { role: 'user', content: attachments ? `${request.message}\n\n${attachments}` : request.message }
+  ];
+};
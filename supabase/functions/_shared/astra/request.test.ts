@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AstraRequestError, requestWithRetry } from './request.ts';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// A fetch that only settles when its request is aborted
+const hangingFetch = (_url: string | URL | Request, init?: RequestInit): Promise<Response> =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  });
+
+const readJson = (response: Response) => response.json();
+
+const catchError = async (promise: Promise<unknown>): Promise<AstraRequestError> => {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof AstraRequestError) return error;
+    throw error;
+  }
+  throw new Error('Expected the request to fail');
+};
+
+describe('requestWithRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the parsed response of a successful request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ output: 'ok' }));
+
+    const result = await requestWithRetry('https://astra.test', {}, readJson, { fetch: fetchMock });
+
+    expect(result).toEqual({ output: 'ok' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries 5xx responses with exponential backoff', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ message: 'busy' }, 503))
+      .mockResolvedValueOnce(jsonResponse({ message: 'busy' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ output: 'ok' }));
+    const onRetry = vi.fn();
+
+    const result = await requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      maxRetries: 2,
+      retryDelayMs: 10,
+      onRetry
+    });
+
+    expect(result).toEqual({ output: 'ok' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+
+    const [firstAttempt, firstDelay, firstError] = onRetry.mock.calls[0];
+    const [secondAttempt, secondDelay] = onRetry.mock.calls[1];
+    expect(firstAttempt).toBe(1);
+    expect(secondAttempt).toBe(2);
+    // 10ms then 20ms, each with +/-20% jitter
+    expect(firstDelay).toBeGreaterThanOrEqual(8);
+    expect(firstDelay).toBeLessThanOrEqual(12);
+    expect(secondDelay).toBeGreaterThanOrEqual(16);
+    expect(secondDelay).toBeLessThanOrEqual(24);
+    expect(firstError).toMatchObject({ kind: 'http', status: 503, message: 'Server error: busy' });
+  });
+
+  it('gives up with the last error once the retries are used', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ message: 'down' }, 500));
+
+    const error = await catchError(requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      maxRetries: 2,
+      retryDelayMs: 1
+    }));
+
+    expect(error.kind).toBe('http');
+    expect(error.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry 4xx responses', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ message: 'bad request' }, 400));
+
+    const error = await catchError(requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      retryDelayMs: 1
+    }));
+
+    expect(error).toMatchObject({ kind: 'http', status: 400, isRetryable: false });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries network errors', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse({ output: 'ok' }));
+
+    const result = await requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      retryDelayMs: 1
+    });
+
+    expect(result).toEqual({ output: 'ok' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('times out a request that never answers', async () => {
+    const fetchMock = vi.fn(hangingFetch);
+
+    const error = await catchError(requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      timeoutMs: 20,
+      maxRetries: 0
+    }));
+
+    expect(error.kind).toBe('timeout');
+    expect(error.isRetryable).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a response body that stops arriving', async () => {
+    const fetchMock = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => new Response(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"output":'));
+          init?.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+        }
+      })
+    ));
+
+    const error = await catchError(requestWithRetry('https://astra.test', {}, response => response.text(), {
+      fetch: fetchMock,
+      timeoutMs: 20
+    }));
+
+    expect(error.kind).toBe('timeout');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels an in-flight request when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(hangingFetch);
+
+    const request = requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      signal: controller.signal
+    });
+    controller.abort();
+    const error = await catchError(request);
+
+    expect(error.kind).toBe('aborted');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a pending retry when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ message: 'busy' }, 503));
+
+    const error = await catchError(requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      signal: controller.signal,
+      retryDelayMs: 10000,
+      onRetry: () => controller.abort()
+    }));
+
+    expect(error.kind).toBe('aborted');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send anything when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fetchMock = vi.fn();
+
+    const error = await catchError(requestWithRetry('https://astra.test', {}, readJson, {
+      fetch: fetchMock,
+      signal: controller.signal
+    }));
+
+    expect(error.kind).toBe('aborted');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
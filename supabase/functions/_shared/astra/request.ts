@@ -0,0 +1,169 @@
+// HTTP calls to an Astra backend with a timeout, cancellation and exponential-backoff
+// retry for transient failures (network errors and 5xx responses).
+//
+// Each attempt covers both the request and reading the response body, so a
+// workflow that hangs mid-stream is timed out as well. Failures that happen
+// after the body started arriving are not retried.
+
+// `config` means the provider is missing its URL or API key and is never retried
+export type AstraErrorKind = 'aborted' | 'timeout' | 'network' | 'http' | 'config';
+
+export class AstraRequestError extends Error {
+  kind: AstraErrorKind;
+  status?: number;
+
+  constructor(message: string, kind: AstraErrorKind, status?: number) {
+    super(message);
+    this.name = 'AstraRequestError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get isRetryable(): boolean {
+    return this.kind === 'network' || (this.kind === 'http' && (this.status || 0) >= 500);
+  }
+}
+
+export interface AstraRequestOptions {
+  // Cancels the request (and any pending retry) when aborted, e.g. by a Stop button
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: AstraRequestError) => void;
+  // Stands in for the global fetch, e.g. for the mock provider's simulated failures
+  fetch?: typeof fetch;
+}
+
+export const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const DEFAULT_TIMEOUT_MS = 120000;
+export const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 10000;
+
+// Exponential backoff with a little jitter so retries from many tabs don't line up
+const getRetryDelay = (attempt: number, baseDelayMs: number): number => {
+  const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+const abortedError = () => new AstraRequestError('Request was cancelled', 'aborted');
+
+const waitForRetry = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Turn a non-2xx response into an error with the most useful message the server gave
+const toHttpError = async (response: Response): Promise<AstraRequestError> => {
+  const errorText = await response.text().catch(() => '');
+  console.error('❌ Astra request failed:', {
+    status: response.status,
+    statusText: response.statusText,
+    errorText
+  });
+
+  let message = `Request failed: ${response.status} ${response.statusText}`;
+  if (errorText) {
+    try {
+      const errorJson = JSON.parse(errorText);
+      message = errorJson.message ? `Server error: ${errorJson.message}` : `${message} - ${errorText}`;
+    } catch {
+      message += ` - ${errorText}`;
+    }
+  }
+
+  return new AstraRequestError(message, 'http', response.status);
+};
+
+export const requestWithRetry = async <T>(
+  url: string,
+  init: RequestInit,
+  readResponse: (response: Response) => Promise<T>,
+  options: AstraRequestOptions = {}
+): Promise<T> => {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    onRetry,
+    fetch: fetchResponse = fetch
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortedError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+      : undefined;
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    // Map an abort from either source to the matching error kind
+    const toRequestError = (error: unknown, fallback: AstraErrorKind): AstraRequestError => {
+      if (error instanceof AstraRequestError) return error;
+      if (timedOut) {
+        return new AstraRequestError(`Astra did not respond within ${Math.round(timeoutMs / 1000)} seconds`, 'timeout');
+      }
+      if (signal?.aborted) return abortedError();
+      return new AstraRequestError(error instanceof Error ? error.message : String(error), fallback);
+    };
+
+    try {
+      let requestError: AstraRequestError | null = null;
+      let response: Response | null = null;
+
+      try {
+        response = await fetchResponse(url, { ...init, signal: controller.signal });
+        if (!response.ok) {
+          requestError = await toHttpError(response);
+        }
+      } catch (error) {
+        requestError = toRequestError(error, 'network');
+      }
+
+      if (requestError || !response) {
+        const error = requestError || new AstraRequestError('No response from Astra', 'network');
+        if (!error.isRetryable || attempt >= maxRetries) throw error;
+
+        const delayMs = getRetryDelay(attempt + 1, retryDelayMs);
+        console.warn(`🔁 Astra request failed (${error.message}), retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`);
+        onRetry?.(attempt + 1, delayMs, error);
+        clearTimeout(timer);
+        await waitForRetry(delayMs, signal);
+        continue;
+      }
+
+      try {
+        return await readResponse(response);
+      } catch (error) {
+        throw toRequestError(error, 'network');
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+};
@@ -0,0 +1,181 @@
+// The response contract between the n8n workflow and Astra. The other providers
+// map their own responses onto the same fields.
+//
+// The webhook may answer with a single JSON body or stream events (see
+// webhookStream.ts); either way the final payload can carry:
+//
+//   {
+//     "output": "Revenue grew 12% [1] ...",          // Markdown answer
+//     "model_used": "gpt-4o",
+//     "tokens_used": { "prompt": 812, "completion": 204 },
+//     "metadata": { ... },                           // stored as-is
+//     "sources": [                                   // or "citations"
+//       { "title": "Q3 board deck", "url": "https://...", "snippet": "...", "type": "document" },
+//       "https://example.com/plain-url-is-fine"
+//     ],
+//     "tools_used": [
+//       { "name": "supabase_query", "duration_ms": 420, "status": "success", "summary": "3 rows" },
+//       "web_search"
+//     ],
+//     "follow_ups": [                                // optional, or "suggested_questions"
+//       "How does that compare to Q2?",
+//       { "text": "Break revenue down by region" }
+//     ]
+//   }
+//
+// Sources are numbered in the order given, so `[1]` in the answer refers to the
+// first source. The lists are normalized here and stored in the Astra message's
+// metadata as `sources`, `tools_used` and, for chat answers, `follow_ups`. When the
+// workflow sends no follow-ups, private chat generates some (see src/lib/followUps.ts).
+
+export interface AstraSource {
+  title: string;
+  url?: string;
+  snippet?: string;
+  type?: string;
+}
+
+export interface AstraToolRun {
+  name: string;
+  durationMs?: number;
+  status?: 'success' | 'error';
+  summary?: string;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const firstString = (record: UnknownRecord, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+const firstNumber = (record: UnknownRecord, keys: string[]): number | undefined => {
+  for (const key of keys) {
+    const value = typeof record[key] === 'string' ? Number(record[key]) : record[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+  }
+  return undefined;
+};
+
+// Only http(s) links are rendered as links
+const toSafeUrl = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+const toSource = (value: unknown): AstraSource | null => {
+  if (typeof value === 'string') {
+    const url = toSafeUrl(value.trim());
+    return url ? { title: getHostname(url), url } : value.trim() ? { title: value.trim() } : null;
+  }
+  if (!isRecord(value)) return null;
+
+  const url = toSafeUrl(firstString(value, ['url', 'link', 'href', 'source_url']));
+  const title = firstString(value, ['title', 'name', 'label', 'source']) || (url ? getHostname(url) : undefined);
+  if (!title) return null;
+
+  return {
+    title,
+    url,
+    snippet: firstString(value, ['snippet', 'excerpt', 'text', 'content', 'quote']),
+    type: firstString(value, ['type', 'kind'])
+  };
+};
+
+const toToolRun = (value: unknown): AstraToolRun | null => {
+  if (typeof value === 'string') {
+    return value.trim() ? { name: value.trim() } : null;
+  }
+  if (!isRecord(value)) return null;
+
+  const name = firstString(value, ['name', 'tool', 'tool_name', 'id']);
+  if (!name) return null;
+
+  const durationSeconds = firstNumber(value, ['duration_s', 'duration_seconds']);
+  const status = firstString(value, ['status', 'result']);
+  const failed = value.error !== undefined && value.error !== null && value.error !== false;
+
+  return {
+    name,
+    durationMs: firstNumber(value, ['duration_ms', 'durationMs', 'time_ms', 'elapsed_ms'])
+      ?? (durationSeconds !== undefined ? durationSeconds * 1000 : undefined),
+    status: failed || status === 'error' || status === 'failed' ? 'error' : status ? 'success' : undefined,
+    summary: firstString(value, ['summary', 'output_summary', 'description'])
+      || (typeof value.error === 'string' ? value.error : undefined)
+  };
+};
+
+const toList = <T>(value: unknown, convert: (item: unknown) => T | null): T[] =>
+  Array.isArray(value) ? value.map(convert).filter((item): item is T => item !== null) : [];
+
+// Read `sources` (or `citations`) from a webhook payload, falling back to its metadata
+export const normalizeSources = (payload: UnknownRecord): AstraSource[] => {
+  const metadata = isRecord(payload.metadata) ? payload.metadata : {};
+  const raw = payload.sources ?? payload.citations ?? metadata.sources ?? metadata.citations;
+  return toList(raw, toSource);
+};
+
+export const normalizeToolsUsed = (payload: UnknownRecord): AstraToolRun[] => {
+  const metadata = isRecord(payload.metadata) ? payload.metadata : {};
+  return toList(payload.tools_used ?? metadata.tools_used, toToolRun);
+};
+
+export const MAX_FOLLOW_UPS = 3;
+
+const toFollowUp = (value: unknown): string | null => {
+  const text = typeof value === 'string'
+    ? value.trim()
+    : isRecord(value) ? firstString(value, ['text', 'question', 'prompt', 'label']) : undefined;
+  return text ? text.replace(/\s+/g, ' ') : null;
+};
+
+// Distinct suggestions, in the order given, capped at MAX_FOLLOW_UPS
+const toFollowUpList = (value: unknown): string[] => {
+  const seen = new Set<string>();
+  return toList(value, toFollowUp)
+    .filter(text => {
+      const key = text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_FOLLOW_UPS);
+};
+
+export const normalizeFollowUps = (payload: UnknownRecord): string[] => {
+  const metadata = isRecord(payload.metadata) ? payload.metadata : {};
+  const raw = payload.follow_ups ?? payload.suggested_questions ?? metadata.follow_ups ?? metadata.suggested_questions;
+  return toFollowUpList(raw);
+};
+
+// Stored messages were normalized when logged, but older rows may hold raw values
+export const getMessageSources = (metadata: unknown): AstraSource[] =>
+  isRecord(metadata) ? toList(metadata.sources, toSource) : [];
+
+export const getMessageToolRuns = (metadata: unknown): AstraToolRun[] =>
+  isRecord(metadata) ? toList(metadata.tools_used, toToolRun) : [];
+
+export const getMessageFollowUps = (metadata: unknown): string[] =>
+  isRecord(metadata) ? toFollowUpList(metadata.follow_ups) : [];
+
+export const formatDuration = (durationMs: number): string =>
+  durationMs < 1000 ? `${Math.round(durationMs)}ms` : `${(durationMs / 1000).toFixed(1)}s`;
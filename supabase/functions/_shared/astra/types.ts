@@ -0,0 +1,90 @@
+import type { AstraSource, AstraToolRun } from './responseContract.ts';
+import type { AstraRequestError } from './request.ts';
+
+// One request/response shape for every backend that can answer as Astra.
+// The web app and the edge functions build an `AstraRequest`, hand it to whichever
+// provider is configured and get an `AstraResponse` back, so nothing outside the
+// providers knows about webhook payloads or model APIs.
+
+export type AstraMode = 'private' | 'team' | 'reports';
+
+export interface AstraHistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// A file the user attached, with its text already extracted by the client
+export interface AstraAttachment {
+  name: string;
+  kind: 'pdf' | 'csv' | 'xlsx' | 'text';
+  mimeType: string;
+  size: number;
+  url: string;
+  extractedText?: string;
+  truncated?: boolean;
+}
+
+export interface AstraRequest {
+  message: string;
+  mode: AstraMode;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+  };
+  conversationId?: string | null;
+  // Prior turns, oldest first, plus a summary of anything older
+  history?: AstraHistoryTurn[];
+  summary?: string | null;
+  parentMessageId?: string | null;
+  replyToMessage?: string | null;
+  // Team chat: the full message the prompt was taken from and who it mentioned
+  originalMessage?: string;
+  mentions?: string[];
+  attachments?: AstraAttachment[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface AstraResponse {
+  text: string;
+  modelUsed: string;
+  tokensUsed: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+  sources: AstraSource[];
+  toolsUsed: AstraToolRun[];
+  // Suggested next questions; empty when the backend sent none
+  followUps: string[];
+  // True when the text arrived in pieces through `onText`
+  streamed: boolean;
+}
+
+export interface AstraSendOptions {
+  // Cancels the request (and any pending retry) when aborted
+  signal?: AbortSignal;
+  // Called with the full text so far whenever more of the answer arrives
+  onText?: (text: string) => void;
+  onRetry?: (attempt: number, delayMs: number, error: AstraRequestError) => void;
+}
+
+export interface AstraProvider {
+  name: AstraProviderName;
+  send: (request: AstraRequest, options?: AstraSendOptions) => Promise<AstraResponse>;
+}
+
+export type AstraProviderName = 'n8n' | 'gemini' | 'openai' | 'mock';
+
+// Everything a provider needs, read from import.meta.env in the app and Deno.env
+// in the edge functions
+export interface AstraProviderConfig {
+  provider: AstraProviderName;
+  n8nWebhookUrl?: string;
+  geminiApiKey?: string;
+  geminiModel?: string;
+  openAiBaseUrl?: string;
+  openAiApiKey?: string;
+  openAiModel?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  // Mock provider: pause between streamed words (0 streams instantly)
+  mockDelayMs?: number;
+}
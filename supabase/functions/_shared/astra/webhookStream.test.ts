@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { readWebhookStream } from './webhookStream.ts';
+
+// A streamed response that delivers each chunk as a separate read
+const streamedResponse = (chunks: (string | Uint8Array)[], contentType: string) => {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+        controller.close();
+      }
+    }),
+    { headers: { 'Content-Type': contentType } }
+  );
+};
+
+describe('readWebhookStream', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('reads a single JSON body', async () => {
+    const onText = vi.fn();
+    const response = streamedResponse(['{"output":"Hello', ' there","model_used":"gpt-4o"}'], 'application/json');
+
+    const result = await readWebhookStream(response, onText);
+
+    expect(result.text).toBe('Hello there');
+    expect(result.payload?.model_used).toBe('gpt-4o');
+    expect(result.streamed).toBe(false);
+    expect(onText).not.toHaveBeenCalled();
+  });
+
+  it('recognises n8n NDJSON when the first line is split across chunks', async () => {
+    const onText = vi.fn();
+    const response = streamedResponse([
+      '{"type":"begin"',
+      '}\n{"type":"item","content":"Hel"}\n{"type":"item","con',
+      'tent":"lo"}\n{"type":"end","model_used":"n8n"}\n'
+    ], 'application/json');
+
+    const result = await readWebhookStream(response, onText);
+
+    expect(result.text).toBe('Hello');
+    expect(result.payload?.model_used).toBe('n8n');
+    expect(result.streamed).toBe(true);
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['Hel', 'Hello']);
+  });
+
+  it('reads NDJSON that ends without a trailing newline', async () => {
+    const response = streamedResponse(['{"type":"item","content":"a"}\n{"type":"item","content":"b"}'], 'application/x-ndjson');
+
+    const result = await readWebhookStream(response, vi.fn());
+
+    expect(result.text).toBe('ab');
+  });
+
+  it('accepts SSE frames with CRLF line endings', async () => {
+    const onText = vi.fn();
+    const response = streamedResponse([
+      'data: {"delta":"Hi"}\r\n\r\ndata: {"delta":" there"}\r',
+      '\n\r\ndata: {"type":"done","follow_ups":["More?"]}\r\n\r\n'
+    ], 'text/event-stream');
+
+    const result = await readWebhookStream(response, onText);
+
+    expect(result.text).toBe('Hi there');
+    expect(result.payload?.follow_ups).toEqual(['More?']);
+    expect(onText).toHaveBeenLastCalledWith('Hi there');
+  });
+
+  it('stops at [DONE]', async () => {
+    const response = streamedResponse(['data: first\n\ndata: [DONE]\n\ndata: ignored\n\n'], 'text/event-stream');
+
+    const result = await readWebhookStream(response, vi.fn());
+
+    expect(result.text).toBe('first');
+  });
+
+  it('keeps multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('{"type":"item","content":"Price: 5€"}\n');
+    const splitAt = bytes.length - 4;
+    const response = streamedResponse([bytes.slice(0, splitAt), bytes.slice(splitAt)], 'application/x-ndjson');
+
+    const result = await readWebhookStream(response, vi.fn());
+
+    expect(result.text).toBe('Price: 5€');
+  });
+
+  it('keeps the decoder tail of a body that ends mid-character', async () => {
+    const euro = new TextEncoder().encode('€');
+    const response = streamedResponse(['Total: 5', euro.slice(0, 2)], 'text/plain');
+
+    const result = await readWebhookStream(response, vi.fn());
+
+    expect(result.text).toBe('Total: 5�');
+  });
+
+  it('streams plain text as it arrives', async () => {
+    const onText = vi.fn();
+    const response = streamedResponse(['Hello', ' world'], 'text/plain; charset=utf-8');
+
+    const result = await readWebhookStream(response, onText);
+
+    expect(result.text).toBe('Hello world');
+    expect(result.streamed).toBe(true);
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['Hello', 'Hello world']);
+  });
+});
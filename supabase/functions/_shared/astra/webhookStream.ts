@@ -0,0 +1,219 @@
+// Reads an n8n webhook response incrementally so Astra's answer can be rendered
+// while it is still being generated.
+//
+// Supported response shapes:
+//   - Server-Sent Events (`text/event-stream`), one `data:` payload per chunk
+//   - n8n streaming / NDJSON, one JSON object per line ({ type: 'item', content })
+//   - Plain text streamed in chunks (`text/plain`)
+//   - A single JSON body (the classic `{ output, metadata, ... }` shape)
+
+export interface WebhookPayload {
+  output?: string;
+  metadata?: Record<string, unknown>;
+  tokens_used?: Record<string, unknown>;
+  tools_used?: unknown[];
+  sources?: unknown[];
+  citations?: unknown[];
+  follow_ups?: unknown[];
+  model_used?: string;
+  [key: string]: unknown;
+}
+
+export interface WebhookStreamResult {
+  text: string;
+  payload: WebhookPayload | null;
+  streamed: boolean;
+}
+
+type StreamFormat = 'sse' | 'ndjson' | 'text' | 'json';
+
+const STREAM_END_EVENTS = ['end', 'done', 'complete'];
+
+const parseJson = (value: string): WebhookPayload | null => {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Pull the incremental text out of a single streamed event
+const extractDelta = (event: WebhookPayload): string => {
+  if (typeof event.content === 'string') return event.content;
+  if (typeof event.delta === 'string') return event.delta;
+  if (typeof event.text === 'string') return event.text;
+  if (typeof event.token === 'string') return event.token;
+  return '';
+};
+
+// Keep any final-answer fields (output, metadata, tokens_used, ...) the stream carries
+const mergePayload = (target: WebhookPayload | null, event: WebhookPayload): WebhookPayload | null => {
+  const rest: WebhookPayload = { ...event };
+  ['type', 'content', 'delta', 'text', 'token'].forEach(key => delete rest[key]);
+  if (Object.keys(rest).length === 0) return target;
+  return {
+    ...(target || {}),
+    ...rest,
+    metadata: { ...(target?.metadata || {}), ...(rest.metadata || {}) }
+  };
+};
+
+// Returns null while more of the body is needed to tell the formats apart
+const detectFormat = (contentType: string, received: string, complete: boolean): StreamFormat | null => {
+  if (contentType.includes('text/event-stream')) return 'sse';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'ndjson';
+
+  const looksLikeJson = received.trimStart().startsWith('{');
+
+  // NDJSON is only recognisable once its first line is complete
+  if (!received.includes('\n') && !complete) {
+    return contentType.includes('text/plain') && !looksLikeJson ? 'text' : null;
+  }
+
+  // n8n streams NDJSON with an application/json content type; recognise it by its first line
+  const firstLine = received.split('\n')[0].trim();
+  const firstEvent = firstLine ? parseJson(firstLine) : null;
+  if (firstEvent && typeof firstEvent.type === 'string' && received.includes('\n')) {
+    return 'ndjson';
+  }
+
+  if (contentType.includes('application/json') || looksLikeJson) return 'json';
+  return 'text';
+};
+
+export const readWebhookStream = async (
+  response: Response,
+  onText: (text: string) => void
+): Promise<WebhookStreamResult> => {
+  const contentType = response.headers.get('content-type') || '';
+
+  // Environments without ReadableStream support fall back to a single read
+  if (!response.body) {
+    const raw = await response.text();
+    const payload = parseJson(raw);
+    return { text: payload?.output ?? raw, payload, streamed: false };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  let format: StreamFormat | null = null;
+  let raw = '';
+  let buffer = '';
+  const state: { text: string; payload: WebhookPayload | null; finished: boolean } = {
+    text: '',
+    payload: null,
+    finished: false
+  };
+
+  const handleEvent = (data: string) => {
+    const trimmed = data.trim();
+    if (!trimmed) return;
+    if (trimmed === '[DONE]') {
+      state.finished = true;
+      return;
+    }
+
+    const event = parseJson(trimmed);
+    if (!event) {
+      // SSE payloads are allowed to be bare text
+      state.text += data;
+      onText(state.text);
+      return;
+    }
+
+    if (typeof event.type === 'string' && STREAM_END_EVENTS.includes(event.type)) {
+      state.payload = mergePayload(state.payload, event);
+      state.finished = true;
+      return;
+    }
+
+    const delta = extractDelta(event);
+    if (delta) {
+      state.text += delta;
+      onText(state.text);
+    }
+    state.payload = mergePayload(state.payload, event);
+  };
+
+  // SSE frames may use CRLF line endings; a trailing \r waits for the next chunk
+  const appendToBuffer = (text: string) => {
+    buffer = (buffer + text).replace(/\r\n/g, '\n');
+  };
+
+  const flushLines = (final: boolean) => {
+    const separator = format === 'sse' ? '\n\n' : '\n';
+    const parts = buffer.split(separator);
+    buffer = final ? '' : parts.pop() || '';
+
+    for (const part of parts) {
+      // Anything after the end event or [DONE] is not part of the answer
+      if (state.finished) break;
+      if (format === 'sse') {
+        const data = part
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        handleEvent(data);
+      } else {
+        handleEvent(part);
+      }
+    }
+  };
+
+  while (!state.finished) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const chunk = decoder.decode(value, { stream: true });
+    raw += chunk;
+
+    // Until the format is known everything received so far is still unprocessed
+    let unprocessed = chunk;
+    if (!format) {
+      format = detectFormat(contentType, raw, false);
+      if (!format) continue;
+      console.log('📡 readWebhookStream: Detected response format:', format);
+      unprocessed = raw;
+    }
+
+    if (format === 'text') {
+      onText(raw);
+    } else if (format === 'sse' || format === 'ndjson') {
+      appendToBuffer(unprocessed);
+      flushLines(false);
+    }
+  }
+
+  if (state.finished) {
+    reader.cancel().catch(() => undefined);
+  }
+
+  // Bytes of a multi-byte character held back by the decoder
+  const tail = decoder.decode();
+  raw += tail;
+
+  if (!format) {
+    format = detectFormat(contentType, raw, true);
+    console.log('📡 readWebhookStream: Detected response format:', format);
+    if (format === 'sse' || format === 'ndjson') appendToBuffer(raw);
+  } else if (format === 'sse' || format === 'ndjson') {
+    appendToBuffer(tail);
+  }
+
+  if (format === 'sse' || format === 'ndjson') {
+    flushLines(true);
+    const finalText = state.text || state.payload?.output || '';
+    return { text: finalText, payload: state.payload, streamed: true };
+  }
+
+  // Single JSON body or plain text: parse the whole thing like before
+  const jsonPayload = parseJson(raw);
+  return {
+    text: jsonPayload?.output ?? raw,
+    payload: jsonPayload,
+    streamed: format === 'text'
+  };
+};
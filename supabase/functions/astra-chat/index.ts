@@ -0,0 +1,125 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getProviderConfigFromEnv } from '../_shared/astra/denoConfig.ts';
+import {
+  createAstraProvider,
+  getProviderConfigError,
+  toStreamEndEvent,
+  toStreamErrorEvent
+} from '../_shared/astra/index.ts';
+import type { AstraRequest } from '../_shared/astra/index.ts';
+
+// Answers a question from the web app with the Gemini or OpenAI provider, so their
+// API keys only live in this function's secrets. The answer is streamed back as
+// NDJSON ({ type: 'item', content } lines, then an end or error event).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, Accept',
+};
+
+interface RequestBody {
+  request: AstraRequest;
+}
+
+const jsonError = (message: string, status: number) =>
+  new Response(JSON.stringify({ message }), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return jsonError('Missing Supabase configuration', 500);
+  }
+
+  // Only signed-in users may spend the provider's quota
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return jsonError('Not signed in', 401);
+  }
+
+  const config = getProviderConfigFromEnv();
+  const configError = getProviderConfigError(config);
+  if (configError) {
+    return jsonError(`${configError}. Please configure it in your Supabase project settings.`, 500);
+  }
+  const astraProvider = createAstraProvider(config);
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonError('Invalid request body', 400);
+  }
+  if (!body?.request?.message) {
+    return jsonError('Missing message', 400);
+  }
+
+  // The caller's identity comes from the verified token, not the request body
+  const astraRequest: AstraRequest = {
+    ...body.request,
+    user: {
+      id: user.id,
+      email: user.email || '',
+      name: body.request.user?.name || user.email || 'Unknown User'
+    }
+  };
+
+  console.log(`🌐 astra-chat: ${astraProvider.name} request from`, user.id, `(${astraRequest.mode})`);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      let sentText = '';
+      const sendText = (text: string) => {
+        if (!text.startsWith(sentText) || text.length === sentText.length) return;
+        write({ type: 'item', content: text.slice(sentText.length) });
+        sentText = text;
+      };
+
+      try {
+        const response = await astraProvider.send(astraRequest, {
+          signal: req.signal,
+          onText: sendText
+        });
+        // Providers that don't stream deliver the whole answer at once
+        sendText(response.text);
+        write(toStreamEndEvent(response));
+      } catch (error) {
+        console.error('❌ astra-chat: provider request failed:', error);
+        write(toStreamErrorEvent(error));
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
@@ -0,0 +1,78 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getProviderConfigFromEnv } from '../_shared/astra/denoConfig.ts';
+import { generateText } from '../_shared/astra/generateText.ts';
+import { AstraRequestError } from '../_shared/astra/index.ts';
+
+// Short Gemini completions for the web app (conversation titles, follow-up
+// suggestions, history and share summaries). The web app builds the prompt and
+// falls back to its own text when this fails.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface RequestBody {
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return jsonResponse({ message: 'Missing Supabase configuration' }, 500);
+  }
+
+  // Only signed-in users may spend the Gemini quota
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return jsonResponse({ message: 'Not signed in' }, 401);
+  }
+
+  let body: RequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ message: 'Invalid request body' }, 400);
+  }
+  if (typeof body?.prompt !== 'string' || !body.prompt.trim()) {
+    return jsonResponse({ message: 'Missing prompt' }, 400);
+  }
+
+  try {
+    const text = await generateText(getProviderConfigFromEnv(), body.prompt, {
+      temperature: body.temperature,
+      maxOutputTokens: body.maxOutputTokens,
+      signal: req.signal
+    });
+    return jsonResponse({ text });
+  } catch (error) {
+    console.error('❌ astra-generate: generation failed:', error);
+    // Not configured is permanent; the client falls back instead of retrying
+    const status = error instanceof AstraRequestError && error.kind === 'config' ? 501 : 502;
+    return jsonResponse({ message: error instanceof Error ? error.message : String(error) }, status);
+  }
+});
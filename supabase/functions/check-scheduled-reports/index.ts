@@ -1,5 +1,6 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getAstraProviderFromEnv } from '../_shared/astra/denoConfig.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,15 +19,12 @@ Deno.serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-    const n8nWebhookUrl = Deno.env.get('VITE_N8N_WEBHOOK_URL');
 
     if (!supabaseUrl || !supabaseServiceKey) {
       throw new Error('Missing Supabase configuration');
     }
 
-    if (!n8nWebhookUrl) {
-      throw new Error('VITE_N8N_WEBHOOK_URL environment variable is not set');
-    }
+    const astraProvider = getAstraProviderFromEnv();
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -91,51 +89,36 @@ Deno.serve(async (req: Request) => {
           continue;
         }
 
-        // Call n8n webhook to generate report
-        console.log('🌐 Calling n8n webhook...');
-        const webhookResponse = await fetch(n8nWebhookUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            chatInput: report.prompt,
-            user_id: report.user_id,
-            user_email: userData.user.email,
-            user_name: userData.user.user_metadata?.full_name || userData.user.email,
-            conversation_id: null,
+        // Ask Astra to generate the report
+        console.log(`🌐 Calling Astra provider (${astraProvider.name})...`);
+        const requestStartTime = Date.now();
+        let astraResponse;
+        try {
+          astraResponse = await astraProvider.send({
+            message: report.prompt,
             mode: 'reports',
-            original_message: report.prompt,
+            user: {
+              id: report.user_id,
+              email: userData.user.email,
+              name: userData.user.user_metadata?.full_name || userData.user.email
+            },
+            conversationId: null,
+            originalMessage: report.prompt,
             mentions: []
-          })
-        });
-
-        if (!webhookResponse.ok) {
-          const errorText = await webhookResponse.text();
-          console.error('❌ n8n webhook failed:', webhookResponse.status, errorText);
+          });
+        } catch (providerError) {
+          console.error('❌ Astra provider failed:', providerError);
           results.push({
             reportId: report.id,
             reportTitle: report.title,
             success: false,
-            error: `Webhook failed: ${webhookResponse.status}`
+            error: `Astra request failed: ${providerError instanceof Error ? providerError.message : String(providerError)}`
           });
           continue;
         }
+        const responseTimeMs = Date.now() - requestStartTime;
 
-        const responseText = await webhookResponse.text();
-        let reportText = responseText;
-
-        // Try to parse JSON response
-        try {
-          const jsonResponse = JSON.parse(responseText);
-          if (jsonResponse.output) {
-            reportText = jsonResponse.output;
-          }
-        } catch (e) {
-          // Use raw text if not JSON
-        }
-
-        console.log('✅ Report generated successfully from n8n webhook');
+        console.log('✅ Report generated successfully by', astraResponse.modelUsed);
 
         // Save report message to astra_chats
         const { error: insertError } = await supabase
@@ -144,14 +127,20 @@ Deno.serve(async (req: Request) => {
             user_id: report.user_id,
             user_email: userData.user.email,
             mode: 'reports',
-            message: reportText,
+            message: astraResponse.text,
             message_type: 'astra',
+            response_time_ms: responseTimeMs,
+            tokens_used: astraResponse.tokensUsed,
+            model_used: astraResponse.modelUsed,
             metadata: {
+              ...astraResponse.metadata,
               report_title: report.title,
               report_schedule: report.schedule_time,
               report_frequency: report.schedule_frequency,
               is_manual_run: false,
-              executed_at: new Date().toISOString()
+              executed_at: new Date().toISOString(),
+              sources: astraResponse.sources,
+              tools_used: astraResponse.toolsUsed
             }
           });
 
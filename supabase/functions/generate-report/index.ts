@@ -1,5 +1,6 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getAstraProviderFromEnv } from '../_shared/astra/denoConfig.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,15 +25,12 @@ Deno.serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-    const n8nWebhookUrl = Deno.env.get('VITE_N8N_WEBHOOK_URL');
 
     if (!supabaseUrl || !supabaseServiceKey) {
       throw new Error('Missing Supabase configuration');
     }
 
-    if (!n8nWebhookUrl) {
-      throw new Error('VITE_N8N_WEBHOOK_URL environment variable is not set. Please configure it in your Supabase project settings.');
-    }
+    const astraProvider = getAstraProviderFromEnv();
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -63,45 +61,24 @@ Deno.serve(async (req: Request) => {
     const latestPrompt = report.prompt;
     console.log('📊 Using prompt from database:', latestPrompt.substring(0, 100) + '...');
 
-    // Call n8n webhook to generate report with accurate data
-    console.log('🌐 Calling n8n webhook for report generation...');
-    const webhookResponse = await fetch(n8nWebhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    // Ask Astra to generate the report with accurate data
+    console.log(`🌐 Calling Astra provider (${astraProvider.name}) for report generation...`);
+    const requestStartTime = Date.now();
+    const astraResponse = await astraProvider.send({
+      message: latestPrompt,
+      mode: 'reports',
+      user: {
+        id: userId,
+        email: userData.user.email,
+        name: userData.user.user_metadata?.full_name || userData.user.email
       },
-      body: JSON.stringify({
-        chatInput: latestPrompt,
-        user_id: userId,
-        user_email: userData.user.email,
-        user_name: userData.user.user_metadata?.full_name || userData.user.email,
-        conversation_id: null,
-        mode: 'reports',
-        original_message: latestPrompt,
-        mentions: []
-      })
+      conversationId: null,
+      originalMessage: latestPrompt,
+      mentions: []
     });
+    const responseTimeMs = Date.now() - requestStartTime;
 
-    if (!webhookResponse.ok) {
-      const errorText = await webhookResponse.text();
-      console.error('❌ n8n webhook failed:', webhookResponse.status, errorText);
-      throw new Error('Failed to get report from n8n webhook');
-    }
-
-    const responseText = await webhookResponse.text();
-    let reportText = responseText;
-
-    // Try to parse JSON response
-    try {
-      const jsonResponse = JSON.parse(responseText);
-      if (jsonResponse.output) {
-        reportText = jsonResponse.output;
-      }
-    } catch (e) {
-      // Use raw text if not JSON
-    }
-
-    console.log('✅ Report generated successfully from n8n webhook');
+    console.log('✅ Report generated successfully by', astraResponse.modelUsed);
 
     // Save report message to astra_chats
     const { error: insertError } = await supabase
@@ -110,14 +87,20 @@ Deno.serve(async (req: Request) => {
         user_id: userId,
         user_email: userData.user.email,
         mode: 'reports',
-        message: reportText,
+        message: astraResponse.text,
         message_type: 'astra',
+        response_time_ms: responseTimeMs,
+        tokens_used: astraResponse.tokensUsed,
+        model_used: astraResponse.modelUsed,
         metadata: {
+          ...astraResponse.metadata,
           report_title: report.title,
           report_schedule: report.schedule_time,
           report_frequency: report.schedule_frequency,
           is_manual_run: true,
-          executed_at: new Date().toISOString()
+          executed_at: new Date().toISOString(),
+          sources: astraResponse.sources,
+          tools_used: astraResponse.toolsUsed
         }
       });
 
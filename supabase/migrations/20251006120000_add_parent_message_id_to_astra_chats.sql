@@ -0,0 +1,43 @@
+/*
+  # Add Structured Reply Threading to astra_chats
+
+  1. Changes
+    - Add `parent_message_id` (uuid, nullable) to `astra_chats`
+      - References the message being replied to
+      - Set to NULL if the parent message is deleted
+
+  2. Data Migration
+    - Backfill `parent_message_id` from `metadata->>'reply_to_id'` for existing replies
+    - Strip the legacy "@reply <id> " prefix from stored messages and prompts
+
+  3. Indexes
+    - Index on parent_message_id for reply lookups
+
+  4. Notes
+    - Replaces the "@reply <id>" text prefix previously used for private chat replies
+*/
+
+-- Add parent message reference
+ALTER TABLE astra_chats
+  ADD COLUMN IF NOT EXISTS parent_message_id uuid REFERENCES astra_chats(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_astra_chats_parent_message_id
+  ON astra_chats(parent_message_id)
+  WHERE parent_message_id IS NOT NULL;
+
+-- Backfill replies recorded in metadata by the previous implementation
+UPDATE astra_chats AS reply
+SET parent_message_id = parent.id
+FROM astra_chats AS parent
+WHERE reply.parent_message_id IS NULL
+  AND reply.metadata->>'reply_to_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND parent.id = (reply.metadata->>'reply_to_id')::uuid;
+
+-- Remove any "@reply <id> " prefixes that leaked into stored text
+UPDATE astra_chats
+SET message = regexp_replace(message, '^@reply\s+\S+\s+', '')
+WHERE message LIKE '@reply %';
+
+UPDATE astra_chats
+SET astra_prompt = regexp_replace(astra_prompt, '^@reply\s+\S+\s+', '')
+WHERE astra_prompt LIKE '@reply %';
@@ -0,0 +1,40 @@
+/*
+  # Add Conversation Branching to astra_chats
+
+  1. Changes
+    - Add `previous_message_id` (uuid, nullable) to `astra_chats`
+      - The message this one follows in the conversation tree (NULL for the first message)
+      - Regenerating an answer or editing a prompt adds a sibling with the same previous message
+    - Add `is_active_branch` (boolean, default true) to `astra_chats`
+      - Marks the selected sibling, so the chosen path is restored when a conversation is loaded
+
+  2. Data Migration
+    - Backfill `previous_message_id` for existing private conversations by linking each
+      message to the one created before it in the same conversation
+
+  3. Indexes
+    - Index on (conversation_id, previous_message_id) for sibling lookups
+*/
+
+ALTER TABLE astra_chats
+  ADD COLUMN IF NOT EXISTS previous_message_id uuid REFERENCES astra_chats(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_active_branch boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_astra_chats_conversation_previous
+  ON astra_chats(conversation_id, previous_message_id);
+
+-- Existing conversations are linear: chain each message to its predecessor
+WITH ordered AS (
+  SELECT
+    id,
+    LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM astra_chats
+  WHERE mode = 'private'
+    AND conversation_id IS NOT NULL
+)
+UPDATE astra_chats
+SET previous_message_id = ordered.previous_id
+FROM ordered
+WHERE astra_chats.id = ordered.id
+  AND astra_chats.previous_message_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
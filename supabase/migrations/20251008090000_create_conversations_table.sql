@@ -0,0 +1,102 @@
+/*
+  # Create Conversations Table
+
+  1. New Tables
+    - `astra_conversations`
+      - `conversation_id` (uuid, primary key) - Matches `astra_chats.conversation_id`
+      - `user_id` (uuid, foreign key) - References auth.users
+      - `title` (text, nullable) - Conversation title (NULL falls back to the first message)
+      - `is_title_custom` (boolean) - True once the user renames the conversation, so
+        auto-titles never overwrite it
+      - `is_pinned` (boolean) - Pinned conversations are listed first in the sidebar
+      - `is_archived` (boolean) - Archived conversations are hidden unless requested
+      - `folder` (text, nullable) - User-defined folder name
+      - `tags` (text[]) - User-defined tags
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `astra_conversations` table
+    - Users can view, create, update and delete their own conversation settings
+
+  3. Indexes
+    - Index on user_id for fast lookups
+    - GIN index on tags for tag filtering
+
+  4. Real-time
+    - Enable real-time so every open sidebar picks up renames and auto-titles
+
+  5. Notes
+    - Conversations without a row here behave as before (untitled, unpinned, not archived)
+*/
+
+CREATE TABLE IF NOT EXISTS astra_conversations (
+  conversation_id uuid PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text,
+  is_title_custom boolean DEFAULT false NOT NULL,
+  is_pinned boolean DEFAULT false NOT NULL,
+  is_archived boolean DEFAULT false NOT NULL,
+  folder text,
+  tags text[] DEFAULT '{}' NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_astra_conversations_user_id
+  ON astra_conversations(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_astra_conversations_tags
+  ON astra_conversations USING gin(tags);
+
+-- Enable Row Level Security
+ALTER TABLE astra_conversations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own conversations
+CREATE POLICY "Users can view own conversations"
+  ON astra_conversations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy: Users can create their own conversations
+CREATE POLICY "Users can create own conversations"
+  ON astra_conversations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can update their own conversations
+CREATE POLICY "Users can update own conversations"
+  ON astra_conversations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can delete their own conversations
+CREATE POLICY "Users can delete own conversations"
+  ON astra_conversations
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Add trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_astra_conversations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_astra_conversations_updated_at_trigger ON astra_conversations;
+
+CREATE TRIGGER update_astra_conversations_updated_at_trigger
+  BEFORE UPDATE ON astra_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_astra_conversations_updated_at();
+
+-- Enable real-time for astra_conversations table
+ALTER PUBLICATION supabase_realtime ADD TABLE astra_conversations;
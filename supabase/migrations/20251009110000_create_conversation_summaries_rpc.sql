@@ -0,0 +1,144 @@
+/*
+  # Server-side Conversation List
+
+  1. New Views
+    - `astra_conversation_summaries` - One row per private conversation with its
+      message count, first/last message, created time and last activity.
+      Uses `security_invoker` so the caller's RLS on `astra_chats` applies.
+
+  2. New Functions
+    - `get_astra_conversations` - One page of the current user's conversations for the
+      chat sidebar, merged with `astra_conversations` settings (title, pin, archive,
+      folder, tags). Ordered pinned first, then by last activity.
+      - Keyset pagination: pass the `is_pinned`, `last_activity` and `conversation_id`
+        of the last row of the previous page as the cursor
+      - Optional filters: archived state, folder, and a search term matched against
+        title, first/last message, folder and tags
+
+  3. Indexes
+    - Index on astra_chats(user_id, conversation_id, created_at) for private messages
+
+  4. Notes
+    - Replaces downloading every private message and grouping them in the browser
+*/
+
+CREATE INDEX IF NOT EXISTS idx_astra_chats_private_conversation_activity
+  ON astra_chats(user_id, conversation_id, created_at)
+  WHERE mode = 'private';
+
+CREATE OR REPLACE VIEW astra_conversation_summaries
+WITH (security_invoker = true) AS
+SELECT
+  stats.user_id,
+  stats.conversation_id,
+  stats.message_count,
+  stats.created_at,
+  stats.last_activity,
+  first_chat.message AS first_message,
+  last_chat.message AS last_message
+FROM (
+  SELECT
+    user_id,
+    conversation_id,
+    COUNT(*)::integer AS message_count,
+    MIN(created_at) AS created_at,
+    MAX(created_at) AS last_activity
+  FROM astra_chats
+  WHERE mode = 'private'
+    AND conversation_id IS NOT NULL
+  GROUP BY user_id, conversation_id
+) stats
+CROSS JOIN LATERAL (
+  SELECT message
+  FROM astra_chats
+  WHERE astra_chats.user_id = stats.user_id
+    AND astra_chats.conversation_id = stats.conversation_id
+    AND astra_chats.mode = 'private'
+  ORDER BY created_at ASC
+  LIMIT 1
+) first_chat
+CROSS JOIN LATERAL (
+  SELECT message
+  FROM astra_chats
+  WHERE astra_chats.user_id = stats.user_id
+    AND astra_chats.conversation_id = stats.conversation_id
+    AND astra_chats.mode = 'private'
+  ORDER BY created_at DESC
+  LIMIT 1
+) last_chat;
+
+CREATE OR REPLACE FUNCTION get_astra_conversations(
+  p_limit integer DEFAULT 30,
+  p_cursor_pinned boolean DEFAULT NULL,
+  p_cursor_activity timestamptz DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_archived boolean DEFAULT false,
+  p_folder text DEFAULT NULL,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  title text,
+  last_message text,
+  message_count integer,
+  created_at timestamptz,
+  last_activity timestamptz,
+  has_custom_title boolean,
+  is_pinned boolean,
+  is_archived boolean,
+  folder text,
+  tags text[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    summaries.conversation_id,
+    COALESCE(
+      settings.title,
+      CASE
+        WHEN length(summaries.first_message) > 50 THEN left(summaries.first_message, 50) || '...'
+        ELSE summaries.first_message
+      END
+    ) AS title,
+    CASE
+      WHEN length(summaries.last_message) > 100 THEN left(summaries.last_message, 100) || '...'
+      ELSE summaries.last_message
+    END AS last_message,
+    summaries.message_count,
+    summaries.created_at,
+    summaries.last_activity,
+    COALESCE(settings.is_title_custom, false) AS has_custom_title,
+    COALESCE(settings.is_pinned, false) AS is_pinned,
+    COALESCE(settings.is_archived, false) AS is_archived,
+    settings.folder,
+    COALESCE(settings.tags, '{}') AS tags
+  FROM astra_conversation_summaries summaries
+  LEFT JOIN astra_conversations settings
+    ON settings.conversation_id = summaries.conversation_id
+  WHERE summaries.user_id = auth.uid()
+    AND COALESCE(settings.is_archived, false) = p_archived
+    AND (p_folder IS NULL OR settings.folder = p_folder)
+    AND (
+      p_search IS NULL
+      OR settings.title ILIKE '%' || p_search || '%'
+      OR summaries.first_message ILIKE '%' || p_search || '%'
+      OR summaries.last_message ILIKE '%' || p_search || '%'
+      OR settings.folder ILIKE '%' || p_search || '%'
+      OR EXISTS (SELECT 1 FROM unnest(settings.tags) AS tag WHERE tag ILIKE '%' || p_search || '%')
+    )
+    AND (
+      p_cursor_activity IS NULL
+      OR (COALESCE(settings.is_pinned, false)::integer, summaries.last_activity, summaries.conversation_id)
+        < (COALESCE(p_cursor_pinned, false)::integer, p_cursor_activity, p_cursor_id)
+    )
+  ORDER BY
+    COALESCE(settings.is_pinned, false) DESC,
+    summaries.last_activity DESC,
+    summaries.conversation_id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+GRANT SELECT ON astra_conversation_summaries TO authenticated;
+GRANT EXECUTE ON FUNCTION get_astra_conversations(integer, boolean, timestamptz, uuid, boolean, text, text) TO authenticated;
@@ -0,0 +1,93 @@
+/*
+  # Full-text Search for Private Chat Messages
+
+  1. Changes
+    - Add `message_search` (tsvector) to `astra_chats`, generated from `message`
+
+  2. Indexes
+    - GIN index on message_search for full-text queries
+
+  3. New Functions
+    - `search_astra_messages` - Searches every private message of the current user
+      - Accepts web-search style queries ("quoted phrases", -exclusions, OR)
+      - Returns the message, its conversation (with title) and a snippet in which
+        matches are wrapped in [[[ and ]]] markers for the client to highlight
+      - Ordered by relevance, then recency
+
+  4. Notes
+    - Uses security_invoker semantics so RLS on `astra_chats` still applies
+*/
+
+ALTER TABLE astra_chats
+  ADD COLUMN IF NOT EXISTS message_search tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(message, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_astra_chats_message_fts
+  ON astra_chats USING gin(message_search);
+
+CREATE OR REPLACE FUNCTION search_astra_messages(
+  p_query text,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  message_type text,
+  created_at timestamptz,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS tsquery
+  ),
+  matches AS (
+    SELECT
+      chats.id,
+      chats.conversation_id,
+      chats.message_type,
+      chats.created_at,
+      chats.message,
+      ts_rank(chats.message_search, query.tsquery) AS rank
+    FROM astra_chats chats, query
+    WHERE chats.user_id = auth.uid()
+      AND chats.mode = 'private'
+      AND chats.conversation_id IS NOT NULL
+      AND chats.message_search @@ query.tsquery
+    ORDER BY rank DESC, chats.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  )
+  SELECT
+    matches.id AS message_id,
+    matches.conversation_id,
+    COALESCE(settings.title, left(first_chat.message, 50)) AS conversation_title,
+    matches.message_type,
+    matches.created_at,
+    ts_headline(
+      'english',
+      matches.message,
+      query.tsquery,
+      'StartSel=[[[, StopSel=]]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    matches.rank
+  FROM matches
+  CROSS JOIN query
+  LEFT JOIN astra_conversations settings
+    ON settings.conversation_id = matches.conversation_id
+  LEFT JOIN LATERAL (
+    SELECT message
+    FROM astra_chats
+    WHERE astra_chats.user_id = auth.uid()
+      AND astra_chats.conversation_id = matches.conversation_id
+      AND astra_chats.mode = 'private'
+    ORDER BY astra_chats.created_at ASC
+    LIMIT 1
+  ) first_chat ON true
+  ORDER BY matches.rank DESC, matches.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_astra_messages(text, integer) TO authenticated;
@@ -0,0 +1,158 @@
+/*
+  # Shared Conversations
+
+  1. New Tables
+    - `astra_shared_conversations`
+      - `id` (uuid, primary key) - The share token used in read-only links
+      - `conversation_id` (uuid, unique) - The shared private conversation
+      - `user_id` (uuid, foreign key) - The owner who shared it, references auth.users
+      - `title` (text) - Title shown to viewers
+      - `is_active` (boolean) - False once the owner stops sharing
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `astra_shared_conversations` table
+    - Owners can view, create, update and delete their own shares
+    - Private rows in `astra_chats` stay scoped to their owner; viewers only read
+      them through `get_shared_conversation`
+
+  3. New Functions
+    - `get_shared_conversation` - Returns every message of an active share to any
+      authenticated workspace member who has the link
+      - Security definer so it can read the owner's private rows
+      - Read-only: it never exposes the owner's other conversations
+
+  4. Notes
+    - Sharing again after stopping re-activates the same link
+*/
+
+CREATE TABLE IF NOT EXISTS astra_shared_conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL UNIQUE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_astra_shared_conversations_user_id
+  ON astra_shared_conversations(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE astra_shared_conversations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own shares
+CREATE POLICY "Users can view own shared conversations"
+  ON astra_shared_conversations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy: Users can share their own conversations
+CREATE POLICY "Users can create own shared conversations"
+  ON astra_shared_conversations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM astra_chats
+      WHERE astra_chats.conversation_id = astra_shared_conversations.conversation_id
+        AND astra_chats.user_id = auth.uid()
+        AND astra_chats.mode = 'private'
+    )
+  );
+
+-- Policy: Users can update their own shares
+CREATE POLICY "Users can update own shared conversations"
+  ON astra_shared_conversations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can delete their own shares
+CREATE POLICY "Users can delete own shared conversations"
+  ON astra_shared_conversations
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Add trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_astra_shared_conversations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_astra_shared_conversations_updated_at_trigger ON astra_shared_conversations;
+
+CREATE TRIGGER update_astra_shared_conversations_updated_at_trigger
+  BEFORE UPDATE ON astra_shared_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_astra_shared_conversations_updated_at();
+
+CREATE OR REPLACE FUNCTION get_shared_conversation(p_share_id uuid)
+RETURNS TABLE (
+  share_id uuid,
+  conversation_id uuid,
+  title text,
+  owner_name text,
+  shared_at timestamptz,
+  message_id uuid,
+  message_type text,
+  message text,
+  user_name text,
+  created_at timestamptz,
+  parent_message_id uuid,
+  previous_message_id uuid,
+  is_active_branch boolean,
+  visualization_data text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    shares.id AS share_id,
+    shares.conversation_id,
+    shares.title,
+    COALESCE(owner_chat.user_name, 'A teammate') AS owner_name,
+    shares.created_at AS shared_at,
+    chats.id AS message_id,
+    chats.message_type,
+    chats.message,
+    chats.user_name,
+    chats.created_at,
+    chats.parent_message_id,
+    chats.previous_message_id,
+    chats.is_active_branch,
+    chats.visualization_data
+  FROM astra_shared_conversations shares
+  JOIN astra_chats chats
+    ON chats.conversation_id = shares.conversation_id
+    AND chats.user_id = shares.user_id
+    AND chats.mode = 'private'
+  LEFT JOIN LATERAL (
+    SELECT astra_chats.user_name
+    FROM astra_chats
+    WHERE astra_chats.conversation_id = shares.conversation_id
+      AND astra_chats.user_id = shares.user_id
+      AND astra_chats.message_type = 'user'
+    ORDER BY astra_chats.created_at ASC
+    LIMIT 1
+  ) owner_chat ON true
+  WHERE shares.id = p_share_id
+    AND shares.is_active
+    AND auth.uid() IS NOT NULL
+  ORDER BY chats.created_at ASC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_shared_conversation(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION get_shared_conversation(uuid) TO authenticated;
@@ -0,0 +1,57 @@
+/*
+  # Prompt Library Fields for Saved Prompts
+
+  1. Modified Tables
+    - `astra_saved_prompts`
+      - `title` (text, nullable) - Optional short name shown instead of the prompt text
+      - `folder` (text, nullable) - Folder the prompt is filed under
+      - `tags` (text[]) - Free-form tags for filtering
+      - `usage_count` (integer) - How many times the prompt has been used
+      - `last_used_at` (timestamptz, nullable) - When the prompt was last used
+
+  2. Security
+    - Add policy for users to update their own saved prompts (editing and usage counts)
+
+  3. New Functions
+    - `record_saved_prompt_use` - Increments the usage count of one of the caller's prompts
+      - Security invoker, so the update policy above still applies
+
+  4. Notes
+    - Prompt text may contain `{{variable}}` placeholders that are filled in before sending
+*/
+
+ALTER TABLE astra_saved_prompts ADD COLUMN IF NOT EXISTS title text;
+ALTER TABLE astra_saved_prompts ADD COLUMN IF NOT EXISTS folder text;
+ALTER TABLE astra_saved_prompts ADD COLUMN IF NOT EXISTS tags text[] DEFAULT '{}' NOT NULL;
+ALTER TABLE astra_saved_prompts ADD COLUMN IF NOT EXISTS usage_count integer DEFAULT 0 NOT NULL;
+ALTER TABLE astra_saved_prompts ADD COLUMN IF NOT EXISTS last_used_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_saved_prompts_user_folder
+  ON astra_saved_prompts(user_id, folder);
+
+CREATE INDEX IF NOT EXISTS idx_saved_prompts_tags
+  ON astra_saved_prompts USING gin(tags);
+
+-- Policy: Users can update their own saved prompts
+DROP POLICY IF EXISTS "Users can update own saved prompts" ON astra_saved_prompts;
+
+CREATE POLICY "Users can update own saved prompts"
+  ON astra_saved_prompts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Increment in the database so two tabs using the same prompt don't lose a count
+CREATE OR REPLACE FUNCTION record_saved_prompt_use(p_prompt_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE astra_saved_prompts
+  SET usage_count = usage_count + 1,
+      last_used_at = now()
+  WHERE id = p_prompt_id
+    AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION record_saved_prompt_use(uuid) TO authenticated;
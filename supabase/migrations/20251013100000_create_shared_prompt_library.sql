@@ -0,0 +1,224 @@
+/*
+  # Team Shared Prompt Library
+
+  1. New Tables
+    - `astra_shared_prompts`
+      - `id` (uuid, primary key)
+      - `author_id` (uuid, foreign key) - Who shared the prompt, references auth.users
+      - `author_name` (text) - Name shown in the library
+      - `title` (text) - Short name of the prompt
+      - `description` (text, nullable) - What the prompt is for
+      - `prompt_text` (text) - The prompt, may contain `{{variable}}` placeholders
+      - `tags` (text[]) - Free-form tags for filtering
+      - `is_featured` (boolean) - Curated by a workspace admin
+      - `upvote_count` (integer) - Maintained from `astra_shared_prompt_votes`
+      - `copy_count` (integer) - How often it was copied into someone's saved prompts
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `astra_shared_prompt_votes`
+      - `prompt_id` (uuid, foreign key) - References astra_shared_prompts
+      - `user_id` (uuid, foreign key) - The voter, references auth.users
+      - `created_at` (timestamptz)
+      - One vote per user per prompt
+
+  2. Security
+    - Enable RLS on both tables
+    - Every authenticated workspace member can read shared prompts and votes
+    - Authors can create, update and delete their own shared prompts
+    - Admins (`users.is_admin`) can update and delete any shared prompt
+    - Only admins can change `is_featured`
+    - Users can add and remove their own votes
+
+  3. New Functions
+    - `is_workspace_admin` - Whether the caller is a workspace admin
+    - `copy_shared_prompt_to_favorites` - Copies a shared prompt into the caller's
+      `astra_saved_prompts` and counts the copy
+
+  4. Notes
+    - Vote and copy counters are kept in sync by security definer functions so
+      members never need update rights on each other's prompts
+*/
+
+CREATE TABLE IF NOT EXISTS astra_shared_prompts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  author_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_name text NOT NULL,
+  title text NOT NULL CHECK (length(TRIM(title)) > 0),
+  description text,
+  prompt_text text NOT NULL CHECK (length(TRIM(prompt_text)) > 0),
+  tags text[] DEFAULT '{}' NOT NULL,
+  is_featured boolean DEFAULT false NOT NULL,
+  upvote_count integer DEFAULT 0 NOT NULL,
+  copy_count integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS astra_shared_prompt_votes (
+  prompt_id uuid NOT NULL REFERENCES astra_shared_prompts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (prompt_id, user_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_shared_prompts_featured
+  ON astra_shared_prompts(is_featured, upvote_count DESC);
+
+CREATE INDEX IF NOT EXISTS idx_shared_prompts_author_id
+  ON astra_shared_prompts(author_id);
+
+CREATE INDEX IF NOT EXISTS idx_shared_prompts_tags
+  ON astra_shared_prompts USING gin(tags);
+
+CREATE INDEX IF NOT EXISTS idx_shared_prompt_votes_user_id
+  ON astra_shared_prompt_votes(user_id);
+
+CREATE OR REPLACE FUNCTION is_workspace_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT is_admin FROM users WHERE id = auth.uid()), false);
+$$;
+
+GRANT EXECUTE ON FUNCTION is_workspace_admin() TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE astra_shared_prompts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE astra_shared_prompt_votes ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Workspace members can view all shared prompts
+CREATE POLICY "Users can view shared prompts"
+  ON astra_shared_prompts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Users can share their own prompts (only admins can share as featured)
+CREATE POLICY "Users can create own shared prompts"
+  ON astra_shared_prompts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = author_id AND (is_featured = false OR is_workspace_admin()));
+
+-- Policy: Authors and admins can edit shared prompts
+CREATE POLICY "Users can update own shared prompts"
+  ON astra_shared_prompts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = author_id OR is_workspace_admin())
+  WITH CHECK (auth.uid() = author_id OR is_workspace_admin());
+
+-- Policy: Authors and admins can remove shared prompts
+CREATE POLICY "Users can delete own shared prompts"
+  ON astra_shared_prompts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = author_id OR is_workspace_admin());
+
+-- Policy: Workspace members can view votes
+CREATE POLICY "Users can view shared prompt votes"
+  ON astra_shared_prompt_votes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Users can add their own votes
+CREATE POLICY "Users can create own shared prompt votes"
+  ON astra_shared_prompt_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can remove their own votes
+CREATE POLICY "Users can delete own shared prompt votes"
+  ON astra_shared_prompt_votes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current and stop non-admins from featuring prompts or editing counters
+CREATE OR REPLACE FUNCTION guard_shared_prompt_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+
+  IF NEW.is_featured IS DISTINCT FROM OLD.is_featured AND NOT is_workspace_admin() THEN
+    RAISE EXCEPTION 'Only admins can feature shared prompts';
+  END IF;
+
+  -- Counters only change through the vote trigger and the copy function below
+  IF current_setting('astra.shared_prompt_counters', true) IS DISTINCT FROM 'on' THEN
+    NEW.upvote_count = OLD.upvote_count;
+    NEW.copy_count = OLD.copy_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_shared_prompt_update_trigger ON astra_shared_prompts;
+
+CREATE TRIGGER guard_shared_prompt_update_trigger
+  BEFORE UPDATE ON astra_shared_prompts
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_shared_prompt_update();
+
+CREATE OR REPLACE FUNCTION update_shared_prompt_upvote_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('astra.shared_prompt_counters', 'on', true);
+
+  IF TG_OP = 'INSERT' THEN
+    UPDATE astra_shared_prompts SET upvote_count = upvote_count + 1 WHERE id = NEW.prompt_id;
+  ELSE
+    UPDATE astra_shared_prompts SET upvote_count = GREATEST(upvote_count - 1, 0) WHERE id = OLD.prompt_id;
+  END IF;
+
+  PERFORM set_config('astra.shared_prompt_counters', 'off', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_shared_prompt_upvote_count_trigger ON astra_shared_prompt_votes;
+
+CREATE TRIGGER update_shared_prompt_upvote_count_trigger
+  AFTER INSERT OR DELETE ON astra_shared_prompt_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_shared_prompt_upvote_count();
+
+-- Copy a shared prompt into the caller's saved prompts and return the new row
+CREATE OR REPLACE FUNCTION copy_shared_prompt_to_favorites(p_prompt_id uuid)
+RETURNS SETOF astra_saved_prompts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_prompt astra_shared_prompts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_prompt FROM astra_shared_prompts WHERE id = p_prompt_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shared prompt not found';
+  END IF;
+
+  PERFORM set_config('astra.shared_prompt_counters', 'on', true);
+  UPDATE astra_shared_prompts SET copy_count = copy_count + 1 WHERE id = p_prompt_id;
+  PERFORM set_config('astra.shared_prompt_counters', 'off', true);
+
+  RETURN QUERY
+  INSERT INTO astra_saved_prompts (user_id, prompt_text, title, tags)
+  VALUES (v_user_id, v_prompt.prompt_text, v_prompt.title, v_prompt.tags)
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION copy_shared_prompt_to_favorites(uuid) TO authenticated;
@@ -0,0 +1,21 @@
+/*
+  # Source Message for Reports
+
+  1. Modified Tables
+    - `astra_reports`
+      - `source_message_id` (uuid, nullable) - The Astra answer in `astra_chats` the report was created from
+
+  2. Security
+    - No policy changes; existing report policies already scope rows to their owner
+
+  3. Notes
+    - Set to NULL when the source message is deleted so the report keeps running
+    - Applies to both private and team messages, which share `astra_chats`
+*/
+
+ALTER TABLE astra_reports
+  ADD COLUMN IF NOT EXISTS source_message_id uuid REFERENCES astra_chats(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_astra_reports_source_message
+  ON astra_reports(source_message_id)
+  WHERE source_message_id IS NOT NULL;
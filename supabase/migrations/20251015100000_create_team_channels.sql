@@ -0,0 +1,328 @@
+/*
+  # Team Chat Channels
+
+  1. New Tables
+    - `astra_team_channels`
+      - `id` (uuid, primary key)
+      - `name` (text) - Lowercase channel name shown as #name, unique
+      - `description` (text, nullable) - What the channel is for
+      - `is_private` (boolean) - Private channels are only visible to their members
+      - `is_default` (boolean) - The channel everyone joins and team messages without a channel go to
+      - `created_by` (uuid, foreign key, nullable) - References auth.users
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `astra_team_channel_members`
+      - `channel_id` (uuid, foreign key) - References astra_team_channels
+      - `user_id` (uuid, foreign key) - References auth.users
+      - `role` (text) - 'owner' or 'member'
+      - `last_read_at` (timestamptz) - Messages after this count as unread
+      - `joined_at` (timestamptz)
+
+  2. Modified Tables
+    - `astra_chats`
+      - `channel_id` (uuid, nullable) - The channel a team message was posted in
+
+  3. Security
+    - Enable RLS on both new tables
+    - Users can view public channels and private channels they belong to
+    - Users can create channels; owners and admins can edit them, and delete any but the default
+    - Users can join public channels and leave any channel; owners can add and remove members
+    - Team messages in private channels are only visible to, and can only be posted by, members
+
+  4. New Functions
+    - `is_team_channel_member` / `is_team_channel_owner` / `can_view_team_channel` - Membership checks
+      used by the policies (security definer, so policies don't recurse)
+    - `get_team_channels` - Channels visible to the caller with member and unread counts
+    - `mark_team_channel_read` - Moves the caller's read marker in a channel to now
+
+  5. Notes
+    - Existing team messages move to a default #general channel that every user is added to
+    - Team messages inserted without a channel (older clients, shared conversations) go to #general
+*/
+
+CREATE TABLE IF NOT EXISTS astra_team_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (name ~ '^[a-z0-9][a-z0-9_-]{0,39}$'),
+  description text,
+  is_private boolean DEFAULT false NOT NULL,
+  is_default boolean DEFAULT false NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS astra_team_channel_members (
+  channel_id uuid NOT NULL REFERENCES astra_team_channels(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text DEFAULT 'member' NOT NULL CHECK (role IN ('owner', 'member')),
+  last_read_at timestamptz DEFAULT now() NOT NULL,
+  joined_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (channel_id, user_id)
+);
+
+ALTER TABLE astra_chats
+  ADD COLUMN IF NOT EXISTS channel_id uuid REFERENCES astra_team_channels(id) ON DELETE CASCADE;
+
+-- Create indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_channels_name
+  ON astra_team_channels(name);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_channels_single_default
+  ON astra_team_channels(is_default)
+  WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_team_channel_members_user_id
+  ON astra_team_channel_members(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_astra_chats_channel_created_at
+  ON astra_chats(channel_id, created_at DESC)
+  WHERE channel_id IS NOT NULL;
+
+-- Membership checks used by the policies below
+CREATE OR REPLACE FUNCTION is_team_channel_member(p_channel_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM astra_team_channel_members
+    WHERE channel_id = p_channel_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_team_channel_owner(p_channel_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM astra_team_channel_members
+    WHERE channel_id = p_channel_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_team_channel(p_channel_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM astra_team_channels
+    WHERE id = p_channel_id AND (NOT is_private OR is_team_channel_member(id))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_team_channel_member(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_team_channel_owner(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_team_channel(uuid) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE astra_team_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE astra_team_channel_members ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view public channels and their own private channels
+CREATE POLICY "Users can view own and public team channels"
+  ON astra_team_channels
+  FOR SELECT
+  TO authenticated
+  USING (NOT is_private OR is_team_channel_member(id));
+
+-- Policy: Users can create channels (the default channel comes from this migration only)
+CREATE POLICY "Users can create own team channels"
+  ON astra_team_channels
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND is_default = false);
+
+-- Policy: Channel owners and admins can edit channels
+CREATE POLICY "Users can update own team channels"
+  ON astra_team_channels
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_channel_owner(id) OR is_workspace_admin())
+  WITH CHECK (is_team_channel_owner(id) OR is_workspace_admin());
+
+-- Policy: Channel owners and admins can delete channels, except the default one
+CREATE POLICY "Users can delete own team channels"
+  ON astra_team_channels
+  FOR DELETE
+  TO authenticated
+  USING (NOT is_default AND (is_team_channel_owner(id) OR is_workspace_admin()));
+
+-- Policy: Users can see who belongs to the channels they can see
+CREATE POLICY "Users can view members of visible team channels"
+  ON astra_team_channel_members
+  FOR SELECT
+  TO authenticated
+  USING (can_view_team_channel(channel_id));
+
+-- Policy: Users can join public channels; owners can add anyone
+CREATE POLICY "Users can create own team channel memberships"
+  ON astra_team_channel_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (
+      auth.uid() = user_id
+      AND role = 'member'
+      AND EXISTS (SELECT 1 FROM astra_team_channels WHERE id = channel_id AND NOT is_private)
+    )
+    OR is_team_channel_owner(channel_id)
+  );
+
+-- Policy: Users can leave channels; owners can remove members
+CREATE POLICY "Users can delete own team channel memberships"
+  ON astra_team_channel_members
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id OR is_team_channel_owner(channel_id));
+
+-- Policy: Team messages in private channels are for members only
+CREATE POLICY "Users can view team messages in own channels"
+  ON astra_chats
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (channel_id IS NULL OR can_view_team_channel(channel_id));
+
+CREATE POLICY "Users can post team messages in own channels"
+  ON astra_chats
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (channel_id IS NULL OR can_view_team_channel(channel_id));
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_team_channel_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_team_channel_updated_at_trigger ON astra_team_channels;
+
+CREATE TRIGGER update_team_channel_updated_at_trigger
+  BEFORE UPDATE ON astra_team_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION update_team_channel_updated_at();
+
+-- The creator of a channel becomes its owner
+CREATE OR REPLACE FUNCTION add_team_channel_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO astra_team_channel_members (channel_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'owner')
+    ON CONFLICT (channel_id, user_id) DO UPDATE SET role = 'owner';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS add_team_channel_owner_trigger ON astra_team_channels;
+
+CREATE TRIGGER add_team_channel_owner_trigger
+  AFTER INSERT ON astra_team_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION add_team_channel_owner();
+
+-- Team messages posted without a channel go to the default channel
+CREATE OR REPLACE FUNCTION assign_default_team_channel()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.mode = 'team' AND NEW.channel_id IS NULL THEN
+    SELECT id INTO NEW.channel_id FROM astra_team_channels WHERE is_default LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_default_team_channel_trigger ON astra_chats;
+
+CREATE TRIGGER assign_default_team_channel_trigger
+  BEFORE INSERT ON astra_chats
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_default_team_channel();
+
+-- Channels the caller can see, default first, with membership and unread counts.
+-- Unread means posted by someone else since the caller's read marker.
+CREATE OR REPLACE FUNCTION get_team_channels()
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  is_private boolean,
+  is_default boolean,
+  created_by uuid,
+  created_at timestamptz,
+  member_count bigint,
+  is_member boolean,
+  member_role text,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.description,
+    c.is_private,
+    c.is_default,
+    c.created_by,
+    c.created_at,
+    (SELECT count(*) FROM astra_team_channel_members cm WHERE cm.channel_id = c.id) AS member_count,
+    m.user_id IS NOT NULL AS is_member,
+    m.role AS member_role,
+    CASE WHEN m.user_id IS NULL THEN 0 ELSE (
+      SELECT count(*) FROM astra_chats ac
+      WHERE ac.channel_id = c.id
+        AND ac.created_at > m.last_read_at
+        AND ac.user_id <> auth.uid()
+    ) END AS unread_count
+  FROM astra_team_channels c
+  LEFT JOIN astra_team_channel_members m ON m.channel_id = c.id AND m.user_id = auth.uid()
+  WHERE NOT c.is_private OR m.user_id IS NOT NULL
+  ORDER BY c.is_default DESC, c.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_team_channels() TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_team_channel_read(p_channel_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE astra_team_channel_members
+  SET last_read_at = now()
+  WHERE channel_id = p_channel_id AND user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_team_channel_read(uuid) TO authenticated;
+
+-- Move the existing team room into #general and add everyone to it
+INSERT INTO astra_team_channels (name, description, is_default)
+SELECT 'general', 'Team-wide conversation with Astra', true
+WHERE NOT EXISTS (SELECT 1 FROM astra_team_channels WHERE is_default);
+
+UPDATE astra_chats
+SET channel_id = (SELECT id FROM astra_team_channels WHERE is_default LIMIT 1)
+WHERE mode = 'team' AND channel_id IS NULL;
+
+INSERT INTO astra_team_channel_members (channel_id, user_id)
+SELECT c.id, u.id
+FROM astra_team_channels c
+CROSS JOIN auth.users u
+WHERE c.is_default
+ON CONFLICT (channel_id, user_id) DO NOTHING;
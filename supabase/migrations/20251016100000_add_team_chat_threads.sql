@@ -0,0 +1,187 @@
+/*
+  # Team Chat Threads
+
+  1. Modified Tables
+    - `astra_chats`
+      - `thread_root_id` (uuid, nullable) - The channel message a thread reply belongs to
+      - `also_sent_to_channel` (boolean) - Thread reply that is also shown in the channel
+      - `thread_reply_count` (integer) - Number of replies, kept on the thread's parent message
+      - `thread_last_reply_at` (timestamptz, nullable) - Time of the latest reply, on the parent
+      - `thread_participants` (text[]) - Names of the people who replied, on the parent
+
+  2. New Tables
+    - `astra_thread_subscriptions`
+      - `thread_root_id` (uuid, foreign key) - References astra_chats
+      - `user_id` (uuid, foreign key) - References auth.users
+      - `is_subscribed` (boolean) - Whether the user is notified about new replies
+      - `last_read_at` (timestamptz) - Replies after this are new to the user
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `astra_thread_subscriptions`
+    - Users can view, create and update their own subscriptions
+
+  4. New Functions
+    - `update_thread_summary` - Trigger that keeps the parent's reply count, last reply time and
+      participants current and subscribes the parent's author and every replier
+    - `get_team_channels` - Replaced so replies that stay in their thread don't count as channel unread
+
+  5. Notes
+    - Unsubscribing keeps the row with `is_subscribed = false`, so replying again does not resubscribe
+    - Deleting a parent message deletes its thread
+*/
+
+ALTER TABLE astra_chats
+  ADD COLUMN IF NOT EXISTS thread_root_id uuid REFERENCES astra_chats(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS also_sent_to_channel boolean DEFAULT false NOT NULL,
+  ADD COLUMN IF NOT EXISTS thread_reply_count integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS thread_last_reply_at timestamptz,
+  ADD COLUMN IF NOT EXISTS thread_participants text[] DEFAULT '{}' NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_astra_chats_thread_root_id
+  ON astra_chats(thread_root_id, created_at)
+  WHERE thread_root_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS astra_thread_subscriptions (
+  thread_root_id uuid NOT NULL REFERENCES astra_chats(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  is_subscribed boolean DEFAULT true NOT NULL,
+  last_read_at timestamptz DEFAULT now() NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (thread_root_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_astra_thread_subscriptions_user_id
+  ON astra_thread_subscriptions(user_id)
+  WHERE is_subscribed;
+
+ALTER TABLE astra_thread_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own thread subscriptions"
+  ON astra_thread_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own thread subscriptions"
+  ON astra_thread_subscriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own thread subscriptions"
+  ON astra_thread_subscriptions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_thread_subscription_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_thread_subscription_updated_at_trigger ON astra_thread_subscriptions;
+
+CREATE TRIGGER update_thread_subscription_updated_at_trigger
+  BEFORE UPDATE ON astra_thread_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_thread_subscription_updated_at();
+
+-- Summarize a thread on its parent message and follow it for the people involved
+CREATE OR REPLACE FUNCTION update_thread_summary()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_root_id uuid := COALESCE(NEW.thread_root_id, OLD.thread_root_id);
+BEGIN
+  IF v_root_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE astra_chats root
+  SET
+    thread_reply_count = summary.reply_count,
+    thread_last_reply_at = summary.last_reply_at,
+    thread_participants = summary.participants
+  FROM (
+    SELECT
+      count(*)::integer AS reply_count,
+      max(created_at) AS last_reply_at,
+      COALESCE(array_agg(DISTINCT user_name) FILTER (WHERE user_name IS NOT NULL), '{}') AS participants
+    FROM astra_chats
+    WHERE thread_root_id = v_root_id
+  ) summary
+  WHERE root.id = v_root_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO astra_thread_subscriptions (thread_root_id, user_id)
+    SELECT v_root_id, root.user_id FROM astra_chats root WHERE root.id = v_root_id
+    UNION
+    SELECT v_root_id, NEW.user_id
+    ON CONFLICT (thread_root_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_thread_summary_trigger ON astra_chats;
+
+CREATE TRIGGER update_thread_summary_trigger
+  AFTER INSERT OR DELETE ON astra_chats
+  FOR EACH ROW
+  EXECUTE FUNCTION update_thread_summary();
+
+-- Channels the caller can see, default first, with membership and unread counts.
+-- Unread means posted in the channel by someone else since the caller's read marker;
+-- replies that stay in their thread are tracked by thread subscriptions instead.
+CREATE OR REPLACE FUNCTION get_team_channels()
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  is_private boolean,
+  is_default boolean,
+  created_by uuid,
+  created_at timestamptz,
+  member_count bigint,
+  is_member boolean,
+  member_role text,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.description,
+    c.is_private,
+    c.is_default,
+    c.created_by,
+    c.created_at,
+    (SELECT count(*) FROM astra_team_channel_members cm WHERE cm.channel_id = c.id) AS member_count,
+    m.user_id IS NOT NULL AS is_member,
+    m.role AS member_role,
+    CASE WHEN m.user_id IS NULL THEN 0 ELSE (
+      SELECT count(*) FROM astra_chats ac
+      WHERE ac.channel_id = c.id
+        AND ac.created_at > m.last_read_at
+        AND ac.user_id <> auth.uid()
+        AND (ac.thread_root_id IS NULL OR ac.also_sent_to_channel)
+    ) END AS unread_count
+  FROM astra_team_channels c
+  LEFT JOIN astra_team_channel_members m ON m.channel_id = c.id AND m.user_id = auth.uid()
+  WHERE NOT c.is_private OR m.user_id IS NOT NULL
+  ORDER BY c.is_default DESC, c.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_team_channels() TO authenticated;
@@ -0,0 +1,84 @@
+/*
+  # Message Reactions
+
+  1. New Tables
+    - `message_reactions`
+      - `message_id` (uuid, foreign key) - References astra_chats
+      - `user_id` (uuid, foreign key) - References auth.users
+      - `emoji` (text) - Any emoji, stored as the character sequence
+      - `user_name` (text) - Display name shown in the reaction tooltip
+      - `created_at` (timestamptz)
+      - Primary key (message_id, user_id, emoji), so each person reacts with an emoji once
+
+  2. Security
+    - Enable RLS on `message_reactions`
+    - Users can view reactions on messages they can view
+    - Users can add and remove their own reactions on messages they can view
+
+  3. Notes
+    - Replaces the `reactions` array in `astra_chats.metadata`, which was rewritten whole on every
+      reaction and keyed by display name, so concurrent reactions overwrote each other
+    - Existing reactions are moved over by matching display names to `users.name`; names that no
+      longer match a user are dropped
+    - Realtime is enabled with full replica identity so deletes carry the message id
+*/
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id uuid NOT NULL REFERENCES astra_chats(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  user_name text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_message_id
+  ON message_reactions(message_id, created_at);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Visibility follows the message (astra_chats policies apply inside the subquery)
+CREATE POLICY "Users can view reactions on visible messages"
+  ON message_reactions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM astra_chats c WHERE c.id = message_id));
+
+CREATE POLICY "Users can add own reactions"
+  ON message_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM astra_chats c WHERE c.id = message_id)
+  );
+
+CREATE POLICY "Users can remove own reactions"
+  ON message_reactions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Move reactions out of message metadata
+INSERT INTO message_reactions (message_id, user_id, emoji, user_name, created_at)
+SELECT DISTINCT ON (c.id, u.id, reaction->>'emoji')
+  c.id,
+  u.id,
+  reaction->>'emoji',
+  u.name,
+  c.updated_at
+FROM astra_chats c
+CROSS JOIN LATERAL jsonb_array_elements(c.metadata->'reactions') AS reaction
+CROSS JOIN LATERAL jsonb_array_elements_text(reaction->'users') AS reactor(name)
+JOIN users u ON u.name = reactor.name
+WHERE jsonb_typeof(c.metadata->'reactions') = 'array'
+  AND COALESCE(reaction->>'emoji', '') <> ''
+ON CONFLICT (message_id, user_id, emoji) DO NOTHING;
+
+UPDATE astra_chats
+SET metadata = metadata - 'reactions'
+WHERE metadata ? 'reactions';
+
+-- Enable real-time for message_reactions table
+ALTER TABLE message_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
@@ -0,0 +1,257 @@
+/*
+  # Team Message Editing, Self-Delete and Moderation Log
+
+  1. Modified Tables
+    - `astra_chats`
+      - `edited_at` (timestamptz, nullable) - Last time the author edited the message
+      - `deleted_at` (timestamptz, nullable) - Set when the author deleted the message
+
+  2. New Tables
+    - `astra_message_revisions`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, foreign key) - References astra_chats
+      - `previous_message` (text) - The text before the edit
+      - `edited_by` (uuid, foreign key, nullable) - References auth.users
+      - `created_at` (timestamptz) - When the edit was made
+    - `astra_moderation_log`
+      - `id` (uuid, primary key)
+      - `action` (text) - What was done, e.g. 'delete_message'
+      - `message_id` (uuid) - The removed message (no foreign key, the message is gone)
+      - `channel_id` (uuid, nullable) - Channel the message was in
+      - `message_author_id` (uuid, nullable) / `message_author_name` (text) - Who posted it
+      - `message_snapshot` (jsonb) - The full message row as it was removed
+      - `reason` (text, nullable) - Optional note from the admin
+      - `moderator_id` (uuid, foreign key, nullable) / `moderator_name` (text) - Who removed it
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on both new tables
+    - Users can view the revisions of team messages they can view
+    - Only workspace admins can view the moderation log
+    - Rows in both tables are only written by the functions below
+    - Team messages can't be edited, soft-deleted or deleted directly; signed-in users have to
+      go through the functions below so revisions are kept and the delete window applies
+
+  4. New Functions
+    - `guard_team_message_change` - Trigger function that rejects direct changes to the text,
+      `edited_at` and `deleted_at` of team messages and direct deletes of team messages
+    - `edit_team_message` - Authors change the text of their own team message; the old text is kept as a revision
+    - `delete_own_team_message` - Authors soft-delete their own team message within 15 minutes of posting
+    - `admin_delete_team_message` - Admins hard-delete any team message; the removal is logged
+
+  5. Notes
+    - Soft-deleted messages keep their row (so threads and reactions stay attached) but lose their text
+    - The 15 minute window matches SELF_DELETE_WINDOW_MINUTES in src/lib/messageEditing.ts
+*/
+
+ALTER TABLE astra_chats
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS astra_message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES astra_chats(id) ON DELETE CASCADE,
+  previous_message text NOT NULL,
+  edited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_astra_message_revisions_message_id
+  ON astra_message_revisions(message_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS astra_moderation_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  action text NOT NULL,
+  message_id uuid NOT NULL,
+  channel_id uuid,
+  message_author_id uuid,
+  message_author_name text,
+  message_snapshot jsonb NOT NULL DEFAULT '{}'::jsonb,
+  reason text,
+  moderator_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  moderator_name text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_astra_moderation_log_created_at
+  ON astra_moderation_log(created_at DESC);
+
+ALTER TABLE astra_message_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE astra_moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- Visibility follows the message (astra_chats policies apply inside the subquery)
+-- Edits and deletes of team messages only go through the functions below, which turn this
+-- setting on around their own change. Requests without a signed-in user (migrations, edge
+-- functions) and deletes cascading from a channel or thread root are let through.
+CREATE OR REPLACE FUNCTION guard_team_message_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.mode <> 'team'
+    OR auth.uid() IS NULL
+    OR pg_trigger_depth() > 1
+    OR current_setting('astra.team_message_change', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Team messages can only be deleted with delete_own_team_message or admin_delete_team_message';
+  END IF;
+
+  IF NEW.message IS DISTINCT FROM OLD.message
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    RAISE EXCEPTION 'Team messages can only be changed with edit_team_message or delete_own_team_message';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_team_message_change_trigger ON astra_chats;
+
+CREATE TRIGGER guard_team_message_change_trigger
+  BEFORE UPDATE OR DELETE ON astra_chats
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_team_message_change();
+
+CREATE POLICY "Users can view revisions of visible messages"
+  ON astra_message_revisions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM astra_chats c WHERE c.id = message_id));
+
+CREATE POLICY "Admins can view moderation log"
+  ON astra_moderation_log
+  FOR SELECT
+  TO authenticated
+  USING (is_workspace_admin());
+
+CREATE OR REPLACE FUNCTION edit_team_message(p_message_id uuid, p_message text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message astra_chats%ROWTYPE;
+BEGIN
+  IF btrim(COALESCE(p_message, '')) = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  SELECT * INTO v_message FROM astra_chats WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR v_message.mode <> 'team' OR v_message.message_type <> 'user' OR v_message.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only edit your own team messages';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited';
+  END IF;
+
+  IF v_message.message = p_message THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO astra_message_revisions (message_id, previous_message, edited_by)
+  VALUES (p_message_id, v_message.message, auth.uid());
+
+  PERFORM set_config('astra.team_message_change', 'on', true);
+  UPDATE astra_chats
+  SET message = p_message, edited_at = now(), updated_at = now()
+  WHERE id = p_message_id;
+  PERFORM set_config('astra.team_message_change', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION edit_team_message(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION delete_own_team_message(p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message astra_chats%ROWTYPE;
+BEGIN
+  SELECT * INTO v_message FROM astra_chats WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR v_message.mode <> 'team' OR v_message.message_type <> 'user' OR v_message.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only delete your own team messages';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be deleted within 15 minutes of posting';
+  END IF;
+
+  -- Text and edit history go; the row stays so replies and reactions keep their parent
+  DELETE FROM astra_message_revisions WHERE message_id = p_message_id;
+
+  PERFORM set_config('astra.team_message_change', 'on', true);
+  UPDATE astra_chats
+  SET
+    message = '',
+    metadata = COALESCE(metadata, '{}'::jsonb) - 'image' - 'shared_conversation',
+    deleted_at = now(),
+    updated_at = now()
+  WHERE id = p_message_id;
+  PERFORM set_config('astra.team_message_change', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_own_team_message(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION admin_delete_team_message(p_message_id uuid, p_reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message astra_chats%ROWTYPE;
+BEGIN
+  IF NOT is_workspace_admin() THEN
+    RAISE EXCEPTION 'Only admins can remove team messages';
+  END IF;
+
+  SELECT * INTO v_message FROM astra_chats WHERE id = p_message_id AND mode = 'team' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  INSERT INTO astra_moderation_log (
+    action,
+    message_id,
+    channel_id,
+    message_author_id,
+    message_author_name,
+    message_snapshot,
+    reason,
+    moderator_id,
+    moderator_name
+  )
+  VALUES (
+    'delete_message',
+    v_message.id,
+    v_message.channel_id,
+    v_message.user_id,
+    v_message.user_name,
+    to_jsonb(v_message),
+    NULLIF(btrim(COALESCE(p_reason, '')), ''),
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  );
+
+  PERFORM set_config('astra.team_message_change', 'on', true);
+  DELETE FROM astra_chats WHERE id = p_message_id;
+  PERFORM set_config('astra.team_message_change', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_delete_team_message(uuid, text) TO authenticated;
@@ -0,0 +1,22 @@
+/*
+  # Persist Conversation History Summaries
+
+  1. Modified Tables
+    - `astra_conversations`
+      - `history_summary` (text, nullable) - Summary of the turns that no longer fit in the
+        history window sent with each private chat question
+      - `history_summary_count` (integer) - How many of the oldest turns the summary covers
+      - `history_summary_message_id` (uuid, nullable) - Last message the summary covers, so a
+        summary written on one branch is not reused on another
+
+  2. Security
+    - No changes; the existing "own conversations" policies cover the new columns
+
+  3. Notes
+    - Summaries used to live only in memory and were rebuilt after every reload
+*/
+
+ALTER TABLE astra_conversations
+  ADD COLUMN IF NOT EXISTS history_summary text,
+  ADD COLUMN IF NOT EXISTS history_summary_count integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS history_summary_message_id uuid;
@@ -0,0 +1,42 @@
+/*
+  # Add New Users to the Default Team Channel
+
+  1. New Functions
+    - `add_user_to_default_team_channel` - Trigger function that makes a new user a member of
+      the default channel (#general)
+
+  2. Triggers
+    - `add_user_to_default_team_channel_trigger` on `auth.users` (after insert)
+
+  3. Notes
+    - The team channels migration only added the users that existed when it ran, so anyone
+      who signed up later had no #general membership and no unread counts for it
+    - Users who signed up since #general was created are added here as well
+*/
+
+CREATE OR REPLACE FUNCTION add_user_to_default_team_channel()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO astra_team_channel_members (channel_id, user_id)
+  SELECT id, NEW.id
+  FROM astra_team_channels
+  WHERE is_default
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS add_user_to_default_team_channel_trigger ON auth.users;
+
+CREATE TRIGGER add_user_to_default_team_channel_trigger
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION add_user_to_default_team_channel();
+
+-- Catch up on users who signed up after #general was created (earlier users who left stay out)
+INSERT INTO astra_team_channel_members (channel_id, user_id)
+SELECT c.id, u.id
+FROM astra_team_channels c
+CROSS JOIN auth.users u
+WHERE c.is_default AND u.created_at > c.created_at
+ON CONFLICT (channel_id, user_id) DO NOTHING;
@@ -0,0 +1,40 @@
+/*
+  # Restrict Team Channel Updates
+
+  1. Security
+    - `astra_chats`: restrictive UPDATE policy so a message can only be moved into a channel
+      the user can see (the SELECT and INSERT policies already required this)
+    - `astra_team_channels`: `is_default` can no longer be changed through the API, so channel
+      owners can't turn their channel into the default one or demote #general
+
+  2. New Functions
+    - `protect_default_team_channel` - Trigger function that rejects changes to `is_default`
+
+  3. Notes
+    - Migrations (which run without a signed-in user) can still change the default channel
+*/
+
+CREATE POLICY "Users can update team messages in own channels"
+  ON astra_chats
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (channel_id IS NULL OR can_view_team_channel(channel_id))
+  WITH CHECK (channel_id IS NULL OR can_view_team_channel(channel_id));
+
+CREATE OR REPLACE FUNCTION protect_default_team_channel()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_default IS DISTINCT FROM OLD.is_default AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'The default channel cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_default_team_channel_trigger ON astra_team_channels;
+
+CREATE TRIGGER protect_default_team_channel_trigger
+  BEFORE UPDATE ON astra_team_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_default_team_channel();
@@ -0,0 +1,37 @@
+/*
+  # Create Private Storage Bucket for Chat Attachments
+
+  1. Storage
+    - Create private 'chat-attachments' bucket for documents attached to private chat questions
+    - Files live under a folder named after the uploader's user id
+
+  2. Security
+    - Users can only upload, read and delete files in their own folder
+    - No public access; the app hands out short-lived signed URLs instead
+
+  3. Notes
+    - Attachments were previously uploaded to the public 'chat-media' bucket; those files stay
+      where they are and older messages keep linking to them
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-attachments', 'chat-attachments', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own chat attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'chat-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view own chat attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'chat-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own chat attachments"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'chat-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
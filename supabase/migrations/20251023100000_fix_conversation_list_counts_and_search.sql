@@ -0,0 +1,134 @@
+/*
+  # Fix Conversation List Counts and Search
+
+  1. Modified Views
+    - `astra_conversation_summaries` - `message_count` only counts messages on the active
+      branch, so edited or regenerated turns no longer inflate it
+
+  2. Modified Functions
+    - `get_astra_conversations` - `%`, `_` and `\` in the search term are escaped, so they
+      match literally instead of acting as ILIKE wildcards
+
+  3. Notes
+    - First/last message and last activity still consider every branch, as before
+*/
+
+CREATE OR REPLACE VIEW astra_conversation_summaries
+WITH (security_invoker = true) AS
+SELECT
+  stats.user_id,
+  stats.conversation_id,
+  stats.message_count,
+  stats.created_at,
+  stats.last_activity,
+  first_chat.message AS first_message,
+  last_chat.message AS last_message
+FROM (
+  SELECT
+    user_id,
+    conversation_id,
+    (COUNT(*) FILTER (WHERE is_active_branch))::integer AS message_count,
+    MIN(created_at) AS created_at,
+    MAX(created_at) AS last_activity
+  FROM astra_chats
+  WHERE mode = 'private'
+    AND conversation_id IS NOT NULL
+  GROUP BY user_id, conversation_id
+) stats
+CROSS JOIN LATERAL (
+  SELECT message
+  FROM astra_chats
+  WHERE astra_chats.user_id = stats.user_id
+    AND astra_chats.conversation_id = stats.conversation_id
+    AND astra_chats.mode = 'private'
+  ORDER BY created_at ASC
+  LIMIT 1
+) first_chat
+CROSS JOIN LATERAL (
+  SELECT message
+  FROM astra_chats
+  WHERE astra_chats.user_id = stats.user_id
+    AND astra_chats.conversation_id = stats.conversation_id
+    AND astra_chats.mode = 'private'
+  ORDER BY created_at DESC
+  LIMIT 1
+) last_chat;
+
+CREATE OR REPLACE FUNCTION get_astra_conversations(
+  p_limit integer DEFAULT 30,
+  p_cursor_pinned boolean DEFAULT NULL,
+  p_cursor_activity timestamptz DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_archived boolean DEFAULT false,
+  p_folder text DEFAULT NULL,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  title text,
+  last_message text,
+  message_count integer,
+  created_at timestamptz,
+  last_activity timestamptz,
+  has_custom_title boolean,
+  is_pinned boolean,
+  is_archived boolean,
+  folder text,
+  tags text[]
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    summaries.conversation_id,
+    COALESCE(
+      settings.title,
+      CASE
+        WHEN length(summaries.first_message) > 50 THEN left(summaries.first_message, 50) || '...'
+        ELSE summaries.first_message
+      END
+    ) AS title,
+    CASE
+      WHEN length(summaries.last_message) > 100 THEN left(summaries.last_message, 100) || '...'
+      ELSE summaries.last_message
+    END AS last_message,
+    summaries.message_count,
+    summaries.created_at,
+    summaries.last_activity,
+    COALESCE(settings.is_title_custom, false) AS has_custom_title,
+    COALESCE(settings.is_pinned, false) AS is_pinned,
+    COALESCE(settings.is_archived, false) AS is_archived,
+    settings.folder,
+    COALESCE(settings.tags, '{}') AS tags
+  FROM astra_conversation_summaries summaries
+  LEFT JOIN astra_conversations settings
+    ON settings.conversation_id = summaries.conversation_id
+  CROSS JOIN (
+    SELECT '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ) search
+  WHERE summaries.user_id = auth.uid()
+    AND COALESCE(settings.is_archived, false) = p_archived
+    AND (p_folder IS NULL OR settings.folder = p_folder)
+    AND (
+      p_search IS NULL
+      OR settings.title ILIKE search.pattern ESCAPE '\'
+      OR summaries.first_message ILIKE search.pattern ESCAPE '\'
+      OR summaries.last_message ILIKE search.pattern ESCAPE '\'
+      OR settings.folder ILIKE search.pattern ESCAPE '\'
+      OR EXISTS (SELECT 1 FROM unnest(settings.tags) AS tag WHERE tag ILIKE search.pattern ESCAPE '\')
+    )
+    AND (
+      p_cursor_activity IS NULL
+      OR (COALESCE(settings.is_pinned, false)::integer, summaries.last_activity, summaries.conversation_id)
+        < (COALESCE(p_cursor_pinned, false)::integer, p_cursor_activity, p_cursor_id)
+    )
+  ORDER BY
+    COALESCE(settings.is_pinned, false) DESC,
+    summaries.last_activity DESC,
+    summaries.conversation_id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$;
+
+GRANT SELECT ON astra_conversation_summaries TO authenticated;
+GRANT EXECUTE ON FUNCTION get_astra_conversations(integer, boolean, timestamptz, uuid, boolean, text, text) TO authenticated;